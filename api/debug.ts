@@ -2,7 +2,7 @@ export const config = {
   runtime: 'edge',
 };
 
-import { kv } from '@vercel/kv';
+import { getStateStore } from '../lib/core/store/index.js';
 
 export default async function handler(req: Request) {
   const url = new URL(req.url);
@@ -11,20 +11,20 @@ export default async function handler(req: Request) {
   try {
     if (action === 'write') {
       // Test write
-      await kv.set('debug:test', { 
+      await getStateStore().set('debug:test', { 
         timestamp: new Date().toISOString(),
-        message: 'KV is working!' 
+        message: 'Store is working!' 
       });
-      return new Response(JSON.stringify({ success: true, action: 'write' }), {
+      return new Response(JSON.stringify({ success: true, action: 'write', backend: getStateStore().backend }), {
         headers: { 'Content-Type': 'application/json' },
       });
     }
     
     if (action === 'read') {
       // Test read
-      const testData = await kv.get('debug:test');
-      const conversations = await kv.get('memory:recent');
-      const commitments = await kv.get('memory:commitments');
+      const testData = await getStateStore().get('debug:test');
+      const conversations = await getStateStore().get('memory:recent');
+      const commitments = await getStateStore().get('memory:commitments');
       
       return new Response(JSON.stringify({
         testData,
@@ -0,0 +1,80 @@
+export const config = { runtime: 'edge', maxDuration: 30 };
+
+import { info, error as logErr } from '../lib/core/logger.js';
+import { getUser, setUserGitHubConnection } from '../lib/core/users.js';
+import {
+  consumeConnectState,
+  getInstallation,
+  isGitHubAppConfigured,
+  verifyInstallationAccess,
+} from '../lib/core/github-app.js';
+
+const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN!;
+
+/**
+ * GitHub App "Setup URL" - GitHub redirects here after the app is installed
+ * (or its repo selection changed), carrying the state from /connect.
+ */
+export default async function handler(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const installationId = Number(url.searchParams.get('installation_id'));
+  const setupAction = url.searchParams.get('setup_action');
+  const state = url.searchParams.get('state');
+  const code = url.searchParams.get('code');
+
+  if (!installationId || !state) {
+    return page('Missing parameters', 'Start again with /connect in Telegram.', 400);
+  }
+  // Without the OAuth client nothing proves the installer owns installation_id
+  if (!isGitHubAppConfigured()) {
+    return page('Not configured', 'GitHub App connections aren\'t enabled on this deployment. Use /token in Telegram.', 503);
+  }
+
+  try {
+    const userId = await consumeConnectState(state);
+    const user = userId ? await getUser(userId) : null;
+    if (!user) {
+      return page('Link expired', 'That connect link was already used or has expired. Send /connect again.', 400);
+    }
+
+    // The query string is attacker-controlled: bind only what the installer's own token can see
+    if (!await verifyInstallationAccess(code, installationId)) {
+      info('github-callback', 'Installation not verified', { user: user.id, installationId, hasCode: !!code });
+      return page('Not authorized', 'Couldn\'t confirm your GitHub account can access that installation. Send /connect again.', 403);
+    }
+
+    const installation = await getInstallation(installationId);
+    const login = installation.account.login;
+    await setUserGitHubConnection(user, { type: 'app', installation_id: installationId, login });
+    info('github-callback', 'Connected', { user: user.id, installationId, login, setupAction });
+
+    await sendTelegram(user.id, `✅ GitHub connected as **${login}**. Try /scan.`);
+    return page('Connected', `GitHub account ${escapeHtml(login)} is connected. You can close this tab.`);
+  } catch (err) {
+    logErr('github-callback', err, { installationId });
+    return page('Something went wrong', 'Couldn\'t finish connecting. Try /connect again.', 500);
+  }
+}
+
+async function sendTelegram(chatId: string, text: string): Promise<void> {
+  const res = await fetch(`https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chat_id: chatId, text, parse_mode: 'Markdown' }),
+  });
+  if (!res.ok) {
+    logErr('github-callback', new Error(`Telegram error: ${await res.text()}`));
+  }
+}
+
+function page(title: string, message: string, status = 200): Response {
+  const html = `<!doctype html><html><head><meta charset="utf-8"><title>${title}</title>` +
+    `<meta name="viewport" content="width=device-width,initial-scale=1"></head>` +
+    `<body style="font-family:system-ui;max-width:32rem;margin:4rem auto;padding:0 1rem">` +
+    `<h1>${title}</h1><p>${message}</p></body></html>`;
+  return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
@@ -1,11 +1,16 @@
-export const config = { runtime: 'edge', maxDuration: 30 };
+export const config = { runtime: 'edge', maxDuration: 60 };
 
 import { info, error as logErr } from '../lib/core/logger.js';
 import { stateManager } from '../lib/core/state.js';
+import { listUsers, getOwnerId, runAsUser, type BotUser } from '../lib/core/users.js';
+import { getGitHubClient } from '../lib/core/github.js';
+import { getStateStore } from '../lib/core/store/index.js';
 import { buildGitHubRepoKeyboardRaw } from '../lib/links/index.js';
+import { formatWebhookEvent, isSupportedEvent } from '../lib/webhooks/events.js';
+import { reanalyzeOnPush, type PushCommit } from '../lib/webhooks/reanalysis.js';
+import { scanPush, formatLeakAlert, type LeakFinding } from '../lib/leak-scanner.js';
 
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN!;
-const CHAT_ID = process.env.USER_TELEGRAM_CHAT_ID!;
 const GITHUB_WEBHOOK_SECRET = process.env.GITHUB_WEBHOOK_SECRET || '';
 
 interface PushEvent {
@@ -14,13 +19,7 @@ interface PushEvent {
     id: string;
     message: string;
   } | null;
-  commits: Array<{
-    id: string;
-    message: string;
-    added: string[];
-    removed: string[];
-    modified: string[];
-  }>;
+  commits: PushCommit[];
   repository: {
     full_name: string;
     default_branch: string;
@@ -74,9 +73,9 @@ async function verifySignature(payload: string, signature: string | null): Promi
 /**
  * Send message to Telegram
  */
-async function sendTelegram(text: string, replyMarkup?: object): Promise<void> {
+async function sendTelegram(chatId: string, text: string, replyMarkup?: object): Promise<void> {
   const body: Record<string, unknown> = {
-    chat_id: CHAT_ID,
+    chat_id: chatId,
     text,
     parse_mode: 'Markdown',
   };
@@ -97,6 +96,89 @@ async function sendTelegram(text: string, replyMarkup?: object): Promise<void> {
   }
 }
 
+/**
+ * Users who should hear about a repo: anyone tracking or watching it and not
+ * muted. Falls back to the owner when nobody claims it (single-user setups
+ * point every repo's webhook here without tracking them first).
+ */
+async function getRecipients(fullName: string, ctx = 'webhook.push'): Promise<BotUser[]> {
+  const [owner, name] = fullName.split('/');
+  const users = await listUsers();
+  const recipients: BotUser[] = [];
+  let claimed = false;
+
+  for (const user of users) {
+    const state = stateManager.forUser(user);
+    const interested = await state.isRepoWatched(fullName) || !!(await state.getTrackedRepo(owner, name));
+    if (!interested) continue;
+    claimed = true;
+    if (await state.isRepoMuted(fullName)) {
+      info(ctx, 'Repo muted', { fullName, user: user.id });
+      continue;
+    }
+    recipients.push(user);
+  }
+
+  if (!claimed) {
+    const ownerUser = users.find(u => u.id === getOwnerId());
+    if (ownerUser && !await stateManager.forUser(ownerUser).isRepoMuted(fullName)) {
+      recipients.push(ownerUser);
+    }
+  }
+
+  return recipients;
+}
+
+async function filterAsync<T>(items: T[], keep: (item: T) => Promise<boolean>): Promise<T[]> {
+  const kept = await Promise.all(items.map(keep));
+  return items.filter((_, i) => kept[i]);
+}
+
+/**
+ * Scan a push for credentials and alert the recipients who watch the repo
+ */
+async function alertLeaks(recipients: BotUser[], fullName: string, commits: PushCommit[]): Promise<void> {
+  const watchers = await filterAsync(recipients, user => stateManager.forUser(user).isRepoWatched(fullName));
+  if (watchers.length === 0) return;
+
+  const [owner, name] = fullName.split('/');
+  const leaks = await scanPushForLeaks(watchers, owner, name, commits);
+  if (leaks.length === 0) return;
+
+  info('webhook.push', 'Possible leaked credentials', { fullName, findings: leaks.length });
+  const alert = formatLeakAlert(fullName, leaks);
+  const sent = await Promise.allSettled(watchers.map(user => sendTelegram(user.id, alert)));
+  sent.forEach((result, i) => {
+    if (result.status === 'rejected') logErr('webhook.leaks', result.reason, { fullName, user: watchers[i].id });
+  });
+}
+
+/**
+ * Scan a push as the first watcher whose GitHub access can read the repo.
+ * Never throws: the push notification is already out, and a 500 here would
+ * make GitHub redeliver it.
+ */
+async function scanPushForLeaks(
+  watchers: BotUser[],
+  owner: string,
+  name: string,
+  commits: PushCommit[]
+): Promise<LeakFinding[]> {
+  for (const user of watchers) {
+    try {
+      const leaks = await runAsUser(user, async () => {
+        const github = getGitHubClient();
+        if (!await github.getRepoInfo(owner, name)) return null;
+        return scanPush(github, owner, name, commits);
+      });
+      if (leaks) return leaks;
+      info('webhook.leaks', 'Repo not readable with this user\'s access', { owner, name, user: user.id });
+    } catch (err) {
+      logErr('webhook.leaks', err, { owner, name, user: user.id });
+    }
+  }
+  return [];
+}
 
 /**
  * Format a simple push notification (no AI, just commit summary)
@@ -105,13 +187,7 @@ async function sendTelegram(text: string, replyMarkup?: object): Promise<void> {
 function formatSimplePush(
   repoName: string,
   fullName: string,
-  commits: Array<{
-    id: string;
-    message: string;
-    added: string[];
-    removed: string[];
-    modified: string[];
-  }>
+  commits: PushCommit[]
 ): string {
   const lines: string[] = [];
   
@@ -168,7 +244,12 @@ function formatSimplePush(
   return lines.join('\n');
 }
 
-export default async function handler(req: Request) {
+/** Vercel passes this to edge functions; absent under other runtimes */
+interface EdgeContext {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+export default async function handler(req: Request, context?: EdgeContext) {
   if (req.method !== 'POST') {
     return new Response('Method not allowed', { status: 405 });
   }
@@ -176,9 +257,8 @@ export default async function handler(req: Request) {
   const event = req.headers.get('X-GitHub-Event');
   const signature = req.headers.get('X-Hub-Signature-256');
   
-  // Only handle push events
-  if (event !== 'push') {
-    return new Response(JSON.stringify({ ok: true, skipped: 'not push event' }), {
+  if (!event || (event !== 'push' && !isSupportedEvent(event))) {
+    return new Response(JSON.stringify({ ok: true, skipped: 'unsupported event' }), {
       headers: { 'Content-Type': 'application/json' },
     });
   }
@@ -190,6 +270,10 @@ export default async function handler(req: Request) {
     info('webhook', 'Invalid signature');
     return new Response('Invalid signature', { status: 401 });
   }
+
+  if (event !== 'push') {
+    return handleEvent(event, payload, req.headers.get('X-GitHub-Delivery'));
+  }
   
   try {
     const push: PushEvent = JSON.parse(payload);
@@ -221,14 +305,14 @@ export default async function handler(req: Request) {
                 });
     }
     
-    // Check if muted
-    const isMuted = await stateManager.isRepoMuted(fullName);
-    if (isMuted) {
-      info('webhook.push', 'Repo muted', { fullName });
+    // Resolve who gets notified (per-user watch lists and mutes)
+    const recipients = await getRecipients(fullName);
+    if (recipients.length === 0) {
+      info('webhook.push', 'No recipients', { fullName });
       return new Response(JSON.stringify({ ok: true, skipped: 'muted' }), {
-            headers: { 'Content-Type': 'application/json' },
-          });
-        }
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
     
     // Idempotency check
     if (headSha) {
@@ -250,11 +334,29 @@ export default async function handler(req: Request) {
     const [owner, name] = fullName.split('/');
     const keyboard = buildGitHubRepoKeyboardRaw(owner, name);
     
-    // Send notification
-    info('webhook.push', 'Sending notification', { fullName, commits: push.commits.length });
-    await sendTelegram(message, keyboard);
+    // Send notification to each recipient
+    info('webhook.push', 'Sending notification', { fullName, commits: push.commits.length, recipients: recipients.length });
+    await Promise.all(recipients.map(user => sendTelegram(user.id, message, keyboard)));
+
+    // Credentials in the pushed diffs - watched repos only, scanned once,
+    // sent to every watcher. Up to 10 diff fetches, so also after the response.
+    const leakScan = alertLeaks(recipients, fullName, push.commits)
+      .catch(err => logErr('webhook.leaks', err, { fullName }));
+
+    // Watchers get a verdict diff when the push touched cut/keep files,
+    // the README or a pride blocker. One AI call per push, run after the
+    // response - GitHub gives up on deliveries after 10s and redelivers.
+    const reanalysis = reanalyzeOnPush(recipients, owner, name, push.commits)
+      .then(diffs => Promise.all(diffs.map(({ user, message }) => sendTelegram(user.id, message, keyboard))))
+      .catch(err => logErr('webhook.reanalyze', err, { fullName }));
+    if (context) {
+      context.waitUntil(leakScan);
+      context.waitUntil(reanalysis);
+    } else {
+      await Promise.all([leakScan, reanalysis]);
+    }
     
-    return new Response(JSON.stringify({ ok: true, notified: true }), {
+    return new Response(JSON.stringify({ ok: true, notified: recipients.length }), {
       headers: { 'Content-Type': 'application/json' },
     });
     
@@ -266,3 +368,68 @@ export default async function handler(req: Request) {
     });
   }
 }
+
+/** Delivery IDs are kept a day to drop GitHub's redeliveries */
+const DELIVERY_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Releases, CI failures, PRs, issues, stars and deployments
+ */
+async function handleEvent(event: string, payload: string, deliveryId: string | null): Promise<Response> {
+  const ctx = `webhook.${event}`;
+
+  try {
+    const notification = formatWebhookEvent(event, JSON.parse(payload));
+    if (!notification) {
+      return new Response(JSON.stringify({ ok: true, skipped: 'ignored action' }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { fullName, message, link } = notification;
+    info(ctx, 'Received', { fullName, deliveryId });
+
+    const recipients = await getRecipients(fullName, ctx);
+    if (recipients.length === 0) {
+      info(ctx, 'No recipients', { fullName });
+      return new Response(JSON.stringify({ ok: true, skipped: 'muted' }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Idempotency check (GitHub redelivers on timeouts). Claimed before
+    // sending so concurrent redeliveries don't double up, released below
+    // if nothing got through so a redelivery can retry.
+    const deliveryKey = deliveryId ? `webhook:delivery:${deliveryId}` : null;
+    if (deliveryKey && !await getStateStore().setnx(deliveryKey, true, DELIVERY_TTL_SECONDS)) {
+      info(ctx, 'Duplicate', { fullName, deliveryId });
+      return new Response(JSON.stringify({ ok: true, skipped: 'duplicate' }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [owner, name] = fullName.split('/');
+    const keyboard = buildGitHubRepoKeyboardRaw(owner, name, link);
+
+    info(ctx, 'Sending notification', { fullName, recipients: recipients.length });
+    const sends = await Promise.allSettled(recipients.map(user => sendTelegram(user.id, message, keyboard)));
+    const notified = sends.filter(s => s.status === 'fulfilled').length;
+    if (notified === 0) {
+      if (deliveryKey) await getStateStore().del(deliveryKey);
+      throw (sends[0] as PromiseRejectedResult).reason;
+    }
+    if (notified < recipients.length) {
+      info(ctx, 'Some sends failed', { fullName, notified, recipients: recipients.length });
+    }
+
+    return new Response(JSON.stringify({ ok: true, notified }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (err) {
+    logErr(ctx, err);
+    return new Response(JSON.stringify({ error: String(err) }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -2,7 +2,8 @@ export const config = {
   runtime: 'edge',
 };
 
-import { getAIHealthStatus, TASK_ROUTING } from '../lib/core/config.js';
+import { getAIHealthStatus, getTaskConfig, TASK_ROUTING, type TaskType } from '../lib/core/config.js';
+import { resolveStoreBackend } from '../lib/core/store/index.js';
 
 // Health check endpoint to debug configuration
 export default async function handler(req: Request) {
@@ -27,13 +28,14 @@ export default async function handler(req: Request) {
   return new Response(JSON.stringify({
     status: allSet ? 'ok' : 'missing_env',
     env: envCheck,
+    state_store: resolveStoreBackend(),
     ai: {
       providers: aiStatus,
       routing: Object.fromEntries(
-        Object.entries(TASK_ROUTING).map(([task, config]) => [
-          task,
-          `${config.provider}/${config.model.split('-').slice(0, 2).join('-')}`,
-        ])
+        (Object.keys(TASK_ROUTING) as TaskType[]).map(task => {
+          const config = getTaskConfig(task);
+          return [task, `${config.provider}/${config.model.split('-').slice(0, 2).join('-')}`];
+        })
       ),
     },
     timestamp: new Date().toISOString(),
@@ -1,6 +1,6 @@
 export const config = { runtime: 'edge' };
 
-import { kv } from '@vercel/kv';
+import { getStateStore } from '../lib/core/store/index.js';
 
 // Cache key and TTL (4 hours)
 const CACHE_KEY = 'portfolio:data';
@@ -184,7 +184,7 @@ export default async function handler(req: Request): Promise<Response> {
   try {
     // Check cache first (unless refresh requested)
     if (!forceRefresh) {
-      const cached = await kv.get<PortfolioData>(CACHE_KEY);
+      const cached = await getStateStore().get<PortfolioData>(CACHE_KEY);
       if (cached) {
         return new Response(JSON.stringify(cached), { headers });
       }
@@ -195,7 +195,7 @@ export default async function handler(req: Request): Promise<Response> {
     const portfolio = buildPortfolio(repos);
 
     // Cache it
-    await kv.set(CACHE_KEY, portfolio, { ex: CACHE_TTL });
+    await getStateStore().set(CACHE_KEY, portfolio, { ex: CACHE_TTL });
 
     return new Response(JSON.stringify(portfolio), { headers });
   } catch (error) {
@@ -1,24 +1,26 @@
 export const config = { runtime: 'nodejs', maxDuration: 300 };
 
 import { Bot, InlineKeyboard, Context, InputFile } from 'grammy';
-import { kv } from '@vercel/kv';
+import { getStateStore } from '../lib/core/store/index.js';
 import type { Update, UserFromGetMe } from 'grammy/types';
 
 // Core imports
 import { info, error as logErr } from '../lib/core/logger.js';
 import { stateManager } from '../lib/core/state.js';
-import { GitHubClient } from '../lib/core/github.js';
-import { getAnthropicClient } from '../lib/core/config.js';
+import { getGitHubClient, getCurrentRateLimit } from '../lib/core/github.js';
+import { getLLMClient } from '../lib/llm/index.js';
 import type { TrackedRepo } from '../lib/core/types.js';
 import { normalizeRepoInput } from '../lib/utils/github-url.js';
 import { linkRegistry, allLinkHandlers } from '../lib/links/index.js';
 import { shouldProcessUpdate, acquireLock, releaseLock } from '../lib/core/update-guard.js';
+import { getUser, redeemInvite, runAsUser } from '../lib/core/users.js';
 
 // Tool registry
 import { registry, allTools } from '../lib/tools/index.js';
 
 // Repo analyzer
 import { getRepoAnalyzer, RepoAnalyzer } from '../lib/tools/repo/analyzer.js';
+import { needsAnalysis, prefetchSnapshots } from '../lib/tools/scan/snapshots.js';
 
 // Legacy imports (to be migrated incrementally)
 import { handleRepo, handleRepoDetails, handleRepoBack } from '../lib/bot/handlers/repo.js';
@@ -55,9 +57,7 @@ import { createSkillContext } from '../lib/skills/_shared/context.js';
 const bot = new Bot(process.env.TELEGRAM_BOT_TOKEN!, {
   botInfo: getBotInfo(process.env.TELEGRAM_BOT_TOKEN!),
 });
-const chatId = process.env.USER_TELEGRAM_CHAT_ID!.trim();
 
-let github: GitHubClient | null = null;
 let toolsRegistered = false;
 
 function getBotInfo(token: string): UserFromGetMe {
@@ -72,11 +72,6 @@ function getAnalyzer(): RepoAnalyzer {
   return getRepoAnalyzer();
 }
 
-function getGitHub(): GitHubClient {
-  if (!github) github = new GitHubClient(process.env.GITHUB_TOKEN!);
-  return github;
-}
-
 async function showTyping(ctx: Context): Promise<void> {
   if (ctx.chat) await ctx.api.sendChatAction(ctx.chat.id, 'typing');
 }
@@ -101,6 +96,37 @@ async function initTools(): Promise<void> {
   info('telegram', 'Initialized', { tools: allTools.length, linkHandlers: allLinkHandlers.length });
 }
 
+// ============ AUTH ============
+
+/**
+ * Allowlist gate - every update runs scoped to its sender's namespace.
+ * Strangers can only get in by redeeming an invite: `/start <code>`
+ * (t.me/<bot>?start=<code> deep links arrive the same way).
+ */
+bot.use(async (ctx, next) => {
+  if (!ctx.from) return;
+
+  let user = await getUser(ctx.from.id);
+  if (!user) {
+    const text = ctx.message?.text || '';
+    const code = text.match(/^\/start\s+(\S+)/)?.[1];
+    user = code ? await redeemInvite(code, ctx.from) : null;
+
+    if (!user) {
+      info('auth', 'Rejected', { from: ctx.from.id });
+      if (text.startsWith('/start')) {
+        await ctx.reply('🔒 This bot is invite-only. Ask the owner for an invite link.');
+      }
+      return;
+    }
+
+    info('auth', 'Invite redeemed', { user: user.id, invitedBy: user.invited_by });
+    await ctx.reply('👋 You\'re in! Send /connect so I can read your repos.');
+  }
+
+  await runAsUser(user, next);
+});
+
 // ============ COMMANDS ============
 
 bot.command('start', async (ctx) => {
@@ -121,13 +147,16 @@ bot.command('help', async (ctx) => {
   await ctx.reply(`**Commands**
 
 📊 **Analysis**
-/repo <name> — Analyze a GitHub repo
+/repo <name> — Analyze a GitHub repo (owner/name#path for a monorepo package)
 /scan — Batch analyze recent repos
 /status — See repo counts
+/history <repo> — Verdict timeline and diffs
+/usage — LLM tokens and cost this month
 
 🎨 **Generation**
 /preview <repo> — Generate cover image
 /readme <repo> — Generate/optimize README
+/publish pr — Open PRs instead of committing directly
 
 🎴 **Feed**
 /next — Get your next task card
@@ -135,6 +164,12 @@ bot.command('help', async (ctx) => {
 📈 **Charts**
 Send a photo → get TA with key zones
 
+👥 **Access**
+/connect — Connect your GitHub account
+/token <pat> — Or use a personal token
+/invite — Invite a teammate (owner)
+/users — Who has access (owner)
+
 💡 **Pro tip:** Paste any GitHub URL to get a TLDR with cover image!`, { parse_mode: 'Markdown' });
 });
 
@@ -142,7 +177,6 @@ Send a photo → get TA with key zones
 
 // /preview - delegates to preview tool (accepts URLs too)
 bot.command('preview', async (ctx) => {
-  if (ctx.from?.id.toString() !== chatId) return;
   const rawInput = (ctx.message?.text || '').replace('/preview', '').trim();
   const input = normalizeRepoInput(rawInput); // Handles URLs → owner/name
   
@@ -155,7 +189,6 @@ bot.command('preview', async (ctx) => {
 
 // /readme - delegates to readme tool (accepts URLs too)
 bot.command('readme', async (ctx) => {
-  if (ctx.from?.id.toString() !== chatId) return;
   const rawInput = (ctx.message?.text || '').replace('/readme', '').trim();
   const input = normalizeRepoInput(rawInput); // Handles URLs → owner/name
   
@@ -166,10 +199,17 @@ bot.command('readme', async (ctx) => {
   }
 });
 
+// /invite, /users, /revoke, /connect, /disconnect, /token - users tool; /publish - publish tool; /history - history tool; /usage - usage tool
+for (const command of ['invite', 'users', 'revoke', 'connect', 'disconnect', 'token', 'publish', 'history', 'usage']) {
+  bot.command(command, async (ctx) => {
+    const input = (ctx.message?.text || '').replace(`/${command}`, '').trim();
+    await registry.handleCommand(command, ctx, input);
+  });
+}
+
 // ============ EXISTING COMMANDS (to be migrated later) ============
 
 bot.command('next', async (ctx) => {
-  if (ctx.from?.id.toString() !== chatId) return;
   
   // Layer 2: Command-level lock prevents concurrent /next card generation
   const lockKey = `next:${ctx.chat!.id}`;
@@ -202,7 +242,7 @@ bot.command('next', async (ctx) => {
       } catch { /* rate limit */ }
     };
 
-    const card = await getNextCard(getAnthropicClient(), getGitHub(), repos, onProgress);
+    const card = await getNextCard(getLLMClient(), getGitHubClient(), repos, onProgress);
     if (!card) {
       await ctx.api.editMessageText(chatIdNum, progressMsg.message_id, formatNoMoreCards(), {
         parse_mode: 'Markdown',
@@ -240,7 +280,6 @@ bot.command('next', async (ctx) => {
 });
 
 bot.command('scan', async (ctx) => {
-  if (ctx.from?.id.toString() !== chatId) return;
   
   // Layer 2: Command-level lock prevents concurrent scans from Telegram retries
   const lockKey = `scan:${ctx.chat!.id}`;
@@ -268,24 +307,24 @@ bot.command('scan', async (ctx) => {
 });
 
 bot.command('cancel', async (ctx) => {
-  if (ctx.from?.id.toString() !== chatId) return;
   await stateManager.cancelActiveScan();
   await ctx.reply('✅ Scan cancelled.');
 });
 
 bot.command('status', async (ctx) => {
-  if (ctx.from?.id.toString() !== chatId) return;
-  const counts = await stateManager.getRepoCounts();
-  await ctx.reply(formatStatus(counts), {
+  const [counts, rateLimit] = await Promise.all([
+    stateManager.getRepoCounts(),
+    getCurrentRateLimit(),
+  ]);
+  await ctx.reply(formatStatus(counts, rateLimit), {
     parse_mode: 'Markdown',
     reply_markup: new InlineKeyboard().text('🔍 Scan', 'quickscan').text('📋 List', 'listall'),
   });
 });
 
 bot.command('repo', async (ctx) => {
-  if (ctx.from?.id.toString() !== chatId) return;
   const rawInput = (ctx.message?.text || '').replace('/repo', '').trim();
-  if (!rawInput) { await ctx.reply('Usage: /repo <name> or /repo owner/name or /repo <github-url>'); return; }
+  if (!rawInput) { await ctx.reply('Usage: /repo <name> or /repo owner/name or /repo <github-url>\nMonorepo package: /repo owner/name#packages/foo'); return; }
   const input = normalizeRepoInput(rawInput); // Handles URLs → owner/name
   handleRepo(ctx, input).catch(err => logErr('repo', err, { input }));
 });
@@ -303,7 +342,8 @@ async function runScan(ctx: Context, days: number): Promise<void> {
 
   try {
     const progressMsg = await ctx.reply('🔍 Fetching repos...');
-    const repos = await getGitHub().getRecentRepos(days);
+    const github = getGitHubClient();
+    const repos = await github.getRecentRepos(days);
 
     if (repos.length === 0) {
       await stateManager.cancelActiveScan();
@@ -347,6 +387,8 @@ async function runScan(ctx: Context, days: number): Promise<void> {
       { parse_mode: 'Markdown' }
     );
 
+    const snapshots = await prefetchSnapshots(github, repos);
+
     let hitTimeout = false;
     for (let i = 0; i < repos.length; i += 5) {
       if (Date.now() - startTime > TIMEOUT) {
@@ -367,17 +409,7 @@ async function runScan(ctx: Context, days: number): Promise<void> {
         try {
           let tracked = await stateManager.getTrackedRepo(owner, name);
 
-          if (tracked?.state === 'shipped' || tracked?.state === 'dead') {
-            cached++;
-            countVerdict(tracked);
-            analyzed.push(tracked);
-            await updateProgress();
-            return;
-          }
-
-          const hasAnalysis = tracked?.analysis !== null;
-          const hasNewCommits = new Date(repo.pushed_at).getTime() > (tracked?.analyzed_at ? new Date(tracked.analyzed_at).getTime() : 0);
-          if (hasAnalysis && !hasNewCommits && tracked) {
+          if (tracked && !needsAnalysis(repo, tracked)) {
             cached++;
             countVerdict(tracked);
             analyzed.push(tracked);
@@ -385,7 +417,8 @@ async function runScan(ctx: Context, days: number): Promise<void> {
             return;
           }
 
-          const analysis = await getAnalyzer().analyzeRepo(owner, name);
+          // No code sampling in bulk, even when the snapshot is missing
+          const analysis = await getAnalyzer().analyzeRepo(owner, name, snapshots.get(repo.full_name), { sampleCode: false });
           tracked = {
             id: `${owner}/${name}`, name, owner,
             state: verdictToState(analysis.verdict),
@@ -579,7 +612,7 @@ bot.on('callback_query:data', async (ctx) => {
         }
       };
 
-      const card = await getNextCard(getAnthropicClient(), getGitHub(), repos, onProgress);
+      const card = await getNextCard(getLLMClient(), getGitHubClient(), repos, onProgress);
       if (!card) {
         if (messageId && chatIdNum) {
           await ctx.api.editMessageText(chatIdNum, messageId, formatNoMoreCards(), {
@@ -744,7 +777,7 @@ async function handleSessionAction(ctx: Context, action: string, parts: string[]
       if (repo) {
         try {
           await ctx.api.editMessageText(chatIdNum, messageId, '🔄 Session expired — refreshing...', { parse_mode: 'Markdown' });
-          const card = await generateCard(getAnthropicClient(), getGitHub(), repo);
+          const card = await generateCard(getLLMClient(), getGitHubClient(), repo);
           session = await createCardSession(card);
           await ctx.api.editMessageText(chatIdNum, messageId, formatRepoCard(card), {
             parse_mode: 'Markdown',
@@ -774,12 +807,10 @@ async function handleSessionAction(ctx: Context, action: string, parts: string[]
   const expensiveActions = ['do', 'dostep', 'deep', 'skip'];
   const actionKey = `action:${sessionId}:${action}`;
   if (expensiveActions.includes(action)) {
-    const inFlight = await kv.get(actionKey);
-    if (inFlight) {
+    if (!await getStateStore().setnx(actionKey, true, 60)) {
       await ctx.answerCallbackQuery({ text: '⏳ Already processing...' });
       return;
     }
-    await kv.set(actionKey, true, { ex: 60 });
   }
 
   const card = session.card;
@@ -793,7 +824,7 @@ async function handleSessionAction(ctx: Context, action: string, parts: string[]
         
         try {
           const repos = await stateManager.getAllTrackedRepos();
-          const nextCard = await getNextCard(getAnthropicClient(), getGitHub(), repos);
+          const nextCard = await getNextCard(getLLMClient(), getGitHubClient(), repos);
           
           if (!nextCard) {
             await ctx.api.editMessageText(chatIdNum, messageId, formatNoMoreCards(), {
@@ -820,11 +851,11 @@ async function handleSessionAction(ctx: Context, action: string, parts: string[]
         await showTyping(ctx);
         try {
           const [readme, fileTree] = await Promise.all([
-            getGitHub().getFileContent(owner, name, 'README.md'),
-            getGitHub().getRepoTree(owner, name, 30),
+            getGitHubClient().getFileContent(owner, name, 'README.md'),
+            getGitHubClient().getRepoTree(owner, name, 30),
           ]);
           
-          const deepDive = await generateDeepDive(getAnthropicClient(), {
+          const deepDive = await generateDeepDive(getLLMClient().forRepo(`${owner}/${name}`), {
             repo_card: card,
             readme_excerpt: readme || undefined,
             file_tree: fileTree,
@@ -883,9 +914,9 @@ async function handleSessionAction(ctx: Context, action: string, parts: string[]
           
           switch (artifactType) {
             case 'cursor_prompt': {
-              const fileTree = await getGitHub().getRepoTree(owner, name, 50);
-              const readme = await getGitHub().getFileContent(owner, name, 'README.md');
-              const prompt = await generateCursorPromptArtifact(getAnthropicClient(), {
+              const fileTree = await getGitHubClient().getRepoTree(owner, name, 50);
+              const readme = await getGitHubClient().getFileContent(owner, name, 'README.md');
+              const prompt = await generateCursorPromptArtifact(getLLMClient().forRepo(`${owner}/${name}`), {
                 repo_name: name,
                 next_step_action: card.next_step.action,
                 target_files_candidates: fileTree,
@@ -895,7 +926,7 @@ async function handleSessionAction(ctx: Context, action: string, parts: string[]
               break;
             }
             case 'copy': {
-              const copy = await generateCopy(getAnthropicClient(), {
+              const copy = await generateCopy(getLLMClient().forRepo(`${owner}/${name}`), {
                 potential: card.potential,
                 cta_style: 'direct_link',
                 product_url: `https://${name}.vercel.app`,
@@ -904,7 +935,7 @@ async function handleSessionAction(ctx: Context, action: string, parts: string[]
               break;
             }
             case 'launch_post': {
-              const post = await generateLaunchPost(getAnthropicClient(), {
+              const post = await generateLaunchPost(getLLMClient().forRepo(`${owner}/${name}`), {
                 potential: card.potential,
                 product_url: `https://${name}.vercel.app`,
                 platform: 'x',
@@ -938,7 +969,7 @@ async function handleSessionAction(ctx: Context, action: string, parts: string[]
       
         try {
           const repos = await stateManager.getAllTrackedRepos();
-          const nextCard = await getNextCard(getAnthropicClient(), getGitHub(), repos);
+          const nextCard = await getNextCard(getLLMClient(), getGitHubClient(), repos);
           
           if (!nextCard) {
             await ctx.api.editMessageText(chatIdNum, messageId, formatNoMoreCards(), {
@@ -963,7 +994,7 @@ async function handleSessionAction(ctx: Context, action: string, parts: string[]
     }
   } finally {
     if (expensiveActions.includes(action)) {
-      await kv.del(actionKey);
+      await getStateStore().del(actionKey);
     }
   }
 }
@@ -989,7 +1020,6 @@ function repoKeyboard(repo: TrackedRepo): InlineKeyboard {
 // ============ PHOTO HANDLER (Chart Analysis) ============
 
 bot.on('message:photo', async (ctx) => {
-  if (ctx.from?.id.toString() !== chatId) return;
   info('photo', 'Received chart image', { from: ctx.from?.id });
 
   const chatIdNum = ctx.chat!.id;
@@ -1082,7 +1112,7 @@ import { handleFeedbackReply } from '../lib/tools/preview/feedback.js';
 
 bot.on('message:text', async (ctx) => {
   const text = ctx.message.text;
-  if (ctx.from?.id.toString() !== chatId || text.startsWith('/')) return;
+  if (text.startsWith('/')) return;
 
   // Check if this is a feedback reply for preview tool
   // This must come before other text handling
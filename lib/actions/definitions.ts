@@ -8,10 +8,11 @@
 import type { Action, ActionResult, ActionContext } from './types.js';
 import type { TrackedRepo, CoreAnalysis } from '../core/types.js';
 import { getRepoAnalyzer } from '../tools/repo/analyzer.js';
-import { GitHubClient } from '../core/github.js';
+import { getGitHubClient } from '../core/github.js';
 import { stateManager } from '../core/state.js';
 import { generateCoverImage, generateCoverImageStandalone, type LightweightRepoInfo } from '../tools/preview/generator.js';
 import { uploadToGitHub } from '../tools/preview/upload.js';
+import { publishAsPullRequest, pullRequestKeyboard } from '../tools/publish/publisher.js';
 import { generateReadme } from '../tools/readme/generator.js';
 import { info } from '../core/logger.js';
 
@@ -96,7 +97,7 @@ export const previewAction: Action = {
       imageBuffer = await generateCoverImage(repo, []);
     } else {
       // Fallback to standalone generation using GitHub metadata
-      const github = new GitHubClient(process.env.GITHUB_TOKEN!);
+      const github = getGitHubClient();
       const repoInfo = await github.getRepoInfo(owner, name);
       
       const lightweightInfo: LightweightRepoInfo = {
@@ -119,6 +120,21 @@ export const previewAction: Action = {
       };
     }
     
+    // Pull-request mode: nothing is on the default branch until merged
+    if (uploadResult.pullRequest) {
+      const pr = uploadResult.pullRequest;
+      const { InputFile } = await import('grammy');
+      await ctx.replyWithPhoto(new InputFile(imageBuffer, 'cover.png'), {
+        caption: `✨ Cover image generated for *${owner}/${name}*\n\n` +
+          `🔀 Pull request #${pr.number} opened` +
+          `${uploadResult.readmeUpdated ? '\n📝 Includes README header' : ''}`,
+        parse_mode: 'Markdown',
+        reply_markup: pullRequestKeyboard(pr),
+      });
+      info('action.preview', 'Cover generated, PR opened', { owner, name, number: pr.number });
+      return { success: true, repo };
+    }
+    
     // Update repo with cover URL
     const coverUrl = `https://raw.githubusercontent.com/${owner}/${name}/main/.github/social-preview.png`;
     const updatedRepo: TrackedRepo = {
@@ -194,7 +210,7 @@ export const readmeAction: Action = {
     
     info('action.readme', 'Starting README generation', { owner, name });
     
-    const github = new GitHubClient(process.env.GITHUB_TOKEN!);
+    const github = getGitHubClient();
     
     // Fetch context for README generation
     const [repoInfo, existingReadme, packageJson, fileTree] = await Promise.all([
@@ -209,26 +225,40 @@ export const readmeAction: Action = {
     }
 
     const readme = await generateReadme({
-      repo: { name, description: repoInfo.description },
+      repo: { owner, name, description: repoInfo.description },
       analysis: repo.analysis,
       existingReadme,
       packageJson,
       fileTree,
     });
     
+    const preview = readme.substring(0, 500) + (readme.length > 500 ? '...' : '');
+    const message = 'Update README with AI-optimized content';
+
+    // Pull-request mode: open a PR instead of pushing
+    if (await stateManager.getPublishMode() === 'pr') {
+      const pr = await publishAsPullRequest({
+        owner,
+        name,
+        files: [{ path: 'README.md', content: readme }],
+        message,
+        kind: 'readme',
+      });
+      await ctx.reply(
+        `📝 README generated for *${owner}/${name}*\n\n` +
+        `\`\`\`\n${preview}\n\`\`\`\n\n` +
+        `🔀 Pull request #${pr.number} opened`,
+        { parse_mode: 'Markdown', reply_markup: pullRequestKeyboard(pr) }
+      );
+      return { success: true, repo };
+    }
+    
     // Upload README to GitHub
-    await github.updateFile(
-      owner,
-      name,
-      'README.md',
-      Buffer.from(readme).toString('base64'),
-      'Update README with AI-optimized content'
-    );
+    await github.commitFiles(owner, name, [{ path: 'README.md', content: readme }], message);
     
     info('action.readme', 'README generated and uploaded', { owner, name });
     
     // Send preview to user
-    const preview = readme.substring(0, 500) + (readme.length > 500 ? '...' : '');
     await ctx.reply(
       `📝 README generated for *${owner}/${name}*\n\n` +
       `\`\`\`\n${preview}\n\`\`\`\n\n` +
@@ -1,7 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { CursorPromptOutputSchema } from '../core/types.js';
-import { SHARED_PREAMBLE, wrapUntrustedContent, parseJsonResponse } from './shared-preamble.js';
-import { AI_MODEL } from '../core/config.js';
+import { SHARED_PREAMBLE, wrapUntrustedContent } from './shared-preamble.js';
+import { LLMOutputError, type LLMClient } from '../llm/index.js';
+import { definePrompt, promptRequest } from '../prompts/registry.js';
 
 interface CursorPromptInput {
   repo_name: string;
@@ -18,7 +18,16 @@ interface CursorPromptOutput {
   acceptance_criteria: string[];
 }
 
-const SYSTEM_PROMPT = `${SHARED_PREAMBLE}
+export const cursorPromptPrompt = definePrompt<CursorPromptInput, CursorPromptOutput>({
+  id: 'cursorPrompt',
+  version: 1,
+  description: 'Copy-paste Cursor prompt for the next step',
+  task: 'artifact_generation',
+  output: 'json',
+  schema: CursorPromptOutputSchema,
+  maxTokens: 1000,
+  temperature: 0.2,
+  system: `${SHARED_PREAMBLE}
 
 Your task: Write a Cursor prompt that is copy-paste ready for the user's next step.
 
@@ -35,13 +44,8 @@ Return ONLY valid JSON matching this schema:
   "cursor_prompt": "string (the full prompt, plain text, no markdown)",
   "target_files": ["string (file paths to modify)"],
   "acceptance_criteria": ["string (checkbox items)"]
-}`;
-
-export async function generateCursorPromptArtifact(
-  anthropic: Anthropic,
-  input: CursorPromptInput
-): Promise<CursorPromptOutput> {
-  const userPrompt = `Generate a Cursor prompt for this task:
+}`,
+  render: input => `Generate a Cursor prompt for this task:
 
 Repository: ${input.repo_name}
 Task: ${input.next_step_action}
@@ -57,18 +61,18 @@ ${input.readme_excerpt
   ? `README context:\n${wrapUntrustedContent(input.readme_excerpt.slice(0, 1000))}`
   : ''}
 
-Generate a specific, actionable Cursor prompt for this task.`;
-
-  const response = await anthropic.messages.create({
-    model: AI_MODEL,
-    max_tokens: 1000,
-    temperature: 0.2,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: 'user', content: userPrompt }],
-  });
+Generate a specific, actionable Cursor prompt for this task.`,
+});
 
-  const text = response.content.find(c => c.type === 'text');
-  if (!text || text.type !== 'text') {
+export async function generateCursorPromptArtifact(
+  llm: LLMClient,
+  input: CursorPromptInput
+): Promise<CursorPromptOutput> {
+  try {
+    const { data } = await llm.completeJson(cursorPromptPrompt.schema, promptRequest(cursorPromptPrompt, input));
+    return data;
+  } catch (err) {
+    if (!(err instanceof LLMOutputError)) throw err;
     // Fallback to a basic prompt
     return {
       title: input.next_step_action,
@@ -81,9 +85,6 @@ Generate a specific, actionable Cursor prompt for this task.`;
       ],
     };
   }
-
-  const parsed = parseJsonResponse<CursorPromptOutput>(text.text);
-  return CursorPromptOutputSchema.parse(parsed);
 }
 
 /**
@@ -1,7 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { RepoCard, ProjectStage } from '../core/types.js';
-import { SHARED_PREAMBLE, parseJsonResponse } from './shared-preamble.js';
-import { AI_MODEL } from '../core/config.js';
+import { DeepDiveOutputSchema, RepoCard, ProjectStage } from '../core/types.js';
+import { SHARED_PREAMBLE } from './shared-preamble.js';
+import { LLMOutputError, type LLMClient } from '../llm/index.js';
+import { definePrompt, promptRequest } from '../prompts/registry.js';
 
 interface DeepDiveInput {
   repo_card: RepoCard;
@@ -20,7 +20,16 @@ interface DeepDiveOutput {
   blockers: string[];
 }
 
-const SYSTEM_PROMPT = `${SHARED_PREAMBLE}
+export const deepDivePrompt = definePrompt<DeepDiveInput, DeepDiveOutput>({
+  id: 'deepDive',
+  version: 1,
+  description: 'Context summary and 3 next steps ordered by leverage',
+  task: 'deep_dive',
+  output: 'json',
+  schema: DeepDiveOutputSchema,
+  maxTokens: 600,
+  temperature: 0.2,
+  system: `${SHARED_PREAMBLE}
 
 Your task: Create a deep dive that restores context quickly and provides 3 actionable next steps.
 
@@ -41,15 +50,8 @@ Return ONLY valid JSON matching this schema:
     {"label": "string", "action": "string", "artifact_type": "..."}
   ],
   "blockers": ["string"] // empty if none
-}`;
-
-export async function generateDeepDive(
-  anthropic: Anthropic,
-  input: DeepDiveInput
-): Promise<DeepDiveOutput> {
-  const card = input.repo_card;
-  
-  const userPrompt = `Generate a deep dive for this project:
+}`,
+  render: ({ repo_card: card, readme_excerpt, file_tree }) => `Generate a deep dive for this project:
 
 **${card.repo}**
 Stage: ${card.stage}
@@ -61,24 +63,25 @@ Last context: ${card.last_context.last_context}
 Current next step: ${card.next_step.action}
 Current step source: ${card.next_step.source}
 
-${input.readme_excerpt ? `README excerpt:\n${input.readme_excerpt.slice(0, 1000)}` : ''}
+${readme_excerpt ? `README excerpt:\n${readme_excerpt.slice(0, 1000)}` : ''}
 
-${input.file_tree && input.file_tree.length > 0 
-  ? `Key files:\n${input.file_tree.slice(0, 15).join('\n')}`
+${file_tree && file_tree.length > 0 
+  ? `Key files:\n${file_tree.slice(0, 15).join('\n')}`
   : ''}
 
-Provide a summary and exactly 3 next steps ordered by leverage.`;
+Provide a summary and exactly 3 next steps ordered by leverage.`,
+});
 
-  const response = await anthropic.messages.create({
-    model: AI_MODEL,
-    max_tokens: 600,
-    temperature: 0.2,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: 'user', content: userPrompt }],
-  });
-
-  const text = response.content.find(c => c.type === 'text');
-  if (!text || text.type !== 'text') {
+export async function generateDeepDive(
+  llm: LLMClient,
+  input: DeepDiveInput
+): Promise<DeepDiveOutput> {
+  const card = input.repo_card;
+  try {
+    const { data } = await llm.completeJson(deepDivePrompt.schema, promptRequest(deepDivePrompt, input));
+    return data;
+  } catch (err) {
+    if (!(err instanceof LLMOutputError)) throw err;
     // Fallback based on current card
     return {
       summary: `${card.repo} is in ${card.stage} stage. ${card.last_context.last_context}`,
@@ -103,8 +106,6 @@ Provide a summary and exactly 3 next steps ordered by leverage.`;
       blockers: [],
     };
   }
-
-  return parseJsonResponse<DeepDiveOutput>(text.text);
 }
 
 /**
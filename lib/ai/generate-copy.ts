@@ -1,7 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { RepoPotential } from '../core/types.js';
-import { SHARED_PREAMBLE, parseJsonResponse } from './shared-preamble.js';
-import { AI_MODEL } from '../core/config.js';
+import { CopyOutputSchema, RepoPotential } from '../core/types.js';
+import { SHARED_PREAMBLE } from './shared-preamble.js';
+import { LLMOutputError, type LLMClient } from '../llm/index.js';
+import { definePrompt, promptRequest } from '../prompts/registry.js';
 
 interface CopyInput {
   potential: RepoPotential;
@@ -18,7 +18,16 @@ interface CopyOutput {
   cta_url: string | null;
 }
 
-const SYSTEM_PROMPT = `${SHARED_PREAMBLE}
+export const copyPrompt = definePrompt<CopyInput, CopyOutput>({
+  id: 'copy',
+  version: 1,
+  description: 'Landing page / CTA copy from the repo potential',
+  task: 'artifact_generation',
+  output: 'json',
+  schema: CopyOutputSchema,
+  maxTokens: 500,
+  temperature: 0.4,
+  system: `${SHARED_PREAMBLE}
 
 Your task: Generate landing page / CTA copy that is ready to paste.
 
@@ -39,13 +48,8 @@ Return ONLY valid JSON matching this schema:
   "benefits": ["string (outcome 1)", "string (outcome 2)", "string (outcome 3)"],
   "cta_button": "string (action text)",
   "cta_url": "string | null"
-}`;
-
-export async function generateCopy(
-  anthropic: Anthropic,
-  input: CopyInput
-): Promise<CopyOutput> {
-  const userPrompt = `Generate CTA/landing copy for this product:
+}`,
+  render: input => `Generate CTA/landing copy for this product:
 
 Product Potential: ${input.potential.potential}
 ICP (target customer): ${input.potential.icp}
@@ -57,18 +61,18 @@ CTA Style: ${input.cta_style}
 
 ${input.current_copy_excerpt ? `Current copy (for reference):\n${input.current_copy_excerpt}` : ''}
 
-Generate punchy, outcome-focused copy.`;
-
-  const response = await anthropic.messages.create({
-    model: AI_MODEL,
-    max_tokens: 500,
-    temperature: 0.4,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: 'user', content: userPrompt }],
-  });
+Generate punchy, outcome-focused copy.`,
+});
 
-  const text = response.content.find(c => c.type === 'text');
-  if (!text || text.type !== 'text') {
+export async function generateCopy(
+  llm: LLMClient,
+  input: CopyInput
+): Promise<CopyOutput> {
+  try {
+    const { data } = await llm.completeJson(copyPrompt.schema, promptRequest(copyPrompt, input));
+    return data;
+  } catch (err) {
+    if (!(err instanceof LLMOutputError)) throw err;
     // Fallback
     return {
       headline: input.potential.promise,
@@ -78,8 +82,6 @@ Generate punchy, outcome-focused copy.`;
       cta_url: input.product_url,
     };
   }
-
-  return parseJsonResponse<CopyOutput>(text.text);
 }
 
 /**
@@ -1,7 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { RepoPotential } from '../core/types.js';
-import { SHARED_PREAMBLE, parseJsonResponse } from './shared-preamble.js';
-import { AI_MODEL } from '../core/config.js';
+import { LaunchPostOutputSchema, RepoPotential } from '../core/types.js';
+import { SHARED_PREAMBLE } from './shared-preamble.js';
+import { LLMOutputError, type LLMClient } from '../llm/index.js';
+import { definePrompt, promptRequest } from '../prompts/registry.js';
 
 interface LaunchPostInput {
   potential: RepoPotential;
@@ -18,7 +18,22 @@ interface LaunchPostOutput {
   cta: string;
 }
 
-const SYSTEM_PROMPT = `${SHARED_PREAMBLE}
+const PLATFORM_GUIDANCE = {
+  x: 'Keep under 280 characters. Punchy. No hashtags unless very relevant.',
+  newsletter: 'Can be longer. More context. Personal tone.',
+  linkedin: 'Professional but not corporate. Can include backstory. Under 500 chars.',
+};
+
+export const launchPostPrompt = definePrompt<LaunchPostInput, LaunchPostOutput>({
+  id: 'launchPost',
+  version: 1,
+  description: 'Launch post in the user\'s voice plus 2 alternate angles',
+  task: 'artifact_generation',
+  output: 'json',
+  schema: LaunchPostOutputSchema,
+  maxTokens: 800,
+  temperature: 0.6,
+  system: `${SHARED_PREAMBLE}
 
 Your task: Write a launch post that sounds like the user, not generic AI copy.
 
@@ -38,19 +53,8 @@ Return ONLY valid JSON matching this schema:
   "post": "string (the main post)",
   "alt_versions": ["string (benefit angle)", "string (story angle)"],
   "cta": "string (the call to action phrase)"
-}`;
-
-export async function generateLaunchPost(
-  anthropic: Anthropic,
-  input: LaunchPostInput
-): Promise<LaunchPostOutput> {
-  const platformGuidance = {
-    x: 'Keep under 280 characters. Punchy. No hashtags unless very relevant.',
-    newsletter: 'Can be longer. More context. Personal tone.',
-    linkedin: 'Professional but not corporate. Can include backstory. Under 500 chars.',
-  };
-
-  const userPrompt = `Write a launch post for this product:
+}`,
+  render: input => `Write a launch post for this product:
 
 Product: ${input.potential.potential}
 ICP: ${input.potential.icp}
@@ -59,7 +63,7 @@ Positioning: ${input.potential.positioning_angle}
 
 URL: ${input.product_url}
 Platform: ${input.platform}
-${platformGuidance[input.platform]}
+${PLATFORM_GUIDANCE[input.platform]}
 
 ${input.screenshot_url ? `Screenshot: ${input.screenshot_url}` : ''}
 
@@ -67,23 +71,23 @@ ${input.user_voice_samples && input.user_voice_samples.length > 0
   ? `Voice samples (match this tone):\n${input.user_voice_samples.map((s, i) => `${i + 1}. "${s}"`).join('\n')}`
   : 'Use a casual, direct tone. No corporate speak.'}
 
-Write the launch post and 2 alternate versions.`;
-
-  const response = await anthropic.messages.create({
-    model: AI_MODEL,
-    max_tokens: 800,
-    temperature: 0.6,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: 'user', content: userPrompt }],
-  });
+Write the launch post and 2 alternate versions.`,
+});
 
-  const text = response.content.find(c => c.type === 'text');
-  if (!text || text.type !== 'text') {
+export async function generateLaunchPost(
+  llm: LLMClient,
+  input: LaunchPostInput
+): Promise<LaunchPostOutput> {
+  try {
+    const { data } = await llm.completeJson(launchPostPrompt.schema, promptRequest(launchPostPrompt, input));
+    return data;
+  } catch (err) {
+    if (!(err instanceof LLMOutputError)) throw err;
     // Fallback
     const shortPost = input.platform === 'x' 
       ? `Just shipped: ${input.potential.potential}\n\n${input.product_url}`
       : `Excited to share what I've been working on: ${input.potential.potential}\n\nCheck it out: ${input.product_url}`;
-    
+  
     return {
       platform: input.platform,
       post: shortPost,
@@ -94,8 +98,6 @@ Write the launch post and 2 alternate versions.`;
       cta: 'Check it out',
     };
   }
-
-  return parseJsonResponse<LaunchPostOutput>(text.text);
 }
 
 /**
@@ -9,4 +9,4 @@ export { generateWhatChanged } from './what-changed.js';
 export { generateCopy, formatCopyMessage } from './generate-copy.js';
 export { generateLaunchPost, formatLaunchPostMessage } from './generate-launch-post.js';
 export { generateDeepDive, formatDeepDiveMessage } from './deep-dive.js';
-export { SHARED_PREAMBLE, wrapUntrustedContent, parseJsonResponse } from './shared-preamble.js';
+export { SHARED_PREAMBLE, wrapUntrustedContent } from './shared-preamble.js';
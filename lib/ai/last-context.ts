@@ -1,7 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { LastContext, LastContextOutputSchema } from '../core/types.js';
-import { SHARED_PREAMBLE, parseJsonResponse } from './shared-preamble.js';
-import { AI_MODEL } from '../core/config.js';
+import { SHARED_PREAMBLE } from './shared-preamble.js';
+import { LLMOutputError, type LLMClient } from '../llm/index.js';
+import { definePrompt, promptRequest } from '../prompts/registry.js';
 
 interface LastContextInput {
   recent_commits: Array<{
@@ -16,7 +16,16 @@ interface LastContextInput {
   };
 }
 
-const SYSTEM_PROMPT = `${SHARED_PREAMBLE}
+export const lastContextPrompt = definePrompt<LastContextInput, LastContext>({
+  id: 'lastContext',
+  version: 1,
+  description: 'Where the user left off, from recent commits',
+  task: 'card_context',
+  output: 'json',
+  schema: LastContextOutputSchema,
+  maxTokens: 200,
+  temperature: 0,
+  system: `${SHARED_PREAMBLE}
 
 Your task: Summarize where the user left off in 1 sentence.
 
@@ -31,10 +40,21 @@ Return ONLY valid JSON matching this schema:
   "last_context": "string (1 sentence summary of where they left off)",
   "last_work_order_status": "open" | "done" | "unknown",
   "confidence": "high" | "medium" | "low"
-}`;
+}`,
+  render: input => `Summarize where the user left off based on this activity:
+
+Recent commits (newest first):
+${input.recent_commits.slice(0, 5).map(c => 
+  `- ${c.message.split('\n')[0]} (files: ${c.files_changed.slice(0, 3).join(', ')}${c.files_changed.length > 3 ? '...' : ''})`
+).join('\n')}
+
+${input.last_bot_interaction ? `Last bot interaction: ${input.last_bot_interaction}` : ''}
+
+Summarize in 1 sentence what they were last working on.`,
+});
 
 export async function generateLastContext(
-  anthropic: Anthropic,
+  llm: LLMClient,
   input: LastContextInput
 ): Promise<LastContext> {
   // If there's an open intention, that takes priority
@@ -55,27 +75,11 @@ export async function generateLastContext(
     };
   }
 
-  const userPrompt = `Summarize where the user left off based on this activity:
-
-Recent commits (newest first):
-${input.recent_commits.slice(0, 5).map(c => 
-  `- ${c.message.split('\n')[0]} (files: ${c.files_changed.slice(0, 3).join(', ')}${c.files_changed.length > 3 ? '...' : ''})`
-).join('\n')}
-
-${input.last_bot_interaction ? `Last bot interaction: ${input.last_bot_interaction}` : ''}
-
-Summarize in 1 sentence what they were last working on.`;
-
-  const response = await anthropic.messages.create({
-    model: AI_MODEL,
-    max_tokens: 200,
-    temperature: 0,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: 'user', content: userPrompt }],
-  });
-
-  const text = response.content.find(c => c.type === 'text');
-  if (!text || text.type !== 'text') {
+  try {
+    const { data } = await llm.completeJson(lastContextPrompt.schema, promptRequest(lastContextPrompt, input));
+    return data;
+  } catch (err) {
+    if (!(err instanceof LLMOutputError)) throw err;
     // Fallback to commit-based summary
     const latestCommit = input.recent_commits[0];
     return {
@@ -84,7 +88,4 @@ Summarize in 1 sentence what they were last working on.`;
       confidence: 'medium',
     };
   }
-
-  const parsed = parseJsonResponse<LastContext>(text.text);
-  return LastContextOutputSchema.parse(parsed);
 }
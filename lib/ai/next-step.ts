@@ -1,24 +1,40 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { NextStep, NextStepOutputSchema, RepoPotential, DeployState, PackagingChecks, ProjectStage } from '../core/types.js';
-import { SHARED_PREAMBLE, parseJsonResponse } from './shared-preamble.js';
-import { AI_MODEL } from '../core/config.js';
+import type { z } from 'zod';
+import { NextStep, NextStepOutputSchema, RepoPotential, DeployState, PackagingChecks, ProjectStage, CIStatus, CheckResult } from '../core/types.js';
+import { SHARED_PREAMBLE } from './shared-preamble.js';
+import { LLMOutputError, type LLMClient } from '../llm/index.js';
+import { definePrompt, promptRequest } from '../prompts/registry.js';
+import { formatFinding } from '../readme-lint.js';
 
 interface NextStepInput {
   readme_todos: string[];
   stated_intention?: { action: string };
   deploy_state: DeployState;
+  ci_status?: Pick<CIStatus, 'state' | 'failing'>;
+  /** Deterministic repo check results (lib/checks) */
+  checks?: CheckResult[];
   packaging_checks: PackagingChecks;
   project_stage: ProjectStage;
   recent_activity_summary: string;
   potential: RepoPotential;
 }
 
-const SYSTEM_PROMPT = `${SHARED_PREAMBLE}
+export const nextStepPrompt = definePrompt<NextStepInput, z.infer<typeof NextStepOutputSchema>>({
+  id: 'nextStep',
+  version: 1,
+  description: 'The one next step that moves the project toward shipping',
+  task: 'next_step',
+  output: 'json',
+  schema: NextStepOutputSchema,
+  maxTokens: 500,
+  temperature: 0,
+  system: `${SHARED_PREAMBLE}
 
 Your task: Choose exactly ONE next step that moves the project toward shipping.
 
 Priority order (FOLLOW THIS STRICTLY):
 1) If deploy is failing (status="red") -> next step is to fix deploy. Source: "deploy_state". Artifact: "cursor_prompt".
+1b) Else if CI is failing -> next step is to fix the build. Source: "ci_status". Artifact: "cursor_prompt".
+1c) Else if a repo check failed (e.g. .env committed) -> next step is its fix. Source: "repo_check". Artifact: "cursor_prompt".
 2) Else if user has a confirmed intention -> next step aligns to it. Source: "user_stated".
 3) Else if stage="ready_to_launch" -> next step is launch. Source: "ai_inferred". Artifact: "launch_post".
 4) Else if stage="packaging" -> pick the single highest leverage packaging gap:
@@ -43,7 +59,7 @@ Return ONLY valid JSON matching this schema:
 {
   "next_step": {
     "action": "string (specific action, e.g., 'Add CTA to landing page')",
-    "source": "readme_todo" | "user_stated" | "deploy_state" | "commit_gap" | "ai_inferred",
+    "source": "readme_todo" | "user_stated" | "deploy_state" | "ci_status" | "repo_check" | "commit_gap" | "ai_inferred",
     "artifact": {
       "type": "cursor_prompt" | "copy" | "checklist" | "command" | "launch_post" | "none",
       "reason": "string (why this artifact type)"
@@ -52,10 +68,35 @@ Return ONLY valid JSON matching this schema:
   "why_this_now": "string (brief explanation)",
   "blocking_question": "string | null",
   "confidence": "high" | "medium" | "low"
-}`;
+}`,
+  render: input => `Determine the single most important next step for this project:
+
+Project Potential: ${input.potential.potential}
+ICP: ${input.potential.icp}
+Promise: ${input.potential.promise}
+
+Current Stage: ${input.project_stage}
+Deploy Status: ${input.deploy_state.status}${input.deploy_state.url ? ` (${input.deploy_state.url})` : ''}${input.deploy_state.provider ? ` via ${input.deploy_state.provider}` : ''}${input.deploy_state.live === false ? ' - site not responding' : ''}
+CI: ${input.ci_status?.state ?? 'unknown'}
+Repo Checks: ${input.checks?.filter(c => c.status !== 'pass').map(c => `${c.label} ${c.status}: ${c.message}`).join('; ') || '(all passing)'}
+
+Packaging Status:
+- Has CTA: ${input.packaging_checks.has_clear_cta}
+- Has Demo: ${input.packaging_checks.has_demo_asset}
+- Has README Image: ${input.packaging_checks.has_readme_image}
+- Has Install Docs: ${input.packaging_checks.has_install_docs}
+- Has Usage Example: ${input.packaging_checks.has_usage_docs}
+- README Issues: ${input.packaging_checks.readme_issues.length > 0 ? input.packaging_checks.readme_issues.slice(0, 5).map(formatFinding).join('; ') : '(none)'}
+
+Recent Activity: ${input.recent_activity_summary}
+
+README TODOs: ${input.readme_todos.length > 0 ? input.readme_todos.join(', ') : '(none)'}
+
+What is the single highest-leverage next step to ship this?`,
+});
 
 export async function generateNextStep(
-  anthropic: Anthropic,
+  llm: LLMClient,
   input: NextStepInput
 ): Promise<NextStep> {
   // Deterministic fast-paths (no LLM needed)
@@ -77,6 +118,40 @@ export async function generateNextStep(
     };
   }
 
+  // 1b. CI is red on the default branch - fix the build before anything else
+  if (input.ci_status?.state === 'failing') {
+    const job = input.ci_status.failing[0];
+    return {
+      action: job ? `Fix failing CI: ${job.name}` : 'Fix failing CI',
+      source: 'ci_status',
+      artifact: {
+        type: 'cursor_prompt',
+        reason: 'CI is red - need code fix',
+      },
+      why_this_now: job?.excerpt
+        ? `CI failing: ${lastMeaningfulLine(job.excerpt).slice(0, 100)}`
+        : 'CI is failing on the default branch',
+      blocking_question: null,
+      confidence: 'high',
+    };
+  }
+
+  // 1c. A repo check failed outright (committed secrets, huge files)
+  const failedCheck = input.checks?.find(c => c.status === 'fail' && c.next_step);
+  if (failedCheck) {
+    return {
+      action: failedCheck.next_step!,
+      source: 'repo_check',
+      artifact: {
+        type: 'cursor_prompt',
+        reason: `${failedCheck.label} check failed`,
+      },
+      why_this_now: failedCheck.message,
+      blocking_question: null,
+      confidence: 'high',
+    };
+  }
+
   // 2. User stated intention
   if (input.stated_intention) {
     return {
@@ -148,6 +223,33 @@ export async function generateNextStep(
         confidence: 'medium',
       };
     }
+    const brokenLinks = input.packaging_checks.readme_issues.filter(f => f.rule === 'broken_link');
+    if (brokenLinks.length > 0) {
+      return {
+        action: `Fix ${brokenLinks.length} broken README link${brokenLinks.length > 1 ? 's' : ''}`,
+        source: 'ai_inferred',
+        artifact: {
+          type: 'cursor_prompt',
+          reason: 'Links point at files that no longer exist',
+        },
+        why_this_now: brokenLinks.map(formatFinding).slice(0, 2).join('; '),
+        blocking_question: null,
+        confidence: 'high',
+      };
+    }
+    if (!input.packaging_checks.has_install_docs) {
+      return {
+        action: 'Add install steps to README',
+        source: 'ai_inferred',
+        artifact: {
+          type: 'cursor_prompt',
+          reason: 'README needs a copy-pasteable install block',
+        },
+        why_this_now: 'Visitors who want to try it have no install command',
+        blocking_question: null,
+        confidence: 'medium',
+      };
+    }
   }
 
   // 5. README TODOs exist
@@ -167,36 +269,18 @@ export async function generateNextStep(
   }
 
   // 6. LLM inference for complex cases
-  const userPrompt = `Determine the single most important next step for this project:
-
-Project Potential: ${input.potential.potential}
-ICP: ${input.potential.icp}
-Promise: ${input.potential.promise}
-
-Current Stage: ${input.project_stage}
-Deploy Status: ${input.deploy_state.status}${input.deploy_state.url ? ` (${input.deploy_state.url})` : ''}
-
-Packaging Status:
-- Has CTA: ${input.packaging_checks.has_clear_cta}
-- Has Demo: ${input.packaging_checks.has_demo_asset}
-- Has README Image: ${input.packaging_checks.has_readme_image}
-
-Recent Activity: ${input.recent_activity_summary}
-
-README TODOs: ${input.readme_todos.length > 0 ? input.readme_todos.join(', ') : '(none)'}
-
-What is the single highest-leverage next step to ship this?`;
-
-  const response = await anthropic.messages.create({
-    model: AI_MODEL,
-    max_tokens: 500,
-    temperature: 0,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: 'user', content: userPrompt }],
-  });
-
-  const text = response.content.find(c => c.type === 'text');
-  if (!text || text.type !== 'text') {
+  try {
+    const { data: validated } = await llm.completeJson(nextStepPrompt.schema, promptRequest(nextStepPrompt, input));
+    return {
+      action: validated.next_step.action,
+      source: validated.next_step.source,
+      artifact: validated.next_step.artifact,
+      why_this_now: validated.why_this_now,
+      blocking_question: validated.blocking_question,
+      confidence: validated.confidence,
+    };
+  } catch (err) {
+    if (!(err instanceof LLMOutputError)) throw err;
     // Fallback
     return {
       action: 'Review and improve the project',
@@ -207,16 +291,10 @@ What is the single highest-leverage next step to ship this?`;
       confidence: 'low',
     };
   }
+}
 
-  const parsed = parseJsonResponse<{ next_step: NextStep['artifact'] & { action: string; source: NextStep['source'] }; why_this_now: string; blocking_question: string | null; confidence: 'high' | 'medium' | 'low' }>(text.text);
-  const validated = NextStepOutputSchema.parse(parsed);
-  
-  return {
-    action: validated.next_step.action,
-    source: validated.next_step.source,
-    artifact: validated.next_step.artifact,
-    why_this_now: validated.why_this_now,
-    blocking_question: validated.blocking_question,
-    confidence: validated.confidence,
-  };
+/** Last log line that says what broke (Actions ends every failure with "Process completed with exit code N") */
+function lastMeaningfulLine(excerpt: string): string {
+  const lines = excerpt.split('\n').filter(line => line.trim() && !/^Process completed with exit code/.test(line));
+  return lines[lines.length - 1] ?? excerpt;
 }
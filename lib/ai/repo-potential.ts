@@ -1,19 +1,21 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { RepoPotential, RepoPotentialOutputSchema } from '../core/types.js';
-import { SHARED_PREAMBLE, wrapUntrustedContent, parseJsonResponse } from './shared-preamble.js';
-import { AI_MODEL } from '../core/config.js';
+import { RepoPotential, RepoPotentialOutputSchema, TechStack } from '../core/types.js';
+import { formatTechStack, techStackLabels } from '../core/tech-stack.js';
+import { SHARED_PREAMBLE, wrapUntrustedContent } from './shared-preamble.js';
+import type { LLMClient } from '../llm/index.js';
+import { definePrompt, promptRequest, promptTag } from '../prompts/registry.js';
 
-const PROMPT_VERSION = 'repoPotential_v1';
-
-interface RepoPotentialInput {
+export interface RepoPotentialInput {
   repo_name: string;
   repo_description: string;
   readme_excerpt: string;
-  tech_stack: string[];
+  tech_stack: TechStack;
   known_audience_context?: string;
 }
 
-const SYSTEM_PROMPT = `${SHARED_PREAMBLE}
+type RepoPotentialOutput = Omit<RepoPotential, 'prompt_version'>;
+
+function buildSystemPrompt(version: number): string {
+  return `${SHARED_PREAMBLE}
 
 Your task: Write an aspirational but plausible one-liner for what this repo COULD be.
 
@@ -31,45 +33,55 @@ Return ONLY valid JSON matching this schema:
   "promise": "string (concrete outcome they get)",
   "positioning_angle": "string (what makes this different)",
   "confidence": "high" | "medium" | "low",
-  "prompt_version": "${PROMPT_VERSION}"
+  "prompt_version": "repoPotential_v${version}"
 }`;
+}
 
-export async function generateRepoPotential(
-  anthropic: Anthropic,
-  input: RepoPotentialInput
-): Promise<RepoPotential> {
-  const userPrompt = `Analyze this repo and generate its potential:
+function buildUserPrompt(input: RepoPotentialInput, techStack: string): string {
+  return `Analyze this repo and generate its potential:
 
 Repo Name: ${input.repo_name}
 Description: ${input.repo_description || '(none)'}
-Tech Stack: ${input.tech_stack.length > 0 ? input.tech_stack.join(', ') : '(unknown)'}
+Tech Stack: ${techStack}
 ${input.known_audience_context ? `Audience Context: ${input.known_audience_context}` : ''}
 
 README (first 2000 chars):
 ${wrapUntrustedContent(input.readme_excerpt || '(No README)')}
 
 Generate the aspirational potential for this repo.`;
+}
 
-  const response = await anthropic.messages.create({
-    model: AI_MODEL,
-    max_tokens: 500,
-    temperature: 0.3,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: 'user', content: userPrompt }],
-  });
+const BASE = {
+  id: 'repoPotential',
+  description: 'Aspirational one-liner, ICP and promise for a repo',
+  task: 'card_context',
+  output: 'json',
+  // prompt_version is stamped from the registry, not trusted from the model
+  schema: RepoPotentialOutputSchema.omit({ prompt_version: true }),
+  maxTokens: 500,
+  temperature: 0.3,
+} as const;
 
-  const text = response.content.find(c => c.type === 'text');
-  if (!text || text.type !== 'text') {
-    throw new Error('No text response from Claude');
-  }
+/** v1: the tech stack as one flat list of labels */
+export const repoPotentialPromptV1 = definePrompt<RepoPotentialInput, RepoPotentialOutput>({
+  ...BASE,
+  version: 1,
+  system: buildSystemPrompt(1),
+  render: input => buildUserPrompt(input, techStackLabels(input.tech_stack).join(', ') || '(unknown)'),
+});
 
-  const parsed = parseJsonResponse<RepoPotential>(text.text);
-  
-  // Validate with zod
-  const validated = RepoPotentialOutputSchema.parse({
-    ...parsed,
-    prompt_version: PROMPT_VERSION,
-  });
+/** Bump the version when either prompt changes */
+export const repoPotentialPrompt = definePrompt<RepoPotentialInput, RepoPotentialOutput>({
+  ...BASE,
+  version: 2,
+  system: buildSystemPrompt(2),
+  render: input => buildUserPrompt(input, formatTechStack(input.tech_stack)),
+});
 
-  return validated;
+export async function generateRepoPotential(
+  llm: LLMClient,
+  input: RepoPotentialInput
+): Promise<RepoPotential> {
+  const { data } = await llm.completeJson(repoPotentialPrompt.schema, promptRequest(repoPotentialPrompt, input));
+  return { ...data, prompt_version: promptTag(repoPotentialPrompt) };
 }
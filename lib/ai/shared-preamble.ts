@@ -16,13 +16,3 @@ export function wrapUntrustedContent(content: string): string {
 ${content}
 UNTRUSTED_REPO_TEXT_END`;
 }
-
-// Parse JSON from LLM response, handling markdown code blocks
-export function parseJsonResponse<T>(text: string): T {
-  let json = text.trim();
-  // Remove markdown code blocks if present
-  if (json.startsWith('```')) {
-    json = json.replace(/```json?\n?/g, '').replace(/```$/g, '').trim();
-  }
-  return JSON.parse(json) as T;
-}
@@ -1,7 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { WhatChangedOutputSchema } from '../core/types.js';
-import { SHARED_PREAMBLE, parseJsonResponse } from './shared-preamble.js';
-import { AI_MODEL } from '../core/config.js';
+import { SHARED_PREAMBLE } from './shared-preamble.js';
+import { LLMOutputError, type LLMClient } from '../llm/index.js';
+import { definePrompt, promptRequest } from '../prompts/registry.js';
 
 interface WhatChangedInput {
   commit_sha: string;
@@ -16,7 +16,16 @@ interface WhatChangedOutput {
   matches_expected: 'yes' | 'no' | 'unknown';
 }
 
-const SYSTEM_PROMPT = `${SHARED_PREAMBLE}
+export const whatChangedPrompt = definePrompt<WhatChangedInput, WhatChangedOutput>({
+  id: 'whatChanged',
+  version: 1,
+  description: 'One-sentence summary of a commit, checked against the expected step',
+  task: 'card_context',
+  output: 'json',
+  schema: WhatChangedOutputSchema,
+  maxTokens: 200,
+  temperature: 0,
+  system: `${SHARED_PREAMBLE}
 
 Your task: Summarize what changed in ONE sentence.
 
@@ -29,10 +38,25 @@ Return ONLY valid JSON matching this schema:
 {
   "what_changed": "string (1 sentence summary)",
   "matches_expected": "yes" | "no" | "unknown"
-}`;
+}`,
+  render: input => `Summarize what changed in this commit:
+
+Commit: ${input.commit_sha.slice(0, 7)}
+Message: ${input.commit_message}
+
+Files changed:
+${input.files_changed.slice(0, 10).map(f => `- ${f}`).join('\n')}
+${input.files_changed.length > 10 ? `... and ${input.files_changed.length - 10} more` : ''}
+
+${input.diff_excerpt ? `Diff excerpt:\n${input.diff_excerpt.slice(0, 500)}` : ''}
+
+${input.previous_next_step ? `Expected work: ${input.previous_next_step}` : ''}
+
+Summarize in 1 sentence.`,
+});
 
 export async function generateWhatChanged(
-  anthropic: Anthropic,
+  llm: LLMClient,
   input: WhatChangedInput
 ): Promise<WhatChangedOutput> {
   // Simple case: use commit message if it's clear
@@ -50,38 +74,15 @@ export async function generateWhatChanged(
   }
 
   // Need LLM to summarize
-  const userPrompt = `Summarize what changed in this commit:
-
-Commit: ${input.commit_sha.slice(0, 7)}
-Message: ${input.commit_message}
-
-Files changed:
-${input.files_changed.slice(0, 10).map(f => `- ${f}`).join('\n')}
-${input.files_changed.length > 10 ? `... and ${input.files_changed.length - 10} more` : ''}
-
-${input.diff_excerpt ? `Diff excerpt:\n${input.diff_excerpt.slice(0, 500)}` : ''}
-
-${input.previous_next_step ? `Expected work: ${input.previous_next_step}` : ''}
-
-Summarize in 1 sentence.`;
-
-  const response = await anthropic.messages.create({
-    model: AI_MODEL,
-    max_tokens: 200,
-    temperature: 0,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: 'user', content: userPrompt }],
-  });
-
-  const text = response.content.find(c => c.type === 'text');
-  if (!text || text.type !== 'text') {
+  try {
+    const { data } = await llm.completeJson(whatChangedPrompt.schema, promptRequest(whatChangedPrompt, input));
+    return data;
+  } catch (err) {
+    if (!(err instanceof LLMOutputError)) throw err;
     // Fallback
     return {
       what_changed: commitMsg || 'Made changes',
       matches_expected: 'unknown',
     };
   }
-
-  const parsed = parseJsonResponse<WhatChangedOutput>(text.text);
-  return WhatChangedOutputSchema.parse(parsed);
 }
@@ -3,6 +3,9 @@
 
 import { TrackedRepo, RepoState, RepoCard, ProjectStage } from '../core/types.js';
 import { CardProgress } from '../card-generator.js';
+import type { RateLimitSnapshot } from '../core/github.js';
+import { formatGrounding, formatRollup, formatPackages, formatCommitHistory, formatReadmeHealth, formatChecks } from '../tools/repo/format.js';
+import { formatCIStatus } from '../ci-status.js';
 
 // ============ TYPES ============
 
@@ -57,6 +60,7 @@ export function formatCard(repo: TrackedRepo): string {
   let msg = `━━━ ${repo.name} ━━━\n`;
   msg += `${emoji} **${label}**\n\n`;
   msg += `${codeLine}\n`;
+  if (repo.rollup) msg += `${formatRollup(repo.rollup)}\n`;
   
   // Mismatch flag (brief, on card)
   if (a.mismatch_evidence?.length) {
@@ -95,6 +99,12 @@ export function formatDetails(repo: TrackedRepo): string {
   if (!a) return `━━━ ${repo.name} ━━━\n❌ No analysis`;
 
   let msg = `📋 **${repo.name}** — Details\n\n`;
+  if (a.grounding) msg += `${formatGrounding(a.grounding)}\n\n`;
+  if (repo.ci_status) msg += `CI: ${formatCIStatus(repo.ci_status)}\n\n`;
+  if (repo.commit_history) msg += `${formatCommitHistory(repo.commit_history)}\n`;
+  if (repo.readme_health) msg += `${formatReadmeHealth(repo.readme_health)}\n`;
+  if (repo.checks) msg += `${formatChecks(repo.checks)}\n`;
+  if (repo.packages?.length) msg += `${formatPackages(repo)}\n`;
 
   // Core evidence (not shown on card)
   if (a.has_core && a.core_value) {
@@ -318,7 +328,8 @@ export interface RepoCounts {
   analyzing: number;
 }
 
-export function formatStatus(counts: RepoCounts): string {
+export function formatStatus(counts: RepoCounts, rateLimit?: RateLimitSnapshot | null): string {
+  const github = rateLimit ? `\n${formatRateLimit(rateLimit)}` : '';
   return `📊 **Repo Status**
 
 \`🟢 Ready\`     ${counts.ready}
@@ -327,7 +338,13 @@ export function formatStatus(counts: RepoCounts): string {
 \`☠️ Dead\`      ${counts.dead}
 \`🚀 Shipped\`   ${counts.shipped}
 ${counts.analyzing > 0 ? `\`⏳ Analyzing\` ${counts.analyzing}\n` : ''}
-**Total:** ${counts.total}`;
+**Total:** ${counts.total}${github}`;
+}
+
+export function formatRateLimit(rateLimit: RateLimitSnapshot): string {
+  const minutes = Math.max(0, Math.ceil((new Date(rateLimit.reset_at).getTime() - Date.now()) / 60000));
+  const icon = rateLimit.remaining / rateLimit.limit < 0.1 ? '🔴' : '🟢';
+  return `${icon} GitHub API: ${rateLimit.remaining}/${rateLimit.limit} left, resets in ${minutes}m`;
 }
 
 // Legacy alias for backwards compatibility
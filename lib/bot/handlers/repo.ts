@@ -1,21 +1,19 @@
 import { Context } from 'grammy';
 import { InlineKeyboard } from 'grammy';
 import { info, error as logErr } from '../../core/logger.js';
-import { TrackedRepo } from '../../core/types.js';
-import { GitHubClient } from '../../core/github.js';
+import { TrackedRepo, type PackageAnalysis, type WorkspaceRollup } from '../../core/types.js';
+import { getCIStatus } from '../../ci-status.js';
+import { fetchCommitHistory } from '../../core/commit-history.js';
+import { fetchReadmeHealth } from '../../readme-lint.js';
+import { runChecks } from '../../checks/index.js';
+import { scanRepoFiles, formatLeakAlert } from '../../leak-scanner.js';
+import { rollupPackages, upsertPackage } from '../../core/workspaces.js';
+import { parsePackageRef } from '../../utils/github-url.js';
+import { getGitHubClient } from '../../core/github.js';
 import { getRepoAnalyzer } from '../../tools/repo/analyzer.js';
 import { stateManager } from '../../core/state.js';
 import { formatCard, formatDetails } from '../format.js';
-
-// Singleton instances (initialized on first use)
-let github: GitHubClient | null = null;
-
-function getGitHub(): GitHubClient {
-  if (!github) {
-    github = new GitHubClient(process.env.GITHUB_TOKEN!);
-  }
-  return github;
-}
+import { packageView } from '../../tools/repo/format.js';
 
 // Progress state for factual updates
 type Phase = 'resolving' | 'fetching' | 'analyzing' | 'formatting' | 'done';
@@ -31,6 +29,10 @@ interface ProgressState {
 
 const MIN_EDIT_INTERVAL = 5000; // 5 seconds minimum between edits
 const HEARTBEAT_THRESHOLD = 10000; // Show "still working" after 10s
+// No workspace package starts after this much of the 300s function limit
+// (and lock TTL); a batch of two still has time to finish. The rest are
+// left for /repo owner/name#path.
+const PACKAGE_DEADLINE_MS = 150_000;
 
 function formatProgressMessage(input: string, phase: Phase, elapsed?: number): string {
   const phases: Record<Phase, string> = {
@@ -92,6 +94,7 @@ async function updateProgress(
  */
 export async function handleRepo(ctx: Context, input: string): Promise<void> {
   info('repo', 'Starting', { input });
+  const startedAt = Date.now();
 
   // Idempotency: check if already analyzing this repo
   const lockKey = `analyzing:${input.toLowerCase()}`;
@@ -100,8 +103,8 @@ export async function handleRepo(ctx: Context, input: string): Promise<void> {
     info('repo', 'Already analyzing, skipping duplicate', { input });
     return; // Don't send duplicate messages
   }
-  // Set lock with 2-minute TTL (covers worst-case analysis time)
-  await stateManager.set(lockKey, 'true', 120);
+  // Set lock with 5-minute TTL (covers worst-case analysis time, monorepo packages included)
+  await stateManager.set(lockKey, 'true', 300);
 
   // Show initial progress
   const progress = await ctx.reply(formatProgressMessage(input, 'resolving'), { parse_mode: 'Markdown' });
@@ -116,35 +119,73 @@ export async function handleRepo(ctx: Context, input: string): Promise<void> {
   };
 
   try {
-    // Phase 1: Resolve
-    const { owner, name } = await resolveRepo(input);
-    info('repo', 'Resolved', { owner, name });
+    // Phase 1: Resolve ("owner/name#packages/foo" addresses one monorepo package)
+    const { repo: repoInput, path } = parsePackageRef(input);
+    const { owner, name } = await resolveRepo(repoInput);
+    info('repo', 'Resolved', { owner, name, path });
     await updateProgress(ctx, state, 'fetching');
 
     // Phase 2: Fetch
-    const repoInfo = await getGitHub().getRepoInfo(owner, name);
+    const repoInfo = await getGitHubClient().getRepoInfo(owner, name);
     if (!repoInfo) {
       await ctx.api.editMessageText(state.chatId, state.messageId, `❌ "${owner}/${name}" not found or private.`);
       return;
     }
     await updateProgress(ctx, state, 'analyzing');
 
+    if (path) {
+      await showPackage(ctx, state, owner, name, path);
+      return;
+    }
+
     // Phase 3: Analyze (longest phase - may trigger heartbeat)
     info('repo', 'Analyzing', { owner, name });
-    const analysis = await getRepoAnalyzer().analyzeRepo(owner, name);
+    const analyzer = getRepoAnalyzer();
+    // One tree fetch for the root analysis and workspace detection
+    const files = await getGitHubClient().getRepoTree(owner, name, 2000);
+    const [ci, history, readmeHealth, checks, leaks] = await Promise.all([
+      getCIStatus(getGitHubClient(), owner, name),
+      fetchCommitHistory(getGitHubClient(), owner, name, { churn: true }).catch((err): null => {
+        logErr('repo', err, { owner, name, step: 'history' });
+        return null;
+      }),
+      fetchReadmeHealth(getGitHubClient(), owner, name),
+      runChecks(getGitHubClient(), owner, name).catch((err): null => {
+        logErr('repo', err, { owner, name, step: 'checks' });
+        return null;
+      }),
+      scanRepoFiles(getGitHubClient(), owner, name),
+    ]);
+    const analysis = await analyzer.analyzeRepo(owner, name, undefined, { ci, files });
     info('repo', 'Analysis complete', { owner, name, verdict: analysis.verdict });
+
+    // Monorepos: each workspace package gets its own verdict, as time allows
+    const workspace = await analyzer.analyzeWorkspace(owner, name, {
+      files,
+      deadline: startedAt + PACKAGE_DEADLINE_MS,
+    });
+    if (workspace) info('repo', 'Workspace analyzed', { owner, name, packages: workspace.packages.length });
     await updateProgress(ctx, state, 'formatting');
 
     // Phase 4: Save & format
-    const tracked = await saveTrackedRepo(owner, name, analysis, repoInfo.pushed_at);
+    const tracked = await saveTrackedRepo(owner, name, analysis, repoInfo.pushed_at, workspace, {
+      ci_status: ci,
+      ...(history && { commit_history: history }),
+      ...(readmeHealth && { readme_health: readmeHealth }),
+      ...(checks && { checks }),
+    });
 
     // Auto-watch this repo for push notifications
     const fullName = `${owner}/${name}`;
     await stateManager.addWatchedRepo(fullName);
     info('repo', 'Auto-watched', { fullName });
 
-    // Show final result (delete progress, send card)
+    // Show final result (delete progress, send card) - leaked credentials first
     await ctx.api.deleteMessage(state.chatId, state.messageId);
+    if (leaks.length > 0) {
+      info('repo', 'Possible leaked credentials', { owner, name, findings: leaks.length });
+      await ctx.reply(formatLeakAlert(`${owner}/${name}`, leaks), { parse_mode: 'Markdown' });
+    }
     const msg = await ctx.reply(formatCard(tracked), {
       parse_mode: 'Markdown',
       reply_markup: repoKeyboard(tracked),
@@ -168,6 +209,38 @@ export async function handleRepo(ctx: Context, input: string): Promise<void> {
   }
 }
 
+/**
+ * Analyze one workspace package and show its card, nested under the tracked repo
+ */
+async function showPackage(ctx: Context, state: ProgressState, owner: string, name: string, path: string): Promise<void> {
+  const analyzer = getRepoAnalyzer();
+  const { files, packages } = await analyzer.getWorkspace(owner, name);
+  const found = packages.find(p => p.path === path);
+  if (!found) {
+    const known = packages.map(p => p.path).slice(0, 10).join(', ');
+    throw new Error(known
+      ? `"${path}" is not a workspace package of ${owner}/${name}. Packages: ${known}`
+      : `${owner}/${name} doesn't declare any workspace packages.`);
+  }
+
+  info('repo', 'Analyzing package', { owner, name, path });
+  const pkg: PackageAnalysis = {
+    ...found,
+    analysis: await analyzer.analyzePackage(owner, name, path, files),
+    analyzed_at: new Date().toISOString(),
+  };
+  await updateProgress(ctx, state, 'formatting');
+
+  const tracked = await savePackageAnalysis(owner, name, pkg, packages.length);
+
+  await ctx.api.deleteMessage(state.chatId, state.messageId);
+  const kb = new InlineKeyboard();
+  if (tracked.analysis) kb.text('⬅️ Repo', `back:${owner}:${name}`);
+  await ctx.reply(formatCard(packageView(tracked, pkg)), { parse_mode: 'Markdown', reply_markup: kb });
+
+  info('repo', 'Package done', { owner, name, path, verdict: pkg.analysis.verdict });
+}
+
 /**
  * Handle "More" button - show full details view
  */
@@ -227,7 +300,7 @@ async function resolveRepo(input: string): Promise<{ owner: string; name: string
   }
 
   // Search user's repos
-  const repos = await getGitHub().getUserRepos();
+  const repos = await getGitHubClient().getUserRepos();
   const found = repos.find(r => r.name.toLowerCase() === input.toLowerCase());
   if (!found) {
     throw new Error(`"${input}" not found. Use owner/name for external repos.`);
@@ -239,7 +312,9 @@ async function saveTrackedRepo(
   owner: string,
   name: string,
   analysis: TrackedRepo['analysis'],
-  pushedAt: string | null
+  pushedAt: string | null,
+  workspace: { packages: PackageAnalysis[]; rollup: WorkspaceRollup } | null,
+  signals: Pick<TrackedRepo, 'ci_status' | 'commit_history' | 'readme_health' | 'checks'>
 ): Promise<TrackedRepo> {
   const tracked: TrackedRepo = {
     id: `${owner}/${name}`,
@@ -256,11 +331,42 @@ async function saveTrackedRepo(
     shipped_at: null,
     cover_image_url: null,
     homepage: null,
+    ...(workspace && { packages: workspace.packages, rollup: workspace.rollup }),
+    ...signals,
   };
   await stateManager.saveTrackedRepo(tracked);
   return tracked;
 }
 
+/**
+ * Nest a package analysis under its repo, creating the tracked repo if needed
+ * @param found How many workspace packages the repo declares (for the rollup)
+ */
+async function savePackageAnalysis(owner: string, name: string, pkg: PackageAnalysis, found: number): Promise<TrackedRepo> {
+  const existing = await stateManager.getTrackedRepo(owner, name);
+  const tracked: TrackedRepo = existing ?? {
+    id: `${owner}/${name}`,
+    name,
+    owner,
+    state: 'unanalyzed',
+    analysis: null,
+    analyzed_at: null,
+    pending_action: null,
+    pending_since: null,
+    last_message_id: null,
+    last_push_at: null,
+    killed_at: null,
+    shipped_at: null,
+    cover_image_url: null,
+    homepage: null,
+  };
+
+  tracked.packages = upsertPackage(tracked.packages || [], pkg);
+  tracked.rollup = rollupPackages(tracked.packages, Math.max(0, found - tracked.packages.length));
+  await stateManager.saveTrackedRepo(tracked);
+  return tracked;
+}
+
 function verdictToState(verdict: string): TrackedRepo['state'] {
   switch (verdict) {
     case 'ship': return 'ready';
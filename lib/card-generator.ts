@@ -1,9 +1,16 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { kv } from '@vercel/kv';
-import { TrackedRepo, RepoCard, RepoPotential, FeedMemory } from './core/types.js';
+import { getStateStore } from './core/store/index.js';
+import { getUserStore } from './core/users.js';
+import { TrackedRepo, RepoCard, RepoPotential, FeedMemory, TechStack } from './core/types.js';
 import { generateRepoPotential, generateLastContext, generateNextStep } from './ai/index.js';
-import { computeProjectStage, getDeployState, computePackagingChecks, parseReadmeTodos, getDaysSince, isNewDay } from './deterministic-checks.js';
+import { computeProjectStage, computePackagingChecks, parseReadmeTodos, getDaysSince, isNewDay } from './deterministic-checks.js';
 import { GitHubClient } from './core/github.js';
+import type { LLMClient } from './llm/index.js';
+import { getDeployState } from './deploy/index.js';
+import { getCIStatus } from './ci-status.js';
+import { lintReadmeWithImages } from './readme-lint.js';
+import { runChecks } from './checks/index.js';
+import { stateManager } from './core/state.js';
+import { fetchTechStack } from './core/tech-stack.js';
 
 // Progress callback for streaming UI updates
 export type CardProgressStep =
@@ -32,19 +39,19 @@ const FEED_MEMORY_KEY = 'feed:memory';
  * Get or generate repo potential (cached)
  */
 async function getCachedPotential(
-  anthropic: Anthropic,
+  llm: LLMClient,
   repo: TrackedRepo,
   readme: string | null,
-  techStack: string[]
+  techStack: TechStack
 ): Promise<RepoPotential> {
   const cacheKey = `${POTENTIAL_PREFIX}${repo.owner}/${repo.name}`;
   
   // Check cache
-  const cached = await kv.get<RepoPotential>(cacheKey);
+  const cached = await getStateStore().get<RepoPotential>(cacheKey);
   if (cached) return cached;
   
   // Generate new potential
-  const potential = await generateRepoPotential(anthropic, {
+  const potential = await generateRepoPotential(llm, {
     repo_name: repo.name,
     repo_description: repo.analysis?.one_liner || '',
     readme_excerpt: (readme || '').slice(0, 2000),
@@ -52,7 +59,7 @@ async function getCachedPotential(
   });
   
   // Cache for 7 days
-  await kv.set(cacheKey, potential, { ex: 7 * 24 * 60 * 60 });
+  await getStateStore().set(cacheKey, potential, { ex: 7 * 24 * 60 * 60 });
   
   return potential;
 }
@@ -61,7 +68,7 @@ async function getCachedPotential(
  * Get feed memory, reset if new day
  */
 export async function getFeedMemory(): Promise<FeedMemory> {
-  const memory = await kv.get<FeedMemory>(FEED_MEMORY_KEY);
+  const memory = await getUserStore().get<FeedMemory>(FEED_MEMORY_KEY);
   
   if (!memory || isNewDay(memory.last_reset)) {
     // Reset for new day, but keep intentions
@@ -72,7 +79,7 @@ export async function getFeedMemory(): Promise<FeedMemory> {
       last_reset: new Date().toISOString(),
       intentions: memory?.intentions || {},
     };
-    await kv.set(FEED_MEMORY_KEY, newMemory);
+    await getUserStore().set(FEED_MEMORY_KEY, newMemory);
     return newMemory;
   }
   
@@ -85,7 +92,7 @@ export async function getFeedMemory(): Promise<FeedMemory> {
 export async function updateFeedMemory(updates: Partial<FeedMemory>): Promise<FeedMemory> {
   const current = await getFeedMemory();
   const updated = { ...current, ...updates };
-  await kv.set(FEED_MEMORY_KEY, updated);
+  await getUserStore().set(FEED_MEMORY_KEY, updated);
   return updated;
 }
 
@@ -98,7 +105,7 @@ export async function markCardShown(fullName: string): Promise<void> {
     memory.shown_today.push(fullName);
   }
   memory.active_card = fullName;
-  await kv.set(FEED_MEMORY_KEY, memory);
+  await getUserStore().set(FEED_MEMORY_KEY, memory);
 }
 
 /**
@@ -110,7 +117,7 @@ export async function markCardSkipped(fullName: string): Promise<void> {
     memory.skipped_today.push(fullName);
   }
   memory.active_card = null;
-  await kv.set(FEED_MEMORY_KEY, memory);
+  await getUserStore().set(FEED_MEMORY_KEY, memory);
 }
 
 /**
@@ -144,7 +151,7 @@ export async function saveIntention(
     stated_at: new Date().toISOString(),
     remind_after: new Date(Date.now() + remindInHours * 60 * 60 * 1000).toISOString(),
   };
-  await kv.set(FEED_MEMORY_KEY, memory);
+  await getUserStore().set(FEED_MEMORY_KEY, memory);
 }
 
 /**
@@ -153,7 +160,7 @@ export async function saveIntention(
 export async function clearIntention(fullName: string): Promise<void> {
   const memory = await getFeedMemory();
   delete memory.intentions[fullName];
-  await kv.set(FEED_MEMORY_KEY, memory);
+  await getUserStore().set(FEED_MEMORY_KEY, memory);
 }
 
 /**
@@ -183,6 +190,9 @@ export function calculatePriority(repo: TrackedRepo, memory: FeedMemory): number
   else if (daysSincePush < 7) score += 30;
   else if (daysSincePush < 14) score += 10;
   
+  // Red CI = a concrete "fix the build" task waiting (+60)
+  if (repo.ci_status?.state === 'failing') score += 60;
+  
   // Analysis quality bonus
   if (repo.analysis?.has_core) score += 20;
   if (repo.analysis?.tweet_draft) score += 10;
@@ -203,49 +213,53 @@ export function calculatePriority(repo: TrackedRepo, memory: FeedMemory): number
  * @param onProgress - Optional callback for streaming progress updates
  */
 export async function generateCard(
-  anthropic: Anthropic,
+  llm: LLMClient,
   github: GitHubClient,
   repo: TrackedRepo,
   onProgress?: OnProgressCallback
 ): Promise<RepoCard> {
   const fullName = `${repo.owner}/${repo.name}`;
   const progress = onProgress || (async () => {});
+  // Usage of every call below is billed to this repo
+  const repoLlm = llm.forRepo(fullName);
 
   // Step: Loading repo data
   await progress({ step: 'loading', repoName: repo.name });
 
   // Fetch README and determine tech stack
-  const [readme, packageJson, commits] = await Promise.all([
+  const [readme, files, commits] = await Promise.all([
     github.getFileContent(repo.owner, repo.name, 'README.md'),
-    github.getFileContent(repo.owner, repo.name, 'package.json'),
+    github.getRepoTree(repo.owner, repo.name, 2000),
     github.getRepoCommits(repo.owner, repo.name).catch(() => []),
   ]);
 
-  // Parse tech stack from package.json
-  const techStack: string[] = [];
-  if (packageJson) {
-    try {
-      const pkg = JSON.parse(packageJson);
-      const deps = { ...pkg.dependencies, ...pkg.devDependencies };
-      if (deps.react) techStack.push('React');
-      if (deps.next) techStack.push('Next.js');
-      if (deps.vue) techStack.push('Vue');
-      if (deps.express) techStack.push('Express');
-      if (deps.typescript) techStack.push('TypeScript');
-    } catch { /* ignore */ }
-  }
+  // Tech stack from whichever manifests the repo has (package.json, pyproject.toml, Cargo.toml, ...),
+  // deploy state from the hosting providers + a homepage probe, CI from the default branch head,
+  // README lint against the tree, repo checks (SHA-bound results cached per head SHA)
+  const [{ stack: techStack }, deployState, ciStatus, readmeHealth, checkReport] = await Promise.all([
+    fetchTechStack(github, repo.owner, repo.name, files),
+    getDeployState(github, { owner: repo.owner, name: repo.name, homepage: repo.homepage }),
+    getCIStatus(github, repo.owner, repo.name),
+    lintReadmeWithImages(readme, { files }),
+    runChecks(github, repo.owner, repo.name).catch(() => null),
+  ]);
+
+  // Keep CI, README health and checks on the tracked repo for feed priority, packaging checks and details.
+  // Only these fields are written - `repo` was loaded before the fetches above.
+  const fields: Partial<TrackedRepo> = { ci_status: ciStatus, readme_health: readmeHealth, ...(checkReport && { checks: checkReport }) };
+  repo = { ...repo, ...fields };
+  await stateManager.updateTrackedRepo(repo.owner, repo.name, fields);
 
   // 2. Compute deterministic state (fast, no AI)
-  const deployState = getDeployState(repo);
   const stage = computeProjectStage(repo);
-  const packagingChecks = computePackagingChecks(repo);
+  const packagingChecks = computePackagingChecks(repo, readmeHealth);
   const readmeTodos = parseReadmeTodos(readme);
 
   // Step: Analyzing potential
   await progress({ step: 'analyzing', repoName: repo.name, stage });
 
   // 1. Get potential (cached or generate)
-  const potential = await getCachedPotential(anthropic, repo, readme, techStack);
+  const potential = await getCachedPotential(repoLlm, repo, readme, techStack);
 
   // Step: Getting context
   await progress({ step: 'context', repoName: repo.name, stage, potential: potential.potential });
@@ -258,7 +272,7 @@ export async function generateCard(
   }));
 
   const intention = await getActiveIntention(fullName);
-  const lastContext = await generateLastContext(anthropic, {
+  const lastContext = await generateLastContext(repoLlm, {
     recent_commits: recentCommits,
     open_intention: intention,
   });
@@ -267,10 +281,12 @@ export async function generateCard(
   await progress({ step: 'next_step', repoName: repo.name, stage, potential: potential.potential });
 
   // 4. Get next step
-  const nextStep = await generateNextStep(anthropic, {
+  const nextStep = await generateNextStep(repoLlm, {
     readme_todos: readmeTodos,
     stated_intention: intention,
     deploy_state: deployState,
+    ci_status: ciStatus,
+    checks: checkReport?.results,
     packaging_checks: packagingChecks,
     project_stage: stage,
     recent_activity_summary: lastContext.last_context,
@@ -307,7 +323,7 @@ export async function generateCard(
  * @param onProgress - Optional callback for streaming progress updates
  */
 export async function getNextCard(
-  anthropic: Anthropic,
+  llm: LLMClient,
   github: GitHubClient,
   repos: TrackedRepo[],
   onProgress?: OnProgressCallback
@@ -335,5 +351,5 @@ export async function getNextCard(
   }
 
   // Generate the full card with progress
-  return generateCard(anthropic, github, best.repo, onProgress);
+  return generateCard(llm, github, best.repo, onProgress);
 }
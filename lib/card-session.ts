@@ -1,4 +1,4 @@
-import { kv } from '@vercel/kv';
+import { getUserStore } from './core/users.js';
 import { RepoCard } from './core/types.js';
 
 export interface CardSession {
@@ -18,7 +18,7 @@ function generateShortId(): string {
 }
 
 /**
- * Create a new card session and store in KV
+ * Create a new card session and persist it
  * TTL: 24 hours
  */
 export async function createCardSession(card: RepoCard): Promise<CardSession> {
@@ -30,7 +30,7 @@ export async function createCardSession(card: RepoCard): Promise<CardSession> {
     created_at: new Date().toISOString(),
   };
   
-  await kv.set(`cs:${session.id}`, session, { ex: 86400 }); // 24h TTL
+  await getUserStore().set(`cs:${session.id}`, session, { ex: 86400 }); // 24h TTL
   
   return session;
 }
@@ -39,7 +39,7 @@ export async function createCardSession(card: RepoCard): Promise<CardSession> {
  * Get a card session by ID
  */
 export async function getCardSession(id: string): Promise<CardSession | null> {
-  return kv.get<CardSession>(`cs:${id}`);
+  return getUserStore().get<CardSession>(`cs:${id}`);
 }
 
 /**
@@ -59,7 +59,7 @@ export async function updateCardSession(
     version: session.version + 1,
   };
   
-  await kv.set(`cs:${id}`, updated, { ex: 86400 }); // Refresh TTL
+  await getUserStore().set(`cs:${id}`, updated, { ex: 86400 }); // Refresh TTL
   
   return updated;
 }
@@ -73,7 +73,7 @@ export async function replaceCardSession(
   newCard: RepoCard
 ): Promise<CardSession> {
   // Delete old session
-  await kv.del(`cs:${oldId}`);
+  await getUserStore().del(`cs:${oldId}`);
   
   // Create new session with fresh ID
   return createCardSession(newCard);
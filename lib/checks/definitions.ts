@@ -0,0 +1,166 @@
+/**
+ * Check Definitions
+ *
+ * Built-in deterministic checks. Each declares its inputs and returns
+ * pass/warn/fail with a message and, when it doesn't pass, a next step.
+ */
+
+import type { Check, CheckData } from './types.js';
+
+const MB = 1024 * 1024;
+
+/** Any file this big slows every clone */
+const HUGE_FILE_BYTES = 5 * MB;
+
+/** Binaries this big belong in LFS or a release */
+const LARGE_BINARY_BYTES = 1 * MB;
+
+const BINARY_EXTENSIONS = /\.(zip|tar|gz|tgz|7z|rar|exe|dll|so|dylib|bin|jar|war|dmg|iso|pkg|deb|rpm|apk|ipa|mp4|mov|avi|mkv|mp3|wav|psd|ai|sketch|fig|pdf|sqlite|db|onnx|pt|pth|ckpt|safetensors|h5|npy|parquet)$/i;
+
+// ============ LICENSE ============
+
+export const licenseCheck: Check = {
+  name: 'license',
+  label: 'License',
+  inputs: ['tree'],
+
+  run: ({ tree }) => {
+    const license = tree.find(f => /^(LICEN[CS]E|COPYING)(\.[\w-]+)?$/i.test(f.path));
+    return license
+      ? { status: 'pass', message: `${license.path} present` }
+      : {
+          status: 'warn',
+          message: 'No LICENSE - nobody can legally reuse the code',
+          next_step: 'Add a LICENSE file (MIT if unsure)',
+        };
+  },
+};
+
+// ============ .ENV COMMITTED ============
+
+export const envFileCheck: Check = {
+  name: 'env_committed',
+  label: '.env files',
+  inputs: ['tree'],
+
+  run: ({ tree }) => {
+    const committed = tree
+      .map(f => f.path)
+      .filter(path => /(^|\/)\.env(\.[\w-]+)?$/.test(path))
+      .filter(path => !/\.(example|sample|template|dist|defaults?)$/i.test(path));
+
+    return committed.length === 0
+      ? { status: 'pass', message: 'No .env files committed' }
+      : {
+          status: 'fail',
+          message: `Committed: ${committed.slice(0, 3).join(', ')}${committed.length > 3 ? ` (+${committed.length - 3})` : ''}`,
+          next_step: `Remove ${committed[0]} from git, rotate its secrets, and add it to .gitignore`,
+        };
+  },
+};
+
+// ============ TESTS ============
+
+const TEST_FILE = [
+  /(^|\/)(__tests__|tests?|spec|specs|e2e)\//,
+  /\.(test|spec)\.[cm]?[jt]sx?$/,
+  /_test\.(go|py|rb|exs?)$/,
+  /(^|\/)test_[^/]+\.py$/,
+  /_spec\.rb$/,
+  /Tests?\.(java|kt|cs|swift)$/,
+];
+
+export const testsCheck: Check = {
+  name: 'tests',
+  label: 'Tests',
+  inputs: ['tree', 'manifest'],
+
+  run: ({ tree, manifests }) => {
+    const tests = tree.filter(f => TEST_FILE.some(re => re.test(f.path)));
+    if (tests.length > 0) {
+      return { status: 'pass', message: `${tests.length} test file${tests.length === 1 ? '' : 's'}` };
+    }
+    if (hasTestScript(manifests)) {
+      return { status: 'pass', message: 'Test script configured' };
+    }
+    return {
+      status: 'warn',
+      message: 'No tests found',
+      next_step: 'Add one smoke test that exercises the core path',
+    };
+  },
+};
+
+/** package.json "test" script other than npm's placeholder */
+function hasTestScript(manifests: CheckData['manifests']): boolean {
+  if (!manifests['package.json']) return false;
+  try {
+    const test: unknown = JSON.parse(manifests['package.json']).scripts?.test;
+    return typeof test === 'string' && !/no test specified/i.test(test);
+  } catch {
+    return false;
+  }
+}
+
+// ============ LARGE FILES ============
+
+export const largeFilesCheck: Check = {
+  name: 'large_files',
+  label: 'Large files',
+  inputs: ['tree'],
+
+  run: ({ tree }) => {
+    const huge = tree.filter(f => f.size >= HUGE_FILE_BYTES);
+    const binaries = tree.filter(f => f.size >= LARGE_BINARY_BYTES && f.size < HUGE_FILE_BYTES && BINARY_EXTENSIONS.test(f.path));
+    const list = (files: typeof tree) => [...files]
+      .sort((a, b) => b.size - a.size)
+      .slice(0, 3)
+      .map(f => `${f.path} (${(f.size / MB).toFixed(1)} MB)`)
+      .join(', ');
+
+    if (huge.length > 0) {
+      return {
+        status: 'fail',
+        message: `${huge.length} file${huge.length === 1 ? '' : 's'} over ${HUGE_FILE_BYTES / MB} MB: ${list(huge)}`,
+        next_step: 'Move large files to Git LFS or a release asset',
+      };
+    }
+    if (binaries.length > 0) {
+      return {
+        status: 'warn',
+        message: `Binaries in git: ${list(binaries)}`,
+        next_step: 'Move binaries to Git LFS or a release asset',
+      };
+    }
+    return { status: 'pass', message: 'No large binaries' };
+  },
+};
+
+// ============ HOMEPAGE ============
+
+export const homepageCheck: Check = {
+  name: 'homepage',
+  label: 'Homepage',
+  inputs: ['repo'],
+
+  run: ({ repo }) => repo.homepage
+    ? { status: 'pass', message: repo.homepage }
+    : {
+        status: 'warn',
+        message: 'No homepage set on the repo',
+        next_step: "Set the repo's website field to the live URL or docs",
+      },
+};
+
+// ============ ALL CHECKS ============
+
+/**
+ * All built-in checks (registered on module import)
+ */
+export const allChecks: Check[] = [
+  licenseCheck,
+  envFileCheck,
+  testsCheck,
+  largeFilesCheck,
+  homepageCheck,
+];
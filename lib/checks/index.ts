@@ -0,0 +1,20 @@
+/**
+ * Repo Check System
+ *
+ * Exports the check registry, runner, and all built-in checks.
+ * Checks are automatically registered when this module is imported.
+ */
+
+export * from './types.js';
+export * from './registry.js';
+export { allChecks, licenseCheck, envFileCheck, testsCheck, largeFilesCheck, homepageCheck } from './definitions.js';
+
+// ============ AUTO-REGISTER CHECKS ============
+
+import { registerCheck } from './registry.js';
+import { allChecks } from './definitions.js';
+
+// Register all checks on module load
+for (const check of allChecks) {
+  registerCheck(check);
+}
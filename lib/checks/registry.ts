@@ -0,0 +1,184 @@
+/**
+ * Check Registry & Runner
+ *
+ * Central registry for deterministic repo checks. The runner resolves the
+ * default branch head, reuses the cached results of SHA-bound checks for
+ * that SHA and check set, and loads only the inputs of what's left to run.
+ */
+
+import { createHash } from 'node:crypto';
+import type { GitHubClient } from '../core/github.js';
+import type { CheckReport, CheckResult } from '../core/types.js';
+import { SHA_BOUND_INPUTS, type Check, type CheckData, type CheckInput } from './types.js';
+import { MANIFEST_FILES } from '../core/tech-stack.js';
+import { stateManager } from '../core/state.js';
+import { info, error as logErr } from '../core/logger.js';
+
+/** Commits loaded for the 'commits' input */
+const CHECK_COMMITS = 30;
+
+// ============ REGISTRY ============
+
+const checks = new Map<string, Check>();
+
+/**
+ * Register a check with the registry
+ */
+export function registerCheck(check: Check): void {
+  if (checks.has(check.name)) {
+    throw new Error(`Check "${check.name}" is already registered`);
+  }
+  checks.set(check.name, check);
+  info('checks', `Registered check: ${check.name}`, { inputs: check.inputs });
+}
+
+/**
+ * Get a check by name
+ */
+export function getCheck(name: string): Check | undefined {
+  return checks.get(name);
+}
+
+/**
+ * Get all registered checks
+ */
+export function getAllChecks(): Check[] {
+  return Array.from(checks.values());
+}
+
+// ============ RUNNER ============
+
+/**
+ * Whether a check's result is fixed by the head commit (see SHA_BOUND_INPUTS)
+ */
+export function isShaBound(check: Check): boolean {
+  return check.inputs.every(input => SHA_BOUND_INPUTS.includes(input));
+}
+
+/**
+ * Short hash of check names and versions - part of the cache key, so adding,
+ * removing or bumping a check invalidates reports cached for a SHA
+ */
+export function checkSetKey(set: Check[]): string {
+  const ids = set.map(c => `${c.name}@${c.version ?? 1}`).sort().join(',');
+  return createHash('sha256').update(ids).digest('hex').slice(0, 12);
+}
+
+/**
+ * Run every registered check against the default branch head.
+ * SHA-bound results are cached per SHA and check set, so an unchanged repo
+ * costs two requests plus whatever the other checks read (repo settings).
+ *
+ * @example
+ * ```typescript
+ * const report = await runChecks(github, 'owner', 'repo');
+ * report.results.filter(r => r.status === 'fail');
+ * ```
+ */
+export async function runChecks(
+  github: GitHubClient,
+  owner: string,
+  name: string,
+  options: { forceRefresh?: boolean } = {}
+): Promise<CheckReport> {
+  const branch = await github.getDefaultBranch(owner, name);
+  const sha = await github.getBranchSha(owner, name, branch);
+
+  const all = getAllChecks();
+  const cacheable = all.filter(isShaBound);
+  const checkSet = checkSetKey(cacheable);
+
+  const cached = options.forceRefresh ? null : await stateManager.getCheckReport(owner, name, sha, checkSet);
+  if (cached) info('checks', 'Using cached report', { owner, name, sha });
+
+  const toRun = cached ? all.filter(c => !isShaBound(c)) : all;
+  const data = await loadInputs(github, owner, name, sha, new Set(toRun.flatMap(c => c.inputs)));
+  const ran = await Promise.all(toRun.map(check => runCheck(check, data)));
+
+  if (!cached) {
+    const names = new Set(cacheable.map(c => c.name));
+    await stateManager.saveCheckReport(owner, name, checkSet, {
+      sha,
+      results: ran.filter(r => names.has(r.name)),
+      checked_at: new Date().toISOString(),
+    });
+  }
+
+  // Registry order, cached and fresh results together
+  const byName = new Map([...(cached?.results ?? []), ...ran].map(r => [r.name, r]));
+  const results = all.map(c => byName.get(c.name)).filter((r): r is CheckResult => !!r);
+  const report: CheckReport = { sha, results, checked_at: new Date().toISOString() };
+  info('checks', 'Checks complete', {
+    owner,
+    name,
+    sha,
+    fail: results.filter(r => r.status === 'fail').length,
+    warn: results.filter(r => r.status === 'warn').length,
+  });
+  return report;
+}
+
+/**
+ * Run one check, turning a throw into a 'warn' so one bad check can't sink the report
+ */
+export async function runCheck(check: Check, data: CheckData): Promise<CheckResult> {
+  try {
+    const outcome = await check.run(data);
+    return {
+      name: check.name,
+      label: check.label,
+      status: outcome.status,
+      message: outcome.message,
+      next_step: outcome.status === 'pass' ? null : outcome.next_step ?? null,
+    };
+  } catch (err) {
+    logErr('checks', err, { check: check.name, owner: data.owner, repo: data.name });
+    return {
+      name: check.name,
+      label: check.label,
+      status: 'warn',
+      message: `Check failed to run: ${err instanceof Error ? err.message : String(err)}`,
+      next_step: null,
+    };
+  }
+}
+
+/**
+ * Fetch only the requested inputs, in parallel
+ */
+async function loadInputs(
+  github: GitHubClient,
+  owner: string,
+  name: string,
+  sha: string,
+  inputs: Set<CheckInput>
+): Promise<CheckData> {
+  const [tree, readme, commits, repoInfo] = await Promise.all([
+    inputs.has('tree') || inputs.has('manifest') ? github.getTreeBlobs(owner, name, sha) : Promise.resolve([]),
+    inputs.has('readme') ? github.getFileContent(owner, name, 'README.md') : Promise.resolve(null),
+    inputs.has('commits') ? github.getRepoCommits(owner, name, { limit: CHECK_COMMITS }).catch(() => []) : Promise.resolve([]),
+    inputs.has('repo') ? github.getRepoInfo(owner, name) : Promise.resolve(null),
+  ]);
+
+  const manifests: Record<string, string> = {};
+  if (inputs.has('manifest')) {
+    const paths = new Set(tree.map(f => f.path));
+    const present = MANIFEST_FILES.filter(file => paths.has(file));
+    const contents = await Promise.all(present.map(file => github.getFileContent(owner, name, file)));
+    present.forEach((file, i) => {
+      const content = contents[i];
+      if (content) manifests[file] = content;
+    });
+  }
+
+  return {
+    owner,
+    name,
+    sha,
+    tree,
+    readme,
+    manifests,
+    commits,
+    repo: { description: repoInfo?.description ?? null, homepage: repoInfo?.homepage ?? null },
+  };
+}
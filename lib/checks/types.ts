@@ -0,0 +1,81 @@
+/**
+ * Repo Check Types
+ *
+ * A check is a deterministic rule about a repo (LICENSE present, no .env
+ * committed, ...). Each check declares the inputs it reads; the runner
+ * fetches only what the registered checks need, once per head commit.
+ */
+
+import type { GitHubCommit } from '../core/github.js';
+import type { CheckStatus } from '../core/types.js';
+
+/**
+ * Data a check can read
+ */
+export type CheckInput = 'tree' | 'readme' | 'manifest' | 'commits' | 'repo';
+
+/**
+ * Inputs fixed by the head commit. Checks reading only these are cached per
+ * SHA; the rest ('repo' settings can change without a push) run every time.
+ */
+export const SHA_BOUND_INPUTS: readonly CheckInput[] = ['tree', 'readme', 'manifest', 'commits'];
+
+/**
+ * Loaded inputs. Only inputs some registered check declared are fetched;
+ * the rest are left empty, so read only what you declared.
+ */
+export interface CheckData {
+  owner: string;
+  name: string;
+  /** Head commit of the default branch */
+  sha: string;
+  /** 'tree': every file at the head, with sizes */
+  tree: Array<{ path: string; size: number }>;
+  /** 'readme': README.md, null when missing */
+  readme: string | null;
+  /** 'manifest': root manifests present (package.json, Cargo.toml, ...) by file name */
+  manifests: Record<string, string>;
+  /** 'commits': latest default-branch commits, newest first */
+  commits: GitHubCommit[];
+  /** 'repo': repo settings */
+  repo: { description: string | null; homepage: string | null };
+}
+
+export interface CheckOutcome {
+  status: CheckStatus;
+  message: string;
+  /** Suggested next step when the check doesn't pass */
+  next_step?: string;
+}
+
+/**
+ * Check definition
+ *
+ * @example
+ * ```typescript
+ * const licenseCheck: Check = {
+ *   name: 'license',
+ *   label: 'LICENSE',
+ *   inputs: ['tree'],
+ *   run: ({ tree }) => tree.some(f => /^LICENSE/i.test(f.path))
+ *     ? { status: 'pass', message: 'LICENSE present' }
+ *     : { status: 'warn', message: 'No LICENSE', next_step: 'Add a LICENSE file' },
+ * };
+ * ```
+ */
+export interface Check {
+  /** Unique identifier for this check */
+  name: string;
+
+  /** Human-readable label for the details view */
+  label: string;
+
+  /** Inputs this check reads from CheckData */
+  inputs: CheckInput[];
+
+  /** Bump when the rule changes so cached reports made with the old one are dropped */
+  version?: number;
+
+  /** Evaluate the repo; a throw is reported as a 'warn' result */
+  run: (data: CheckData) => CheckOutcome | Promise<CheckOutcome>;
+}
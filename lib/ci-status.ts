@@ -0,0 +1,157 @@
+/**
+ * CI Status
+ *
+ * Is the default branch head green? Reads check runs (GitHub Actions and any
+ * other CI app), falling back to Actions workflow runs when the token can't
+ * read checks. Failing Actions jobs get an excerpt of their log.
+ */
+
+import type { GitHubClient } from './core/github.js';
+import type { CIJob, CIState, CIStatus } from './core/types.js';
+import { error as logErr } from './core/logger.js';
+
+/** Failing jobs we fetch logs for */
+const MAX_LOGS = 3;
+
+/** Log lines kept before the first error */
+const EXCERPT_LINES = 12;
+const EXCERPT_CHARS = 600;
+
+const FAILED = new Set(['failure', 'timed_out', 'action_required', 'startup_failure']);
+
+interface RunSummary {
+  name: string;
+  done: boolean;
+  failed: boolean;
+  url: string | null;
+  /** Actions job id, when logs can be fetched */
+  jobId: number | null;
+  summary: string | null;
+}
+
+/**
+ * Never throws - an unreadable CI comes back as state 'unknown'
+ */
+export async function getCIStatus(github: GitHubClient, owner: string, repo: string): Promise<CIStatus> {
+  const checkedAt = new Date().toISOString();
+  let sha: string | null = null;
+
+  try {
+    const branch = await github.getDefaultBranch(owner, repo);
+    sha = await github.getBranchSha(owner, repo, branch);
+    const head = sha;
+
+    const runs = await getCheckRunSummaries(github, owner, repo, head)
+      .catch(() => getWorkflowJobSummaries(github, owner, repo, head));
+
+    const failedRuns = runs.filter(r => r.failed);
+    const failing = await Promise.all(failedRuns.map((run, i) =>
+      toFailingJob(github, owner, repo, run, i < MAX_LOGS)
+    ));
+
+    return { state: stateOf(runs), sha, failing, checked_at: checkedAt };
+  } catch (err) {
+    logErr('ci', err, { owner, repo });
+    return { state: 'unknown', sha, failing: [], checked_at: checkedAt };
+  }
+}
+
+function stateOf(runs: RunSummary[]): CIState {
+  if (runs.length === 0) return 'none';
+  if (runs.some(r => r.failed)) return 'failing';
+  if (runs.some(r => !r.done)) return 'pending';
+  return 'passing';
+}
+
+async function getCheckRunSummaries(github: GitHubClient, owner: string, repo: string, sha: string): Promise<RunSummary[]> {
+  const runs = await github.getCheckRuns(owner, repo, sha);
+  return runs.map(run => ({
+    name: run.name,
+    done: run.status === 'completed',
+    failed: FAILED.has(run.conclusion ?? ''),
+    url: run.html_url,
+    jobId: run.app?.slug === 'github-actions' ? run.id : null,
+    summary: run.output.title || run.output.summary,
+  }));
+}
+
+/**
+ * Fallback for tokens without checks access: Actions runs on the head and their jobs
+ */
+async function getWorkflowJobSummaries(github: GitHubClient, owner: string, repo: string, sha: string): Promise<RunSummary[]> {
+  const runs = await github.getWorkflowRuns(owner, repo, sha);
+  const jobs = await Promise.all(runs.map(async run => ({
+    run,
+    jobs: await github.getWorkflowRunJobs(owner, repo, run.id).catch(() => []),
+  })));
+
+  return jobs.flatMap(({ run, jobs }): RunSummary[] => jobs.length > 0
+    ? jobs.map(job => ({
+        name: run.name ? `${run.name} / ${job.name}` : job.name,
+        done: job.status === 'completed',
+        failed: FAILED.has(job.conclusion ?? ''),
+        url: job.html_url,
+        jobId: job.id,
+        summary: null,
+      }))
+    : [{
+        name: run.name || `run ${run.id}`,
+        done: run.status === 'completed',
+        failed: FAILED.has(run.conclusion ?? ''),
+        url: run.html_url,
+        jobId: null,
+        summary: null,
+      }]);
+}
+
+async function toFailingJob(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  run: RunSummary,
+  withLog: boolean
+): Promise<CIJob> {
+  let excerpt: string | null = null;
+  if (withLog && run.jobId !== null) {
+    const log = await github.getJobLogs(owner, repo, run.jobId).catch(() => null);
+    if (log) excerpt = extractLogExcerpt(log);
+  }
+  return { name: run.name, url: run.url, excerpt: excerpt ?? run.summary };
+}
+
+/**
+ * The lines leading up to the first error in an Actions log
+ * (timestamps and ANSI colors stripped); the log's tail if no error is marked
+ */
+export function extractLogExcerpt(log: string): string | null {
+  const lines = log
+    .split('\n')
+    .map(line => line
+      .replace(/\x1b\[[0-9;]*m/g, '')
+      .replace(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z\s?/, '')
+      .trimEnd())
+    .filter(line => line && !/^##\[(group|endgroup)\]/.test(line));
+  if (lines.length === 0) return null;
+
+  const firstError = lines.findIndex(line => line.startsWith('##[error]'));
+  const end = firstError === -1 ? lines.length : firstError + 1;
+  const window = lines.slice(Math.max(0, end - EXCERPT_LINES), end).join('\n').replace(/##\[error\]/g, '');
+
+  return window.length > EXCERPT_CHARS ? '...' + window.slice(-(EXCERPT_CHARS - 3)) : window;
+}
+
+/**
+ * One line for cards and prompts, e.g. "❌ failing: test, lint"
+ */
+export function formatCIStatus(ci: CIStatus): string {
+  switch (ci.state) {
+    case 'passing': return '✅ passing';
+    case 'pending': return '⏳ running';
+    case 'none': return '— no CI';
+    case 'unknown': return '❔ unknown';
+    case 'failing': {
+      const names = ci.failing.map(job => job.name);
+      return `❌ failing: ${names.slice(0, 3).join(', ')}${names.length > 3 ? ` (+${names.length - 3})` : ''}`;
+    }
+  }
+}
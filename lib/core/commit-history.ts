@@ -0,0 +1,191 @@
+/**
+ * Commit History
+ *
+ * Activity over a real window (default 90 days) instead of the last few
+ * commits: weekly commit counts, active days, streaks, and which directories
+ * the recent commits touched.
+ */
+
+import type { GitHubClient, GitHubCommit } from './github.js';
+import type { CommitHistory, CommitLog, DirectoryChurn } from './types.js';
+import { stateManager } from './state.js';
+import { error as logErr } from './logger.js';
+
+/** Default window, in days */
+export const HISTORY_DAYS = 90;
+
+/** Commits fetched per window; busier repos are marked truncated */
+const MAX_COMMITS = 500;
+
+/** Newest commits whose files are read for churn (one request each) */
+const CHURN_COMMITS = 20;
+
+/** Directories kept in the churn breakdown */
+const CHURN_DIRS = 5;
+
+/** A stored commit log this fresh is used without asking GitHub */
+const LOG_FRESH_MS = 15 * 60 * 1000;
+
+const DAY_MS = 86400000;
+
+/** What the history needs from a commit */
+type DatedCommit = Pick<GitHubCommit, 'sha'> & { commit: Pick<GitHubCommit['commit'], 'author'> };
+
+/**
+ * Build the history from the stored commit log, fetching only commits
+ * newer than the log's newest (the whole window the first time)
+ * @param options.churn Also read the changed files of the newest commits
+ *   (costs one request per commit - off for bulk scoring)
+ */
+export async function fetchCommitHistory(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  options: { days?: number; churn?: boolean } = {}
+): Promise<CommitHistory> {
+  const { days = HISTORY_DAYS, churn = false } = options;
+  const commits = await loadCommits(github, owner, repo, days);
+
+  const files = new Map<string, string[]>();
+  if (churn) {
+    const sampled = commits.slice(0, CHURN_COMMITS).filter(c => inWindow(c, days));
+    for (let i = 0; i < sampled.length; i += 5) {
+      const batch = sampled.slice(i, i + 5);
+      const touched = await Promise.all(batch.map(c => github.getCommitFiles(owner, repo, c.sha)));
+      batch.forEach((c, j) => files.set(c.sha, touched[j]));
+    }
+  }
+
+  return buildCommitHistory(commits, { days, files, limit: MAX_COMMITS });
+}
+
+/**
+ * The window's commits, newest first: the stored log plus whatever was
+ * pushed after its newest commit. Saves the merged log back.
+ */
+async function loadCommits(github: GitHubClient, owner: string, repo: string, days: number): Promise<DatedCommit[]> {
+  const log = await stateManager.getCommitLog(owner, repo).catch((): null => null);
+  const usable = log && log.window_days === days && log.commits.length > 0 ? log : null;
+  if (usable && Date.now() - Date.parse(usable.fetched_at) < LOG_FRESH_MS) {
+    return usable.commits.map(fromLog);
+  }
+
+  let commits: DatedCommit[];
+  if (usable) {
+    // `since` is inclusive, so the newest known commit comes back too
+    const known = new Set(usable.commits.map(c => c.sha));
+    const fresh = await github.getRepoCommits(owner, repo, { since: usable.commits[0].date, limit: MAX_COMMITS });
+    commits = [...fresh.filter(c => !known.has(c.sha)), ...usable.commits.map(fromLog)];
+  } else {
+    const since = new Date(Date.now() - days * DAY_MS).toISOString();
+    commits = await github.getRepoCommits(owner, repo, { since, limit: MAX_COMMITS });
+    // Nothing in the window: the newest commit still tells us how stale it is
+    if (commits.length === 0) commits = await github.getRepoCommits(owner, repo, { limit: 1 });
+  }
+
+  // Keep the window (and always the newest commit), capped like a fresh fetch
+  const kept = commits.filter((c, i) => i === 0 || inWindow(c, days)).slice(0, MAX_COMMITS);
+  const updated: CommitLog = {
+    window_days: days,
+    fetched_at: new Date().toISOString(),
+    commits: kept.map(c => ({ sha: c.sha, date: c.commit.author.date })),
+  };
+  await stateManager.saveCommitLog(owner, repo, updated).catch(err => logErr('commit-history', err, { owner, repo }));
+  return kept;
+}
+
+function fromLog(entry: CommitLog['commits'][number]): DatedCommit {
+  return { sha: entry.sha, commit: { author: { date: entry.date } } };
+}
+
+/**
+ * Pure: history from a newest-first commit list
+ * @param options.files Changed files by sha, for the churn breakdown
+ * @param options.limit How many commits the caller asked for, to detect truncation
+ */
+export function buildCommitHistory(
+  commits: DatedCommit[],
+  options: { days?: number; files?: Map<string, string[]>; limit?: number; now?: number } = {}
+): CommitHistory {
+  const { days = HISTORY_DAYS, files = new Map<string, string[]>(), limit, now = Date.now() } = options;
+  const inside = commits.filter(c => inWindow(c, days, now));
+
+  const weekly = new Array<number>(Math.ceil(days / 7)).fill(0);
+  const activeDays = new Set<number>();
+  for (const c of inside) {
+    const age = now - commitTime(c);
+    weekly[weekly.length - 1 - Math.min(weekly.length - 1, Math.floor(age / (7 * DAY_MS)))]++;
+    activeDays.add(Math.floor(commitTime(c) / DAY_MS));
+  }
+
+  const { current, longest } = streaks(activeDays, Math.floor(now / DAY_MS));
+  const oldest = commits[commits.length - 1];
+
+  return {
+    window_days: days,
+    total_commits: inside.length,
+    active_days: activeDays.size,
+    weekly,
+    current_streak: current,
+    longest_streak: longest,
+    days_since_last: commits.length > 0 ? Math.floor((now - commitTime(commits[0])) / DAY_MS) : 999,
+    churn: churnByDirectory(inside.map(c => files.get(c.sha)).filter((f): f is string[] => !!f)),
+    churn_sampled: inside.filter(c => files.has(c.sha)).length,
+    truncated: limit !== undefined && commits.length >= limit && !!oldest && inWindow(oldest, days, now),
+  };
+}
+
+function commitTime(commit: DatedCommit): number {
+  return new Date(commit.commit.author.date).getTime();
+}
+
+function inWindow(commit: DatedCommit, days: number, now = Date.now()): boolean {
+  return now - commitTime(commit) <= days * DAY_MS;
+}
+
+/** Runs of consecutive UTC days; the current run may end yesterday */
+function streaks(days: Set<number>, today: number): { current: number; longest: number } {
+  let longest = 0;
+  for (const day of days) {
+    if (days.has(day - 1)) continue;
+    let length = 1;
+    while (days.has(day + length)) length++;
+    longest = Math.max(longest, length);
+  }
+
+  let current = 0;
+  let day = days.has(today) ? today : today - 1;
+  while (days.has(day)) {
+    current++;
+    day--;
+  }
+  return { current, longest };
+}
+
+/** Changed-file lists (one per commit) → busiest directories */
+export function churnByDirectory(commitFiles: string[][]): DirectoryChurn[] {
+  const byDir = new Map<string, DirectoryChurn>();
+  for (const paths of commitFiles) {
+    const seen = new Set<string>();
+    for (const path of paths) {
+      const dir = directoryOf(path);
+      const entry = byDir.get(dir) ?? { dir, commits: 0, files: 0 };
+      entry.files++;
+      if (!seen.has(dir)) {
+        entry.commits++;
+        seen.add(dir);
+      }
+      byDir.set(dir, entry);
+    }
+  }
+
+  return [...byDir.values()]
+    .sort((a, b) => b.commits - a.commits || b.files - a.files)
+    .slice(0, CHURN_DIRS);
+}
+
+/** "lib/core/github.ts" → "lib/core", "src/index.ts" → "src", "README.md" → "." */
+function directoryOf(path: string): string {
+  const segments = path.split('/').slice(0, -1);
+  return segments.length === 0 ? '.' : segments.slice(0, 2).join('/');
+}
@@ -25,14 +25,33 @@ export const MODELS = {
     pro: 'gemini-2.5-pro-preview-06-05',   // Best reasoning
     imageGen: 'gemini-3-pro-image-preview', // Image generation (Nano Banana)
   },
+  // OpenAI-compatible endpoint (OpenAI itself, or llama.cpp/Ollama/vLLM via OPENAI_BASE_URL)
+  openai: {
+    default: 'gpt-4o-mini',                // Overridden by OPENAI_MODEL for local servers
+  },
 } as const;
 
 // Default model for each provider
 export const DEFAULT_MODELS = {
   anthropic: MODELS.anthropic.opus,
   google: MODELS.google.flash,
+  openai: MODELS.openai.default,
 } as const;
 
+/**
+ * USD per million tokens, for cost accounting. Models missing here are
+ * recorded with a cost of 0.
+ */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  [MODELS.anthropic.opus]: { input: 5, output: 25 },
+  [MODELS.anthropic.sonnet]: { input: 3, output: 15 },
+  [MODELS.anthropic.haiku]: { input: 0.8, output: 4 },
+  [MODELS.google.flash]: { input: 0.1, output: 0.4 },
+  [MODELS.google.pro]: { input: 1.25, output: 10 },
+  [MODELS.google.imageGen]: { input: 2, output: 12 },
+  [MODELS.openai.default]: { input: 0.15, output: 0.6 },
+};
+
 // ============================================
 // TASK TYPES & ROUTING
 // ============================================
@@ -42,12 +61,20 @@ export type TaskType =
   | 'readme_generation'  // Generate/optimize README
   | 'chart_analysis'     // Analyze chart images for TA
   | 'image_generation'   // Generate images (covers)
+  | 'card_context'       // Card inputs: potential, last context, what changed
+  | 'next_step'          // Pick the one next step for a card
+  | 'deep_dive'          // Expanded card view
+  | 'artifact_generation' // Cursor prompts, CTA copy, launch posts, tweets
   | 'quick_response';    // Fast, simple responses
 
-interface TaskConfig {
-  provider: 'anthropic' | 'google';
+export type AIProvider = 'anthropic' | 'google' | 'openai';
+
+export interface TaskConfig {
+  provider: AIProvider;
   model: string;
   reason: string;
+  /** Used by LLMClient when the primary provider is down or not configured */
+  fallback?: { provider: AIProvider; model: string };
 }
 
 /**
@@ -58,26 +85,54 @@ export const TASK_ROUTING: Record<TaskType, TaskConfig> = {
     provider: 'anthropic',
     model: MODELS.anthropic.opus,
     reason: 'Complex code understanding requires Opus reasoning',
+    fallback: { provider: 'google', model: MODELS.google.pro },
   },
   readme_generation: {
     provider: 'anthropic',
     model: MODELS.anthropic.sonnet,
     reason: 'Sonnet is fast and good for writing',
+    fallback: { provider: 'google', model: MODELS.google.pro },
   },
   chart_analysis: {
     provider: 'google',
     model: MODELS.google.flash,
     reason: 'Gemini Flash has superior vision capabilities',
+    fallback: { provider: 'anthropic', model: MODELS.anthropic.sonnet },
   },
   image_generation: {
     provider: 'google',
     model: MODELS.google.imageGen,
     reason: 'Gemini 3 Pro Image for generation',
   },
+  card_context: {
+    provider: 'anthropic',
+    model: MODELS.anthropic.opus,
+    reason: 'Cached per repo, so quality beats speed',
+    fallback: { provider: 'google', model: MODELS.google.pro },
+  },
+  next_step: {
+    provider: 'anthropic',
+    model: MODELS.anthropic.opus,
+    reason: 'Prioritization needs the strongest reasoning',
+    fallback: { provider: 'google', model: MODELS.google.pro },
+  },
+  deep_dive: {
+    provider: 'anthropic',
+    model: MODELS.anthropic.opus,
+    reason: 'Restores context across the whole card',
+    fallback: { provider: 'google', model: MODELS.google.pro },
+  },
+  artifact_generation: {
+    provider: 'anthropic',
+    model: MODELS.anthropic.opus,
+    reason: 'User-facing copy and prompts',
+    fallback: { provider: 'google', model: MODELS.google.pro },
+  },
   quick_response: {
     provider: 'anthropic',
     model: MODELS.anthropic.haiku,
     reason: 'Haiku is fastest for simple tasks',
+    fallback: { provider: 'google', model: MODELS.google.flash },
   },
 };
 
@@ -90,18 +145,38 @@ export const ENV_KEYS = {
   ANTHROPIC_API_KEY: 'ANTHROPIC_API_KEY',
   GOOGLE_AI_KEY: 'GOOGLE_AI_KEY',
   GEMINI_API_KEY: 'GEMINI_API_KEY',
+  OPENAI_BASE_URL: 'OPENAI_BASE_URL',                   // OpenAI-compatible server, e.g. http://localhost:11434/v1
+  OPENAI_API_KEY: 'OPENAI_API_KEY',                     // Optional for local servers
+  OPENAI_MODEL: 'OPENAI_MODEL',                         // Default model; OPENAI_MODEL_<TASK> per task
+  LLM_LOCAL_TASKS: 'LLM_LOCAL_TASKS',                   // Tasks routed to the OpenAI-compatible provider, or "all"
   
   // Telegram
   TELEGRAM_BOT_TOKEN: 'TELEGRAM_BOT_TOKEN',
-  USER_TELEGRAM_CHAT_ID: 'USER_TELEGRAM_CHAT_ID',
+  USER_TELEGRAM_CHAT_ID: 'USER_TELEGRAM_CHAT_ID',   // Owner (admin)
+  ALLOWED_TELEGRAM_IDS: 'ALLOWED_TELEGRAM_IDS',     // Extra members, comma-separated
   
   // GitHub
   GITHUB_TOKEN: 'GITHUB_TOKEN',
   GITHUB_WEBHOOK_SECRET: 'GITHUB_WEBHOOK_SECRET',
+  GITHUB_APP_ID: 'GITHUB_APP_ID',
+  GITHUB_APP_PRIVATE_KEY: 'GITHUB_APP_PRIVATE_KEY',
+  GITHUB_APP_SLUG: 'GITHUB_APP_SLUG',
+  GITHUB_APP_CLIENT_ID: 'GITHUB_APP_CLIENT_ID',         // Required for /connect: verifies the installer
+  GITHUB_APP_CLIENT_SECRET: 'GITHUB_APP_CLIENT_SECRET',
+  TOKEN_ENCRYPTION_KEY: 'TOKEN_ENCRYPTION_KEY',         // Seals stored GitHub tokens
   
   // Vercel
   KV_REST_API_URL: 'KV_REST_API_URL',
   KV_REST_API_TOKEN: 'KV_REST_API_TOKEN',
+  VERCEL_TOKEN: 'VERCEL_TOKEN',                         // Optional: real deploy status
+  VERCEL_TEAM_ID: 'VERCEL_TEAM_ID',
+
+  // Netlify
+  NETLIFY_TOKEN: 'NETLIFY_TOKEN',                       // Optional: real deploy status
+
+  // State store
+  STATE_STORE: 'STATE_STORE',
+  STATE_SQLITE_PATH: 'STATE_SQLITE_PATH',
 } as const;
 
 // ============================================
@@ -125,6 +200,14 @@ export function getAnthropicClient(): Anthropic {
   return anthropicClient;
 }
 
+/**
+ * Replace the Anthropic client singleton; null rebuilds it from env on next use.
+ * For test harnesses (skill cassettes route the SDK through recorded fetch).
+ */
+export function setAnthropicClient(client: Anthropic | null): void {
+  anthropicClient = client;
+}
+
 /**
  * Get or create the Google AI client singleton
  */
@@ -142,18 +225,41 @@ export function getGoogleClient(): GoogleGenAI {
 /**
  * Check if a specific AI provider is configured
  */
-export function isProviderConfigured(provider: 'anthropic' | 'google'): boolean {
+export function isProviderConfigured(provider: AIProvider): boolean {
   if (provider === 'anthropic') {
     return !!process.env.ANTHROPIC_API_KEY;
   }
+  if (provider === 'openai') {
+    return !!(process.env.OPENAI_BASE_URL || process.env.OPENAI_API_KEY);
+  }
   return !!(process.env.GOOGLE_AI_KEY || process.env.GEMINI_API_KEY);
 }
 
 /**
- * Get the configuration for a specific task type
+ * Get the configuration for a specific task type.
+ * Tasks listed in LLM_LOCAL_TASKS (or all text tasks for "all") go to the
+ * OpenAI-compatible provider with no fallback, so a dev box or script run
+ * never reaches a paid API.
  */
 export function getTaskConfig(taskType: TaskType): TaskConfig {
-  return TASK_ROUTING[taskType];
+  return isLocalTask(taskType)
+    ? { provider: 'openai', model: getOpenAIModel(taskType), reason: 'LLM_LOCAL_TASKS' }
+    : TASK_ROUTING[taskType];
+}
+
+function isLocalTask(taskType: TaskType): boolean {
+  // Image output has no OpenAI-compatible equivalent here
+  if (taskType === 'image_generation') return false;
+  const tasks = (process.env.LLM_LOCAL_TASKS || '').split(',').map(t => t.trim()).filter(Boolean);
+  return tasks.includes('all') || tasks.includes(taskType);
+}
+
+/**
+ * OPENAI_MODEL_<TASK> (e.g. OPENAI_MODEL_REPO_ANALYSIS), then OPENAI_MODEL
+ */
+export function getOpenAIModel(taskType?: TaskType): string {
+  const perTask = taskType ? process.env[`OPENAI_MODEL_${taskType.toUpperCase()}`] : undefined;
+  return perTask || process.env.OPENAI_MODEL || MODELS.openai.default;
 }
 
 /**
@@ -162,9 +268,13 @@ export function getTaskConfig(taskType: TaskType): TaskConfig {
 export function getClientForTask(taskType: TaskType): { 
   client: Anthropic | GoogleGenAI; 
   model: string;
-  provider: 'anthropic' | 'google';
+  provider: AIProvider;
 } {
   const config = TASK_ROUTING[taskType];
+
+  if (config.provider === 'openai') {
+    throw new Error(`${taskType} is routed to the OpenAI-compatible provider - use LLMClient`);
+  }
   
   if (config.provider === 'anthropic') {
     return {
@@ -188,6 +298,7 @@ export function getClientForTask(taskType: TaskType): {
 export interface AIHealthStatus {
   anthropic: { configured: boolean; model: string };
   google: { configured: boolean; model: string };
+  openai: { configured: boolean; model: string };
 }
 
 export function getAIHealthStatus(): AIHealthStatus {
@@ -200,6 +311,10 @@ export function getAIHealthStatus(): AIHealthStatus {
       configured: isProviderConfigured('google'),
       model: DEFAULT_MODELS.google,
     },
+    openai: {
+      configured: isProviderConfigured('openai'),
+      model: getOpenAIModel(),
+    },
   };
 }
 
@@ -0,0 +1,248 @@
+/**
+ * GitHub App
+ *
+ * Installation-token flow so users connect repos without pasting a PAT:
+ * 1. /connect → install URL carrying a one-time `state` bound to the Telegram user
+ * 2. GitHub redirects to api/github-callback with installation_id + state
+ * 3. We store the installation id on the user
+ * 4. Every API call mints (or reuses) a 1-hour installation token, cached sealed
+ *    in the state store and refreshed 5 minutes before expiry
+ *
+ * Web Crypto only (RS256 JWT signing), so it works in Edge functions too.
+ */
+
+import { getStateStore } from './store/index.js';
+import { sealSecret, openSecret, fromBase64, toBase64 } from './secrets.js';
+import { info } from './logger.js';
+
+const API_BASE = 'https://api.github.com';
+
+type CryptoKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>;
+
+/** Refresh installation tokens this long before GitHub expires them */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/** How long a /connect link stays valid */
+const CONNECT_STATE_TTL_SECONDS = 10 * 60;
+
+export interface AppInstallation {
+  id: number;
+  account: { login: string; type: string };
+}
+
+interface CachedInstallationToken {
+  token_sealed: string;
+  expires_at: string;
+}
+
+// ============ CONFIG ============
+
+/**
+ * True when every env var the App flow needs is present - including the
+ * OAuth client, without which an installation can't be tied to its installer
+ */
+export function isGitHubAppConfigured(): boolean {
+  return !!(
+    process.env.GITHUB_APP_ID &&
+    process.env.GITHUB_APP_PRIVATE_KEY &&
+    process.env.GITHUB_APP_SLUG &&
+    process.env.GITHUB_APP_CLIENT_ID &&
+    process.env.GITHUB_APP_CLIENT_SECRET &&
+    process.env.TOKEN_ENCRYPTION_KEY
+  );
+}
+
+export function getInstallUrl(state: string): string {
+  return `https://github.com/apps/${process.env.GITHUB_APP_SLUG}/installations/new?state=${encodeURIComponent(state)}`;
+}
+
+// ============ CONNECT STATE ============
+
+/**
+ * One-time nonce tying an install redirect back to a Telegram user
+ */
+export async function createConnectState(userId: string): Promise<string> {
+  const state = toBase64(crypto.getRandomValues(new Uint8Array(18)))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  await getStateStore().set(`github:connect:${state}`, userId, { ex: CONNECT_STATE_TTL_SECONDS });
+  return state;
+}
+
+/**
+ * Resolve and invalidate a connect nonce
+ * @returns the Telegram user id, or null if unknown/expired/already used
+ */
+export async function consumeConnectState(state: string): Promise<string | null> {
+  const store = getStateStore();
+  const userId = await store.get<string>(`github:connect:${state}`);
+  if (!userId) return null;
+  if (await store.del(`github:connect:${state}`) === 0) return null;
+  return userId;
+}
+
+// ============ INSTALLATIONS ============
+
+export async function getInstallation(installationId: number): Promise<AppInstallation> {
+  return appRequest<AppInstallation>(`/app/installations/${installationId}`);
+}
+
+/**
+ * Installation access token, minted on demand and cached until near expiry
+ */
+export async function getInstallationToken(installationId: number): Promise<string> {
+  const memo = memoTokens.get(installationId);
+  if (memo && isFresh(memo.expires_at)) return memo.token;
+
+  const store = getStateStore();
+  const key = `github:installation:${installationId}`;
+  const cached = await store.get<CachedInstallationToken>(key);
+  if (cached && isFresh(cached.expires_at)) {
+    const token = await openSecret(cached.token_sealed);
+    memoTokens.set(installationId, { token, expires_at: cached.expires_at });
+    return token;
+  }
+
+  const minted = await appRequest<{ token: string; expires_at: string }>(
+    `/app/installations/${installationId}/access_tokens`,
+    { method: 'POST' }
+  );
+  info('github-app', 'Minted installation token', { installationId, expires: minted.expires_at });
+
+  const ttl = Math.floor((new Date(minted.expires_at).getTime() - Date.now() - REFRESH_MARGIN_MS) / 1000);
+  if (ttl > 0) {
+    await store.set(key, { token_sealed: await sealSecret(minted.token), expires_at: minted.expires_at }, { ex: ttl });
+  }
+  memoTokens.set(installationId, minted);
+  return minted.token;
+}
+
+/**
+ * Drop cached tokens for an installation (after uninstall / disconnect)
+ */
+export async function forgetInstallation(installationId: number): Promise<void> {
+  memoTokens.delete(installationId);
+  await getStateStore().del(`github:installation:${installationId}`);
+}
+
+/**
+ * Confirm the person completing the install can actually see the installation,
+ * with a user-to-server token from the OAuth `code`. Requires "Request user
+ * authorization (OAuth) during installation" on the App plus
+ * GITHUB_APP_CLIENT_ID/SECRET. Fails closed: no code, no client credentials
+ * or a rejected code all return false.
+ */
+export async function verifyInstallationAccess(code: string | null, installationId: number): Promise<boolean> {
+  const clientId = process.env.GITHUB_APP_CLIENT_ID;
+  const clientSecret = process.env.GITHUB_APP_CLIENT_SECRET;
+  if (!code || !clientId || !clientSecret) return false;
+
+  const tokenRes = await fetch('https://github.com/login/oauth/access_token', {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ client_id: clientId, client_secret: clientSecret, code }),
+  });
+  if (!tokenRes.ok) return false;
+  const { access_token } = await tokenRes.json() as { access_token?: string };
+  if (!access_token) return false;
+
+  const res = await fetch(`${API_BASE}/user/installations`, {
+    headers: { Authorization: `Bearer ${access_token}`, Accept: 'application/vnd.github+json' },
+  });
+  if (!res.ok) return false;
+  const { installations } = await res.json() as { installations: Array<{ id: number }> };
+  return installations.some(i => i.id === installationId);
+}
+
+// ============ APP AUTH ============
+
+const memoTokens = new Map<number, { token: string; expires_at: string }>();
+let signingKey: Promise<CryptoKey> | null = null;
+
+function isFresh(expiresAt: string): boolean {
+  return new Date(expiresAt).getTime() - Date.now() > REFRESH_MARGIN_MS;
+}
+
+async function appRequest<T>(path: string, init: { method?: string } = {}): Promise<T> {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: init.method || 'GET',
+    headers: {
+      Authorization: `Bearer ${await createAppJwt()}`,
+      Accept: 'application/vnd.github+json',
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`GitHub App API error: ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Short-lived RS256 JWT identifying the App itself
+ */
+async function createAppJwt(): Promise<string> {
+  const appId = process.env.GITHUB_APP_ID;
+  if (!appId) {
+    throw new Error('GITHUB_APP_ID not configured');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  // Backdate iat for clock drift; GitHub caps exp at 10 minutes
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ iat: now - 60, exp: now + 540, iss: appId }));
+  const signingInput = `${header}.${payload}`;
+
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    await getSigningKey(),
+    new TextEncoder().encode(signingInput)
+  );
+  return `${signingInput}.${base64url(new Uint8Array(signature))}`;
+}
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!signingKey) {
+    const pem = process.env.GITHUB_APP_PRIVATE_KEY;
+    if (!pem) {
+      throw new Error('GITHUB_APP_PRIVATE_KEY not configured');
+    }
+    signingKey = crypto.subtle.importKey(
+      'pkcs8',
+      pemToPkcs8(pem),
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+  }
+  return signingKey;
+}
+
+/**
+ * GitHub hands out PKCS#1 keys ("BEGIN RSA PRIVATE KEY"); Web Crypto only
+ * imports PKCS#8, so wrap PKCS#1 in the PKCS#8 envelope when needed.
+ */
+function pemToPkcs8(pem: string): Uint8Array {
+  // Env vars often carry the key with literal "\n"
+  const normalized = pem.replace(/\\n/g, '\n');
+  const isPkcs1 = normalized.includes('BEGIN RSA PRIVATE KEY');
+  const der = fromBase64(normalized.replace(/-----[^-]+-----/g, '').replace(/\s+/g, ''));
+  if (!isPkcs1) return der;
+
+  // AlgorithmIdentifier { rsaEncryption, NULL }
+  const algorithm = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+  const version = [0x02, 0x01, 0x00];
+  const octetString = [0x04, ...derLength(der.length), ...der];
+  const body = [...version, ...algorithm, ...octetString];
+  return new Uint8Array([0x30, ...derLength(body.length), ...body]);
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function base64url(input: string | Uint8Array): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
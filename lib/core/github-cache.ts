@@ -0,0 +1,58 @@
+/**
+ * GitHub ETag Cache
+ *
+ * Persists GET responses with their ETag so repeat reads become conditional
+ * requests. A 304 costs no rate-limit quota, so re-scanning unchanged repos
+ * (READMEs, trees, repo info) is nearly free.
+ *
+ * Entries are scoped by credential (see getGitHubCredentials) so one user's
+ * private repo contents are never served to another.
+ */
+
+import { getStateStore } from './store/index.js';
+import { error as logErr } from './logger.js';
+
+export interface CachedResponse<T = unknown> {
+  etag: string;
+  data: T;
+  /** Link header, kept so cached list pages still paginate */
+  link: string | null;
+}
+
+/** Unused entries fall out after a week */
+const ETAG_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Skip bodies too large to be worth a KV round trip (huge trees, big files) */
+const MAX_ENTRY_BYTES = 512 * 1024;
+
+function cacheKey(scope: string, endpoint: string): string {
+  return `github:etag:${scope}:${endpoint}`;
+}
+
+export async function getCachedResponse<T>(scope: string, endpoint: string): Promise<CachedResponse<T> | null> {
+  try {
+    return await getStateStore().get<CachedResponse<T>>(cacheKey(scope, endpoint));
+  } catch (err) {
+    // A cache miss is always safe
+    logErr('github.cache', err, { endpoint });
+    return null;
+  }
+}
+
+export async function setCachedResponse<T>(scope: string, endpoint: string, entry: CachedResponse<T>): Promise<void> {
+  try {
+    if (JSON.stringify(entry).length > MAX_ENTRY_BYTES) return;
+    await getStateStore().set(cacheKey(scope, endpoint), entry, { ex: ETAG_TTL_SECONDS });
+  } catch (err) {
+    logErr('github.cache', err, { endpoint });
+  }
+}
+
+/**
+ * Drop every cached response for a credential scope
+ */
+export async function clearCachedResponses(scope: string): Promise<number> {
+  const store = getStateStore();
+  const keys = await store.keys(`${cacheKey(scope, '')}*`);
+  return keys.length > 0 ? store.del(...keys) : 0;
+}
@@ -1,8 +1,19 @@
 /**
  * GitHub API Client
  * Handles all interactions with GitHub's REST API
+ *
+ * - Conditional GETs against a persisted ETag cache (see github-cache.ts)
+ * - Backs off on primary/secondary rate limits (403/429 + Retry-After)
+ * - Tracks the latest X-RateLimit-* headers for /status
+ * - Link-header pagination via paginate()
+ * - GraphQL bulk loader (getRepoSnapshots) so scans don't fan out per repo
+ * - Atomic multi-file commits via the Git Data API (commitFiles)
  */
 
+import { getGitHubCredentials } from './users.js';
+import { getCachedResponse, setCachedResponse } from './github-cache.js';
+import { info } from './logger.js';
+
 export interface GitHubRepo {
   id: number;
   name: string;
@@ -26,30 +37,438 @@ export interface GitHubCommit {
   };
 }
 
+export interface GitHubCommitFile {
+  filename: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  patch?: string;
+}
+
+export interface CommitSignals {
+  velocity: 'active' | 'stale';
+  coherence: 'focused' | 'chaotic';
+  days_since_last: number;
+  recent_messages: string[];
+}
+
+/**
+ * Everything a scan needs about one repo, fetched in bulk via GraphQL
+ */
+export interface RepoSnapshot {
+  full_name: string;
+  description: string | null;
+  homepage: string | null;
+  language: string | null;
+  stars: number;
+  default_branch: string;
+  pushed_at: string;
+  created_at: string;
+  readme: string | null;
+  package_json: string | null;
+  /** Blob paths, depth-first, up to three directories deep */
+  files: string[];
+  /** Latest commits on the default branch, newest first */
+  commits: GitHubCommit[];
+}
+
+/** A file to write in a tree commit */
+export interface CommitFile {
+  path: string;
+  /** UTF-8 text, or base64 when encoding is 'base64' (images, binaries) */
+  content: string;
+  encoding?: 'utf-8' | 'base64';
+}
+
+export interface PullRequestRef {
+  number: number;
+  html_url: string;
+  /** Branch the changes live on */
+  head: string;
+  /** Branch the PR targets */
+  base: string;
+}
+
 interface GitHubFileContent {
   content: string;
   encoding: string;
 }
 
+/** Resolves a token per request (e.g. refreshing GitHub App installation tokens) */
+export type TokenProvider = () => Promise<string>;
+
+/** A static token or a provider */
+export type GitHubToken = string | TokenProvider;
+
+export interface GitHubClientOptions {
+  /** Scope for the persisted ETag cache; omit to disable caching */
+  cacheScope?: string;
+  /** fetch implementation (replayed fixtures in scripts); defaults to global fetch */
+  fetch?: typeof fetch;
+}
+
+/** GitHub Pages site (GET /repos/{owner}/{repo}/pages) */
+export interface GitHubPages {
+  html_url: string;
+  status: 'built' | 'building' | 'errored' | null;
+}
+
+export interface GitHubPagesBuild {
+  status: 'built' | 'building' | 'errored' | 'queued';
+  error: { message: string | null } | null;
+}
+
+export interface GitHubDeployment {
+  id: number;
+  environment: string;
+  ref: string;
+  created_at: string;
+}
+
+export interface GitHubDeploymentStatus {
+  state: 'error' | 'failure' | 'inactive' | 'in_progress' | 'queued' | 'pending' | 'success';
+  description: string | null;
+  environment_url?: string;
+  target_url: string | null;
+  log_url?: string;
+}
+
+export interface GitHubCheckRun {
+  id: number;
+  name: string;
+  status: 'queued' | 'in_progress' | 'completed' | 'waiting' | 'requested' | 'pending';
+  conclusion: 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | 'action_required' | 'stale' | 'startup_failure' | null;
+  html_url: string | null;
+  output: { title: string | null; summary: string | null };
+  /** App that created it; "github-actions" runs have id === Actions job id */
+  app: { slug: string } | null;
+}
+
+export interface GitHubWorkflowRun {
+  id: number;
+  name: string | null;
+  head_sha: string;
+  status: string | null;
+  conclusion: string | null;
+  html_url: string;
+}
+
+export interface GitHubWorkflowJob {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  html_url: string | null;
+}
+
+/** Combined commit status (legacy statuses API - what Vercel/Netlify integrations post) */
+export interface GitHubCombinedStatus {
+  state: 'success' | 'failure' | 'pending' | 'error';
+  statuses: Array<{
+    context: string;
+    state: 'success' | 'failure' | 'pending' | 'error';
+    description: string | null;
+    target_url: string | null;
+  }>;
+}
+
+/** Latest rate-limit state GitHub reported for one resource */
+export interface RateLimitSnapshot {
+  /** 'core', 'graphql', 'search', ... */
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  reset_at: string;
+  observed_at: string;
+}
+
+// ============ ERRORS ============
+
+export class GitHubApiError extends Error {
+  public readonly status: number;
+  public readonly endpoint: string;
+
+  constructor(status: number, endpoint: string, detail: string) {
+    super(`GitHub API error: ${status} ${detail}`.trim());
+    this.name = 'GitHubApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+  }
+}
+
+export class GitHubRateLimitError extends GitHubApiError {
+  /** When the limit resets, if GitHub said */
+  public readonly resetAt: Date | null;
+
+  constructor(status: number, endpoint: string, resetAt: Date | null) {
+    super(status, endpoint, `rate limited${resetAt ? ` until ${resetAt.toISOString()}` : ''}`);
+    this.name = 'GitHubRateLimitError';
+    this.resetAt = resetAt;
+  }
+}
+
+/**
+ * Some of a commit's files landed and the rest didn't - only possible on an
+ * empty repo, where the first file is committed on its own
+ */
+export class PartialCommitError extends Error {
+  /** Paths that are on the branch */
+  public readonly committed: string[];
+
+  constructor(committed: string[], cause: unknown) {
+    super(`Only ${committed.join(', ')} committed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'PartialCommitError';
+    this.committed = committed;
+  }
+}
+
+// ============ RATE LIMIT POLICY ============
+
+/** Retries after a rate-limit response before giving up */
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+/** Longest we'll sleep in-request; serverless functions can't wait out an hourly reset */
+const MAX_BACKOFF_MS = 30_000;
+
+/** Attempts at moving a branch ref before giving up on a commit */
+const COMMIT_RETRIES = 3;
+
+/** Repos per GraphQL query; keeps responses (READMEs, trees) well under GitHub's limits */
+const SNAPSHOT_BATCH_SIZE = 20;
+
+/** Commits per snapshot - recent signals only; deep history is fetched lazily (fetchCommitHistory) */
+export const SNAPSHOT_COMMITS = 5;
+
+/** Commits read for velocity/coherence signals */
+const SIGNAL_COMMITS = 30;
+
+/** Reuse an observed snapshot for /status rather than calling /rate_limit */
+const SNAPSHOT_FRESH_MS = 60_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 export class GitHubClient {
-  private token: string;
+  private getToken: TokenProvider;
   private baseUrl = 'https://api.github.com';
+  private cacheScope: string | null;
+  private fetchImpl: typeof fetch;
+  private rateLimits = new Map<string, RateLimitSnapshot>();
+
+  constructor(token: GitHubToken, options: GitHubClientOptions = {}) {
+    this.getToken = typeof token === 'string' ? async () => token : token;
+    this.cacheScope = options.cacheScope ?? null;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  // ============ TRANSPORT ============
+
+  /**
+   * fetch() with auth, rate-limit tracking and backoff on 403/429 limits
+   */
+  private async fetchWithBackoff(endpoint: string, init: { method?: string; headers?: Record<string, string>; body?: string } = {}): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.fetchImpl(`${this.baseUrl}${endpoint}`, {
+        method: init.method || 'GET',
+        headers: {
+          Authorization: `token ${await this.getToken()}`,
+          Accept: 'application/vnd.github.v3+json',
+          ...init.headers,
+        },
+        body: init.body,
+      });
+      this.recordRateLimit(response);
+
+      if (!isRateLimited(response)) return response;
 
-  constructor(token: string) {
-    this.token = token;
+      const resetAt = rateLimitReset(response);
+      const waitMs = backoffDelay(response, attempt, resetAt);
+      if (waitMs === null || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw new GitHubRateLimitError(response.status, endpoint, resetAt);
+      }
+      info('github', 'Rate limited, backing off', { endpoint, status: response.status, waitMs, attempt });
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * GET with ETag revalidation; also returns the Link header for pagination
+   */
+  private async get<T>(endpoint: string): Promise<{ data: T; link: string | null }> {
+    const cached = this.cacheScope ? await getCachedResponse<T>(this.cacheScope, endpoint) : null;
+    const response = await this.fetchWithBackoff(endpoint, {
+      headers: cached ? { 'If-None-Match': cached.etag } : {},
+    });
+
+    if (response.status === 304 && cached) {
+      return { data: cached.data, link: cached.link };
+    }
+    if (!response.ok) {
+      throw new GitHubApiError(response.status, endpoint, response.statusText);
+    }
+
+    const data = await response.json() as T;
+    const link = response.headers.get('link');
+    const etag = response.headers.get('etag');
+    if (this.cacheScope && etag) {
+      await setCachedResponse(this.cacheScope, endpoint, { etag, data, link });
+    }
+    return { data, link };
   }
 
   private async request<T>(endpoint: string): Promise<T> {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      headers: {
-        Authorization: `token ${this.token}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
+    return (await this.get<T>(endpoint)).data;
+  }
+
+  /**
+   * Non-GET request with a JSON body
+   */
+  private async send<T>(method: string, endpoint: string, body?: unknown): Promise<T> {
+    const response = await this.fetchWithBackoff(endpoint, {
+      method,
+      headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new GitHubApiError(response.status, endpoint, await response.text());
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  /**
+   * Iterate a list endpoint page by page, following Link rel="next".
+   * Break out of the loop to stop fetching early.
+   */
+  async *paginate<T>(endpoint: string, maxPages = 10): AsyncGenerator<T[]> {
+    let next: string | null = endpoint.includes('per_page=')
+      ? endpoint
+      : `${endpoint}${endpoint.includes('?') ? '&' : '?'}per_page=100`;
+
+    for (let page = 0; next && page < maxPages; page++) {
+      const { data, link } = await this.get<T[]>(next);
+      yield data;
+      next = parseNextLink(link, this.baseUrl);
+    }
+  }
+
+  // ============ RATE LIMITS ============
+
+  private recordRateLimit(response: Response): void {
+    const limit = response.headers.get('x-ratelimit-limit');
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    const reset = response.headers.get('x-ratelimit-reset');
+    if (limit === null || remaining === null || reset === null) return;
+
+    const resource = response.headers.get('x-ratelimit-resource') || 'core';
+    this.rateLimits.set(resource, {
+      resource,
+      limit: Number(limit),
+      remaining: Number(remaining),
+      used: Number(response.headers.get('x-ratelimit-used') ?? Number(limit) - Number(remaining)),
+      reset_at: new Date(Number(reset) * 1000).toISOString(),
+      observed_at: new Date().toISOString(),
     });
+  }
+
+  /**
+   * Last rate-limit headers seen for a resource (no network)
+   */
+  getRateLimitSnapshot(resource = 'core'): RateLimitSnapshot | null {
+    return this.rateLimits.get(resource) ?? null;
+  }
+
+  /**
+   * Current rate limit, from recent headers or GET /rate_limit (which is free)
+   */
+  async getRateLimit(resource = 'core'): Promise<RateLimitSnapshot | null> {
+    const snapshot = this.getRateLimitSnapshot(resource);
+    if (snapshot && Date.now() - new Date(snapshot.observed_at).getTime() < SNAPSHOT_FRESH_MS) {
+      return snapshot;
+    }
+
+    const response = await this.fetchWithBackoff('/rate_limit');
     if (!response.ok) {
-      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+      throw new GitHubApiError(response.status, '/rate_limit', response.statusText);
     }
-    return response.json() as Promise<T>;
+    const { resources } = await response.json() as {
+      resources: Record<string, { limit: number; remaining: number; used: number; reset: number }>;
+    };
+    const current = resources[resource];
+    if (!current) return null;
+
+    const fresh: RateLimitSnapshot = {
+      resource,
+      limit: current.limit,
+      remaining: current.remaining,
+      used: current.used,
+      reset_at: new Date(current.reset * 1000).toISOString(),
+      observed_at: new Date().toISOString(),
+    };
+    this.rateLimits.set(resource, fresh);
+    return fresh;
+  }
+
+  // ============ GRAPHQL ============
+
+  /**
+   * Run a GraphQL query. Partial results are returned as-is (e.g. a missing
+   * repo resolves to null); only a response with no data at all throws.
+   */
+  async graphql<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const result = await this.send<{ data?: T | null; errors?: Array<{ message: string }> }>(
+      'POST',
+      '/graphql',
+      { query, variables }
+    );
+    if (result.errors?.length) {
+      info('github', 'GraphQL errors', { errors: result.errors.slice(0, 3).map(e => e.message) });
+    }
+    if (!result.data) {
+      throw new GitHubApiError(200, '/graphql', result.errors?.map(e => e.message).join('; ') || 'no data');
+    }
+    return result.data;
+  }
+
+  /**
+   * Bulk-load description, README, package.json, file tree and latest commits
+   * for many repos - one query per SNAPSHOT_BATCH_SIZE repos instead of ~6
+   * REST calls each. Repos that can't be read are left out of the map.
+   */
+  async getRepoSnapshots(
+    fullNames: string[],
+    options: { batchSize?: number; commits?: number } = {}
+  ): Promise<Map<string, RepoSnapshot>> {
+    const { batchSize = SNAPSHOT_BATCH_SIZE, commits = SNAPSHOT_COMMITS } = options;
+    const snapshots = new Map<string, RepoSnapshot>();
+
+    for (let i = 0; i < fullNames.length; i += batchSize) {
+      const batch = fullNames.slice(i, i + batchSize);
+      const variables: Record<string, unknown> = { commits };
+      const fields = batch.map((fullName, index) => {
+        const [owner, name] = fullName.split('/');
+        variables[`o${index}`] = owner;
+        variables[`n${index}`] = name;
+        return `r${index}: repository(owner: $o${index}, name: $n${index}) { ...RepoSnapshot }`;
+      });
+      const params = batch.map((_, index) => `$o${index}: String!, $n${index}: String!`).join(', ');
+
+      const data = await this.graphql<Record<string, GraphQLRepo | null>>(
+        `query RepoSnapshots($commits: Int!, ${params}) {\n  ${fields.join('\n  ')}\n}\n${REPO_SNAPSHOT_FRAGMENT}`,
+        variables
+      );
+
+      batch.forEach((fullName, index) => {
+        const repo = data[`r${index}`];
+        if (repo) snapshots.set(fullName, toRepoSnapshot(repo));
+      });
+    }
+
+    info('github', 'Loaded repo snapshots', { requested: fullNames.length, loaded: snapshots.size });
+    return snapshots;
+  }
+
+  // ============ ENDPOINTS ============
+
+  async getAuthenticatedUser(): Promise<{ login: string }> {
+    return this.request<{ login: string }>('/user');
   }
 
   async getUserRepos(): Promise<GitHubRepo[]> {
@@ -57,8 +476,47 @@ export class GitHubClient {
     return repos.filter(repo => !repo.name.includes('.github'));
   }
 
-  async getRepoCommits(owner: string, repo: string): Promise<GitHubCommit[]> {
-    return this.request<GitHubCommit[]>(`/repos/${owner}/${repo}/commits?per_page=5`);
+  /**
+   * Default-branch commits, newest first
+   * @param options.limit Max commits to return (pages past 100)
+   * @param options.since ISO timestamp; older commits are left out
+   */
+  async getRepoCommits(
+    owner: string,
+    repo: string,
+    options: { limit?: number; since?: string } = {}
+  ): Promise<GitHubCommit[]> {
+    const { limit = 5, since } = options;
+    const perPage = Math.min(limit, 100);
+    const query = `per_page=${perPage}${since ? `&since=${encodeURIComponent(since)}` : ''}`;
+
+    const commits: GitHubCommit[] = [];
+    for await (const page of this.paginate<GitHubCommit>(`/repos/${owner}/${repo}/commits?${query}`, Math.ceil(limit / perPage))) {
+      commits.push(...page);
+      if (commits.length >= limit || page.length < perPage) break;
+    }
+    return commits.slice(0, limit);
+  }
+
+  /**
+   * Paths a commit touched (empty on failure)
+   */
+  async getCommitFiles(owner: string, repo: string, sha: string): Promise<string[]> {
+    try {
+      const data = await this.request<{ files?: Array<{ filename: string }> }>(`/repos/${owner}/${repo}/commits/${sha}`);
+      return (data.files || []).map(f => f.filename);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Files a commit changed with their unified-diff patches (throws on failure).
+   * GitHub omits the patch for binary and very large files.
+   */
+  async getCommitDiff(owner: string, repo: string, sha: string): Promise<GitHubCommitFile[]> {
+    const data = await this.request<{ files?: GitHubCommitFile[] }>(`/repos/${owner}/${repo}/commits/${sha}`);
+    return data.files || [];
   }
 
   async getFileContent(owner: string, repo: string, path: string): Promise<string | null> {
@@ -85,6 +543,16 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Every file at a commit with its size in bytes (throws on failure)
+   */
+  async getTreeBlobs(owner: string, repo: string, sha: string): Promise<Array<{ path: string; size: number }>> {
+    const tree = await this.request<{ tree: Array<{ path: string; type: string; size?: number }> }>(
+      `/repos/${owner}/${repo}/git/trees/${sha}?recursive=1`
+    );
+    return tree.tree.filter(item => item.type === 'blob').map(item => ({ path: item.path, size: item.size ?? 0 }));
+  }
+
   async getRepoInfo(owner: string, repo: string): Promise<{
     description: string | null;
     language: string | null;
@@ -129,30 +597,31 @@ export class GitHubClient {
     return chaoticCount > focusedCount ? 'chaotic' : 'focused';
   }
 
-  async getCommitSignals(owner: string, repo: string): Promise<{
-    velocity: 'active' | 'stale';
-    coherence: 'focused' | 'chaotic';
-    days_since_last: number;
-    recent_messages: string[];
-  }> {
+  async getCommitSignals(owner: string, repo: string): Promise<CommitSignals> {
     try {
-      const commits = await this.getRepoCommits(owner, repo);
-      if (commits.length === 0) {
-        return { velocity: 'stale', coherence: 'chaotic', days_since_last: 999, recent_messages: [] };
-      }
-      const messages = commits.map(c => c.commit.message.split('\n')[0]);
-      const daysSince = Math.floor((Date.now() - new Date(commits[0].commit.author.date).getTime()) / 86400000);
-      return {
-        velocity: daysSince <= 7 ? 'active' : 'stale',
-        coherence: this.analyzeCommitCoherence(messages),
-        days_since_last: daysSince,
-        recent_messages: messages.slice(0, 5),
-      };
+      return this.commitSignalsFrom(await this.getRepoCommits(owner, repo, { limit: SIGNAL_COMMITS }));
     } catch {
       return { velocity: 'stale', coherence: 'chaotic', days_since_last: 999, recent_messages: [] };
     }
   }
 
+  /**
+   * Velocity/coherence signals from a newest-first commit list
+   */
+  commitSignalsFrom(commits: GitHubCommit[]): CommitSignals {
+    if (commits.length === 0) {
+      return { velocity: 'stale', coherence: 'chaotic', days_since_last: 999, recent_messages: [] };
+    }
+    const messages = commits.map(c => c.commit.message.split('\n')[0]);
+    const daysSince = Math.floor((Date.now() - new Date(commits[0].commit.author.date).getTime()) / 86400000);
+    return {
+      velocity: daysSince <= 7 ? 'active' : 'stale',
+      coherence: this.analyzeCommitCoherence(messages),
+      days_since_last: daysSince,
+      recent_messages: messages.slice(0, 5),
+    };
+  }
+
   async getRecentRepos(days = 10): Promise<GitHubRepo[]> {
     const allRepos = await this.getUserRepos();
     const cutoff = Date.now() - days * 86400000;
@@ -162,21 +631,17 @@ export class GitHubClient {
   async getPublicRepos(days = 150): Promise<GitHubRepo[]> {
     const allRepos: GitHubRepo[] = [];
     const cutoff = Date.now() - days * 86400000;
-    
-    for (let page = 1; page <= 3; page++) {
-      const repos = await this.request<GitHubRepo[]>(
-        `/user/repos?sort=pushed&per_page=100&page=${page}&visibility=public`
-      );
-      if (repos.length === 0) break;
-      
+
+    for await (const repos of this.paginate<GitHubRepo>('/user/repos?sort=pushed&per_page=100&visibility=public', 3)) {
       const filtered = repos.filter(repo => 
         !repo.name.includes('.github') && 
         !repo.private &&
         new Date(repo.pushed_at).getTime() >= cutoff
       );
       allRepos.push(...filtered);
-      
-      if (repos.length < 100 || new Date(repos[repos.length - 1].pushed_at).getTime() < cutoff) {
+
+      // Sorted by push date, so everything after this page is older
+      if (repos.length === 0 || new Date(repos[repos.length - 1].pushed_at).getTime() < cutoff) {
         break;
       }
     }
@@ -187,13 +652,8 @@ export class GitHubClient {
   async getOwnedRepos(days = 150, includePrivate = true): Promise<GitHubRepo[]> {
     const allRepos: GitHubRepo[] = [];
     const cutoff = Date.now() - days * 86400000;
-    
-    for (let page = 1; page <= 5; page++) {
-      const repos = await this.request<GitHubRepo[]>(
-        `/user/repos?sort=pushed&per_page=100&page=${page}&affiliation=owner`
-      );
-      if (repos.length === 0) break;
-      
+
+    for await (const repos of this.paginate<GitHubRepo>('/user/repos?sort=pushed&per_page=100&affiliation=owner', 5)) {
       for (const repo of repos) {
         if (repo.name.includes('.github')) continue;
         if (new Date(repo.pushed_at).getTime() < cutoff) continue;
@@ -211,8 +671,8 @@ export class GitHubClient {
         
         allRepos.push(repo);
       }
-      
-      if (repos.length < 100 || new Date(repos[repos.length - 1].pushed_at).getTime() < cutoff) {
+
+      if (repos.length === 0 || new Date(repos[repos.length - 1].pushed_at).getTime() < cutoff) {
         break;
       }
     }
@@ -248,23 +708,394 @@ export class GitHubClient {
     if (sha) body.sha = sha;
     if (branch) body.branch = branch;
 
-    const response = await fetch(`${this.baseUrl}/repos/${owner}/${repo}/contents/${path}`, {
-      method: 'PUT',
-      headers: {
-        Authorization: `token ${this.token}`,
-        Accept: 'application/vnd.github.v3+json',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
+    const result = await this.send<{ content: { sha: string } }>(
+      'PUT',
+      `/repos/${owner}/${repo}/contents/${path}`,
+      body
+    );
+    return { sha: result.content.sha };
+  }
+
+  // ============ DEPLOYMENTS ============
+
+  /**
+   * Pages site, or null when Pages isn't enabled (404)
+   */
+  async getPages(owner: string, repo: string): Promise<GitHubPages | null> {
+    try {
+      return await this.request<GitHubPages>(`/repos/${owner}/${repo}/pages`);
+    } catch (err) {
+      if (err instanceof GitHubApiError && err.status === 404) return null;
+      throw err;
+    }
+  }
+
+  async getLatestPagesBuild(owner: string, repo: string): Promise<GitHubPagesBuild> {
+    return this.request<GitHubPagesBuild>(`/repos/${owner}/${repo}/pages/builds/latest`);
+  }
+
+  async getDeployments(owner: string, repo: string, limit = 10): Promise<GitHubDeployment[]> {
+    return this.request<GitHubDeployment[]>(`/repos/${owner}/${repo}/deployments?per_page=${limit}`);
+  }
+
+  /**
+   * Most recent status of a deployment (null when it has none yet)
+   */
+  async getLatestDeploymentStatus(owner: string, repo: string, id: number): Promise<GitHubDeploymentStatus | null> {
+    const statuses = await this.request<GitHubDeploymentStatus[]>(`/repos/${owner}/${repo}/deployments/${id}/statuses?per_page=1`);
+    return statuses[0] ?? null;
+  }
+
+  async getCombinedStatus(owner: string, repo: string, ref: string): Promise<GitHubCombinedStatus> {
+    return this.request<GitHubCombinedStatus>(`/repos/${owner}/${repo}/commits/${ref}/status`);
+  }
+
+  // ============ CI ============
+
+  /**
+   * Latest check run per name on a commit (Actions jobs and other CI apps)
+   */
+  async getCheckRuns(owner: string, repo: string, ref: string): Promise<GitHubCheckRun[]> {
+    const data = await this.request<{ check_runs: GitHubCheckRun[] }>(
+      `/repos/${owner}/${repo}/commits/${ref}/check-runs?filter=latest&per_page=100`
+    );
+    return data.check_runs;
+  }
+
+  async getWorkflowRuns(owner: string, repo: string, headSha: string): Promise<GitHubWorkflowRun[]> {
+    const data = await this.request<{ workflow_runs: GitHubWorkflowRun[] }>(
+      `/repos/${owner}/${repo}/actions/runs?head_sha=${headSha}&per_page=20`
+    );
+    return data.workflow_runs;
+  }
+
+  async getWorkflowRunJobs(owner: string, repo: string, runId: number): Promise<GitHubWorkflowJob[]> {
+    const data = await this.request<{ jobs: GitHubWorkflowJob[] }>(`/repos/${owner}/${repo}/actions/runs/${runId}/jobs?per_page=100`);
+    return data.jobs;
+  }
+
+  /**
+   * Plain-text log of an Actions job (null when expired or not readable)
+   */
+  async getJobLogs(owner: string, repo: string, jobId: number): Promise<string | null> {
+    // Redirects to short-lived blob storage; fetch drops our auth header on the way
+    const response = await this.fetchWithBackoff(`/repos/${owner}/${repo}/actions/jobs/${jobId}/logs`);
+    if (!response.ok) return null;
+    return response.text();
+  }
+
+  // ============ GIT DATA ============
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const data = await this.request<{ default_branch: string }>(`/repos/${owner}/${repo}`);
+    return data.default_branch;
+  }
+
+  async getBranchSha(owner: string, repo: string, branch: string): Promise<string> {
+    const ref = await this.request<{ object: { sha: string } }>(`/repos/${owner}/${repo}/git/ref/heads/${branch}`);
+    return ref.object.sha;
+  }
+
+  /**
+   * Write several files as ONE commit on an existing branch (default branch
+   * if omitted) via blobs/trees/refs - either every file lands or none do.
+   * Retries if the branch moves underneath us. An empty repo (no branch
+   * yet) gets an initial commit instead, see commitToEmptyRepo().
+   */
+  async commitFiles(
+    owner: string,
+    repo: string,
+    files: CommitFile[],
+    message: string,
+    branch?: string
+  ): Promise<{ sha: string; branch: string }> {
+    const target = branch || await this.getDefaultBranch(owner, repo);
+
+    for (let attempt = 1; ; attempt++) {
+      const parentSha = await this.getBranchSha(owner, repo, target).catch(err => {
+        // 409 "Git Repository is empty", 404 no such ref
+        if (err instanceof GitHubApiError && (err.status === 409 || err.status === 404)) return null;
+        throw err;
+      });
+      if (parentSha === null) {
+        return this.commitToEmptyRepo(owner, repo, files, message, target);
+      }
+      const sha = await this.createCommit(owner, repo, parentSha, files, message);
+      try {
+        // Non-forced: rejected (422) if someone pushed since we read the ref
+        await this.send('PATCH', `/repos/${owner}/${repo}/git/refs/heads/${target}`, { sha, force: false });
+        return { sha, branch: target };
+      } catch (err) {
+        if (!(err instanceof GitHubApiError) || err.status !== 422 || attempt >= COMMIT_RETRIES) throw err;
+        info('github', 'Branch moved during commit, retrying', { owner, repo, branch: target, attempt });
+      }
+    }
+  }
+
+  /**
+   * An empty repo has no git database until the first commit (blob and tree
+   * calls fail with 409), so the first file goes through the contents API,
+   * which creates the branch. Any other files follow in a second commit.
+   * @throws PartialCommitError when the first file landed and the second commit didn't
+   */
+  private async commitToEmptyRepo(
+    owner: string,
+    repo: string,
+    files: CommitFile[],
+    message: string,
+    branch: string
+  ): Promise<{ sha: string; branch: string }> {
+    const [first, ...rest] = files;
+    info('github', 'Branch missing, creating initial commit', { owner, repo, branch });
+    const created = await this.send<{ commit: { sha: string } }>('PUT', `/repos/${owner}/${repo}/contents/${first.path}`, {
+      message,
+      content: first.encoding === 'base64' ? first.content : Buffer.from(first.content).toString('base64'),
+      branch,
     });
+    if (rest.length === 0) {
+      return { sha: created.commit.sha, branch };
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`GitHub API error: ${response.status} - ${errorText}`);
+    try {
+      const sha = await this.createCommit(owner, repo, created.commit.sha, rest, message);
+      await this.send('PATCH', `/repos/${owner}/${repo}/git/refs/heads/${branch}`, { sha, force: false });
+      return { sha, branch };
+    } catch (err) {
+      throw new PartialCommitError([first.path], err);
     }
+  }
 
-    const result = await response.json() as { content: { sha: string } };
-    return { sha: result.content.sha };
+  /**
+   * Create `branch` off `base` (default branch if omitted) holding all
+   * `files` in a single commit
+   */
+  async createBranchWithFiles(
+    owner: string,
+    repo: string,
+    options: { branch: string; files: CommitFile[]; message: string; base?: string }
+  ): Promise<{ sha: string; branch: string; base: string }> {
+    const base = options.base || await this.getDefaultBranch(owner, repo);
+    const parentSha = await this.getBranchSha(owner, repo, base);
+    const sha = await this.createCommit(owner, repo, parentSha, options.files, options.message);
+    await this.send('POST', `/repos/${owner}/${repo}/git/refs`, {
+      ref: `refs/heads/${options.branch}`,
+      sha,
+    });
+    return { sha, branch: options.branch, base };
+  }
+
+  /**
+   * Blobs → tree (on top of the parent's tree) → commit. Moves no refs.
+   */
+  private async createCommit(
+    owner: string,
+    repo: string,
+    parentSha: string,
+    files: CommitFile[],
+    message: string
+  ): Promise<string> {
+    const parent = await this.request<{ tree: { sha: string } }>(`/repos/${owner}/${repo}/git/commits/${parentSha}`);
+
+    const tree = await Promise.all(files.map(async file => {
+      const blob = await this.send<{ sha: string }>('POST', `/repos/${owner}/${repo}/git/blobs`, {
+        content: file.content,
+        encoding: file.encoding || 'utf-8',
+      });
+      return { path: file.path, mode: '100644', type: 'blob', sha: blob.sha };
+    }));
+
+    const newTree = await this.send<{ sha: string }>('POST', `/repos/${owner}/${repo}/git/trees`, {
+      base_tree: parent.tree.sha,
+      tree,
+    });
+    const commit = await this.send<{ sha: string }>('POST', `/repos/${owner}/${repo}/git/commits`, {
+      message,
+      tree: newTree.sha,
+      parents: [parentSha],
+    });
+    return commit.sha;
+  }
+
+  async deleteBranch(owner: string, repo: string, branch: string): Promise<void> {
+    await this.send('DELETE', `/repos/${owner}/${repo}/git/refs/heads/${branch}`);
+  }
+
+  // ============ PULL REQUESTS ============
+
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    options: { title: string; body: string; head: string; base: string }
+  ): Promise<PullRequestRef> {
+    const pr = await this.send<{ number: number; html_url: string }>('POST', `/repos/${owner}/${repo}/pulls`, options);
+    return { number: pr.number, html_url: pr.html_url, head: options.head, base: options.base };
+  }
+
+  async mergePullRequest(
+    owner: string,
+    repo: string,
+    number: number,
+    method: 'merge' | 'squash' | 'rebase' = 'squash'
+  ): Promise<{ sha: string }> {
+    return this.send<{ sha: string }>('PUT', `/repos/${owner}/${repo}/pulls/${number}/merge`, {
+      merge_method: method,
+    });
+  }
+
+  async closePullRequest(owner: string, repo: string, number: number): Promise<void> {
+    await this.send('PATCH', `/repos/${owner}/${repo}/pulls/${number}`, { state: 'closed' });
   }
 }
 
+// ============ GRAPHQL SHAPES ============
+
+const TREE_ENTRY_FIELDS = 'path type';
+
+const REPO_SNAPSHOT_FRAGMENT = `fragment RepoSnapshot on Repository {
+  nameWithOwner
+  description
+  homepageUrl
+  stargazerCount
+  pushedAt
+  createdAt
+  primaryLanguage { name }
+  defaultBranchRef {
+    name
+    target {
+      ... on Commit {
+        history(first: $commits) {
+          nodes { oid message authoredDate }
+        }
+        tree {
+          entries {
+            ${TREE_ENTRY_FIELDS}
+            object { ... on Tree { entries {
+              ${TREE_ENTRY_FIELDS}
+              object { ... on Tree { entries { ${TREE_ENTRY_FIELDS} } } }
+            } } }
+          }
+        }
+      }
+    }
+  }
+  readme: object(expression: "HEAD:README.md") { ... on Blob { text } }
+  readmeLower: object(expression: "HEAD:readme.md") { ... on Blob { text } }
+  packageJson: object(expression: "HEAD:package.json") { ... on Blob { text } }
+}`;
+
+interface GraphQLTreeEntry {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+  object?: { entries?: GraphQLTreeEntry[] } | null;
+}
+
+interface GraphQLRepo {
+  nameWithOwner: string;
+  description: string | null;
+  homepageUrl: string | null;
+  stargazerCount: number;
+  pushedAt: string;
+  createdAt: string;
+  primaryLanguage: { name: string } | null;
+  defaultBranchRef: {
+    name: string;
+    target: {
+      history?: { nodes: Array<{ oid: string; message: string; authoredDate: string }> };
+      tree?: { entries: GraphQLTreeEntry[] };
+    };
+  } | null;
+  readme: { text: string | null } | null;
+  readmeLower: { text: string | null } | null;
+  packageJson: { text: string | null } | null;
+}
+
+function toRepoSnapshot(repo: GraphQLRepo): RepoSnapshot {
+  const target = repo.defaultBranchRef?.target;
+  return {
+    full_name: repo.nameWithOwner,
+    description: repo.description,
+    homepage: repo.homepageUrl || null,
+    language: repo.primaryLanguage?.name ?? null,
+    stars: repo.stargazerCount,
+    default_branch: repo.defaultBranchRef?.name ?? 'main',
+    pushed_at: repo.pushedAt,
+    created_at: repo.createdAt,
+    readme: repo.readme?.text ?? repo.readmeLower?.text ?? null,
+    package_json: repo.packageJson?.text ?? null,
+    files: flattenTree(target?.tree?.entries ?? []),
+    commits: (target?.history?.nodes ?? []).map(node => ({
+      sha: node.oid,
+      commit: { message: node.message, author: { date: node.authoredDate } },
+    })),
+  };
+}
+
+function flattenTree(entries: GraphQLTreeEntry[]): string[] {
+  return entries.flatMap(entry =>
+    entry.type === 'blob' ? [entry.path] : flattenTree(entry.object?.entries ?? [])
+  );
+}
+
+// ============ HELPERS ============
+
+/**
+ * Primary limit exhausted (403 + remaining 0), secondary limit (403 +
+ * Retry-After), or 429
+ */
+function isRateLimited(response: Response): boolean {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
+  return response.headers.get('x-ratelimit-remaining') === '0' || response.headers.has('retry-after');
+}
+
+function rateLimitReset(response: Response): Date | null {
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter) return new Date(Date.now() + Number(retryAfter) * 1000);
+  const reset = response.headers.get('x-ratelimit-reset');
+  return reset ? new Date(Number(reset) * 1000) : null;
+}
+
+/**
+ * How long to wait before retrying, or null if the wait is too long to sit out
+ */
+function backoffDelay(response: Response, attempt: number, resetAt: Date | null): number | null {
+  const waitMs = resetAt && (response.headers.has('retry-after') || response.headers.get('x-ratelimit-remaining') === '0')
+    ? resetAt.getTime() - Date.now() + 1000
+    : 1000 * 2 ** attempt; // Secondary limit without a hint: exponential
+  return waitMs > MAX_BACKOFF_MS ? null : Math.max(waitMs, 0);
+}
+
+function parseNextLink(link: string | null, baseUrl: string): string | null {
+  const match = link?.match(/<([^>]+)>;\s*rel="next"/);
+  return match ? match[1].replace(baseUrl, '') : null;
+}
+
+// ============ PER-USER CLIENTS ============
+
+const clients = new Map<string, GitHubClient>();
+
+/**
+ * GitHub client for the current user (App installation, personal token,
+ * or GITHUB_TOKEN for the owner)
+ */
+export function getGitHubClient(): GitHubClient {
+  const { key, token } = getGitHubCredentials();
+  let client = clients.get(key);
+  if (!client) {
+    client = new GitHubClient(token, { cacheScope: key });
+    clients.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * Core rate limit for the current user's credentials, or null if unavailable
+ * (no GitHub connected, network error). For status displays.
+ */
+export async function getCurrentRateLimit(): Promise<RateLimitSnapshot | null> {
+  try {
+    return await getGitHubClient().getRateLimit();
+  } catch {
+    return null;
+  }
+}
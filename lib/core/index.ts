@@ -8,14 +8,19 @@ export {
   MODELS,
   DEFAULT_MODELS,
   TASK_ROUTING,
+  MODEL_PRICING,
   ENV_KEYS,
   AI_MODEL,
   getAnthropicClient,
+  setAnthropicClient,
   getGoogleClient,
   isProviderConfigured,
   getTaskConfig,
+  getOpenAIModel,
   getClientForTask,
   type TaskType,
+  type TaskConfig,
+  type AIProvider,
 } from './config.js';
 
 // Logging
@@ -30,8 +35,30 @@ export {
 // GitHub
 export {
   GitHubClient,
+  getGitHubClient,
+  getCurrentRateLimit,
+  GitHubApiError,
+  GitHubRateLimitError,
+  PartialCommitError,
+  type GitHubClientOptions,
+  type RateLimitSnapshot,
+  type RepoSnapshot,
+  type CommitFile,
+  type PullRequestRef,
+  type CommitSignals,
+  type GitHubToken,
+  type TokenProvider,
   type GitHubRepo,
   type GitHubCommit,
+  type GitHubCommitFile,
+  type GitHubPages,
+  type GitHubPagesBuild,
+  type GitHubDeployment,
+  type GitHubDeploymentStatus,
+  type GitHubCombinedStatus,
+  type GitHubCheckRun,
+  type GitHubWorkflowRun,
+  type GitHubWorkflowJob,
 } from './github.js';
 
 // State
@@ -40,6 +67,34 @@ export {
   stateManager,
 } from './state.js';
 
+// Users
+export {
+  getUser,
+  listUsers,
+  getCurrentUser,
+  runAsUser,
+  getUserStore,
+  getGitHubCredentials,
+  MissingGitHubTokenError,
+  type BotUser,
+  type UserRole,
+  type GitHubConnection,
+} from './users.js';
+
+// Storage backends
+export {
+  getStateStore,
+  setStateStore,
+  createStateStore,
+  resolveStoreBackend,
+  KVStateStore,
+  MemoryStateStore,
+  NamespacedStateStore,
+  type StateStore,
+  type StoreBackend,
+  type SetOptions,
+} from './store/index.js';
+
 // Types
 export {
   // Repo types
@@ -50,6 +105,8 @@ export {
   type CoreAnalysis,
   CoreAnalysisSchema,
   validateAnalysis,
+  type Grounding,
+  GroundingSchema,
   
   // Evidence types
   type CoreEvidence,
@@ -60,6 +117,40 @@ export {
   CoreEvidenceSchema,
   MismatchEvidenceSchema,
   ReadmeClaimSchema,
+
+  // Tech stack
+  type TechStack,
+  TechStackSchema,
+
+  // CI
+  type CIState,
+  type CIJob,
+  type CIStatus,
+
+  // Commit history
+  type CommitHistory,
+  type DirectoryChurn,
+
+  // README health
+  type ReadmeRule,
+  type ReadmeSeverity,
+  type ReadmeFinding,
+  type ReadmeHealth,
+
+  // Repo checks
+  type CheckStatus,
+  type CheckResult,
+  type CheckReport,
+
+  // LLM usage
+  type UsageTotals,
+  type UsageReport,
+
+  // Workspaces
+  type WorkspaceKind,
+  type WorkspacePackage,
+  type PackageAnalysis,
+  type WorkspaceRollup,
   
   // Feed types
   type RepoPotential,
@@ -0,0 +1,87 @@
+/**
+ * Secrets
+ * AES-256-GCM sealing for credentials at rest (GitHub tokens in the state store).
+ *
+ * Web Crypto only, so it works in both Node and Edge functions.
+ * Sealed format: `v1:<iv base64>:<ciphertext base64>`
+ */
+
+const VERSION = 'v1';
+
+type CryptoKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>;
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+export class SecretsNotConfiguredError extends Error {
+  constructor() {
+    super('TOKEN_ENCRYPTION_KEY not configured');
+    this.name = 'SecretsNotConfiguredError';
+  }
+}
+
+/**
+ * Derive the AES key from TOKEN_ENCRYPTION_KEY (any length; hashed to 256 bits)
+ */
+function getKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    const secret = process.env.TOKEN_ENCRYPTION_KEY;
+    if (!secret) {
+      throw new SecretsNotConfiguredError();
+    }
+    keyPromise = crypto.subtle
+      .digest('SHA-256', new TextEncoder().encode(secret))
+      .then(raw => crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']));
+  }
+  return keyPromise;
+}
+
+export function isSecretsConfigured(): boolean {
+  return !!process.env.TOKEN_ENCRYPTION_KEY;
+}
+
+/**
+ * Encrypt a secret for storage
+ */
+export async function sealSecret(plaintext: string): Promise<string> {
+  const key = await getKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return `${VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt a value produced by sealSecret
+ * @throws if the payload was tampered with or sealed under another key
+ */
+export async function openSecret(sealed: string): Promise<string> {
+  const [version, iv, ciphertext] = sealed.split(':');
+  if (version !== VERSION || !iv || !ciphertext) {
+    throw new Error('Unrecognized sealed secret format');
+  }
+  const key = await getKey();
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+// ============ HELPERS ============
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -1,26 +1,43 @@
 /**
  * State Manager
- * Handles all persistent state via Vercel KV
+ * Handles all persistent state via the configured StateStore (KV, memory or SQLite).
+ * Keys are scoped to the current user's namespace (see users.ts).
  */
 
-import { kv } from '@vercel/kv';
-import type { TrackedRepo, RepoState } from './types.js';
+import type { StateStore } from './store/index.js';
+import { getUserStore, type BotUser } from './users.js';
+import type { TrackedRepo, RepoState, PublishMode, PublishedPullRequest, AnalysisRecord, CheckReport, CommitLog, UsageReport } from './types.js';
 
 export class StateManager {
+  /** Pass a store to pin this manager to it; otherwise the current user's store is used */
+  constructor(private readonly injectedStore?: StateStore) {}
+
+  private get store(): StateStore {
+    return this.injectedStore ?? getUserStore();
+  }
+
+  /**
+   * State manager pinned to a specific user's namespace
+   * (for code running outside a user scope, e.g. webhooks fanning out)
+   */
+  forUser(user: BotUser): StateManager {
+    return new StateManager(getUserStore(user));
+  }
+
   // ============ TRACKED REPOS ============
 
   async getTrackedRepo(owner: string, name: string): Promise<TrackedRepo | null> {
-    return kv.get<TrackedRepo>(`tracked:${owner}/${name}`);
+    return this.store.get<TrackedRepo>(`tracked:${owner}/${name}`);
   }
 
   async saveTrackedRepo(repo: TrackedRepo): Promise<void> {
-    await kv.set(`tracked:${repo.owner}/${repo.name}`, repo);
+    await this.store.set(`tracked:${repo.owner}/${repo.name}`, repo);
   }
 
   async getAllTrackedRepos(): Promise<TrackedRepo[]> {
-    const keys = await kv.keys('tracked:*');
+    const keys = await this.store.keys('tracked:*');
     if (keys.length === 0) return [];
-    const repos = await Promise.all(keys.map(key => kv.get<TrackedRepo>(key)));
+    const repos = await Promise.all(keys.map(key => this.store.get<TrackedRepo>(key)));
     return repos.filter((r): r is TrackedRepo => r !== null);
   }
 
@@ -39,6 +56,20 @@ export class StateManager {
     }
   }
 
+  /**
+   * Set some fields on the stored repo, re-read just before writing - for
+   * callers holding a copy loaded before slow work, which would otherwise
+   * overwrite changes made in the meantime. Returns the saved repo, or
+   * null if it isn't tracked (anymore).
+   */
+  async updateTrackedRepo(owner: string, name: string, fields: Partial<TrackedRepo>): Promise<TrackedRepo | null> {
+    const repo = await this.getTrackedRepo(owner, name);
+    if (!repo) return null;
+    const updated = { ...repo, ...fields };
+    await this.saveTrackedRepo(updated);
+    return updated;
+  }
+
   async getActiveRepos(): Promise<TrackedRepo[]> {
     const all = await this.getAllTrackedRepos();
     // Active = not dead, not shipped
@@ -48,11 +79,11 @@ export class StateManager {
   // ============ MESSAGE -> REPO MAPPING ============
 
   async setMessageRepo(messageId: number, owner: string, name: string): Promise<void> {
-    await kv.set(`msg:${messageId}`, { owner, name }, { ex: 86400 * 7 });
+    await this.store.set(`msg:${messageId}`, { owner, name }, { ex: 86400 * 7 });
   }
 
   async getMessageRepo(messageId: number): Promise<{ owner: string; name: string } | null> {
-    return kv.get<{ owner: string; name: string }>(`msg:${messageId}`);
+    return this.store.get<{ owner: string; name: string }>(`msg:${messageId}`);
   }
 
   async updateRepoMessageId(owner: string, name: string, messageId: number): Promise<void> {
@@ -66,15 +97,15 @@ export class StateManager {
   // ============ SCAN STATE ============
 
   async setActiveScan(scanId: string): Promise<void> {
-    await kv.set('scan:active', scanId);
+    await this.store.set('scan:active', scanId);
   }
 
   async getActiveScan(): Promise<string | null> {
-    return kv.get<string>('scan:active');
+    return this.store.get<string>('scan:active');
   }
 
   async cancelActiveScan(): Promise<void> {
-    await kv.del('scan:active');
+    await this.store.del('scan:active');
   }
 
   // ============ COUNTS ============
@@ -103,25 +134,21 @@ export class StateManager {
   // ============ GENERIC KEY-VALUE ============
 
   async get<T = string>(key: string): Promise<T | null> {
-    return kv.get<T>(key);
+    return this.store.get<T>(key);
   }
 
   async set(key: string, value: unknown, ttlSeconds?: number): Promise<void> {
-    if (ttlSeconds) {
-      await kv.set(key, value, { ex: ttlSeconds });
-    } else {
-      await kv.set(key, value);
-    }
+    await this.store.set(key, value, ttlSeconds ? { ex: ttlSeconds } : undefined);
   }
 
   async delete(key: string): Promise<void> {
-    await kv.del(key);
+    await this.store.del(key);
   }
 
   // ============ WATCHED REPOS (for push notifications) ============
 
   async getWatchedRepos(): Promise<string[]> {
-    const watched = await kv.get<string[]>('watched_repos');
+    const watched = await this.store.get<string[]>('watched_repos');
     return watched || [];
   }
 
@@ -129,15 +156,15 @@ export class StateManager {
     const watched = await this.getWatchedRepos();
     if (!watched.includes(fullName)) {
       watched.push(fullName);
-      await kv.set('watched_repos', watched);
+      await this.store.set('watched_repos', watched);
     }
   }
 
   async removeWatchedRepo(fullName: string): Promise<void> {
     const watched = await this.getWatchedRepos();
     const filtered = watched.filter(r => r !== fullName);
-    await kv.set('watched_repos', filtered);
-    await kv.del(`muted:${fullName}`);
+    await this.store.set('watched_repos', filtered);
+    await this.store.del(`muted:${fullName}`);
   }
 
   async isRepoWatched(fullName: string): Promise<boolean> {
@@ -146,11 +173,11 @@ export class StateManager {
   }
 
   async muteWatchedRepo(fullName: string, muteUntil: string): Promise<void> {
-    await kv.set(`muted:${fullName}`, muteUntil);
+    await this.store.set(`muted:${fullName}`, muteUntil);
   }
 
   async getRepoMuteUntil(fullName: string): Promise<string | null> {
-    return kv.get<string>(`muted:${fullName}`);
+    return this.store.get<string>(`muted:${fullName}`);
   }
 
   async isRepoMuted(fullName: string): Promise<boolean> {
@@ -162,11 +189,102 @@ export class StateManager {
   // ============ PUSH TRACKING (idempotency) ============
 
   async getLastProcessedSha(fullName: string): Promise<string | null> {
-    return kv.get<string>(`last_sha:${fullName}`);
+    return this.store.get<string>(`last_sha:${fullName}`);
   }
 
   async setLastProcessedSha(fullName: string, sha: string): Promise<void> {
-    await kv.set(`last_sha:${fullName}`, sha);
+    await this.store.set(`last_sha:${fullName}`, sha);
+  }
+
+  // ============ CHECK REPORTS (cached per head SHA and check set) ============
+
+  async getCheckReport(owner: string, name: string, sha: string, checkSet: string): Promise<CheckReport | null> {
+    return this.store.get<CheckReport>(`checks:${owner}/${name}:${sha}:${checkSet}`);
+  }
+
+  /** Kept 30 days - a SHA's results never change, but old ones stop mattering */
+  async saveCheckReport(owner: string, name: string, checkSet: string, report: CheckReport): Promise<void> {
+    await this.store.set(`checks:${owner}/${name}:${report.sha}:${checkSet}`, report, { ex: 30 * 24 * 60 * 60 });
+  }
+
+  // ============ COMMIT LOGS ============
+
+  async getCommitLog(owner: string, name: string): Promise<CommitLog | null> {
+    return this.store.get<CommitLog>(`commit_log:${owner}/${name}`);
+  }
+
+  /** Kept a week past the last read - an untouched log is cheaper to rebuild than to keep */
+  async saveCommitLog(owner: string, name: string, log: CommitLog): Promise<void> {
+    await this.store.set(`commit_log:${owner}/${name}`, log, { ex: 7 * 24 * 60 * 60 });
+  }
+
+  // ============ ANALYSIS HISTORY ============
+
+  /**
+   * Append an analysis to a repo's history. Each record gets its own key
+   * (history:owner/name:<ms>-<n>, set-if-absent) so concurrent analyses
+   * can't overwrite each other. Only the newest 50 are kept.
+   */
+  async appendAnalysisHistory(owner: string, name: string, record: AnalysisRecord): Promise<void> {
+    const stamp = String(Date.now()).padStart(15, '0');
+    let n = 0;
+    while (!await this.store.setnx(`history:${owner}/${name}:${stamp}-${n}`, record)) n++;
+
+    const keys = await this.historyKeys(owner, name);
+    if (keys.length > 50) {
+      await this.store.del(...keys.slice(0, keys.length - 50));
+    }
+  }
+
+  /** Oldest first */
+  async getAnalysisHistory(owner: string, name: string): Promise<AnalysisRecord[]> {
+    const keys = await this.historyKeys(owner, name);
+    const records = await Promise.all(keys.map(key => this.store.get<AnalysisRecord>(key)));
+    return records.filter((r): r is AnalysisRecord => r !== null);
+  }
+
+  /** Record keys, oldest first (fixed-width stamps sort lexically) */
+  private async historyKeys(owner: string, name: string): Promise<string[]> {
+    const keys = await this.store.keys(`history:${owner}/${name}:*`);
+    return keys.sort((a, b) => {
+      const [stampA, nA] = a.slice(a.lastIndexOf(':') + 1).split('-');
+      const [stampB, nB] = b.slice(b.lastIndexOf(':') + 1).split('-');
+      return stampA.localeCompare(stampB) || Number(nA) - Number(nB);
+    });
+  }
+
+  // ============ LLM USAGE (one record per month) ============
+
+  async getLLMUsage(month: string): Promise<UsageReport | null> {
+    return this.store.get<UsageReport>(`llm_usage:${month}`);
+  }
+
+  /** Kept about a year */
+  async saveLLMUsage(report: UsageReport): Promise<void> {
+    await this.store.set(`llm_usage:${report.month}`, report, { ex: 400 * 24 * 60 * 60 });
+  }
+
+  // ============ PUBLISHING ============
+
+  /** How README/cover changes reach GitHub: straight to the default branch, or via a PR */
+  async getPublishMode(): Promise<PublishMode> {
+    return (await this.store.get<PublishMode>('settings:publish_mode')) || 'direct';
+  }
+
+  async setPublishMode(mode: PublishMode): Promise<void> {
+    await this.store.set('settings:publish_mode', mode);
+  }
+
+  async savePublishedPullRequest(pr: PublishedPullRequest): Promise<void> {
+    await this.store.set(`publish_pr:${pr.id}`, pr, { ex: 86400 * 30 });
+  }
+
+  async getPublishedPullRequest(id: string): Promise<PublishedPullRequest | null> {
+    return this.store.get<PublishedPullRequest>(`publish_pr:${id}`);
+  }
+
+  async deletePublishedPullRequest(id: string): Promise<void> {
+    await this.store.del(`publish_pr:${id}`);
   }
 
   // ============ HELPERS ============
@@ -0,0 +1,123 @@
+/**
+ * State Store
+ *
+ * Every module that persists state goes through `getStateStore()` instead of
+ * importing `@vercel/kv` directly. The backend is picked from the environment:
+ *
+ * - `STATE_STORE=kv`     Vercel KV / Upstash (production)
+ * - `STATE_STORE=memory` Process-local Map, lost on exit
+ * - `STATE_STORE=sqlite` File at `STATE_SQLITE_PATH` (default `.data/state.sqlite`)
+ *
+ * When STATE_STORE is unset, KV is used if `KV_REST_API_URL` is configured,
+ * otherwise memory - so scripts run offline with no setup.
+ */
+
+import type { SetOptions, StateStore, StoreBackend } from './types.js';
+import { KVStateStore } from './kv.js';
+import { MemoryStateStore } from './memory.js';
+
+export type { SetOptions, StateStore, StoreBackend } from './types.js';
+export { KVStateStore } from './kv.js';
+export { MemoryStateStore } from './memory.js';
+export { NamespacedStateStore } from './namespaced.js';
+
+const DEFAULT_SQLITE_PATH = '.data/state.sqlite';
+
+// ============ BACKEND SELECTION ============
+
+/**
+ * Resolve which backend the environment asks for
+ */
+export function resolveStoreBackend(): StoreBackend {
+  const configured = process.env.STATE_STORE?.trim().toLowerCase();
+  if (configured) {
+    if (configured === 'kv' || configured === 'memory' || configured === 'sqlite') {
+      return configured;
+    }
+    throw new Error(`Unknown STATE_STORE "${process.env.STATE_STORE}" (expected kv, memory or sqlite)`);
+  }
+  return process.env.KV_REST_API_URL ? 'kv' : 'memory';
+}
+
+/**
+ * Build a fresh store for a backend
+ */
+export function createStateStore(backend: StoreBackend = resolveStoreBackend()): StateStore {
+  switch (backend) {
+    case 'kv':
+      return new KVStateStore();
+    case 'memory':
+      return new MemoryStateStore();
+    case 'sqlite':
+      return new LazySqliteStore(process.env.STATE_SQLITE_PATH || DEFAULT_SQLITE_PATH);
+  }
+}
+
+// ============ SINGLETON ============
+
+let store: StateStore | null = null;
+
+/**
+ * Get or create the process-wide state store
+ */
+export function getStateStore(): StateStore {
+  if (!store) {
+    store = createStateStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the process-wide store (test harnesses, scripts)
+ */
+export function setStateStore(next: StateStore): void {
+  store = next;
+}
+
+// ============ SQLITE LOADER ============
+
+/**
+ * Defers loading the SQLite module (and its native driver) until first use,
+ * keeping `node:fs` and `better-sqlite3` out of Edge bundles.
+ */
+class LazySqliteStore implements StateStore {
+  readonly backend = 'sqlite' as const;
+  private inner: Promise<StateStore> | null = null;
+
+  constructor(private readonly path: string) {}
+
+  private load(): Promise<StateStore> {
+    if (!this.inner) {
+      this.inner = import('./sqlite.js').then(m => new m.SqliteStateStore(this.path));
+    }
+    return this.inner;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return (await this.load()).get<T>(key);
+  }
+
+  async set(key: string, value: unknown, options?: SetOptions): Promise<boolean> {
+    return (await this.load()).set(key, value, options);
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return (await this.load()).del(...keys);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.load()).exists(key);
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return (await this.load()).keys(pattern);
+  }
+
+  async ttl(key: string): Promise<number> {
+    return (await this.load()).ttl(key);
+  }
+
+  async setnx(key: string, value: unknown, ttlSeconds?: number): Promise<boolean> {
+    return (await this.load()).setnx(key, value, ttlSeconds);
+  }
+}
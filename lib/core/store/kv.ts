@@ -0,0 +1,51 @@
+/**
+ * Vercel KV State Store
+ * Thin adapter over @vercel/kv (Upstash Redis) - the production backend
+ */
+
+import { kv } from '@vercel/kv';
+import type { SetOptions, StateStore } from './types.js';
+
+export class KVStateStore implements StateStore {
+  readonly backend = 'kv' as const;
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return kv.get<T>(key);
+  }
+
+  async set(key: string, value: unknown, options?: SetOptions): Promise<boolean> {
+    let result: unknown;
+    if (options?.nx) {
+      result = options.ex
+        ? await kv.set(key, value, { ex: options.ex, nx: true })
+        : await kv.set(key, value, { nx: true });
+    } else if (options?.ex) {
+      result = await kv.set(key, value, { ex: options.ex });
+    } else {
+      result = await kv.set(key, value);
+    }
+    // Redis replies 'OK' on write, null when NX blocked it
+    return result === 'OK';
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    return kv.del(...keys);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await kv.exists(key)) === 1;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return kv.keys(pattern);
+  }
+
+  async ttl(key: string): Promise<number> {
+    return kv.ttl(key);
+  }
+
+  async setnx(key: string, value: unknown, ttlSeconds?: number): Promise<boolean> {
+    return this.set(key, value, { ex: ttlSeconds, nx: true });
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * In-Memory State Store
+ * Process-local Map with TTL support. Used offline and by test harnesses.
+ */
+
+import type { SetOptions, StateStore } from './types.js';
+
+interface Entry {
+  /** JSON-encoded value (mirrors KV serialization, avoids shared references) */
+  value: string;
+  /** Epoch ms, or null for no expiry */
+  expiresAt: number | null;
+}
+
+export class MemoryStateStore implements StateStore {
+  readonly backend = 'memory' as const;
+  private entries = new Map<string, Entry>();
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const entry = this.live(key);
+    return entry ? (JSON.parse(entry.value) as T) : null;
+  }
+
+  async set(key: string, value: unknown, options?: SetOptions): Promise<boolean> {
+    if (options?.nx && this.live(key)) return false;
+    this.entries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: options?.ex ? Date.now() + options.ex * 1000 : null,
+    });
+    return true;
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    let removed = 0;
+    for (const key of keys) {
+      if (this.live(key)) removed++;
+      this.entries.delete(key);
+    }
+    return removed;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.live(key) !== null;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const re = globToRegExp(pattern);
+    return [...this.entries.keys()].filter(key => re.test(key) && this.live(key));
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = this.live(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === null) return -1;
+    return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  async setnx(key: string, value: unknown, ttlSeconds?: number): Promise<boolean> {
+    return this.set(key, value, { ex: ttlSeconds, nx: true });
+  }
+
+  /** Drop everything (test helper) */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  // ============ HELPERS ============
+
+  /** Returns the entry if present and unexpired, evicting it otherwise */
+  private live(key: string): Entry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+}
+
+/**
+ * Convert a Redis-style glob (`*`, `?`) to an anchored RegExp
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
@@ -0,0 +1,46 @@
+/**
+ * Namespaced State Store
+ * Prefixes every key so several tenants can share one backend
+ */
+
+import type { SetOptions, StateStore } from './types.js';
+
+export class NamespacedStateStore implements StateStore {
+  constructor(
+    private readonly inner: StateStore,
+    readonly prefix: string
+  ) {}
+
+  get backend() {
+    return this.inner.backend;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return this.inner.get<T>(this.prefix + key);
+  }
+
+  async set(key: string, value: unknown, options?: SetOptions): Promise<boolean> {
+    return this.inner.set(this.prefix + key, value, options);
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return this.inner.del(...keys.map(k => this.prefix + k));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.inner.exists(this.prefix + key);
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const keys = await this.inner.keys(this.prefix + pattern);
+    return keys.map(k => k.slice(this.prefix.length));
+  }
+
+  async ttl(key: string): Promise<number> {
+    return this.inner.ttl(this.prefix + key);
+  }
+
+  async setnx(key: string, value: unknown, ttlSeconds?: number): Promise<boolean> {
+    return this.inner.setnx(this.prefix + key, value, ttlSeconds);
+  }
+}
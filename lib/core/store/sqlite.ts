@@ -0,0 +1,130 @@
+/**
+ * SQLite State Store
+ * File-backed store for running the bot and scripts offline with persistence.
+ *
+ * Node-only: the native driver is loaded on first use, so this module is
+ * never pulled into Edge functions unless STATE_STORE=sqlite is selected.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { SetOptions, StateStore } from './types.js';
+
+type Database = BetterSqlite3.Database;
+
+interface Row {
+  value: string;
+  expires_at: number | null;
+}
+
+export class SqliteStateStore implements StateStore {
+  readonly backend = 'sqlite' as const;
+  private db: Promise<Database> | null = null;
+
+  constructor(private readonly path: string) {}
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const db = await this.open();
+    const row = db.prepare('SELECT value, expires_at FROM kv WHERE key = ?').get(key) as Row | undefined;
+    if (!row || isExpired(row)) return null;
+    return JSON.parse(row.value) as T;
+  }
+
+  async set(key: string, value: unknown, options?: SetOptions): Promise<boolean> {
+    const db = await this.open();
+    const expiresAt = options?.ex ? Date.now() + options.ex * 1000 : null;
+    const encoded = JSON.stringify(value);
+
+    if (options?.nx) {
+      // Single transaction so two processes sharing the file can't both win
+      return db.transaction(() => {
+        this.purge(db, key);
+        const result = db
+          .prepare('INSERT OR IGNORE INTO kv (key, value, expires_at) VALUES (?, ?, ?)')
+          .run(key, encoded, expiresAt);
+        return result.changes === 1;
+      }).immediate();
+    }
+
+    db.prepare(
+      'INSERT INTO kv (key, value, expires_at) VALUES (?, ?, ?) ' +
+      'ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at'
+    ).run(key, encoded, expiresAt);
+    return true;
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    const db = await this.open();
+    const now = Date.now();
+    const stmt = db.prepare('DELETE FROM kv WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)');
+    const removed = db.transaction(() =>
+      keys.reduce((n, key) => n + stmt.run(key, now).changes, 0)
+    )();
+    // Clear out any expired leftovers too
+    const purge = db.prepare('DELETE FROM kv WHERE key = ?');
+    for (const key of keys) purge.run(key);
+    return removed;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.ttl(key)) !== -2;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const db = await this.open();
+    // SQLite GLOB uses the same `*` / `?` wildcards as Redis KEYS
+    const rows = db
+      .prepare('SELECT key FROM kv WHERE key GLOB ? AND (expires_at IS NULL OR expires_at > ?)')
+      .all(pattern, Date.now()) as Array<{ key: string }>;
+    return rows.map(r => r.key);
+  }
+
+  async ttl(key: string): Promise<number> {
+    const db = await this.open();
+    const row = db.prepare('SELECT value, expires_at FROM kv WHERE key = ?').get(key) as Row | undefined;
+    if (!row || isExpired(row)) return -2;
+    if (row.expires_at === null) return -1;
+    return Math.ceil((row.expires_at - Date.now()) / 1000);
+  }
+
+  async setnx(key: string, value: unknown, ttlSeconds?: number): Promise<boolean> {
+    return this.set(key, value, { ex: ttlSeconds, nx: true });
+  }
+
+  // ============ HELPERS ============
+
+  private open(): Promise<Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        const { default: Sqlite } = await import('better-sqlite3');
+        if (this.path !== ':memory:') {
+          mkdirSync(dirname(this.path), { recursive: true });
+        }
+        const db = new Sqlite(this.path);
+        db.pragma('journal_mode = WAL');
+        db.exec(
+          'CREATE TABLE IF NOT EXISTS kv (' +
+          '  key TEXT PRIMARY KEY,' +
+          '  value TEXT NOT NULL,' +
+          '  expires_at INTEGER' +
+          ')'
+        );
+        // Expired rows are filtered on read; sweep them once per process
+        db.prepare('DELETE FROM kv WHERE expires_at IS NOT NULL AND expires_at <= ?').run(Date.now());
+        return db;
+      })();
+    }
+    return this.db;
+  }
+
+  private purge(db: Database, key: string): void {
+    db.prepare('DELETE FROM kv WHERE key = ? AND expires_at IS NOT NULL AND expires_at <= ?')
+      .run(key, Date.now());
+  }
+}
+
+function isExpired(row: Row): boolean {
+  return row.expires_at !== null && row.expires_at <= Date.now();
+}
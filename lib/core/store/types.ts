@@ -0,0 +1,42 @@
+/**
+ * State Store Types
+ * Minimal key-value contract shared by every storage backend
+ */
+
+export type StoreBackend = 'kv' | 'memory' | 'sqlite';
+
+export interface SetOptions {
+  /** Expire after N seconds */
+  ex?: number;
+  /** Only set if the key does not already exist */
+  nx?: boolean;
+}
+
+/**
+ * Redis-flavoured key-value store.
+ *
+ * Values are JSON-serializable. Every read returns a fresh copy, so callers
+ * can mutate what they get back without touching the stored value.
+ */
+export interface StateStore {
+  readonly backend: StoreBackend;
+
+  get<T = unknown>(key: string): Promise<T | null>;
+
+  /** @returns true if the value was written (false only when `nx` blocked it) */
+  set(key: string, value: unknown, options?: SetOptions): Promise<boolean>;
+
+  /** @returns number of keys removed */
+  del(...keys: string[]): Promise<number>;
+
+  exists(key: string): Promise<boolean>;
+
+  /** Glob-style match (`*`, `?`), same semantics as Redis KEYS */
+  keys(pattern: string): Promise<string[]>;
+
+  /** Seconds until expiry; -1 if the key has no TTL, -2 if it does not exist */
+  ttl(key: string): Promise<number>;
+
+  /** Atomic set-if-absent. @returns true if this call created the key */
+  setnx(key: string, value: unknown, ttlSeconds?: number): Promise<boolean>;
+}
@@ -0,0 +1,364 @@
+/**
+ * Tech Stack Detection
+ *
+ * Parses the manifests a repo ships (package.json, pyproject.toml,
+ * requirements.txt, Cargo.toml, go.mod, Gemfile, composer.json, pom.xml,
+ * build.gradle, Dockerfile) into one normalized TechStack. Parsing is
+ * line/regex based - enough to list dependencies without a TOML/XML parser.
+ */
+
+import type { GitHubClient } from './github.js';
+import type { TechStack } from './types.js';
+
+/** Root-level files we know how to read */
+export const MANIFEST_FILES = [
+  'package.json',
+  'pyproject.toml',
+  'requirements.txt',
+  'Pipfile',
+  'Cargo.toml',
+  'go.mod',
+  'Gemfile',
+  'composer.json',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'Dockerfile',
+] as const;
+
+const MAX_DEPENDENCIES = 25;
+
+/** Dependency name (lowercase) → framework label */
+const FRAMEWORKS: Record<string, string> = {
+  // JS/TS
+  react: 'React', next: 'Next.js', vue: 'Vue', nuxt: 'Nuxt', svelte: 'Svelte', '@sveltejs/kit': 'SvelteKit',
+  'solid-js': 'Solid', astro: 'Astro', '@remix-run/react': 'Remix', express: 'Express', fastify: 'Fastify',
+  hono: 'Hono', '@nestjs/core': 'NestJS', electron: 'Electron', 'react-native': 'React Native', expo: 'Expo',
+  tailwindcss: 'Tailwind', prisma: 'Prisma', 'drizzle-orm': 'Drizzle', '@supabase/supabase-js': 'Supabase',
+  grammy: 'grammY', telegraf: 'Telegraf', 'discord.js': 'discord.js', playwright: 'Playwright',
+  '@anthropic-ai/sdk': 'Claude API', openai: 'OpenAI API', '@google/genai': 'Gemini API', langchain: 'LangChain',
+  three: 'Three.js', '@trpc/server': 'tRPC', graphql: 'GraphQL', vite: 'Vite',
+  // Python
+  django: 'Django', flask: 'Flask', fastapi: 'FastAPI', starlette: 'Starlette', streamlit: 'Streamlit',
+  gradio: 'Gradio', torch: 'PyTorch', tensorflow: 'TensorFlow', jax: 'JAX', transformers: 'Transformers',
+  pandas: 'pandas', numpy: 'NumPy', 'scikit-learn': 'scikit-learn',
+  sqlalchemy: 'SQLAlchemy', pydantic: 'Pydantic', celery: 'Celery', scrapy: 'Scrapy', typer: 'Typer',
+  click: 'Click', 'python-telegram-bot': 'python-telegram-bot', aiogram: 'aiogram', 'langchain-core': 'LangChain',
+  // Rust
+  tokio: 'Tokio', axum: 'Axum', 'actix-web': 'Actix Web', rocket: 'Rocket', warp: 'Warp', tauri: 'Tauri',
+  bevy: 'Bevy', clap: 'Clap', serde: 'Serde', diesel: 'Diesel', sqlx: 'SQLx', leptos: 'Leptos', ratatui: 'Ratatui',
+  // Go
+  'github.com/gin-gonic/gin': 'Gin', 'github.com/labstack/echo/v4': 'Echo', 'github.com/gofiber/fiber/v2': 'Fiber',
+  'github.com/spf13/cobra': 'Cobra', 'github.com/go-chi/chi/v5': 'chi', 'gorm.io/gorm': 'GORM',
+  'github.com/charmbracelet/bubbletea': 'Bubble Tea',
+  // Ruby
+  rails: 'Rails', sinatra: 'Sinatra', hanami: 'Hanami',
+  // PHP
+  'laravel/framework': 'Laravel', 'symfony/framework-bundle': 'Symfony', 'slim/slim': 'Slim',
+  // JVM
+  'spring-boot-starter': 'Spring Boot', 'spring-boot-starter-web': 'Spring Boot', 'ktor-server-core': 'Ktor',
+  'quarkus-core': 'Quarkus', micronaut: 'Micronaut',
+};
+
+const LOCKFILES: Record<string, string> = {
+  'package-lock.json': 'npm',
+  'yarn.lock': 'yarn',
+  'pnpm-lock.yaml': 'pnpm',
+  'bun.lockb': 'bun',
+  'bun.lock': 'bun',
+  'poetry.lock': 'poetry',
+  'uv.lock': 'uv',
+  'Pipfile.lock': 'pipenv',
+  'pdm.lock': 'pdm',
+};
+
+export function emptyTechStack(): TechStack {
+  return { languages: [], frameworks: [], package_managers: [], runtimes: [], dependencies: [], manifests: [] };
+}
+
+/**
+ * Fetch the root manifests present in `files` and detect the stack.
+ * `known` skips fetches for contents already in hand (e.g. package.json).
+ * `root` reads a workspace package's manifests instead of the repo root's.
+ */
+export async function fetchTechStack(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  files: string[],
+  known: Record<string, string | null> = {},
+  root = ''
+): Promise<{ stack: TechStack; manifests: Record<string, string> }> {
+  // Scoped to a workspace package: read its manifests, see paths relative to it
+  if (root) {
+    const prefix = `${root}/`;
+    files = files.filter(f => f.startsWith(prefix)).map(f => f.slice(prefix.length));
+  }
+  const present = MANIFEST_FILES.filter(name => files.includes(name));
+  const contents = await Promise.all(present.map(name =>
+    name in known ? Promise.resolve(known[name]) : github.getFileContent(owner, repo, root ? `${root}/${name}` : name)
+  ));
+
+  const manifests: Record<string, string> = {};
+  present.forEach((name, i) => {
+    const content = contents[i];
+    if (content) manifests[name] = content;
+  });
+
+  return { stack: detectTechStack(manifests, files), manifests };
+}
+
+/**
+ * Build a TechStack from manifest contents (keyed by file name) and,
+ * optionally, the repo's file list (lockfiles, tsconfig, source extensions)
+ */
+export function detectTechStack(manifests: Record<string, string>, files: string[] = []): TechStack {
+  const stack = emptyTechStack();
+  const deps: string[] = [];
+
+  for (const [name, content] of Object.entries(manifests)) {
+    const parser = PARSERS[name];
+    if (!parser) continue;
+    try {
+      const parsed = parser(content, files);
+      stack.manifests.push(name);
+      stack.languages.push(...(parsed.languages || []));
+      stack.package_managers.push(...(parsed.package_managers || []));
+      stack.runtimes.push(...(parsed.runtimes || []));
+      stack.frameworks.push(...(parsed.frameworks || []));
+      deps.push(...(parsed.dependencies || []));
+    } catch { /* malformed manifest - skip it */ }
+  }
+
+  for (const file of files) {
+    if (LOCKFILES[file]) stack.package_managers.push(LOCKFILES[file]);
+  }
+
+  for (const dep of deps) {
+    const framework = FRAMEWORKS[dep.toLowerCase()];
+    if (framework) stack.frameworks.push(framework);
+  }
+
+  return {
+    languages: unique(stack.languages),
+    frameworks: unique(stack.frameworks),
+    package_managers: unique(stack.package_managers),
+    runtimes: unique(stack.runtimes),
+    dependencies: unique(deps).slice(0, MAX_DEPENDENCIES),
+    manifests: stack.manifests,
+  };
+}
+
+/**
+ * One line for prompts and digests: "TypeScript · Next.js, Tailwind · pnpm · Node >=20"
+ */
+export function formatTechStack(stack: TechStack): string {
+  const parts = [
+    stack.languages.join(', '),
+    stack.frameworks.slice(0, 8).join(', '),
+    stack.package_managers.join(', '),
+    stack.runtimes.join(', '),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : '(unknown)';
+}
+
+/**
+ * Flat label list (languages first), for tables and string[] consumers
+ */
+export function techStackLabels(stack: TechStack): string[] {
+  return unique([...stack.languages, ...stack.frameworks]);
+}
+
+// ============ PARSERS ============
+
+type Parsed = Partial<Pick<TechStack, 'languages' | 'frameworks' | 'package_managers' | 'runtimes' | 'dependencies'>>;
+
+const PARSERS: Record<string, (content: string, files: string[]) => Parsed> = {
+  'package.json': parsePackageJson,
+  'pyproject.toml': parsePyproject,
+  'requirements.txt': content => ({ languages: ['Python'], package_managers: ['pip'], dependencies: parseRequirements(content) }),
+  'Pipfile': content => ({
+    languages: ['Python'],
+    package_managers: ['pipenv'],
+    dependencies: tomlTableKeys(content, 'packages'),
+    runtimes: prefixed('Python ', content.match(/python_version\s*=\s*"([^"]+)"/)?.[1]),
+  }),
+  'Cargo.toml': parseCargo,
+  'go.mod': parseGoMod,
+  'Gemfile': parseGemfile,
+  'composer.json': parseComposer,
+  'pom.xml': parsePom,
+  'build.gradle': parseGradle,
+  'build.gradle.kts': parseGradle,
+  'Dockerfile': parseDockerfile,
+};
+
+function parsePackageJson(content: string, files: string[]): Parsed {
+  const pkg = JSON.parse(content);
+  const dependencies = [...Object.keys(pkg.dependencies || {}), ...Object.keys(pkg.devDependencies || {})];
+  const typescript = dependencies.includes('typescript') || files.includes('tsconfig.json');
+  const manager = typeof pkg.packageManager === 'string' ? pkg.packageManager.split('@')[0] : null;
+
+  return {
+    languages: [typescript ? 'TypeScript' : 'JavaScript'],
+    package_managers: manager ? [manager] : [],
+    runtimes: [
+      ...prefixed('Node ', pkg.engines?.node),
+      ...prefixed('Bun ', pkg.engines?.bun),
+    ],
+    dependencies,
+  };
+}
+
+function parsePyproject(content: string): Parsed {
+  const poetry = /^\[tool\.poetry\]/m.test(content);
+  const pep621 = tomlArray(content, 'project', 'dependencies').map(requirementName);
+  const poetryDeps = tomlTableKeys(content, 'tool.poetry.dependencies').filter(d => d !== 'python');
+  const requiresPython = tomlString(content, 'project', 'requires-python')
+    ?? content.match(/^\[tool\.poetry\.dependencies\][^[]*?^python\s*=\s*"([^"]+)"/m)?.[1];
+
+  return {
+    languages: ['Python'],
+    package_managers: [poetry ? 'poetry' : 'pip'],
+    runtimes: prefixed('Python ', requiresPython),
+    dependencies: [...pep621, ...poetryDeps].filter(Boolean),
+  };
+}
+
+function parseRequirements(content: string): string[] {
+  return content.split('\n')
+    .map(line => line.replace(/#.*/, '').trim())
+    .filter(line => line && !line.startsWith('-'))
+    .map(requirementName)
+    .filter(Boolean);
+}
+
+function parseCargo(content: string): Parsed {
+  const dependencies = [
+    ...tomlTableKeys(content, 'dependencies'),
+    ...tomlTableKeys(content, 'workspace.dependencies'),
+    // [dependencies.foo] style
+    ...[...content.matchAll(/^\[(?:workspace\.)?dependencies\.([\w-]+)\]/gm)].map(m => m[1]),
+  ];
+  const edition = tomlString(content, 'package', 'edition');
+  return {
+    languages: ['Rust'],
+    package_managers: ['cargo'],
+    runtimes: prefixed('Rust edition ', edition),
+    dependencies,
+  };
+}
+
+function parseGoMod(content: string): Parsed {
+  const version = content.match(/^go\s+([\d.]+)/m)?.[1];
+  // go mod tidy writes direct and indirect requirements as separate blocks
+  const block = [...content.matchAll(/^require\s*\(([\s\S]*?)^\)/gm)].map(m => m[1]).join('\n');
+  // Same-line only: \s would run past "require (" into the block
+  const single = [...content.matchAll(/^require[ \t]+([^\s(]\S*)[ \t]+\S+/gm)].map(m => m[1]);
+  const dependencies = [
+    ...block.split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('//') && !line.includes('// indirect'))
+      .map(line => line.split(/\s+/)[0]),
+    ...single,
+  ];
+  return { languages: ['Go'], package_managers: ['go modules'], runtimes: prefixed('Go ', version), dependencies };
+}
+
+function parseGemfile(content: string): Parsed {
+  return {
+    languages: ['Ruby'],
+    package_managers: ['bundler'],
+    runtimes: prefixed('Ruby ', content.match(/^ruby\s+['"]([^'"]+)['"]/m)?.[1]),
+    dependencies: [...content.matchAll(/^\s*gem\s+['"]([^'"]+)['"]/gm)].map(m => m[1]),
+  };
+}
+
+function parseComposer(content: string): Parsed {
+  const pkg = JSON.parse(content);
+  const require: Record<string, string> = { ...pkg.require, ...pkg['require-dev'] };
+  return {
+    languages: ['PHP'],
+    package_managers: ['composer'],
+    runtimes: prefixed('PHP ', require.php),
+    dependencies: Object.keys(require).filter(name => name !== 'php' && !name.startsWith('ext-')),
+  };
+}
+
+function parsePom(content: string): Parsed {
+  const dependencies = [...content.matchAll(/<dependency>[\s\S]*?<artifactId>([^<]+)<\/artifactId>[\s\S]*?<\/dependency>/g)]
+    .map(m => m[1].trim());
+  const javaVersion = content.match(/<(?:java\.version|maven\.compiler\.(?:source|release))>([^<]+)</)?.[1];
+  const kotlin = dependencies.some(d => d.startsWith('kotlin-stdlib'));
+  return {
+    languages: kotlin ? ['Kotlin', 'Java'] : ['Java'],
+    package_managers: ['maven'],
+    runtimes: prefixed('Java ', javaVersion),
+    dependencies,
+  };
+}
+
+function parseGradle(content: string): Parsed {
+  const dependencies = [...content.matchAll(
+    /^\s*(?:implementation|api|compileOnly|runtimeOnly|kapt|ksp)\s*\(?\s*['"]([^'":]+):([^'":]+)(?::[^'"]*)?['"]/gm
+  )].map(m => m[2]);
+  const kotlin = /kotlin\(|org\.jetbrains\.kotlin/.test(content);
+  return {
+    languages: kotlin ? ['Kotlin'] : ['Java'],
+    package_managers: ['gradle'],
+    dependencies,
+  };
+}
+
+function parseDockerfile(content: string): Parsed {
+  // Last FROM is the runtime image in multi-stage builds
+  const images = [...content.matchAll(/^FROM\s+(?:--platform=\S+\s+)?(\S+)/gim)].map(m => m[1]);
+  const runtime = images[images.length - 1];
+  return { frameworks: ['Docker'], runtimes: runtime && !runtime.startsWith('$') ? [runtime] : [] };
+}
+
+// ============ TOML-ish HELPERS ============
+
+/** Body of a [table] up to the next header */
+function tomlTable(content: string, table: string): string | null {
+  const escaped = table.replace(/\./g, '\\.');
+  return content.match(new RegExp(`^\\[${escaped}\\]\\s*$([\\s\\S]*?)(?=^\\[|$(?![\\s\\S]))`, 'm'))?.[1] ?? null;
+}
+
+function tomlTableKeys(content: string, table: string): string[] {
+  const body = tomlTable(content, table);
+  if (!body) return [];
+  return [...body.matchAll(/^\s*"?([\w.-]+)"?\s*=/gm)].map(m => m[1]);
+}
+
+function tomlString(content: string, table: string, key: string): string | null {
+  const body = tomlTable(content, table);
+  return body?.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']+)["']`, 'm'))?.[1] ?? null;
+}
+
+export function tomlArray(content: string, table: string, key: string): string[] {
+  const body = tomlTable(content, table);
+  const start = body?.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[`, 'm'));
+  if (!body || !start) return [];
+
+  // Scan quoted items up to the first unquoted "]" (items may contain brackets: "fastapi[all]")
+  const values: string[] = [];
+  const rest = body.slice(start.index! + start[0].length);
+  const re = /\s*(?:#[^\n]*\n)?\s*(?:(["'])(.*?)\1\s*,?|(\]))/y;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(rest)) && !match[3]) values.push(match[2]);
+  return values;
+}
+
+/** "fastapi[all]>=0.100; python_version>'3.8'" → "fastapi" */
+function requirementName(spec: string): string {
+  return spec.trim().split(/[\s<>=!~;[@]/)[0];
+}
+
+function prefixed(prefix: string, value: string | null | undefined): string[] {
+  return value ? [`${prefix}${value}`] : [];
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
@@ -64,6 +64,21 @@ export const ReadmeClaimSchema = z.object({
   evidence: z.array(z.string()),
 });
 
+/** How much of an analysis' evidence checked out against the real repo (set by the verifier, not the LLM) */
+export const GroundingSchema = z.object({
+  /** 0-100: verified / checked paths and symbols */
+  score: z.number(),
+  checked: z.number(),
+  /** Paths (evidence files, keep, cut) not in the tree - stripped */
+  missing_paths: z.array(z.string()),
+  /** file:symbol pairs not found in the fetched source - stripped */
+  missing_symbols: z.array(z.string()),
+  /** Whether the analysis was re-prompted for too much invalid evidence */
+  reprompted: z.boolean(),
+});
+
+export type Grounding = z.infer<typeof GroundingSchema>;
+
 // ============ CORE ANALYSIS (LLM Output) ============
 
 export const CoreAnalysisSchema = z.object({
@@ -101,6 +116,9 @@ export const CoreAnalysisSchema = z.object({
   
   // Tweet only if proud
   tweet_draft: z.string().max(280).nullable(),
+
+  // Evidence verification (added after the LLM call)
+  grounding: GroundingSchema.optional(),
 });
 
 export type CoreAnalysis = z.infer<typeof CoreAnalysisSchema>;
@@ -122,6 +140,216 @@ export interface TrackedRepo {
   shipped_at: string | null;
   cover_image_url: string | null;
   homepage: string | null;
+  /** Monorepos: one analysis per workspace package (see lib/core/workspaces.ts) */
+  packages?: PackageAnalysis[];
+  /** Monorepos: summary of the package verdicts */
+  rollup?: WorkspaceRollup;
+  /** CI on the default branch head, as of the last check (see lib/ci-status.ts) */
+  ci_status?: CIStatus;
+  /** Commit activity over the history window, as of the last analysis (see lib/core/commit-history.ts) */
+  commit_history?: CommitHistory;
+  /** README lint result, as of the last analysis (see lib/readme-lint.ts) */
+  readme_health?: ReadmeHealth;
+  /** Deterministic check results for the head commit (see lib/checks/) */
+  checks?: CheckReport;
+}
+
+// ============ CI STATUS ============
+
+export type CIState = 'passing' | 'failing' | 'pending' | 'none' | 'unknown';
+
+export interface CIJob {
+  name: string;
+  url: string | null;
+  /** Tail of the job log around the first error (Actions jobs), else the check's summary */
+  excerpt: string | null;
+}
+
+export interface CIStatus {
+  /** 'none' = no CI ran on the head; 'unknown' = couldn't read it */
+  state: CIState;
+  sha: string | null;
+  failing: CIJob[];
+  checked_at: string;
+}
+
+// ============ COMMIT HISTORY ============
+
+export interface DirectoryChurn {
+  /** Up to two path segments, e.g. "lib/core"; "." for root files */
+  dir: string;
+  /** Sampled commits that touched the directory */
+  commits: number;
+  /** File changes in the directory across those commits */
+  files: number;
+}
+
+export interface CommitHistory {
+  window_days: number;
+  /** Commits on the default branch inside the window */
+  total_commits: number;
+  /** Distinct UTC days with at least one commit */
+  active_days: number;
+  /** Commits per 7-day bucket, oldest first, ending today */
+  weekly: number[];
+  /** Consecutive commit days ending today or yesterday (0 otherwise) */
+  current_streak: number;
+  longest_streak: number;
+  /** Measured from the newest commit even when it predates the window */
+  days_since_last: number;
+  /** Busiest directories, most-touched first; empty unless churn was sampled */
+  churn: DirectoryChurn[];
+  /** Newest commits whose changed files were read for churn */
+  churn_sampled: number;
+  /** Hit the fetch limit before the window's start, so counts are a lower bound */
+  truncated: boolean;
+}
+
+/**
+ * Commits already read for a repo's history window (newest first), so the
+ * next history only fetches what was pushed since
+ */
+export interface CommitLog {
+  window_days: number;
+  fetched_at: string;
+  commits: Array<{ sha: string; date: string }>;
+}
+
+// ============ README HEALTH ============
+
+export type ReadmeRule =
+  | 'missing'
+  | 'no_title'
+  | 'multiple_h1'
+  | 'heading_skip'
+  | 'no_demo_image'
+  | 'no_install'
+  | 'no_usage'
+  | 'broken_link'
+  | 'dead_image'
+  | 'badge_overload'
+  | 'too_short'
+  | 'too_long';
+
+export type ReadmeSeverity = 'error' | 'warning' | 'info';
+
+export interface ReadmeFinding {
+  rule: ReadmeRule;
+  severity: ReadmeSeverity;
+  /** 1-based line in the README; null for whole-document findings */
+  line: number | null;
+  message: string;
+}
+
+export interface ReadmeHealth {
+  /** 100 minus a penalty per finding */
+  score: number;
+  findings: ReadmeFinding[];
+  words: number;
+  /** A non-badge image, GIF or video */
+  has_demo_image: boolean;
+  has_install: boolean;
+  has_usage: boolean;
+  checked_at: string;
+}
+
+// ============ REPO CHECKS ============
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface CheckResult {
+  name: string;
+  label: string;
+  status: CheckStatus;
+  message: string;
+  /** What to do about a warn/fail, phrased as a next step */
+  next_step: string | null;
+}
+
+export interface CheckReport {
+  /** Head commit the checks ran against - SHA-bound results are cached per SHA and check set */
+  sha: string;
+  results: CheckResult[];
+  checked_at: string;
+}
+
+// ============ WORKSPACES ============
+
+export type WorkspaceKind = 'npm' | 'pnpm' | 'cargo' | 'go';
+
+/** A package inside a monorepo, found from its workspace config */
+export interface WorkspacePackage {
+  /** Repo-relative directory, e.g. packages/core */
+  path: string;
+  /** Directory name, for display */
+  name: string;
+  kind: WorkspaceKind;
+}
+
+export interface PackageAnalysis extends WorkspacePackage {
+  analysis: CoreAnalysis;
+  analyzed_at: string;
+}
+
+export interface WorkspaceRollup {
+  /** Best package verdict - a monorepo ships if any package does */
+  verdict: Verdict;
+  counts: Partial<Record<Verdict, number>>;
+  /** Paths of packages with a core */
+  core_packages: string[];
+  /** Workspace packages found but not analyzed (over the cap or out of time) */
+  skipped: number;
+}
+
+// ============ ANALYSIS HISTORY ============
+
+/** One past analysis, kept so verdicts can be compared over time */
+export interface AnalysisRecord {
+  analysis: CoreAnalysis;
+  analyzed_at: string;
+  /** Prompt that produced it (see ANALYSIS_PROMPT_VERSION) */
+  prompt_version: string;
+  model: string;
+  /** Default-branch head at analysis time, when known */
+  commit_sha: string | null;
+}
+
+// ============ LLM USAGE ============
+
+export interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  /** Calls served by a task's fallback provider */
+  fallbacks: number;
+}
+
+/** One month of LLM usage, bucketed by task type and by repo (owner/name) */
+export interface UsageReport {
+  /** YYYY-MM (UTC) */
+  month: string;
+  by_task: Record<string, UsageTotals>;
+  by_repo: Record<string, UsageTotals>;
+}
+
+// ============ PUBLISHING ============
+
+export type PublishMode = 'direct' | 'pr';
+
+/** A pull request the bot opened, remembered so Telegram buttons can merge/close it */
+export interface PublishedPullRequest {
+  /** Short id used in callback data */
+  id: string;
+  owner: string;
+  name: string;
+  number: number;
+  url: string;
+  branch: string;
+  base: string;
+  /** Paths changed, e.g. README.md, .github/social-preview.png */
+  files: string[];
+  created_at: string;
 }
 
 // ============ FEED TYPES ============
@@ -141,7 +369,7 @@ export interface LastContext {
   confidence: 'high' | 'medium' | 'low';
 }
 
-export type NextStepSource = 'readme_todo' | 'user_stated' | 'deploy_state' | 'commit_gap' | 'ai_inferred';
+export type NextStepSource = 'readme_todo' | 'user_stated' | 'deploy_state' | 'ci_status' | 'repo_check' | 'commit_gap' | 'ai_inferred';
 export type ArtifactType = 'cursor_prompt' | 'copy' | 'checklist' | 'command' | 'launch_post' | 'none';
 
 export interface NextStep {
@@ -182,7 +410,7 @@ export const RepoPotentialOutputSchema = z.object({
 export const NextStepOutputSchema = z.object({
   next_step: z.object({
     action: z.string(),
-    source: z.enum(['readme_todo', 'user_stated', 'deploy_state', 'commit_gap', 'ai_inferred']),
+    source: z.enum(['readme_todo', 'user_stated', 'deploy_state', 'ci_status', 'repo_check', 'commit_gap', 'ai_inferred']),
     artifact: z.object({
       type: z.enum(['cursor_prompt', 'copy', 'checklist', 'command', 'launch_post', 'none']),
       reason: z.string(),
@@ -193,13 +421,31 @@ export const NextStepOutputSchema = z.object({
   confidence: z.enum(['high', 'medium', 'low']),
 });
 
+// ============ TECH STACK ============
+
+/** Normalized stack parsed from manifests (package.json, pyproject.toml, Cargo.toml, go.mod, ...) */
+export const TechStackSchema = z.object({
+  languages: z.array(z.string()),
+  /** Frameworks and notable libraries/tools (React, FastAPI, Axum, Docker...) */
+  frameworks: z.array(z.string()),
+  package_managers: z.array(z.string()),
+  /** Version constraints/base images, e.g. "Node >=20", "Python >=3.10", "python:3.11-slim" */
+  runtimes: z.array(z.string()),
+  /** Direct dependency names, manifest order, capped */
+  dependencies: z.array(z.string()),
+  /** Manifest paths the stack was read from */
+  manifests: z.array(z.string()),
+});
+
+export type TechStack = z.infer<typeof TechStackSchema>;
+
 // ============ AI INPUT SCHEMAS ============
 
 export const RepoPotentialInputSchema = z.object({
   repo_name: z.string(),
   repo_description: z.string(),
   readme_excerpt: z.string(),
-  tech_stack: z.array(z.string()),
+  tech_stack: TechStackSchema,
   known_audience_context: z.string().optional(),
 });
 
@@ -229,11 +475,36 @@ export const NextStepInputSchema = z.object({
     status: z.enum(['green', 'red', 'unknown']),
     url: z.string().optional(),
     error_excerpt: z.string().optional(),
+    provider: z.enum(['vercel', 'netlify', 'github-deployments', 'github-pages']).optional(),
+    live: z.boolean().optional(),
   }),
+  ci_status: z.object({
+    state: z.enum(['passing', 'failing', 'pending', 'none', 'unknown']),
+    failing: z.array(z.object({
+      name: z.string(),
+      url: z.string().nullable(),
+      excerpt: z.string().nullable(),
+    })),
+  }).optional(),
+  checks: z.array(z.object({
+    name: z.string(),
+    label: z.string(),
+    status: z.enum(['pass', 'warn', 'fail']),
+    message: z.string(),
+    next_step: z.string().nullable(),
+  })).optional(),
   packaging_checks: z.object({
     has_clear_cta: z.boolean(),
     has_demo_asset: z.boolean(),
     has_readme_image: z.boolean(),
+    has_install_docs: z.boolean(),
+    has_usage_docs: z.boolean(),
+    readme_issues: z.array(z.object({
+      rule: z.string(),
+      severity: z.enum(['error', 'warning', 'info']),
+      line: z.number().nullable(),
+      message: z.string(),
+    })),
   }),
   project_stage: z.enum(['building', 'packaging', 'ready_to_launch', 'post_launch']),
   recent_activity_summary: z.string(),
@@ -252,6 +523,32 @@ export const WhatChangedOutputSchema = z.object({
   matches_expected: z.enum(['yes', 'no', 'unknown']),
 });
 
+export const CopyOutputSchema = z.object({
+  headline: z.string(),
+  subheadline: z.string(),
+  benefits: z.array(z.string()),
+  cta_button: z.string(),
+  cta_url: z.string().nullable(),
+});
+
+export const LaunchPostOutputSchema = z.object({
+  platform: z.string(),
+  post: z.string(),
+  alt_versions: z.array(z.string()),
+  cta: z.string(),
+});
+
+export const DeepDiveOutputSchema = z.object({
+  summary: z.string(),
+  stage: z.enum(['building', 'packaging', 'ready_to_launch', 'post_launch']),
+  top_next_steps: z.array(z.object({
+    label: z.string(),
+    action: z.string(),
+    artifact_type: z.enum(['cursor_prompt', 'copy', 'checklist', 'launch_post']),
+  })),
+  blockers: z.array(z.string()),
+});
+
 // ============ FEED MEMORY & HELPERS ============
 
 export interface FeedMemory {
@@ -266,16 +563,28 @@ export interface FeedMemory {
   }>;
 }
 
+export type DeployProviderName = 'vercel' | 'netlify' | 'github-deployments' | 'github-pages';
+
 export interface DeployState {
   status: 'green' | 'red' | 'unknown';
   url?: string;
   error_excerpt?: string;
+  /** Where the status came from; absent when only the homepage probe ran */
+  provider?: DeployProviderName;
+  /** Result of the HTTP liveness probe (homepage, else the deploy URL) */
+  live?: boolean;
 }
 
 export interface PackagingChecks {
   has_clear_cta: boolean;
   has_demo_asset: boolean;
   has_readme_image: boolean;
+  /** README has an install code block */
+  has_install_docs: boolean;
+  /** README has a usage example */
+  has_usage_docs: boolean;
+  /** Errors and warnings from the README linter, worst first */
+  readme_issues: ReadmeFinding[];
 }
 
 // ============ VALIDATION ============
@@ -60,7 +60,7 @@
  * ```
  */
 
-import { kv } from '@vercel/kv';
+import { getStateStore } from './store/index.js';
 import { info, error as logErr } from './logger.js';
 
 // ============ CONSTANTS ============
@@ -102,17 +102,16 @@ export class UpdateGuardError extends Error {
  * 
  * @param updateId - Telegram update_id from the webhook payload
  * @returns true if already processed (skip this update), false if new
- * @throws UpdateGuardError if KV operation fails (with clear error message)
+ * @throws UpdateGuardError if the store operation fails (with clear error message)
  */
 export async function isUpdateProcessed(updateId: number): Promise<boolean> {
   const key = `update:${updateId}`;
   try {
-    const exists = await kv.exists(key);
-    return exists === 1;
+    return await getStateStore().exists(key);
   } catch (err) {
     const error = new UpdateGuardError('isUpdateProcessed', key, err instanceof Error ? err : undefined);
     logErr('guard', error, { updateId, originalError: String(err) });
-    // On KV failure, assume NOT processed to avoid blocking legitimate requests
+    // On store failure, assume NOT processed to avoid blocking legitimate requests
     // The duplicate will just run twice (better than blocking everything)
     return false;
   }
@@ -125,12 +124,12 @@ export async function isUpdateProcessed(updateId: number): Promise<boolean> {
  * The update_id is stored with a 5-minute TTL (Telegram stops retrying after ~2 min).
  * 
  * @param updateId - Telegram update_id from the webhook payload
- * @throws UpdateGuardError if KV operation fails (with clear error message)
+ * @throws UpdateGuardError if the store operation fails (with clear error message)
  */
 export async function markUpdateProcessed(updateId: number): Promise<void> {
   const key = `update:${updateId}`;
   try {
-    await kv.set(key, Date.now(), { ex: UPDATE_TTL_SECONDS });
+    await getStateStore().set(key, Date.now(), { ex: UPDATE_TTL_SECONDS });
   } catch (err) {
     const error = new UpdateGuardError('markUpdateProcessed', key, err instanceof Error ? err : undefined);
     logErr('guard', error, { updateId, originalError: String(err) });
@@ -175,10 +174,9 @@ export async function acquireLock(
   
   try {
     // Use SET NX (set if not exists) for atomic lock acquisition
-    // Returns 'OK' if set, null if key already exists
-    const result = await kv.set(lockKey, Date.now(), { ex: ttlSeconds, nx: true });
-    
-    const acquired = result === 'OK';
+    // Returns true if set, false if key already exists
+    const acquired = await getStateStore().setnx(lockKey, Date.now(), ttlSeconds);
+
     if (acquired) {
       info('guard', 'Lock acquired', { key, ttl: ttlSeconds });
     } else {
@@ -189,8 +187,8 @@ export async function acquireLock(
   } catch (err) {
     const error = new UpdateGuardError('acquireLock', key, err instanceof Error ? err : undefined);
     logErr('guard', error, { key, ttl: ttlSeconds, originalError: String(err) });
-    // On KV failure, ALLOW the operation to proceed (return true)
-    // Better to risk a duplicate than block all operations when KV is down
+    // On store failure, ALLOW the operation to proceed (return true)
+    // Better to risk a duplicate than block all operations when the store is down
     return true;
   }
 }
@@ -206,7 +204,7 @@ export async function acquireLock(
 export async function releaseLock(key: string): Promise<void> {
   const lockKey = `lock:${key}`;
   try {
-    await kv.del(lockKey);
+    await getStateStore().del(lockKey);
     info('guard', 'Lock released', { key });
   } catch (err) {
     // Log but don't throw - lock will expire via TTL anyway
@@ -226,8 +224,7 @@ export async function releaseLock(key: string): Promise<void> {
 export async function isLocked(key: string): Promise<boolean> {
   const lockKey = `lock:${key}`;
   try {
-    const exists = await kv.exists(lockKey);
-    return exists === 1;
+    return await getStateStore().exists(lockKey);
   } catch (err) {
     const error = new UpdateGuardError('isLocked', key, err instanceof Error ? err : undefined);
     logErr('guard', error, { key, originalError: String(err) });
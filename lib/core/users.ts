@@ -0,0 +1,277 @@
+/**
+ * Users
+ *
+ * Multi-user support for a single deployment:
+ * - Allowlist: the owner (USER_TELEGRAM_CHAT_ID), ALLOWED_TELEGRAM_IDS, and
+ *   anyone who redeemed an invite code
+ * - Per-user namespaces: every user's tracked repos, watch list, feed memory
+ *   and sessions live under `u:{id}:` in the state store
+ * - Per-user GitHub access: a GitHub App installation (/connect) or a personal
+ *   token (/token), both stored encrypted; the owner falls back to GITHUB_TOKEN
+ *
+ * The owner keeps the un-prefixed keys, so a single-user deployment upgrades
+ * without migrating any data.
+ *
+ * The current user is carried through a request with AsyncLocalStorage, so
+ * deep modules (stateManager, card sessions, GitHub clients) pick up the
+ * right namespace without threading a user id through every call.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { getStateStore, NamespacedStateStore, type StateStore } from './store/index.js';
+import { sealSecret, openSecret, toBase64 } from './secrets.js';
+import { getInstallationToken } from './github-app.js';
+import type { GitHubToken } from './github.js';
+
+// ============ TYPES ============
+
+export type UserRole = 'owner' | 'member';
+
+/** How a user's GitHub access is provided (secrets are sealed, see secrets.ts) */
+export type GitHubConnection =
+  | { type: 'app'; installation_id: number; login: string }
+  | { type: 'token'; token_sealed: string; login: string };
+
+export interface BotUser {
+  /** Telegram user id (also the private chat id) */
+  id: string;
+  role: UserRole;
+  /** Telegram display name, for /users */
+  name: string | null;
+  /** GitHub App installation or personal token */
+  github: GitHubConnection | null;
+  invited_by: string | null;
+  joined_at: string;
+}
+
+export interface Invite {
+  code: string;
+  created_by: string;
+  created_at: string;
+}
+
+/** Invite codes expire after 7 days */
+const INVITE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// ============ ERRORS ============
+
+export class MissingGitHubTokenError extends Error {
+  constructor(userId: string) {
+    super(`No GitHub access for user ${userId}. Use /connect (or /token <personal-access-token>) first.`);
+    this.name = 'MissingGitHubTokenError';
+  }
+}
+
+// ============ ALLOWLIST ============
+
+/**
+ * Telegram id of the deployment owner (admin, legacy single user)
+ */
+export function getOwnerId(): string | null {
+  return process.env.USER_TELEGRAM_CHAT_ID?.trim() || null;
+}
+
+function getAllowlistedIds(): string[] {
+  return (process.env.ALLOWED_TELEGRAM_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Look up an allowed user. Returns null for anyone not on the allowlist.
+ *
+ * Owner and env-allowlisted users are materialized on first contact, so they
+ * never need an invite.
+ */
+export async function getUser(id: string | number): Promise<BotUser | null> {
+  const userId = String(id);
+  const stored = await getStateStore().get<BotUser>(`user:${userId}`);
+  const isOwner = userId === getOwnerId();
+
+  if (stored) {
+    return isOwner ? { ...stored, role: 'owner' } : stored;
+  }
+
+  if (isOwner || getAllowlistedIds().includes(userId)) {
+    return {
+      id: userId,
+      role: isOwner ? 'owner' : 'member',
+      name: null,
+      github: null,
+      invited_by: null,
+      joined_at: new Date().toISOString(),
+    };
+  }
+
+  return null;
+}
+
+export async function saveUser(user: BotUser): Promise<void> {
+  await getStateStore().set(`user:${user.id}`, user);
+}
+
+/**
+ * All users with a stored record, plus the owner
+ */
+export async function listUsers(): Promise<BotUser[]> {
+  const keys = await getStateStore().keys('user:*');
+  const users = (await Promise.all(keys.map(key => getStateStore().get<BotUser>(key))))
+    .filter((u): u is BotUser => u !== null);
+
+  const ownerId = getOwnerId();
+  if (ownerId && !users.some(u => u.id === ownerId)) {
+    const owner = await getUser(ownerId);
+    if (owner) users.unshift(owner);
+  }
+  return users.map(u => (u.id === ownerId ? { ...u, role: 'owner' as const } : u));
+}
+
+/**
+ * Remove a member and everything stored in their namespace
+ * @returns false if the user doesn't exist or is the owner
+ */
+export async function removeUser(id: string): Promise<boolean> {
+  if (id === getOwnerId()) return false;
+  const removed = await getStateStore().del(`user:${id}`);
+  const store = getStateStore();
+  const namespaced = await store.keys(`${userKeyPrefix(id)}*`);
+  if (namespaced.length > 0) await store.del(...namespaced);
+  return removed > 0;
+}
+
+/**
+ * Set (or clear) how a user reaches GitHub
+ */
+export async function setUserGitHubConnection(user: BotUser, github: GitHubConnection | null): Promise<BotUser> {
+  const updated = { ...user, github };
+  await saveUser(updated);
+  return updated;
+}
+
+/**
+ * Store a personal GitHub token, encrypted
+ */
+export async function setUserGitHubToken(user: BotUser, token: string, login: string): Promise<BotUser> {
+  return setUserGitHubConnection(user, { type: 'token', token_sealed: await sealSecret(token), login });
+}
+
+// ============ INVITES ============
+
+export async function createInvite(createdBy: string): Promise<Invite> {
+  const invite: Invite = {
+    // 48 random bits, URL-safe for t.me/<bot>?start=<code> (Web Crypto: Edge routes import this module)
+    code: toBase64(crypto.getRandomValues(new Uint8Array(6))).replace(/\+/g, '-').replace(/\//g, '_'),
+    created_by: createdBy,
+    created_at: new Date().toISOString(),
+  };
+  await getStateStore().set(`invite:${invite.code}`, invite, { ex: INVITE_TTL_SECONDS });
+  return invite;
+}
+
+/**
+ * Consume an invite code and register the user. Existing users (stored,
+ * owner or allowlisted) get their record back unchanged and the code is
+ * left unused.
+ * @returns the user, or null if the code is unknown/expired/already used
+ */
+export async function redeemInvite(
+  code: string,
+  telegramUser: { id: number | string; first_name?: string; username?: string }
+): Promise<BotUser | null> {
+  const existing = await getUser(telegramUser.id);
+  if (existing) return existing;
+
+  const store = getStateStore();
+  const invite = await store.get<Invite>(`invite:${code}`);
+  if (!invite) return null;
+
+  // del() is atomic, so a code can't be redeemed twice
+  if (await store.del(`invite:${code}`) === 0) return null;
+
+  const user: BotUser = {
+    id: String(telegramUser.id),
+    role: 'member',
+    name: telegramUser.username ? `@${telegramUser.username}` : telegramUser.first_name || null,
+    github: null,
+    invited_by: invite.created_by,
+    joined_at: new Date().toISOString(),
+  };
+  await saveUser(user);
+  return user;
+}
+
+// ============ REQUEST SCOPE ============
+
+const currentUser = new AsyncLocalStorage<BotUser>();
+
+/**
+ * Run fn with `user` as the current user
+ */
+export function runAsUser<T>(user: BotUser, fn: () => T): T {
+  return currentUser.run(user, fn);
+}
+
+/**
+ * The user the current request is running as, if any
+ */
+export function getCurrentUser(): BotUser | null {
+  return currentUser.getStore() ?? null;
+}
+
+/**
+ * Key prefix for a user's namespace (empty for the owner - legacy keys)
+ */
+export function userKeyPrefix(userId: string): string {
+  return userId === getOwnerId() ? '' : `u:${userId}:`;
+}
+
+/**
+ * State store scoped to a user's namespace.
+ * Outside a user scope (webhooks, scripts) this is the global store.
+ */
+export function getUserStore(user: BotUser | null = getCurrentUser()): StateStore {
+  const store = getStateStore();
+  if (!user) return store;
+  const prefix = userKeyPrefix(user.id);
+  return prefix ? new NamespacedStateStore(store, prefix) : store;
+}
+
+export interface GitHubCredentials {
+  /** Stable identity of these credentials, for caching clients and ETags per user */
+  key: string;
+  token: GitHubToken;
+}
+
+/**
+ * GitHub credentials for a user.
+ * App installations mint short-lived tokens on demand; personal tokens are
+ * decrypted lazily. Members must connect their own account; the owner (and
+ * scripts running outside a user scope) fall back to GITHUB_TOKEN.
+ */
+export function getGitHubCredentials(user: BotUser | null = getCurrentUser()): GitHubCredentials {
+  const github = user?.github;
+
+  if (github?.type === 'app') {
+    const installationId = github.installation_id;
+    return { key: `app:${installationId}`, token: () => getInstallationToken(installationId) };
+  }
+
+  if (user && github?.type === 'token') {
+    let opened: Promise<string> | null = null;
+    // Sealing uses a random IV, so the ciphertext tail changes whenever the token does
+    return {
+      key: `token:${user.id}:${github.token_sealed.slice(-12)}`,
+      token: () => (opened ??= openSecret(github.token_sealed)),
+    };
+  }
+
+  if (user && user.role !== 'owner') {
+    throw new MissingGitHubTokenError(user.id);
+  }
+  const token = process.env.GITHUB_TOKEN;
+  if (!token) {
+    throw new Error('GITHUB_TOKEN not configured');
+  }
+  return { key: 'env', token };
+}
@@ -0,0 +1,189 @@
+/**
+ * Workspace Detection
+ *
+ * Finds the packages of a monorepo from its workspace config - package.json
+ * "workspaces", pnpm-workspace.yaml, Cargo.toml [workspace] members, go.work -
+ * by expanding the declared globs against the file tree. A directory counts
+ * as a package when it matches a glob and holds the kind's manifest.
+ */
+
+import type { GitHubClient } from './github.js';
+import type { PackageAnalysis, Verdict, WorkspaceKind, WorkspacePackage, WorkspaceRollup } from './types.js';
+import { tomlArray } from './tech-stack.js';
+
+/** Root-level files that can declare workspaces */
+export const WORKSPACE_FILES = ['package.json', 'pnpm-workspace.yaml', 'Cargo.toml', 'go.work'] as const;
+
+/** Packages analyzed per monorepo; the rest are counted in the rollup */
+export const MAX_PACKAGES = 8;
+
+/** Manifest that marks a directory as a package */
+const PACKAGE_MANIFEST: Record<WorkspaceKind, string> = {
+  npm: 'package.json',
+  pnpm: 'package.json',
+  cargo: 'Cargo.toml',
+  go: 'go.mod',
+};
+
+/** Verdicts best-first, for the rollup */
+const VERDICT_RANK: Verdict[] = ['ship', 'cut_to_core', 'no_core', 'dead'];
+
+export interface WorkspaceGlobs {
+  kind: WorkspaceKind;
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * Fetch the root workspace configs present in `files` and list the packages.
+ * `known` skips fetches for contents already in hand (e.g. package.json).
+ */
+export async function fetchWorkspaces(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  files: string[],
+  known: Record<string, string | null> = {}
+): Promise<WorkspacePackage[]> {
+  const present = WORKSPACE_FILES.filter(name => files.includes(name));
+  const contents = await Promise.all(present.map(name =>
+    name in known ? Promise.resolve(known[name]) : github.getFileContent(owner, repo, name)
+  ));
+
+  const configs: Record<string, string> = {};
+  present.forEach((name, i) => {
+    const content = contents[i];
+    if (content) configs[name] = content;
+  });
+
+  return detectWorkspaces(configs, files);
+}
+
+/**
+ * Pure detection: workspace configs by file name + the repo's file list
+ */
+export function detectWorkspaces(configs: Record<string, string>, files: string[]): WorkspacePackage[] {
+  const packages = new Map<string, WorkspacePackage>();
+
+  for (const globs of parseWorkspaceGlobs(configs)) {
+    for (const path of expandGlobs(globs, files)) {
+      if (!packages.has(path)) {
+        packages.set(path, { path, name: path.split('/').pop()!, kind: globs.kind });
+      }
+    }
+  }
+
+  return [...packages.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function parseWorkspaceGlobs(configs: Record<string, string>): WorkspaceGlobs[] {
+  const result: WorkspaceGlobs[] = [];
+  const add = (kind: WorkspaceKind, entries: string[], exclude: string[] = []) => {
+    const include = entries.filter(e => !e.startsWith('!'));
+    exclude = [...exclude, ...entries.filter(e => e.startsWith('!')).map(e => e.slice(1))];
+    if (include.length > 0) result.push({ kind, include, exclude });
+  };
+
+  if (configs['pnpm-workspace.yaml']) {
+    add('pnpm', yamlList(configs['pnpm-workspace.yaml'], 'packages'));
+  }
+
+  if (configs['package.json']) {
+    try {
+      const pkg = JSON.parse(configs['package.json']);
+      const workspaces: unknown = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages;
+      if (Array.isArray(workspaces)) add('npm', workspaces.filter((w): w is string => typeof w === 'string'));
+    } catch { /* malformed package.json */ }
+  }
+
+  if (configs['Cargo.toml']) {
+    const cargo = configs['Cargo.toml'];
+    add('cargo', tomlArray(cargo, 'workspace', 'members'), tomlArray(cargo, 'workspace', 'exclude'));
+  }
+
+  if (configs['go.work']) {
+    add('go', goWorkUses(configs['go.work']));
+  }
+
+  return result;
+}
+
+/**
+ * Directories matching the globs that hold the kind's manifest (root excluded)
+ */
+export function expandGlobs(globs: WorkspaceGlobs, files: string[]): string[] {
+  const manifest = PACKAGE_MANIFEST[globs.kind];
+  const include = globs.include.map(globToRegExp);
+  const exclude = globs.exclude.map(globToRegExp);
+
+  return files
+    .filter(f => f.endsWith(`/${manifest}`) && !/(^|\/)node_modules\//.test(f))
+    .map(f => f.slice(0, -(manifest.length + 1)))
+    .filter(dir => include.some(re => re.test(dir)) && !exclude.some(re => re.test(dir)));
+}
+
+/** "packages/*" → /^packages\/[^/]*$/, "apps/**" → any depth */
+function globToRegExp(glob: string): RegExp {
+  const path = glob.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+  const pattern = path
+    .split('/')
+    .map(segment => segment === '**'
+      ? '.*'
+      : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+    .join('/')
+    .replace(/\/\.\*$/, '(/.*)?');
+  return new RegExp(`^${pattern}$`);
+}
+
+// ============ CONFIG PARSERS ============
+
+/** Items of a top-level YAML list: "packages:\n  - 'apps/*'" */
+function yamlList(content: string, key: string): string[] {
+  const values: string[] = [];
+  let inList = false;
+  for (const line of content.split('\n')) {
+    if (new RegExp(`^${key}\\s*:`).test(line)) {
+      inList = true;
+      continue;
+    }
+    if (!inList || !line.trim() || line.trim().startsWith('#')) continue;
+    const item = line.match(/^\s+-\s*(["']?)(.+?)\1\s*(?:#.*)?$/);
+    if (!item) break;
+    values.push(item[2]);
+  }
+  return values;
+}
+
+/** Directories from "use ./cmd" and "use ( ./a ./b )" */
+function goWorkUses(content: string): string[] {
+  const dirs: string[] = [];
+  for (const match of content.matchAll(/^use\s*(?:\(([^)]*)\)|(\S+))/gm)) {
+    const entries = match[1] ? match[1].split('\n') : [match[2]];
+    for (const entry of entries) {
+      const dir = entry.replace(/\/\/.*$/, '').trim().replace(/^\.\//, '');
+      if (dir && dir !== '.') dirs.push(dir);
+    }
+  }
+  return dirs;
+}
+
+// ============ ROLLUP ============
+
+export function rollupPackages(packages: PackageAnalysis[], skipped = 0): WorkspaceRollup {
+  const counts: Partial<Record<Verdict, number>> = {};
+  for (const pkg of packages) {
+    counts[pkg.analysis.verdict] = (counts[pkg.analysis.verdict] || 0) + 1;
+  }
+
+  return {
+    verdict: VERDICT_RANK.find(v => counts[v]) ?? 'no_core',
+    counts,
+    core_packages: packages.filter(p => p.analysis.has_core).map(p => p.path),
+    skipped,
+  };
+}
+
+/** Insert or replace one package's analysis, keeping path order */
+export function upsertPackage(packages: PackageAnalysis[], pkg: PackageAnalysis): PackageAnalysis[] {
+  return [...packages.filter(p => p.path !== pkg.path), pkg].sort((a, b) => a.path.localeCompare(b.path));
+}
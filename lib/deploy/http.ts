@@ -0,0 +1,138 @@
+/**
+ * Deploy HTTP Helpers
+ * JSON calls to provider APIs and the homepage liveness probe
+ */
+
+import type { DeployProviderName } from '../core/types.js';
+import type { FetchLike } from './types.js';
+
+/** Longest error excerpt handed to the next-step prompt */
+const EXCERPT_CHARS = 300;
+
+/** Give up on a homepage after this long */
+const PROBE_TIMEOUT_MS = 5000;
+
+/** Redirects followed (and checked) before giving up */
+const MAX_REDIRECTS = 5;
+
+export class DeployProviderError extends Error {
+  public readonly provider: DeployProviderName;
+  public readonly status: number;
+
+  constructor(provider: DeployProviderName, status: number, endpoint: string) {
+    super(`${provider} API error: ${status} ${endpoint}`);
+    this.name = 'DeployProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+export async function fetchJson<T>(
+  fetchImpl: FetchLike,
+  provider: DeployProviderName,
+  url: string,
+  token: string
+): Promise<T> {
+  const response = await fetchImpl(url, {
+    headers: { Authorization: `Bearer ${token}`, Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    throw new DeployProviderError(provider, response.status, new URL(url).pathname);
+  }
+  return await response.json() as T;
+}
+
+export interface ProbeResult {
+  ok: boolean;
+  /** HTTP status, null when the request itself failed */
+  status: number | null;
+  error?: string;
+}
+
+/**
+ * GET the URL, following redirects by hand so every hop is checked with
+ * probeTarget(); anything below 400 counts as live
+ */
+export async function probeUrl(url: string, fetchImpl: FetchLike, timeoutMs = PROBE_TIMEOUT_MS): Promise<ProbeResult> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let current = url;
+  try {
+    for (let hop = 0; ; hop++) {
+      const target = probeTarget(current);
+      if (!target) return { ok: false, status: null, error: `not a public http(s) URL: ${current}` };
+
+      const response = await fetchImpl(target, { redirect: 'manual', signal });
+      // Only the status matters - don't download the page
+      await response.body?.cancel().catch(() => {});
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (hop >= MAX_REDIRECTS) return { ok: false, status: response.status, error: 'too many redirects' };
+        current = new URL(location, target).href;
+        continue;
+      }
+      return { ok: response.status < 400, status: response.status };
+    }
+  } catch (err) {
+    return { ok: false, status: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * The URL to probe for a homepage: https:// added when the scheme is
+ * missing ("example.com"), null unless it's http(s) on a public host.
+ * Homepages are user-supplied, so no localhost, private or link-local
+ * addresses (the probe runs inside our network). Names are not resolved -
+ * a public name pointing at a private address isn't caught.
+ */
+export function probeTarget(raw: string): string | null {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  if (url.username || url.password) return null;
+  return isPublicHost(url.hostname) ? url.href : null;
+}
+
+function isPublicHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (!host || host === 'localhost' || /\.(localhost|local|internal|lan|home\.arpa)$/.test(host)) return false;
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) return isPublicIPv4(ipv4.slice(1).map(Number));
+
+  if (host.includes(':')) {
+    // IPv4-mapped (::ffff:10.0.0.1, which URL rewrites to ::ffff:a00:1)
+    const mapped = host.match(/^::ffff:([\da-f]{1,4}):([\da-f]{1,4})$/);
+    if (mapped) {
+      const [hi, lo] = mapped.slice(1).map(h => parseInt(h, 16));
+      return isPublicIPv4([hi >> 8, hi & 255, lo >> 8, lo & 255]);
+    }
+    return !(host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:'));
+  }
+
+  // A bare name without a dot ("intranet") only resolves on a local network
+  return host.includes('.');
+}
+
+function isPublicIPv4([a, b]: number[]): boolean {
+  return !(
+    a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b < 128)   // carrier-grade NAT
+    || (a === 169 && b === 254)            // link-local, cloud metadata
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168)
+  );
+}
+
+/** First lines of a build error, trimmed for a prompt */
+export function excerpt(text: string): string {
+  const clean = text.replace(/\s+\n/g, '\n').trim();
+  return clean.length > EXCERPT_CHARS ? clean.slice(0, EXCERPT_CHARS - 3) + '...' : clean;
+}
@@ -0,0 +1,99 @@
+/**
+ * Deploy State
+ *
+ * Real deploy status for a repo: the first configured provider that knows the
+ * repo reports its latest production deploy, then an HTTP probe of the
+ * homepage (or the deploy URL) confirms the site actually answers.
+ *
+ * Providers, in order: Vercel, Netlify (both need tokens), GitHub
+ * Deployments/commit statuses, GitHub Pages.
+ */
+
+import type { GitHubClient } from '../core/github.js';
+import type { DeployState } from '../core/types.js';
+import { error as logErr } from '../core/logger.js';
+import type { DeployContext, DeployProvider, DeployTarget, FetchLike } from './types.js';
+import { probeUrl, probeTarget, type ProbeResult } from './http.js';
+import { vercelProvider } from './providers/vercel.js';
+import { netlifyProvider } from './providers/netlify.js';
+import { githubDeploymentsProvider } from './providers/github-deployments.js';
+import { githubPagesProvider } from './providers/github-pages.js';
+
+export * from './types.js';
+export { DeployProviderError, probeUrl, probeTarget, type ProbeResult } from './http.js';
+export { vercelProvider, netlifyProvider, githubDeploymentsProvider, githubPagesProvider };
+
+export const allDeployProviders: DeployProvider[] = [
+  vercelProvider,
+  netlifyProvider,
+  githubDeploymentsProvider,
+  githubPagesProvider,
+];
+
+export interface DeployStateOptions {
+  providers?: DeployProvider[];
+  /** Used for provider APIs and the probe; GitHub calls go through `github` */
+  fetch?: FetchLike;
+  /** Skip the homepage probe */
+  probe?: boolean;
+}
+
+/**
+ * Never throws - a provider that errors is logged and skipped
+ */
+export async function getDeployState(
+  github: GitHubClient,
+  target: DeployTarget,
+  options: DeployStateOptions = {}
+): Promise<DeployState> {
+  const ctx: DeployContext = { github, fetch: options.fetch ?? ((input, init) => fetch(input, init)) };
+  const providers = (options.providers ?? allDeployProviders).filter(p => p.isConfigured());
+
+  let state: DeployState = { status: 'unknown' };
+  for (const provider of providers) {
+    try {
+      const result = await provider.getState(target, ctx);
+      if (result) {
+        state = result;
+        break;
+      }
+    } catch (err) {
+      logErr('deploy', err, { repo: `${target.owner}/${target.name}`, provider: provider.name });
+    }
+  }
+
+  // Homepages are free text ("example.com", "localhost:3000") - see probeTarget()
+  const url = (target.homepage && probeTarget(target.homepage)) || (state.url && probeTarget(state.url));
+  if (options.probe === false || !url) return state;
+  return applyProbe(state, url, await probeUrl(url, ctx.fetch));
+}
+
+/**
+ * Fold the probe into the provider state: a live site is green unless the
+ * latest deploy failed; a dead one is red unless a provider reported a
+ * good deploy (the homepage may point elsewhere or block bots), in which
+ * case it stays green with live: false
+ */
+export function applyProbe(state: DeployState, url: string, probe: ProbeResult): DeployState {
+  if (probe.ok) {
+    return {
+      ...state,
+      status: state.status === 'red' ? 'red' : 'green',
+      url: state.url ?? url,
+      live: true,
+    };
+  }
+
+  if (state.status === 'green') {
+    return { ...state, live: false };
+  }
+
+  const reason = probe.status !== null ? `${url} returned HTTP ${probe.status}` : `${url} unreachable (${probe.error})`;
+  return {
+    ...state,
+    status: 'red',
+    url: state.url ?? url,
+    live: false,
+    error_excerpt: state.error_excerpt ?? reason,
+  };
+}
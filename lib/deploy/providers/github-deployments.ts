@@ -0,0 +1,59 @@
+/**
+ * GitHub Deployments Provider
+ *
+ * Reads the Deployments API (what Vercel/Netlify/Render GitHub integrations
+ * and Actions environments write), falling back to deploy-looking commit
+ * statuses on the default branch. Uses the user's GitHub access - no extra token.
+ */
+
+import type { DeployState } from '../../core/types.js';
+import type { GitHubDeploymentStatus } from '../../core/github.js';
+import type { DeployProvider } from '../types.js';
+import { excerpt } from '../http.js';
+
+/** Commit status contexts that report deploys rather than CI */
+const DEPLOY_CONTEXT = /deploy|vercel|netlify|pages|render|railway|fly|cloudflare|heroku/i;
+
+export const githubDeploymentsProvider: DeployProvider = {
+  name: 'github-deployments',
+
+  isConfigured: () => true,
+
+  async getState(target, { github }): Promise<DeployState | null> {
+    const { owner, name } = target;
+
+    const deployments = await github.getDeployments(owner, name);
+    const deployment = deployments.find(d => /prod/i.test(d.environment)) ?? deployments[0];
+    if (deployment) {
+      const status = await github.getLatestDeploymentStatus(owner, name, deployment.id);
+      if (status) return fromDeploymentStatus(status);
+    }
+
+    // No deployments: look for a deploy status on the default branch head
+    const branch = await github.getDefaultBranch(owner, name);
+    const combined = await github.getCombinedStatus(owner, name, branch);
+    const deploy = combined.statuses.find(s => DEPLOY_CONTEXT.test(s.context));
+    if (!deploy) return null;
+
+    const failed = deploy.state === 'failure' || deploy.state === 'error';
+    return {
+      status: deploy.state === 'success' ? 'green' : failed ? 'red' : 'unknown',
+      url: deploy.target_url ?? undefined,
+      error_excerpt: failed ? excerpt(`${deploy.context}: ${deploy.description || deploy.state}`) : undefined,
+      provider: 'github-deployments',
+    };
+  },
+};
+
+function fromDeploymentStatus(status: GitHubDeploymentStatus): DeployState {
+  const failed = status.state === 'failure' || status.state === 'error';
+  const url = status.environment_url || status.target_url || undefined;
+  return {
+    status: status.state === 'success' ? 'green' : failed ? 'red' : 'unknown',
+    url,
+    error_excerpt: failed
+      ? excerpt([status.description || `Deployment ${status.state}`, status.log_url].filter(Boolean).join(' - '))
+      : undefined,
+    provider: 'github-deployments',
+  };
+}
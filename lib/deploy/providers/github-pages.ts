@@ -0,0 +1,32 @@
+/**
+ * GitHub Pages Provider
+ * Pages site status, with the latest build's error when it errored.
+ */
+
+import type { DeployState } from '../../core/types.js';
+import type { DeployProvider } from '../types.js';
+import { excerpt } from '../http.js';
+
+export const githubPagesProvider: DeployProvider = {
+  name: 'github-pages',
+
+  isConfigured: () => true,
+
+  async getState(target, { github }): Promise<DeployState | null> {
+    const pages = await github.getPages(target.owner, target.name);
+    if (!pages) return null;
+
+    if (pages.status === 'errored') {
+      const build = await github.getLatestPagesBuild(target.owner, target.name).catch(() => null);
+      return {
+        status: 'red',
+        url: pages.html_url,
+        error_excerpt: excerpt(build?.error?.message || 'Pages build errored'),
+        provider: 'github-pages',
+      };
+    }
+
+    // Actions-built sites report null here; the liveness probe decides
+    return { status: pages.status === 'built' ? 'green' : 'unknown', url: pages.html_url, provider: 'github-pages' };
+  },
+};
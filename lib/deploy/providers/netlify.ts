@@ -0,0 +1,59 @@
+/**
+ * Netlify Deploy Provider
+ * Matches a site by its linked repo URL, then reads its latest production deploy.
+ * Needs NETLIFY_TOKEN.
+ */
+
+import type { DeployState } from '../../core/types.js';
+import type { DeployProvider } from '../types.js';
+import { fetchJson, excerpt } from '../http.js';
+
+const API = 'https://api.netlify.com/api/v1';
+
+interface NetlifySite {
+  id: string;
+  url: string;
+  ssl_url?: string;
+  build_settings?: { repo_url?: string };
+}
+
+interface NetlifyDeploy {
+  state: 'new' | 'enqueued' | 'building' | 'uploading' | 'processing' | 'ready' | 'error';
+  error_message?: string | null;
+}
+
+export const netlifyProvider: DeployProvider = {
+  name: 'netlify',
+
+  isConfigured: () => !!process.env.NETLIFY_TOKEN,
+
+  async getState(target, ctx): Promise<DeployState | null> {
+    const token = process.env.NETLIFY_TOKEN!;
+    const sites = await fetchJson<NetlifySite[]>(ctx.fetch, 'netlify', `${API}/sites?filter=all&per_page=100`, token);
+
+    const repo = `github.com/${target.owner}/${target.name}`.toLowerCase();
+    const site = sites.find(s => normalizeRepoUrl(s.build_settings?.repo_url) === repo);
+    if (!site) return null;
+
+    const deploys = await fetchJson<NetlifyDeploy[]>(
+      ctx.fetch,
+      'netlify',
+      `${API}/sites/${site.id}/deploys?per_page=1&production=true`,
+      token
+    );
+    const latest = deploys[0];
+    const url = site.ssl_url || site.url;
+    if (!latest) return { status: 'unknown', url, provider: 'netlify' };
+
+    if (latest.state === 'error') {
+      return { status: 'red', url, error_excerpt: excerpt(latest.error_message || 'Production deploy failed'), provider: 'netlify' };
+    }
+    return { status: latest.state === 'ready' ? 'green' : 'unknown', url, provider: 'netlify' };
+  },
+};
+
+/** "https://github.com/Owner/Repo.git" → "github.com/owner/repo" */
+function normalizeRepoUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  return url.toLowerCase().replace(/^(https?:\/\/|git@)/, '').replace(':', '/').replace(/\.git$/, '').replace(/\/+$/, '');
+}
@@ -0,0 +1,72 @@
+/**
+ * Vercel Deploy Provider
+ * Finds the project linked to the repo, then its latest production deployment.
+ * Needs VERCEL_TOKEN (and VERCEL_TEAM_ID for team projects).
+ */
+
+import type { DeployState } from '../../core/types.js';
+import type { DeployProvider, DeployTarget, FetchLike } from '../types.js';
+import { fetchJson, excerpt } from '../http.js';
+
+const API = 'https://api.vercel.com';
+
+interface VercelProject {
+  id: string;
+  name: string;
+  targets?: { production?: { alias?: string[] } };
+}
+
+interface VercelDeployment {
+  uid: string;
+  /** Deployment hostname, no scheme */
+  url: string;
+  state?: 'BUILDING' | 'ERROR' | 'INITIALIZING' | 'QUEUED' | 'READY' | 'CANCELED';
+  readyState?: VercelDeployment['state'];
+  errorMessage?: string | null;
+}
+
+export const vercelProvider: DeployProvider = {
+  name: 'vercel',
+
+  isConfigured: () => !!process.env.VERCEL_TOKEN,
+
+  async getState(target, ctx): Promise<DeployState | null> {
+    const project = await findProject(ctx.fetch, target);
+    if (!project) return null;
+
+    const { deployments } = await vercelGet<{ deployments: VercelDeployment[] }>(
+      ctx.fetch,
+      `/v6/deployments?projectId=${project.id}&target=production&limit=1`
+    );
+    const latest = deployments[0];
+    if (!latest) return { status: 'unknown', provider: 'vercel' };
+
+    const alias = project.targets?.production?.alias?.[0];
+    const url = `https://${alias ?? latest.url}`;
+    const state = latest.state ?? latest.readyState;
+
+    if (state === 'ERROR') {
+      // The list omits build errors; the single-deployment endpoint has them
+      const detail = await vercelGet<VercelDeployment>(ctx.fetch, `/v13/deployments/${latest.uid}`).catch(() => null);
+      const message = detail?.errorMessage || latest.errorMessage || 'Production deployment failed';
+      return { status: 'red', url, error_excerpt: excerpt(message), provider: 'vercel' };
+    }
+
+    return { status: state === 'READY' ? 'green' : 'unknown', url, provider: 'vercel' };
+  },
+};
+
+async function findProject(fetchImpl: FetchLike, target: DeployTarget): Promise<VercelProject | null> {
+  const repoUrl = `https://github.com/${target.owner}/${target.name}`;
+  const { projects } = await vercelGet<{ projects: VercelProject[] }>(
+    fetchImpl,
+    `/v9/projects?repoUrl=${encodeURIComponent(repoUrl)}&limit=1`
+  );
+  return projects[0] ?? null;
+}
+
+function vercelGet<T>(fetchImpl: FetchLike, path: string): Promise<T> {
+  const team = process.env.VERCEL_TEAM_ID;
+  const url = `${API}${path}${team ? `${path.includes('?') ? '&' : '?'}teamId=${team}` : ''}`;
+  return fetchJson<T>(fetchImpl, 'vercel', url, process.env.VERCEL_TOKEN!);
+}
@@ -0,0 +1,38 @@
+/**
+ * Deploy Provider Types
+ *
+ * A provider knows one hosting platform (Vercel, Netlify, GitHub Pages...)
+ * and reports the state of a repo's latest production deploy there.
+ */
+
+import type { GitHubClient } from '../core/github.js';
+import type { DeployState, DeployProviderName } from '../core/types.js';
+
+export type FetchLike = typeof fetch;
+
+export interface DeployTarget {
+  owner: string;
+  name: string;
+  homepage: string | null;
+}
+
+/**
+ * What providers talk through - injected so tests can answer offline
+ */
+export interface DeployContext {
+  github: GitHubClient;
+  fetch: FetchLike;
+}
+
+export interface DeployProvider {
+  name: DeployProviderName;
+
+  /** Whether credentials for this provider are configured */
+  isConfigured(): boolean;
+
+  /**
+   * State of the latest production deploy, or null when the repo doesn't
+   * deploy through this provider
+   */
+  getState(target: DeployTarget, ctx: DeployContext): Promise<DeployState | null>;
+}
@@ -1,4 +1,5 @@
-import { TrackedRepo, ProjectStage, DeployState, PackagingChecks } from './core/types.js';
+import { TrackedRepo, ProjectStage, PackagingChecks, ReadmeHealth } from './core/types.js';
+import { readmeIssues } from './readme-lint.js';
 
 /**
  * Compute project stage based on deterministic checks
@@ -31,29 +32,6 @@ export function computeProjectStage(repo: TrackedRepo): ProjectStage {
   return 'building';
 }
 
-/**
- * Get deploy state from repo
- * In a full implementation, this would check Vercel API
- * For now, we infer from repo state
- */
-export function getDeployState(repo: TrackedRepo): DeployState {
-  // TODO: Integrate with Vercel API for real deploy status
-  // For now, assume green if repo has analysis and is not dead
-  
-  if (repo.state === 'dead') {
-    return { status: 'unknown' };
-  }
-  
-  if (repo.analysis?.verdict === 'ship' || repo.state === 'ready') {
-    return { 
-      status: 'green',
-      url: `https://${repo.name}.vercel.app`, // Assumed URL pattern
-    };
-  }
-  
-  return { status: 'unknown' };
-}
-
 /**
  * Parse README for TODO items
  * Looks for common TODO patterns
@@ -104,8 +82,12 @@ export function parseReadmeTodos(readme: string | null): string[] {
 /**
  * Compute packaging checks for a repo
  * These determine if the repo is "launch ready"
+ * @param readme README lint result; defaults to the one stored on the repo
  */
-export function computePackagingChecks(repo: TrackedRepo): PackagingChecks {
+export function computePackagingChecks(
+  repo: TrackedRepo,
+  readme: ReadmeHealth | null = repo.readme_health ?? null
+): PackagingChecks {
   const analysis = repo.analysis;
   
   // No analysis = nothing checked
@@ -114,6 +96,9 @@ export function computePackagingChecks(repo: TrackedRepo): PackagingChecks {
       has_clear_cta: false,
       has_demo_asset: false,
       has_readme_image: false,
+      has_install_docs: false,
+      has_usage_docs: false,
+      readme_issues: [],
     };
   }
   
@@ -123,17 +108,19 @@ export function computePackagingChecks(repo: TrackedRepo): PackagingChecks {
     (analysis.core_value && analysis.core_value.length > 20) // Has clear value prop
   );
   
-  // Check for demo asset (cover image)
-  const hasDemo = Boolean(repo.cover_image_url);
+  // Check for demo asset (cover image, or a screenshot/GIF in the README)
+  const hasDemo = Boolean(repo.cover_image_url || readme?.has_demo_image);
   
-  // Check for README image
-  // In a full implementation, we'd parse the README for image tags
-  const hasReadmeImage = Boolean(repo.cover_image_url);
+  // Check for README image (linted; without a lint, assume the cover made it in)
+  const hasReadmeImage = readme ? readme.has_demo_image : Boolean(repo.cover_image_url);
   
   return {
     has_clear_cta: hasCta,
     has_demo_asset: hasDemo,
     has_readme_image: hasReadmeImage,
+    has_install_docs: readme?.has_install ?? false,
+    has_usage_docs: readme?.has_usage ?? false,
+    readme_issues: readme ? readmeIssues(readme) : [],
   };
 }
 
@@ -0,0 +1,292 @@
+/**
+ * Leak Scanner
+ *
+ * Finds committed credentials: known token formats (Telegram bot tokens,
+ * GitHub tokens, Anthropic/Google/AWS keys, private keys), high-entropy
+ * strings assigned to secret-looking names, and files that shouldn't be in
+ * git at all (.env, id_rsa, *.pem). Scans file contents and the added lines
+ * of commit diffs. Matches are redacted before they leave this module.
+ */
+
+import type { GitHubClient } from './core/github.js';
+import type { PushCommit } from './webhooks/reanalysis.js';
+import { error as logErr } from './core/logger.js';
+
+/** Newest commits of a push whose diffs are scanned */
+const MAX_PUSH_COMMITS = 10;
+
+/** Files fetched when scanning a repo's tree */
+const MAX_REPO_FILES = 15;
+
+/** Longer lines are minified bundles or data - only their start is scanned */
+const MAX_LINE_LENGTH = 500;
+
+/** Bits per character above which a secret-named value counts as random */
+const ENTROPY_THRESHOLD = 3.5;
+
+export type LeakKind =
+  | 'telegram_bot_token'
+  | 'github_token'
+  | 'anthropic_key'
+  | 'google_api_key'
+  | 'aws_access_key'
+  | 'aws_secret_key'
+  | 'private_key'
+  | 'high_entropy'
+  | 'sensitive_file';
+
+export interface LeakFinding {
+  kind: LeakKind;
+  label: string;
+  path: string;
+  /** 1-based line in the file (new side for diffs); null for whole-file findings */
+  line: number | null;
+  /** Redacted match, safe to send to chat */
+  preview: string;
+  /** Commit that added it, when found in a diff */
+  commit: string | null;
+}
+
+interface Pattern {
+  kind: LeakKind;
+  label: string;
+  regex: RegExp;
+  /** Capture group holding the secret (whole match when omitted) */
+  group?: number;
+}
+
+const PATTERNS: Pattern[] = [
+  { kind: 'telegram_bot_token', label: 'Telegram bot token', regex: /\b\d{8,10}:AA[0-9A-Za-z_-]{33}\b/g },
+  { kind: 'github_token', label: 'GitHub token', regex: /\bgh[pousr]_[0-9A-Za-z]{36}\b/g },
+  { kind: 'github_token', label: 'GitHub token', regex: /\bgithub_pat_[0-9A-Za-z_]{82}\b/g },
+  { kind: 'anthropic_key', label: 'Anthropic API key', regex: /\bsk-ant-[0-9A-Za-z_-]{32,}/g },
+  { kind: 'google_api_key', label: 'Google API key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'aws_access_key', label: 'AWS access key', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    kind: 'aws_secret_key',
+    label: 'AWS secret key',
+    regex: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?([0-9A-Za-z/+]{40})(?![0-9A-Za-z/+])/gi,
+    group: 1,
+  },
+  { kind: 'private_key', label: 'Private key', regex: /-----BEGIN (?:(?:RSA|EC|DSA|OPENSSH|ENCRYPTED|PGP) )?PRIVATE KEY(?: BLOCK)?-----/g },
+];
+
+/** Quoted or bare value assigned to a secret-looking name */
+const SECRET_ASSIGNMENT = /\b[\w-]*(?:secret|token|passw(?:or)?d|api_?key|private_?key|access_?key|auth)[\w-]*["']?\s*[:=]\s*["']?([A-Za-z0-9+/=_.-]{20,})/gi;
+
+/**
+ * Values that are obviously not real. Matches the whole value, so a random
+ * key that happens to contain "test" or "sample" is still reported: filler
+ * after an optional prefix (ghp_xxxx, 123:AAxxxx), <your-key>, ${VAR},
+ * your_token_here, changeme, env lookups.
+ */
+const PLACEHOLDER = /^(?:[\w:]*?[_:-])?(?:AA)?(?:x{3,}|\*{3,}|\.{3,}|0{8,})$|^(.)\1{7,}$|^<[^>]*>$|^\$\{[^}]*\}$|^(?:your|my|insert)[_-][\w.-]*$|^(?:change[_-]?me|placeholder|redacted|dummy|example|sample|test|fake)$|^(?:process\.env|os\.environ|getenv)\b/i;
+
+/** Files whose presence alone is a leak */
+const SENSITIVE_FILES: Array<{ regex: RegExp; label: string }> = [
+  { regex: /(^|\/)\.env(\.[\w-]+)?$/, label: '.env file' },
+  { regex: /(^|\/)id_(rsa|dsa|ecdsa|ed25519)$/, label: 'SSH private key' },
+  { regex: /\.(pem|key|p12|pfx|keystore|jks)$/i, label: 'Key/certificate file' },
+  { regex: /(^|\/)(credentials|service[-_]?account[\w-]*)\.json$/i, label: 'Credentials file' },
+];
+
+/** Examples and templates of sensitive files are fine */
+const SENSITIVE_EXEMPT = /\.(example|sample|template|dist|defaults?)$|(^|\/)(test|tests|fixtures?|__tests__)\/.*\.(pem|key)$|(^|\/)[^/]*public[^/]*\.(pem|key)$/i;
+
+/** Never worth scanning */
+const SKIP_PATH = /(^|\/)(node_modules|vendor|dist|build)\/|(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|go\.sum|poetry\.lock|Gemfile\.lock)$|\.(min\.js|map|png|jpe?g|gif|webp|ico|pdf|zip|woff2?|ttf|svg|lock)$/i;
+
+/** Config-ish files worth reading when scanning a tree */
+const CANDIDATE_FILE = /(^|\/)[^/]*(config|settings|secret|credential|env|key|token)[^/]*\.(json|ya?ml|toml|ini|cfg|conf|properties|js|ts|py|rb|php|sh|txt)$|(^|\/)\.(npmrc|pypirc|netrc|docker\/config\.json)$/i;
+
+// ============ SCANNING ============
+
+/**
+ * Scan a file's full contents
+ */
+export function scanText(path: string, content: string, commit: string | null = null): LeakFinding[] {
+  if (SKIP_PATH.test(path)) return [];
+  const findings: LeakFinding[] = [];
+  content.split('\n').forEach((line, i) => findings.push(...scanLine(path, line, i + 1, commit)));
+  return dedupe(findings);
+}
+
+/**
+ * Scan only the lines a unified diff adds; line numbers are the new file's
+ */
+export function scanPatch(path: string, patch: string, commit: string | null = null): LeakFinding[] {
+  if (SKIP_PATH.test(path)) return [];
+  const findings: LeakFinding[] = [];
+  let line = 0;
+
+  for (const raw of patch.split('\n')) {
+    const hunk = raw.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      line = Number(hunk[1]);
+      continue;
+    }
+    if (raw.startsWith('+') && !raw.startsWith('+++')) {
+      findings.push(...scanLine(path, raw.slice(1), line, commit));
+      line++;
+    } else if (!raw.startsWith('-') && !raw.startsWith('\\')) {
+      line++;
+    }
+  }
+  return dedupe(findings);
+}
+
+/**
+ * A file that shouldn't be committed regardless of content, or null
+ */
+export function sensitiveFile(path: string, commit: string | null = null): LeakFinding | null {
+  if (SENSITIVE_EXEMPT.test(path)) return null;
+  const match = SENSITIVE_FILES.find(f => f.regex.test(path));
+  return match
+    ? { kind: 'sensitive_file', label: match.label, path, line: null, preview: path.split('/').pop()!, commit }
+    : null;
+}
+
+function scanLine(path: string, text: string, line: number, commit: string | null): LeakFinding[] {
+  const value = text.length > MAX_LINE_LENGTH ? text.slice(0, MAX_LINE_LENGTH) : text;
+  const findings: LeakFinding[] = [];
+
+  for (const pattern of PATTERNS) {
+    for (const match of value.matchAll(pattern.regex)) {
+      const secret = match[pattern.group ?? 0];
+      if (PLACEHOLDER.test(secret)) continue;
+      findings.push({ kind: pattern.kind, label: pattern.label, path, line, preview: redact(secret), commit });
+    }
+  }
+
+  // Generic: a random-looking value assigned to a secret-looking name
+  if (findings.length === 0) {
+    for (const match of value.matchAll(SECRET_ASSIGNMENT)) {
+      const secret = match[1];
+      if (PLACEHOLDER.test(secret) || shannonEntropy(secret) < ENTROPY_THRESHOLD) continue;
+      findings.push({ kind: 'high_entropy', label: 'High-entropy secret', path, line, preview: redact(secret), commit });
+    }
+  }
+  return findings;
+}
+
+/** Bits per character */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/** Enough to recognize the credential, not enough to use it */
+function redact(secret: string): string {
+  if (secret.startsWith('-----')) return secret;
+  return `${secret.slice(0, Math.min(6, Math.floor(secret.length / 4)))}…(${secret.length} chars)`;
+}
+
+function dedupe(findings: LeakFinding[]): LeakFinding[] {
+  const seen = new Set<string>();
+  return findings.filter(f => {
+    const key = `${f.path}:${f.line}:${f.kind}:${f.preview}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// ============ SOURCES ============
+
+/**
+ * Scan the diffs of a push's newest commits. Never throws - unreadable
+ * commits are skipped.
+ */
+export async function scanPush(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  commits: PushCommit[]
+): Promise<LeakFinding[]> {
+  const findings: LeakFinding[] = [];
+
+  for (const commit of commits.slice(-MAX_PUSH_COMMITS)) {
+    for (const path of [...commit.added, ...commit.modified]) {
+      const file = sensitiveFile(path, commit.id);
+      if (file) findings.push(file);
+    }
+
+    try {
+      const files = await github.getCommitDiff(owner, repo, commit.id);
+      for (const file of files) {
+        if (file.patch) findings.push(...scanPatch(file.filename, file.patch, commit.id));
+      }
+    } catch (err) {
+      logErr('leaks', err, { owner, repo, commit: commit.id });
+    }
+  }
+
+  return dedupeAcrossCommits(findings);
+}
+
+/**
+ * Scan a repo's tree: sensitive files by name, plus the contents of those
+ * and of config-like files. Never throws.
+ * @param files Repo tree, when already fetched
+ */
+export async function scanRepoFiles(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  files?: string[]
+): Promise<LeakFinding[]> {
+  try {
+    const tree = files ?? await github.getRepoTree(owner, repo, 2000);
+    const byName = tree.map(path => sensitiveFile(path)).filter((f): f is LeakFinding => !!f);
+
+    const candidates = [
+      ...byName.map(f => f.path),
+      ...tree.filter(path => CANDIDATE_FILE.test(path) && !SKIP_PATH.test(path)),
+    ].filter((path, i, all) => all.indexOf(path) === i).slice(0, MAX_REPO_FILES);
+
+    const contents = await Promise.all(candidates.map(path => github.getFileContent(owner, repo, path)));
+    const inContent = candidates.flatMap((path, i) => contents[i] ? scanText(path, contents[i]!) : []);
+
+    return [...byName, ...inContent];
+  } catch (err) {
+    logErr('leaks', err, { owner, repo });
+    return [];
+  }
+}
+
+/** The same secret re-committed (or edited around) should alert once */
+function dedupeAcrossCommits(findings: LeakFinding[]): LeakFinding[] {
+  const seen = new Set<string>();
+  return findings.filter(f => {
+    const key = `${f.path}:${f.kind}:${f.preview}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// ============ ALERT ============
+
+/**
+ * Urgent Telegram alert with file/line for each finding
+ */
+export function formatLeakAlert(fullName: string, findings: LeakFinding[]): string {
+  const lines = [`🚨 **Possible leaked credentials in ${fullName}**`, ''];
+
+  for (const f of findings.slice(0, 8)) {
+    const location = f.line !== null ? `${f.path}:${f.line}` : f.path;
+    const commit = f.commit ? ` in ${f.commit.slice(0, 7)}` : '';
+    lines.push(`• \`${location}\` — ${f.label} \`${f.preview}\`${commit}`);
+  }
+  if (findings.length > 8) lines.push(`_... +${findings.length - 8} more_`);
+
+  lines.push('');
+  lines.push('→ Rotate these now. Deleting the file or commit does not un-leak them.');
+  return lines.join('\n');
+}
@@ -94,16 +94,23 @@ export function buildGitHubRepoKeyboard(owner: string, name: string): InlineKeyb
     .text('📝 README', formatLinkCallback('github', 'readme', owner, name));
 }
 
+/** Raw inline button: callback or URL */
+export type RawInlineButton = { text: string; callback_data: string } | { text: string; url: string };
+
 /**
  * Build keyboard as plain object (for use in raw Telegram API calls)
  * Used by webhook handler which doesn't have Grammy context
+ * 
+ * @param link - Optional URL button shown above the actions (release, PR, run logs...)
  */
 export function buildGitHubRepoKeyboardRaw(
   owner: string,
-  name: string
-): { inline_keyboard: Array<Array<{ text: string; callback_data: string }>> } {
+  name: string,
+  link?: { text: string; url: string }
+): { inline_keyboard: RawInlineButton[][] } {
   return {
     inline_keyboard: [
+      ...(link ? [[link]] : []),
       [
         { text: '📸 TLDR', callback_data: formatLinkCallback('github', 'tldr', owner, name) },
         { text: '🎨 Cover', callback_data: formatLinkCallback('github', 'preview', owner, name) },
@@ -230,10 +237,10 @@ async function handleTldr(ctx: Context, owner: string, name: string): Promise<vo
         { parse_mode: 'Markdown' }
       );
       
-      const { GitHubClient } = await import('../../core/github.js');
+      const { getGitHubClient } = await import('../../core/github.js');
       const { getRepoAnalyzer } = await import('../../tools/repo/analyzer.js');
       
-      const github = new GitHubClient(process.env.GITHUB_TOKEN!);
+      const github = getGitHubClient();
       const repoInfo = await github.getRepoInfo(owner, name);
       if (!repoInfo) {
         throw new Error(`Repo not found or private`);
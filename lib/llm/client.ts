@@ -0,0 +1,246 @@
+/**
+ * LLM Client
+ *
+ * One entry point for every text-producing AI call. The task type picks the
+ * provider and model (TASK_ROUTING, or a local model via LLM_LOCAL_TASKS);
+ * overloads and transient errors are retried with exponential backoff, and
+ * when the primary provider is still down (or not configured) the task's
+ * fallback provider serves the call.
+ * JSON calls use each provider's structured output, and replies that still
+ * fail validation go back to the model with the errors (bounded repair).
+ * Every successful call is recorded for cost accounting.
+ */
+
+import type { z } from 'zod';
+import { getTaskConfig, type AIProvider, type TaskConfig, type TaskType } from '../core/config.js';
+import { info, error as logErr } from '../core/logger.js';
+import { LLMProviderError, LLMUnavailableError, LLMOutputError } from './errors.js';
+import { anthropicProvider } from './providers/anthropic.js';
+import { googleProvider } from './providers/google.js';
+import { openaiProvider } from './providers/openai.js';
+import { costOf, recordUsage, type UsageEntry } from './usage.js';
+import { toJsonSchema } from './json-schema.js';
+import type { Completion, CompletionRequest, JsonCompletion, LLMMessage, LLMProvider } from './types.js';
+
+/** Attempts per provider before falling back */
+const MAX_ATTEMPTS = 3;
+
+/** First retry delay; doubles each attempt, plus jitter */
+const BASE_DELAY_MS = 1000;
+
+/** Invalid JSON replies sent back for correction before giving up */
+const MAX_REPAIRS = 2;
+
+export interface LLMClientOptions {
+  providers?: Partial<Record<AIProvider, LLMProvider>>;
+  /** Overrides the env-aware routing from getTaskConfig */
+  routing?: Partial<Record<TaskType, TaskConfig>>;
+  /** Where usage goes; null disables accounting */
+  recordUsage?: ((entry: UsageEntry) => Promise<void>) | null;
+  /** Injected so scripts can skip real backoff */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export class LLMClient {
+  private readonly providers: Partial<Record<AIProvider, LLMProvider>>;
+  private readonly routing: Partial<Record<TaskType, TaskConfig>> | undefined;
+  private readonly record: ((entry: UsageEntry) => Promise<void>) | null;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(options: LLMClientOptions = {}, private readonly repo: string | null = null) {
+    this.providers = options.providers ?? { anthropic: anthropicProvider, google: googleProvider, openai: openaiProvider };
+    this.routing = options.routing;
+    this.record = options.recordUsage === undefined ? recordUsage : options.recordUsage;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * Client whose usage is attributed to a repo (owner/name)
+   */
+  forRepo(fullName: string): LLMClient {
+    return new LLMClient(
+      { providers: this.providers, routing: this.routing, recordUsage: this.record, sleep: this.sleep },
+      fullName
+    );
+  }
+
+  /**
+   * @throws LLMUnavailableError when neither the primary nor the fallback provider answers
+   */
+  async complete(request: CompletionRequest): Promise<Completion> {
+    const route = this.routing?.[request.task] ?? getTaskConfig(request.task);
+    const candidates = [
+      { provider: route.provider, model: route.model, fallback: false },
+      ...(route.fallback ? [{ ...route.fallback, fallback: true }] : []),
+    ];
+
+    const errors: LLMProviderError[] = [];
+    for (const candidate of candidates) {
+      const provider = this.providers[candidate.provider];
+      if (!provider?.isConfigured()) continue;
+
+      try {
+        const response = await this.withRetry(provider, () => provider.complete({
+          model: candidate.model,
+          system: request.system,
+          messages: request.messages,
+          maxTokens: request.maxTokens,
+          temperature: request.temperature,
+          output: request.output,
+        }));
+
+        const completion: Completion = {
+          text: response.text,
+          provider: provider.name,
+          model: response.model,
+          usage: response.usage,
+          cost_usd: costOf(response.model, response.usage),
+          fallback: candidate.fallback,
+        };
+        info('llm', 'Completion', {
+          task: request.task,
+          repo: this.repo,
+          provider: provider.name,
+          model: response.model,
+          ...completion.usage,
+          cost_usd: Number(completion.cost_usd.toFixed(4)),
+          fallback: candidate.fallback || undefined,
+        });
+        await this.record?.({
+          task: request.task,
+          repo: this.repo,
+          model: response.model,
+          usage: response.usage,
+          cost_usd: completion.cost_usd,
+          fallback: candidate.fallback,
+        });
+        return completion;
+      } catch (err) {
+        const providerError = asProviderError(provider.name, err);
+        logErr('llm', providerError, { task: request.task, provider: provider.name, model: candidate.model });
+        errors.push(providerError);
+      }
+    }
+
+    throw new LLMUnavailableError(request.task, errors);
+  }
+
+  /**
+   * Complete with the reply constrained to the schema (provider-native
+   * structured output), then validate it. Schema errors, and whatever
+   * `validate` reports, are sent back for a corrected reply up to
+   * MAX_REPAIRS times.
+   * @param options.validate Domain checks on a schema-valid reply; errors
+   *   left after the last repair are returned as `issues`, not thrown
+   * @throws LLMOutputError when no reply matched the schema
+   */
+  async completeJson<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    request: CompletionRequest,
+    options: { validate?: (data: T) => string[] } = {}
+  ): Promise<JsonCompletion<T>> {
+    const output = { name: `${request.task}_result`, schema: toJsonSchema(schema) };
+    const usage = { input_tokens: 0, output_tokens: 0 };
+    let cost = 0;
+    let messages = request.messages;
+    let best: JsonCompletion<T> | null = null;
+
+    for (let repairs = 0; ; repairs++) {
+      const completion = await this.complete({ ...request, messages, output });
+      usage.input_tokens += completion.usage.input_tokens;
+      usage.output_tokens += completion.usage.output_tokens;
+      cost += completion.cost_usd;
+
+      let issues: string[];
+      let outputError: LLMOutputError | null = null;
+      try {
+        const data = parseJsonReply(schema, completion.text, request.task);
+        issues = options.validate?.(data) ?? [];
+        best = { ...completion, data, repairs, issues };
+        if (issues.length === 0) break;
+      } catch (err) {
+        if (!(err instanceof LLMOutputError)) throw err;
+        outputError = err;
+        issues = err.issues;
+      }
+
+      if (repairs >= MAX_REPAIRS) {
+        if (best) break;
+        throw outputError!;
+      }
+      info('llm', 'Repairing reply', { task: request.task, repo: this.repo, attempt: repairs + 1, issues: issues.slice(0, 5) });
+      messages = [...messages, ...repairTurn(completion.text, issues)];
+    }
+
+    return { ...best!, usage, cost_usd: cost };
+  }
+
+  private async withRetry<T>(provider: LLMProvider, call: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await call();
+      } catch (err) {
+        const providerError = asProviderError(provider.name, err);
+        if (!providerError.retryable || attempt >= MAX_ATTEMPTS) throw providerError;
+
+        const delay = BASE_DELAY_MS * 2 ** (attempt - 1) + Math.floor(Math.random() * 250);
+        info('llm', 'Retrying', { provider: provider.name, status: providerError.status, attempt, delay });
+        await this.sleep(delay);
+      }
+    }
+  }
+}
+
+/** Anything a provider throws that isn't already classified is a network-level failure */
+function asProviderError(provider: AIProvider, err: unknown): LLMProviderError {
+  if (err instanceof LLMProviderError) return err;
+  return new LLMProviderError(provider, null, err instanceof Error ? err.message : String(err));
+}
+
+/**
+ * Parse a structured-output reply and validate it
+ * @param label Prefix for error messages, usually the task type
+ * @throws LLMOutputError when the reply isn't valid JSON for the schema
+ */
+export function parseJsonReply<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, text: string, label: string): T {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : 'invalid JSON';
+    throw new LLMOutputError(`${label}: reply is not JSON`, text, [`The reply is not a JSON document (${reason})`]);
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new LLMOutputError(`${label}: reply does not match schema - ${issues.slice(0, 3).join('; ')}`, text, issues);
+  }
+  return result.data;
+}
+
+/**
+ * The rejected reply and what to fix, as the next two turns
+ */
+function repairTurn(reply: string, issues: string[]): LLMMessage[] {
+  return [
+    { role: 'assistant', content: reply || '(empty reply)' },
+    {
+      role: 'user',
+      content: `That result failed validation:\n${issues.slice(0, 10).map(issue => `- ${issue}`).join('\n')}\n\n` +
+        'Return the complete corrected result. Keep everything that was valid; change only what these errors require.',
+    },
+  ];
+}
+
+// ============ SINGLETON ============
+
+let client: LLMClient | null = null;
+
+/**
+ * Shared client over the configured providers
+ */
+export function getLLMClient(): LLMClient {
+  if (!client) client = new LLMClient();
+  return client;
+}
@@ -0,0 +1,61 @@
+/**
+ * LLM Errors
+ */
+
+import type { AIProvider, TaskType } from '../core/config.js';
+
+/** HTTP statuses worth retrying: rate limits, overload, transient server errors */
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+export class LLMProviderError extends Error {
+  public readonly provider: AIProvider;
+  /** HTTP status, null when the request itself failed (network, timeout) */
+  public readonly status: number | null;
+  public readonly retryable: boolean;
+
+  /**
+   * @param options.retryable Overrides the status-based default, e.g. a
+   *   timeout (status null) that would only time out again
+   */
+  constructor(provider: AIProvider, status: number | null, message: string, options: { retryable?: boolean } = {}) {
+    super(`${provider}: ${status ?? 'network'} ${message}`);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.retryable = options.retryable ?? (status === null || RETRYABLE_STATUS.has(status));
+  }
+}
+
+/**
+ * Every provider routed for the task failed (or none is configured)
+ */
+export class LLMUnavailableError extends Error {
+  public readonly task: TaskType;
+  public readonly errors: LLMProviderError[];
+
+  constructor(task: TaskType, errors: LLMProviderError[]) {
+    super(errors.length > 0
+      ? `No provider could serve ${task}: ${errors.map(e => e.message).join('; ')}`
+      : `No provider configured for ${task}`);
+    this.name = 'LLMUnavailableError';
+    this.task = task;
+    this.errors = errors;
+  }
+}
+
+/**
+ * The model answered, but not with JSON matching the schema
+ */
+export class LLMOutputError extends Error {
+  /** Raw model output */
+  public readonly text: string;
+  /** What was wrong, one entry per problem - fed back by the repair loop */
+  public readonly issues: string[];
+
+  constructor(message: string, text: string, issues: string[] = [message]) {
+    super(message);
+    this.name = 'LLMOutputError';
+    this.text = text;
+    this.issues = issues;
+  }
+}
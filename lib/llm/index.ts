@@ -0,0 +1,15 @@
+/**
+ * LLM Module
+ *
+ * Provider-agnostic completions (routing, retry, fallback) and usage
+ * accounting. Image generation stays with the modules that do it.
+ */
+
+export * from './types.js';
+export { LLMClient, getLLMClient, parseJsonReply, type LLMClientOptions } from './client.js';
+export { LLMProviderError, LLMUnavailableError, LLMOutputError } from './errors.js';
+export { toJsonSchema, UnsupportedSchemaError, type JsonSchema } from './json-schema.js';
+export { costOf, recordUsage, getUsageReport, usageMonth, type UsageEntry } from './usage.js';
+export { anthropicProvider } from './providers/anthropic.js';
+export { googleProvider } from './providers/google.js';
+export { openaiProvider, createOpenAIProvider } from './providers/openai.js';
@@ -0,0 +1,142 @@
+/**
+ * Zod → JSON Schema
+ *
+ * The reply schemas live in zod (lib/core/types.ts); providers constrain
+ * JSON replies with JSON Schema (Anthropic tool input_schema, OpenAI
+ * json_schema, converted again for Gemini's responseSchema). Covers the zod
+ * subset the reply schemas use; refinements and transforms are left to zod,
+ * which still validates every reply.
+ */
+
+import { z } from 'zod';
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean>;
+  anyOf?: JsonSchema[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export class UnsupportedSchemaError extends Error {
+  constructor(kind: string) {
+    super(`Cannot express ${kind} as JSON Schema`);
+    this.name = 'UnsupportedSchemaError';
+  }
+}
+
+const cache = new WeakMap<z.ZodTypeAny, JsonSchema>();
+
+/**
+ * JSON Schema for the model's side of a zod schema: fields with defaults
+ * and optionals are not required
+ * @throws UnsupportedSchemaError for lazy/recursive, tuple, function... schemas
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  let converted = cache.get(schema);
+  if (!converted) {
+    converted = convert(schema);
+    cache.set(schema, converted);
+  }
+  return converted;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault || schema instanceof z.ZodCatch) {
+    return { ...convert(schema._def.innerType), ...description };
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [convert(schema._def.innerType), { type: 'null' }], ...description };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return { ...convert(schema._def.schema), ...description };
+  }
+  if (schema instanceof z.ZodBranded || schema instanceof z.ZodReadonly) {
+    return convert(schema instanceof z.ZodBranded ? schema._def.type : schema._def.innerType);
+  }
+  if (schema instanceof z.ZodPipeline) {
+    return convert(schema._def.in);
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = convert(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return { type: 'object', properties, required, additionalProperties: false, ...description };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: convert(schema._def.valueType), ...description };
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength, exactLength } = schema._def;
+    return {
+      type: 'array',
+      items: convert(schema._def.type),
+      ...(minLength ?? exactLength ? { minItems: (minLength ?? exactLength)!.value } : {}),
+      ...(maxLength ?? exactLength ? { maxItems: (maxLength ?? exactLength)!.value } : {}),
+      ...description,
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    const bounds: JsonSchema = {};
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') bounds.minLength = check.value;
+      if (check.kind === 'max') bounds.maxLength = check.value;
+      if (check.kind === 'length') bounds.minLength = bounds.maxLength = check.value;
+    }
+    return { type: 'string', ...bounds, ...description };
+  }
+  if (schema instanceof z.ZodNumber) {
+    const bounds: JsonSchema = {};
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') bounds.minimum = check.value;
+      if (check.kind === 'max') bounds.maximum = check.value;
+    }
+    return { type: schema.isInt ? 'integer' : 'number', ...bounds, ...description };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean', ...description };
+  }
+  if (schema instanceof z.ZodNull) {
+    return { type: 'null', ...description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema._def.values], ...description };
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.values(schema._def.values as Record<string, string | number>);
+    return { type: values.every(v => typeof v === 'number') ? 'number' : 'string', enum: values, ...description };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    const value: unknown = schema._def.value;
+    if (value === null) return { type: 'null', ...description };
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+      throw new UnsupportedSchemaError(`literal ${String(value)}`);
+    }
+    return { type: typeof value as 'string' | 'number' | 'boolean', enum: [value], ...description };
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options = [...(schema._def.options as Iterable<z.ZodTypeAny>)];
+    return { anyOf: options.map(convert), ...description };
+  }
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) {
+    return { ...description };
+  }
+
+  throw new UnsupportedSchemaError(schema._def.typeName ?? schema.constructor.name);
+}
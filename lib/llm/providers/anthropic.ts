@@ -0,0 +1,67 @@
+/**
+ * Anthropic LLM Provider
+ * Messages API via the shared SDK client. SDK retries are off - LLMClient
+ * owns retry and fallback. Structured output is a single forced tool whose
+ * input schema is the reply schema; the tool input is the reply.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { getAnthropicClient, isProviderConfigured } from '../../core/config.js';
+import { LLMProviderError } from '../errors.js';
+import type { LLMMessage, LLMProvider, ProviderResponse } from '../types.js';
+
+export const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+
+  isConfigured: () => isProviderConfigured('anthropic'),
+
+  async complete(request): Promise<ProviderResponse> {
+    try {
+      const response = await getAnthropicClient().messages.create(
+        {
+          model: request.model,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          system: request.system,
+          messages: request.messages.map(toAnthropicMessage),
+          ...(request.output ? {
+            tools: [{
+              name: request.output.name,
+              description: 'Record your answer. Call exactly once with the complete result.',
+              input_schema: request.output.schema as Anthropic.Tool.InputSchema,
+            }],
+            tool_choice: { type: 'tool' as const, name: request.output.name },
+          } : {}),
+        },
+        { maxRetries: 0 }
+      );
+
+      const toolUse = response.content.find(block => block.type === 'tool_use');
+      const text = toolUse?.type === 'tool_use'
+        ? JSON.stringify(toolUse.input)
+        : response.content.map(block => (block.type === 'text' ? block.text : '')).join('');
+      return {
+        text,
+        model: response.model,
+        usage: { input_tokens: response.usage.input_tokens, output_tokens: response.usage.output_tokens },
+      };
+    } catch (err) {
+      if (err instanceof Anthropic.APIError) {
+        throw new LLMProviderError('anthropic', err.status ?? null, err.message);
+      }
+      throw err;
+    }
+  },
+};
+
+function toAnthropicMessage(message: LLMMessage): Anthropic.MessageParam {
+  if (typeof message.content === 'string') {
+    return { role: message.role, content: message.content };
+  }
+  return {
+    role: message.role,
+    content: message.content.map(part => part.type === 'text'
+      ? { type: 'text' as const, text: part.text }
+      : { type: 'image' as const, source: { type: 'base64' as const, media_type: part.mimeType, data: part.data } }),
+  };
+}
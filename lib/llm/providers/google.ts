@@ -0,0 +1,103 @@
+/**
+ * Google LLM Provider
+ * Gemini generateContent via the shared SDK client (text out only - image
+ * generation stays with the preview/chart modules). Structured output uses
+ * responseSchema, Gemini's OpenAPI subset of JSON Schema.
+ */
+
+import { ApiError, Type, type Content, type Schema } from '@google/genai';
+import { getGoogleClient, isProviderConfigured } from '../../core/config.js';
+import { LLMProviderError } from '../errors.js';
+import type { JsonSchema } from '../json-schema.js';
+import type { LLMMessage, LLMProvider, ProviderResponse } from '../types.js';
+
+const GEMINI_TYPES: Record<NonNullable<JsonSchema['type']>, Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  null: Type.NULL,
+};
+
+export const googleProvider: LLMProvider = {
+  name: 'google',
+
+  isConfigured: () => isProviderConfigured('google'),
+
+  async complete(request): Promise<ProviderResponse> {
+    try {
+      const response = await getGoogleClient().models.generateContent({
+        model: request.model,
+        contents: request.messages.map(toGeminiContent),
+        config: {
+          systemInstruction: request.system,
+          maxOutputTokens: request.maxTokens,
+          temperature: request.temperature,
+          ...(request.output ? {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(request.output.schema),
+          } : {}),
+        },
+      });
+
+      return {
+        text: response.text ?? '',
+        model: response.modelVersion ?? request.model,
+        usage: {
+          input_tokens: response.usageMetadata?.promptTokenCount ?? 0,
+          output_tokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+        },
+      };
+    } catch (err) {
+      if (err instanceof ApiError) {
+        throw new LLMProviderError('google', err.status, err.message);
+      }
+      throw err;
+    }
+  },
+};
+
+function toGeminiContent(message: LLMMessage): Content {
+  const role = message.role === 'assistant' ? 'model' : 'user';
+  if (typeof message.content === 'string') {
+    return { role, parts: [{ text: message.content }] };
+  }
+  return {
+    role,
+    parts: message.content.map(part => part.type === 'text'
+      ? { text: part.text }
+      : { inlineData: { mimeType: part.mimeType, data: part.data } }),
+  };
+}
+
+/**
+ * No additionalProperties, const or null branches: nullable unions become
+ * `nullable`, records a bare OBJECT, and string bounds are left to zod
+ */
+export function toGeminiSchema(schema: JsonSchema): Schema {
+  if (schema.anyOf) {
+    const branches = schema.anyOf.filter(branch => branch.type !== 'null');
+    const nullable = branches.length < schema.anyOf.length ? { nullable: true } : {};
+    const description = schema.description ? { description: schema.description } : {};
+    return branches.length === 1
+      ? { ...toGeminiSchema(branches[0]), ...nullable, ...description }
+      : { anyOf: branches.map(toGeminiSchema), ...nullable, ...description };
+  }
+
+  const properties = schema.properties ?? {};
+  return {
+    ...(schema.type ? { type: GEMINI_TYPES[schema.type] } : {}),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum && schema.type === 'string' ? { enum: schema.enum.map(String) } : {}),
+    ...(schema.properties ? {
+      properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+      propertyOrdering: Object.keys(properties),
+      required: schema.required,
+    } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.minItems !== undefined ? { minItems: String(schema.minItems) } : {}),
+    ...(schema.maxItems !== undefined ? { maxItems: String(schema.maxItems) } : {}),
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ * Chat Completions over plain fetch, so it works against OpenAI or any
+ * server that speaks the same API (llama.cpp server, Ollama, vLLM).
+ * Needs OPENAI_BASE_URL for a local server, OPENAI_API_KEY for OpenAI.
+ * Structured output goes out as response_format json_schema.
+ */
+
+import { isProviderConfigured } from '../../core/config.js';
+import { LLMProviderError } from '../errors.js';
+import type { LLMMessage, LLMProvider, ProviderResponse } from '../types.js';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Local models on a laptop can be slow; past this the call is treated as
+ * down and not retried - three attempts would outlast the function limit
+ */
+const REQUEST_TIMEOUT_MS = 180_000;
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+type ChatMessage =
+  | { role: 'system' | 'assistant'; content: string }
+  | { role: 'user'; content: string | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }> };
+
+/**
+ * @param fetchImpl Injected so scripts can replay recorded responses
+ */
+export function createOpenAIProvider(fetchImpl: typeof fetch = (input, init) => fetch(input, init)): LLMProvider {
+  return {
+    name: 'openai',
+
+    isConfigured: () => isProviderConfigured('openai'),
+
+    async complete(request): Promise<ProviderResponse> {
+      const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+      const apiKey = process.env.OPENAI_API_KEY;
+
+      const messages: ChatMessage[] = [
+        ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+        ...request.messages.map(toChatMessage),
+      ];
+
+      let data: ChatCompletionResponse;
+      try {
+        const response = await fetchImpl(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: request.model,
+            messages,
+            max_tokens: request.maxTokens,
+            temperature: request.temperature,
+            ...(request.output ? {
+              response_format: { type: 'json_schema', json_schema: { name: request.output.name, schema: request.output.schema } },
+            } : {}),
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+          const body = await response.text().catch(() => '');
+          throw new LLMProviderError('openai', response.status, body.slice(0, 200) || response.statusText);
+        }
+        data = await response.json() as ChatCompletionResponse;
+      } catch (err) {
+        // The signal also covers reading the body
+        if (err instanceof Error && err.name === 'TimeoutError') {
+          throw new LLMProviderError('openai', null, `no reply within ${REQUEST_TIMEOUT_MS / 1000}s`, { retryable: false });
+        }
+        throw err;
+      }
+
+      return {
+        text: data.choices?.[0]?.message?.content ?? '',
+        model: data.model || request.model,
+        usage: {
+          input_tokens: data.usage?.prompt_tokens ?? 0,
+          output_tokens: data.usage?.completion_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
+
+export const openaiProvider = createOpenAIProvider();
+
+function toChatMessage(message: LLMMessage): ChatMessage {
+  if (message.role === 'assistant') {
+    return { role: 'assistant', content: typeof message.content === 'string' ? message.content : textOf(message.content) };
+  }
+  if (typeof message.content === 'string') {
+    return { role: 'user', content: message.content };
+  }
+  return {
+    role: 'user',
+    content: message.content.map(part => part.type === 'text'
+      ? { type: 'text' as const, text: part.text }
+      : { type: 'image_url' as const, image_url: { url: `data:${part.mimeType};base64,${part.data}` } }),
+  };
+}
+
+function textOf(parts: Exclude<LLMMessage['content'], string>): string {
+  return parts.map(part => (part.type === 'text' ? part.text : '')).join('');
+}
@@ -0,0 +1,97 @@
+/**
+ * LLM Types
+ *
+ * A provider knows one model API (Anthropic, Gemini) and turns a
+ * provider-neutral request into one call. Routing, retries, fallback and
+ * usage accounting live in LLMClient, not in providers.
+ */
+
+import type { AIProvider, TaskType } from '../core/config.js';
+import type { JsonSchema } from './json-schema.js';
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp'; data: string };
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentPart[];
+}
+
+/**
+ * Constrains the reply to JSON matching a schema, natively per provider:
+ * Anthropic forced tool_use, Gemini responseSchema, OpenAI json_schema.
+ * The reply text is then the JSON document, no prose or fences.
+ */
+export interface StructuredOutput {
+  /** Tool / schema name ([a-zA-Z0-9_-]) */
+  name: string;
+  /** An object schema */
+  schema: JsonSchema;
+}
+
+export interface CompletionRequest {
+  /** Picks provider and model from TASK_ROUTING, and buckets usage */
+  task: TaskType;
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  /** Set by completeJson() */
+  output?: StructuredOutput;
+}
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface Completion {
+  text: string;
+  provider: AIProvider;
+  model: string;
+  usage: TokenUsage;
+  cost_usd: number;
+  /** Served by the task's fallback provider */
+  fallback: boolean;
+}
+
+/**
+ * usage and cost_usd cover every attempt, repairs included
+ */
+export interface JsonCompletion<T> extends Completion {
+  data: T;
+  /** Replies sent back to the model with their validation errors */
+  repairs: number;
+  /** Validation errors still open when the repair budget ran out */
+  issues: string[];
+}
+
+/**
+ * One call to one model - what LLMClient hands a provider
+ */
+export interface ProviderRequest {
+  model: string;
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  output?: StructuredOutput;
+}
+
+export interface ProviderResponse {
+  text: string;
+  /** Model that answered (may be more specific than the one requested) */
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  name: AIProvider;
+
+  /** Whether credentials for this provider are configured */
+  isConfigured(): boolean;
+
+  /** Throws LLMProviderError; `retryable` marks overload/transient failures */
+  complete(request: ProviderRequest): Promise<ProviderResponse>;
+}
@@ -0,0 +1,81 @@
+/**
+ * LLM Usage Accounting
+ *
+ * Token counts and cost per call, rolled up per month into totals by task
+ * type and by repo. Stored in the current user's namespace.
+ */
+
+import { MODEL_PRICING, type TaskType } from '../core/config.js';
+import { StateManager, stateManager } from '../core/state.js';
+import { getUserStore } from '../core/users.js';
+import type { UsageReport, UsageTotals } from '../core/types.js';
+import { error as logErr } from '../core/logger.js';
+import type { TokenUsage } from './types.js';
+
+export interface UsageEntry {
+  task: TaskType;
+  /** owner/name the call was made for, when known */
+  repo: string | null;
+  model: string;
+  usage: TokenUsage;
+  cost_usd: number;
+  fallback: boolean;
+}
+
+/**
+ * USD cost of a call; 0 for models without a price
+ */
+export function costOf(model: string, usage: TokenUsage): number {
+  const price = MODEL_PRICING[model] ?? Object.entries(MODEL_PRICING).find(([id]) => model.startsWith(id))?.[1];
+  if (!price) return 0;
+  return (usage.input_tokens * price.input + usage.output_tokens * price.output) / 1_000_000;
+}
+
+/** Month bucket, UTC */
+export function usageMonth(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+// Writes are read-modify-write, so they're chained to avoid losing
+// updates between parallel calls in the same process
+let queue: Promise<void> = Promise.resolve();
+
+/**
+ * Add a call to this month's totals. Never throws - accounting must not
+ * fail the call it accounts for.
+ */
+export function recordUsage(entry: UsageEntry): Promise<void> {
+  // Resolve the namespace now; the queued write may run outside this request's scope
+  const state = new StateManager(getUserStore());
+  const month = usageMonth();
+
+  queue = queue.then(async () => {
+    try {
+      const report = (await state.getLLMUsage(month)) ?? { month, by_task: {}, by_repo: {} };
+      report.by_task[entry.task] = addTo(report.by_task[entry.task], entry);
+      if (entry.repo) report.by_repo[entry.repo] = addTo(report.by_repo[entry.repo], entry);
+      await state.saveLLMUsage(report);
+    } catch (err) {
+      logErr('llm', err, { step: 'usage', task: entry.task });
+    }
+  });
+  return queue;
+}
+
+function addTo(totals: UsageTotals | undefined, entry: UsageEntry): UsageTotals {
+  const t = totals ?? { calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, fallbacks: 0 };
+  return {
+    calls: t.calls + 1,
+    input_tokens: t.input_tokens + entry.usage.input_tokens,
+    output_tokens: t.output_tokens + entry.usage.output_tokens,
+    cost_usd: t.cost_usd + entry.cost_usd,
+    fallbacks: t.fallbacks + (entry.fallback ? 1 : 0),
+  };
+}
+
+/**
+ * Usage for a month (default: this one); empty when nothing was recorded
+ */
+export async function getUsageReport(month = usageMonth()): Promise<UsageReport> {
+  return (await stateManager.getLLMUsage(month)) ?? { month, by_task: {}, by_repo: {} };
+}
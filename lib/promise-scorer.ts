@@ -1,4 +1,5 @@
-import { GitHubRepo, GitHubClient } from './core/github.js';
+import { GitHubRepo, GitHubClient, RepoSnapshot, SNAPSHOT_COMMITS } from './core/github.js';
+import { buildCommitHistory, fetchCommitHistory } from './core/commit-history.js';
 
 export interface RepoPromiseScore {
   repo: GitHubRepo;
@@ -27,16 +28,21 @@ const CONFIG_EXTENSIONS = new Set([
 
 export async function scoreRepo(
   repo: GitHubRepo,
-  github: GitHubClient
+  github: GitHubClient,
+  snapshot?: RepoSnapshot
 ): Promise<RepoPromiseScore> {
   const [owner, name] = repo.full_name.split('/');
   
-  // Fetch data in parallel
-  const [fileTree, readme, commitSignals] = await Promise.all([
-    github.getRepoTree(owner, name, 200),
-    github.getFileContent(owner, name, 'README.md'),
-    github.getCommitSignals(owner, name),
-  ]);
+  // Use the bulk-loaded snapshot when we have one, else fetch in parallel.
+  // Snapshots only carry the latest few commits, so their activity counts are a lower bound.
+  const [fileTree, readme, commitSignals, history] = snapshot
+    ? [snapshot.files.slice(0, 200), snapshot.readme, github.commitSignalsFrom(snapshot.commits), buildCommitHistory(snapshot.commits, { limit: SNAPSHOT_COMMITS })]
+    : await Promise.all([
+        github.getRepoTree(owner, name, 200),
+        github.getFileContent(owner, name, 'README.md'),
+        github.getCommitSignals(owner, name),
+        fetchCommitHistory(github, owner, name).catch(() => buildCommitHistory([])),
+      ]);
 
   // 1. File count score (0-30)
   // More files = more substantial project
@@ -64,14 +70,19 @@ export async function scoreRepo(
   let codeRatioScore = Math.round(codeRatio * 20);
 
   // 3. Activity score (0-25)
-  // Recent, coherent commits = active development
+  // Recent, sustained, coherent commits = active development
   let activityScore = 0;
-  if (commitSignals.velocity === 'active') activityScore += 15;
-  else if (commitSignals.days_since_last <= 30) activityScore += 10;
-  else if (commitSignals.days_since_last <= 90) activityScore += 5;
-  
-  if (commitSignals.coherence === 'focused') activityScore += 10;
-  else activityScore += 3;
+  if (history.days_since_last <= 7) activityScore += 10;
+  else if (history.days_since_last <= 30) activityScore += 7;
+  else if (history.days_since_last <= 90) activityScore += 4;
+
+  if (history.active_days >= 20) activityScore += 10;
+  else if (history.active_days >= 8) activityScore += 7;
+  else if (history.active_days >= 3) activityScore += 4;
+  else if (history.active_days >= 1) activityScore += 2;
+
+  if (commitSignals.coherence === 'focused') activityScore += 5;
+  else activityScore += 2;
 
   // 4. README quality score (0-15)
   let readmeQualityScore = 0;
@@ -124,6 +135,9 @@ export async function scoreAndSortRepos(
   onProgress?: (completed: number, total: number, current: string) => void
 ): Promise<RepoPromiseScore[]> {
   const scores: RepoPromiseScore[] = [];
+
+  // One GraphQL query per 20 repos; anything missing falls back to REST
+  const snapshots = await github.getRepoSnapshots(repos.map(r => r.full_name)).catch(() => new Map<string, RepoSnapshot>());
   
   // Process in batches of 5 for rate limiting
   for (let i = 0; i < repos.length; i += 5) {
@@ -131,7 +145,7 @@ export async function scoreAndSortRepos(
     const batchScores = await Promise.all(
       batch.map(async (repo) => {
         try {
-          const score = await scoreRepo(repo, github);
+          const score = await scoreRepo(repo, github, snapshots.get(repo.full_name));
           onProgress?.(scores.length + 1, repos.length, repo.name);
           return score;
         } catch (error) {
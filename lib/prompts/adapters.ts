@@ -0,0 +1,58 @@
+/**
+ * Eval Adapters
+ *
+ * Per-prompt input preparation and scoring for runEval(). The analysis
+ * prompt is fed from GitHub (same sampling as /repo); the others from the
+ * corpus text alone.
+ */
+
+import { emptyTechStack } from '../core/tech-stack.js';
+import { validateAnalysis, type CoreAnalysis, type RepoPotential } from '../core/types.js';
+import { repoPotentialPrompt, repoPotentialPromptV1, type RepoPotentialInput } from '../ai/repo-potential.js';
+import { getRepoAnalyzer } from '../tools/repo/analyzer.js';
+import { repoAnalysisPrompt, repoAnalysisPromptV4, repoAnalysisPromptV5, type AnalysisPromptInput } from '../tools/repo/prompts.js';
+import { sealEvalAdapter, type AnyEvalAdapter, type EvalAdapter } from './eval.js';
+
+const repoAnalysisAdapter: EvalAdapter<AnalysisPromptInput, CoreAnalysis> = {
+  promptId: 'repoAnalysis',
+  versions: [repoAnalysisPromptV4, repoAnalysisPromptV5, repoAnalysisPrompt],
+  async prepare(repo) {
+    const { input, files } = await getRepoAnalyzer().prepareAnalysis(repo.owner, repo.name);
+    return { input, validate: output => validateAnalysis(output, files).errors };
+  },
+  label: output => output.verdict,
+  summary: output => output.one_liner,
+};
+
+const repoPotentialAdapter: EvalAdapter<RepoPotentialInput, Omit<RepoPotential, 'prompt_version'>> = {
+  promptId: 'repoPotential',
+  versions: [repoPotentialPromptV1, repoPotentialPrompt],
+  async prepare(repo) {
+    return {
+      input: {
+        repo_name: repo.name,
+        repo_description: repo.description,
+        readme_excerpt: repo.readme.slice(0, 2000),
+        tech_stack: { ...emptyTechStack(), frameworks: repo.tech },
+      },
+      validate: output => output.potential.length > 100
+        ? [`Potential too long: ${output.potential.length} chars`]
+        : [],
+    };
+  },
+  label: output => output.confidence,
+  summary: output => output.potential,
+};
+
+const adapters: AnyEvalAdapter[] = [sealEvalAdapter(repoAnalysisAdapter), sealEvalAdapter(repoPotentialAdapter)];
+
+/**
+ * The adapter for a prompt id, or null when it can't be evaluated yet
+ */
+export function getEvalAdapter(promptId: string): AnyEvalAdapter | null {
+  return adapters.find(adapter => adapter.promptId === promptId) ?? null;
+}
+
+export function evaluablePrompts(): string[] {
+  return adapters.map(adapter => adapter.promptId);
+}
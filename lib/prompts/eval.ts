@@ -0,0 +1,284 @@
+/**
+ * Prompt A/B Evaluation
+ *
+ * Runs two versions of one prompt over the same repos and compares them:
+ * schema validity, repairs needed, domain validation errors
+ * (validateAnalysis for the analysis prompt), agreement on the headline
+ * label (verdict, confidence), latency, tokens and cost. JSON prompts go
+ * through completeJson() like production calls, validator included. Both
+ * versions get identical inputs - the adapter prepares each repo once.
+ */
+
+import type { LLMClient } from '../llm/index.js';
+import { PromptNotFoundError, promptRequest, promptTag } from './registry.js';
+import type { PromptDefinition } from './types.js';
+
+// ============ CORPUS ============
+
+export interface CorpusRepo {
+  owner: string;
+  name: string;
+  description: string;
+  /** From the "Tech:" line, e.g. ["Next.js", "Tailwind"] */
+  tech: string[];
+  readme: string;
+}
+
+/**
+ * Repos from readmes-compiled.md (scripts/compile-readmes-for-llm.ts):
+ * each "### name" section under "Full Project Details" with its Repo link,
+ * description quote, Tech line and README.
+ */
+export function parseCorpus(markdown: string): CorpusRepo[] {
+  const details = markdown.split(/^## Full Project Details\s*$/m)[1] ?? markdown;
+  const repos: CorpusRepo[] = [];
+
+  for (const section of details.split(/^---\s*$/m)) {
+    const link = section.match(/^- \*\*Repo:\*\* \[([\w.-]+)\/([\w.-]+)\]/m);
+    if (!link) continue;
+
+    const readme = section.match(/<details>[\s\S]*?<\/summary>\s*([\s\S]*?)\s*<\/details>/)?.[1] ?? '';
+    repos.push({
+      owner: link[1],
+      name: link[2],
+      description: (section.match(/^> (.+)$/m)?.[1] ?? '').replace(/\*\*/g, '').trim(),
+      tech: (section.match(/^- \*\*Tech:\*\* (.+)$/m)?.[1] ?? '').split(',').map(t => t.trim()).filter(Boolean),
+      readme,
+    });
+  }
+  return repos;
+}
+
+// ============ ADAPTERS ============
+
+/**
+ * How one prompt id is evaluated
+ */
+export interface EvalAdapter<TInput, TOutput> {
+  promptId: string;
+  /** The versions that can be compared, as their modules export them */
+  versions: Array<PromptDefinition<TInput, TOutput>>;
+  /**
+   * The prompt input for a repo and a validator for outputs made from it.
+   * Throwing skips the repo (e.g. it no longer exists).
+   */
+  prepare(repo: CorpusRepo): Promise<{ input: TInput; validate(output: TOutput): string[] }>;
+  /** Headline answer compared across versions */
+  label(output: TOutput): string;
+  /** Short text for the side-by-side table */
+  summary(output: TOutput): string;
+}
+
+/**
+ * An adapter with its input and output types sealed in, so adapters for
+ * different prompts share one list. Versions are picked by number from the
+ * adapter's own typed definitions.
+ */
+export interface AnyEvalAdapter {
+  promptId: string;
+  versions: number[];
+  /** @throws PromptNotFoundError when a or b isn't one of the adapter's versions */
+  run(options: EvalOptions<number>): Promise<EvalReport>;
+}
+
+export function sealEvalAdapter<TInput, TOutput>(adapter: EvalAdapter<TInput, TOutput>): AnyEvalAdapter {
+  const pick = (version: number) => {
+    const definition = adapter.versions.find(v => v.version === version);
+    if (!definition) {
+      throw new PromptNotFoundError(`${adapter.promptId}@${version}`);
+    }
+    return definition;
+  };
+  return {
+    promptId: adapter.promptId,
+    versions: adapter.versions.map(v => v.version),
+    run: async ({ a, b, ...options }) => runEval({ ...options, a: pick(a), b: pick(b), adapter }),
+  };
+}
+
+// ============ RUNNER ============
+
+export interface EvalRun {
+  valid: boolean;
+  /** Schema or provider error */
+  error: string | null;
+  label: string | null;
+  summary: string | null;
+  validationErrors: string[];
+  /** Replies sent back to the model before this one passed (or gave up) */
+  repairs: number;
+  ms: number;
+  tokens: number;
+  cost_usd: number;
+}
+
+export interface EvalCase {
+  repo: string;
+  /** Why the repo wasn't run (prepare failed) */
+  skipped: string | null;
+  a: EvalRun | null;
+  b: EvalRun | null;
+}
+
+export interface EvalReport {
+  promptId: string;
+  a: string;
+  b: string;
+  cases: EvalCase[];
+}
+
+interface EvalOptions<TVersion> {
+  llm: LLMClient;
+  a: TVersion;
+  b: TVersion;
+  corpus: CorpusRepo[];
+  onCase?: (result: EvalCase, index: number) => void;
+}
+
+/**
+ * Run versions a and b of a prompt over the corpus, one repo at a time
+ */
+export async function runEval<TInput, TOutput>(
+  options: EvalOptions<PromptDefinition<TInput, TOutput>> & { adapter: EvalAdapter<TInput, TOutput> }
+): Promise<EvalReport> {
+  const { llm, a, b, corpus, adapter } = options;
+  const cases: EvalCase[] = [];
+
+  for (const [index, repo] of corpus.entries()) {
+    const fullName = `${repo.owner}/${repo.name}`;
+    let result: EvalCase;
+    try {
+      const { input, validate } = await adapter.prepare(repo);
+      const repoLlm = llm.forRepo(fullName);
+      result = {
+        repo: fullName,
+        skipped: null,
+        a: await runOnce(repoLlm, a, input, validate, adapter),
+        b: await runOnce(repoLlm, b, input, validate, adapter),
+      };
+    } catch (err) {
+      result = { repo: fullName, skipped: err instanceof Error ? err.message : String(err), a: null, b: null };
+    }
+    cases.push(result);
+    options.onCase?.(result, index);
+  }
+
+  return { promptId: a.id, a: promptTag(a), b: promptTag(b), cases };
+}
+
+async function runOnce<TInput, TOutput>(
+  llm: LLMClient,
+  definition: PromptDefinition<TInput, TOutput>,
+  input: TInput,
+  validate: (output: TOutput) => string[],
+  adapter: EvalAdapter<TInput, TOutput>
+): Promise<EvalRun> {
+  const startedAt = Date.now();
+  const run: EvalRun = { valid: false, error: null, label: null, summary: null, validationErrors: [], repairs: 0, ms: 0, tokens: 0, cost_usd: 0 };
+
+  try {
+    let output: TOutput;
+    if (definition.output === 'json') {
+      const completion = await llm.completeJson(definition.schema, promptRequest(definition, input), { validate });
+      output = completion.data;
+      run.repairs = completion.repairs;
+      run.validationErrors = completion.issues;
+      run.tokens = completion.usage.input_tokens + completion.usage.output_tokens;
+      run.cost_usd = completion.cost_usd;
+    } else {
+      const completion = await llm.complete(promptRequest(definition, input));
+      run.tokens = completion.usage.input_tokens + completion.usage.output_tokens;
+      run.cost_usd = completion.cost_usd;
+      const parsed = definition.schema.safeParse(completion.text.trim());
+      if (!parsed.success) throw new Error(`${promptTag(definition)}: ${parsed.error.issues[0]?.message ?? 'invalid reply'}`);
+      output = parsed.data;
+      run.validationErrors = validate(output);
+    }
+
+    run.valid = true;
+    run.label = adapter.label(output);
+    run.summary = adapter.summary(output);
+  } catch (err) {
+    run.error = err instanceof Error ? err.message : String(err);
+  }
+
+  run.ms = Date.now() - startedAt;
+  return run;
+}
+
+// ============ REPORT ============
+
+/**
+ * Markdown report: totals per version, then each repo side by side
+ */
+export function formatEvalReport(report: EvalReport): string {
+  const ran = report.cases.filter(c => c.a && c.b) as Array<EvalCase & { a: EvalRun; b: EvalRun }>;
+  const bothValid = ran.filter(c => c.a.valid && c.b.valid);
+  const agreed = bothValid.filter(c => c.a.label === c.b.label);
+
+  const totals = (pick: (c: { a: EvalRun; b: EvalRun }) => EvalRun) => {
+    const runs = ran.map(pick);
+    const valid = runs.filter(r => r.valid);
+    return {
+      valid: `${valid.length}/${runs.length}`,
+      errors: valid.length ? (valid.reduce((sum, r) => sum + r.validationErrors.length, 0) / valid.length).toFixed(2) : '-',
+      clean: `${valid.filter(r => r.validationErrors.length === 0).length}/${runs.length}`,
+      repairs: runs.reduce((sum, r) => sum + r.repairs, 0),
+      ms: runs.length ? Math.round(runs.reduce((sum, r) => sum + r.ms, 0) / runs.length).toLocaleString() : '-',
+      tokens: runs.reduce((sum, r) => sum + r.tokens, 0).toLocaleString(),
+      cost: `$${runs.reduce((sum, r) => sum + r.cost_usd, 0).toFixed(4)}`,
+    };
+  };
+  const a = totals(c => c.a);
+  const b = totals(c => c.b);
+
+  const lines = [
+    `# ${report.a} vs ${report.b}`,
+    '',
+    `${ran.length} repos run, ${report.cases.length - ran.length} skipped. ` +
+      `Label agreement: ${agreed.length}/${bothValid.length} where both outputs were valid.`,
+    '',
+    `| | ${report.a} | ${report.b} |`,
+    '|---|---|---|',
+    `| Schema valid | ${a.valid} | ${b.valid} |`,
+    `| Validation errors (avg per valid output) | ${a.errors} | ${b.errors} |`,
+    `| Valid with no validation errors | ${a.clean} | ${b.clean} |`,
+    `| Repairs | ${a.repairs} | ${b.repairs} |`,
+    `| Latency (avg ms) | ${a.ms} | ${b.ms} |`,
+    `| Tokens | ${a.tokens} | ${b.tokens} |`,
+    `| Cost | ${a.cost} | ${b.cost} |`,
+    '',
+    '## Side by side',
+    '',
+    `| Repo | ${report.a} | ${report.b} | Agree |`,
+    '|---|---|---|---|',
+    ...ran.map(c => `| ${c.repo} | ${cell(c.a)} | ${cell(c.b)} | ${c.a.valid && c.b.valid ? (c.a.label === c.b.label ? 'yes' : '**no**') : '-'} |`),
+  ];
+
+  const problems = ran.filter(c => !c.a.valid || !c.b.valid || c.a.label !== c.b.label
+    || c.a.validationErrors.length > 0 || c.b.validationErrors.length > 0);
+  if (problems.length > 0) {
+    lines.push('', '## Disagreements and errors', '');
+    for (const c of problems) {
+      lines.push(`### ${c.repo}`, '');
+      for (const [tag, run] of [[report.a, c.a], [report.b, c.b]] as const) {
+        lines.push(`- **${tag}:** ${run.valid ? `${run.label} - ${run.summary}` : `invalid - ${run.error}`}`);
+        lines.push(...run.validationErrors.map(e => `  - ${e}`));
+      }
+      lines.push('');
+    }
+  }
+
+  const skipped = report.cases.filter(c => c.skipped);
+  if (skipped.length > 0) {
+    lines.push('', '## Skipped', '', ...skipped.map(c => `- ${c.repo}: ${c.skipped}`));
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+function cell(run: EvalRun): string {
+  if (!run.valid) return '❌ invalid';
+  const errors = run.validationErrors.length ? ` (${run.validationErrors.length} err)` : '';
+  return `${run.label}${errors}: ${(run.summary ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ').slice(0, 80)}`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Prompts Module
+ *
+ * Registry of versioned prompts and the A/B eval. Importing this module
+ * loads every prompt-defining module, so the registry is complete.
+ */
+
+import '../ai/index.js';
+import '../readme-generator.js';
+import '../tools/chart/analysis.js';
+import '../tools/readme/generator.js';
+import '../tools/repo/prompts.js';
+
+export * from './types.js';
+export { definePrompt, getPrompt, listPrompts, promptTag, parsePromptRef, promptRequest, PromptNotFoundError } from './registry.js';
+export * from './eval.js';
+export { getEvalAdapter, evaluablePrompts } from './adapters.js';
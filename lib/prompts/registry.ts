@@ -0,0 +1,97 @@
+/**
+ * Prompt Registry
+ *
+ * Every prompt the bot sends is defined once with an id, version and output
+ * schema. Modules keep their prompts next to the code that calls them and
+ * register them with definePrompt(); promptTag() is what gets stored with
+ * results (e.g. analysis history's prompt_version).
+ */
+
+import type { CompletionRequest, LLMContentPart } from '../llm/types.js';
+import type { AnyPromptDefinition, PromptDefinition, PromptRef } from './types.js';
+
+type LLMImagePart = Extract<LLMContentPart, { type: 'image' }>;
+
+export class PromptNotFoundError extends Error {
+  constructor(ref: string) {
+    super(`Unknown prompt "${ref}"`);
+    this.name = 'PromptNotFoundError';
+  }
+}
+
+const prompts = new Map<string, Map<number, AnyPromptDefinition>>();
+
+/**
+ * Register a prompt version
+ * @throws Error when the id/version pair is already registered
+ */
+export function definePrompt<TInput, TOutput>(definition: PromptDefinition<TInput, TOutput>): PromptDefinition<TInput, TOutput> {
+  const versions = prompts.get(definition.id) ?? new Map<number, AnyPromptDefinition>();
+  if (versions.has(definition.version)) {
+    throw new Error(`Prompt ${promptTag(definition)} is already registered`);
+  }
+  versions.set(definition.version, definition);
+  prompts.set(definition.id, versions);
+  return definition;
+}
+
+/**
+ * A registered prompt; the latest version when none is given
+ * @throws PromptNotFoundError
+ */
+export function getPrompt(id: string, version: number | null = null): AnyPromptDefinition {
+  const versions = prompts.get(id);
+  const resolved = version ?? (versions ? Math.max(...versions.keys()) : null);
+  const definition = resolved === null ? undefined : versions?.get(resolved);
+  if (!definition) {
+    throw new PromptNotFoundError(version === null ? id : `${id}@${version}`);
+  }
+  return definition;
+}
+
+/**
+ * Every registered version, by id then version
+ */
+export function listPrompts(): AnyPromptDefinition[] {
+  return [...prompts.values()]
+    .flatMap(versions => [...versions.values()])
+    .sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version);
+}
+
+/**
+ * "repoAnalysis_v5" - the form stored alongside results
+ */
+export function promptTag(definition: Pick<AnyPromptDefinition, 'id' | 'version'>): string {
+  return `${definition.id}_v${definition.version}`;
+}
+
+/**
+ * Parse "repoAnalysis@5", "repoAnalysis_v5" or "repoAnalysis"
+ */
+export function parsePromptRef(ref: string): PromptRef {
+  const match = ref.trim().match(/^([A-Za-z][\w-]*?)(?:@v?(\d+)|_v(\d+))?$/);
+  if (!match) {
+    throw new PromptNotFoundError(ref);
+  }
+  const version = match[2] ?? match[3];
+  return { id: match[1], version: version ? Number(version) : null };
+}
+
+/**
+ * The LLM request for a prompt and its input. Images (e.g. the chart being
+ * read) go ahead of the rendered text in the user message.
+ */
+export function promptRequest<TInput>(
+  definition: PromptDefinition<TInput, unknown>,
+  input: TInput,
+  images: LLMImagePart[] = []
+): CompletionRequest {
+  const text = definition.render(input);
+  return {
+    task: definition.task,
+    system: definition.system,
+    messages: [{ role: 'user', content: images.length > 0 ? [...images, { type: 'text', text }] : text }],
+    maxTokens: definition.maxTokens,
+    temperature: definition.temperature,
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Prompt Registry Types
+ */
+
+import type { z } from 'zod';
+import type { TaskType } from '../core/config.js';
+
+/**
+ * One version of a prompt. A change to the wording, the output schema or
+ * the sampling settings is a new version - keep the old one registered
+ * while it's being compared (scripts/eval-prompts.ts).
+ */
+export interface PromptDefinition<TInput = unknown, TOutput = unknown> {
+  /** Stable name, e.g. "repoAnalysis" */
+  id: string;
+  version: number;
+  description: string;
+  /** Picks provider and model (see TASK_ROUTING) */
+  task: TaskType;
+  /** "json": the reply is parsed and checked against schema; "text": used as-is */
+  output: 'json' | 'text';
+  schema: z.ZodType<TOutput, z.ZodTypeDef, unknown>;
+  system?: string;
+  /** The user message */
+  render(input: TInput): string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+/**
+ * Any registered prompt, as the registry holds it. The input is `never`:
+ * rendering takes the typed definition its module exports.
+ */
+export type AnyPromptDefinition = PromptDefinition<never, unknown>;
+
+/** `id@version`, or just `id` for the latest */
+export interface PromptRef {
+  id: string;
+  version: number | null;
+}
@@ -1,7 +1,8 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
 import { CoreAnalysis } from './core/types.js';
 import { GitHubRepo } from './core/github.js';
-import { AI_MODEL } from './core/config.js';
+import { getLLMClient, type LLMClient } from './llm/index.js';
+import { definePrompt, promptRequest } from './prompts/registry.js';
 
 export interface ReadmeContext {
   repo: GitHubRepo;
@@ -72,39 +73,39 @@ After the header section:
 
 Generate the complete README in markdown format.`;
 
-export class ReadmeGenerator {
-  private anthropic: Anthropic;
+export const optimizeReadmePrompt = definePrompt<ReadmeContext, string>({
+  id: 'optimizeReadme',
+  version: 1,
+  description: 'README rewrite for scripts/optimize-readmes.ts',
+  task: 'readme_generation',
+  output: 'text',
+  schema: z.string().min(1),
+  maxTokens: 4000,
+  temperature: 0.3,
+  render: ctx => README_GENERATION_PROMPT
+    .replace('{{name}}', ctx.repo.name)
+    .replace('{{description}}', ctx.repo.description || '(No description)')
+    .replace('{{one_liner}}', ctx.analysis.one_liner)
+    .replace('{{what_it_does}}', ctx.analysis.what_it_does)
+    .replace('{{core_value}}', ctx.analysis.core_value || ctx.analysis.one_liner)
+    .replace('{{why_core}}', ctx.analysis.why_core || 'N/A')
+    .replace('{{file_tree}}', ctx.fileTree.slice(0, 50).join('\n'))
+    .replace('{{existing_readme}}', ctx.existingReadme?.substring(0, 2000) || '(No existing README)')
+    .replace('{{package_json}}', ctx.packageJson?.substring(0, 1000) || '(No package.json)'),
+});
 
-  constructor(anthropicKey: string) {
-    this.anthropic = new Anthropic({ apiKey: anthropicKey });
-  }
+export class ReadmeGenerator {
+  constructor(private readonly llm: LLMClient = getLLMClient()) {}
 
   async generateReadme(ctx: ReadmeContext): Promise<string> {
-    const prompt = README_GENERATION_PROMPT
-      .replace('{{name}}', ctx.repo.name)
-      .replace('{{description}}', ctx.repo.description || '(No description)')
-      .replace('{{one_liner}}', ctx.analysis.one_liner)
-      .replace('{{what_it_does}}', ctx.analysis.what_it_does)
-      .replace('{{core_value}}', ctx.analysis.core_value || ctx.analysis.one_liner)
-      .replace('{{why_core}}', ctx.analysis.why_core || 'N/A')
-      .replace('{{file_tree}}', ctx.fileTree.slice(0, 50).join('\n'))
-      .replace('{{existing_readme}}', ctx.existingReadme?.substring(0, 2000) || '(No existing README)')
-      .replace('{{package_json}}', ctx.packageJson?.substring(0, 1000) || '(No package.json)');
-
-    const response = await this.anthropic.messages.create({
-      model: AI_MODEL,
-      max_tokens: 4000,
-      temperature: 0.3,
-      messages: [{ role: 'user', content: prompt }],
-    });
-
-    const text = response.content.find(c => c.type === 'text');
-    if (!text || text.type !== 'text') {
-      throw new Error('No text response from Claude');
+    const completion = await this.llm.forRepo(ctx.repo.full_name).complete(promptRequest(optimizeReadmePrompt, ctx));
+
+    if (!completion.text) {
+      throw new Error(`No README text from ${completion.provider}`);
     }
 
-    // Clean up any markdown code fences if Claude wrapped the output
-    let readme = text.text.trim();
+    // Clean up any markdown code fences if the model wrapped the output
+    let readme = completion.text.trim();
     if (readme.startsWith('```markdown')) {
       readme = readme.replace(/^```markdown\n?/, '').replace(/\n?```$/, '');
     } else if (readme.startsWith('```md')) {
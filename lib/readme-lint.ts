@@ -0,0 +1,271 @@
+/**
+ * README Lint
+ *
+ * Deterministic README checks - heading structure, demo image, install and
+ * usage code blocks, broken relative links, dead images, badge overload,
+ * length. Findings carry line numbers so the /readme generator can fix them
+ * and the details view can point at them.
+ */
+
+import type { GitHubClient } from './core/github.js';
+import type { ReadmeFinding, ReadmeHealth, ReadmeRule, ReadmeSeverity } from './core/types.js';
+import type { FetchLike } from './deploy/types.js';
+import { probeUrl } from './deploy/http.js';
+import { error as logErr } from './core/logger.js';
+
+const MIN_WORDS = 150;
+const MAX_WORDS = 3000;
+const MAX_BADGES = 6;
+
+/** Trees this big are likely capped (getRepoTree's limit) - links into the missing part would look broken */
+const MAX_TREE_FILES = 2000;
+
+/** Remote images probed per README */
+const MAX_IMAGE_PROBES = 5;
+
+const PENALTY: Record<ReadmeSeverity, number> = { error: 20, warning: 10, info: 3 };
+const SEVERITY_ORDER: ReadmeSeverity[] = ['error', 'warning', 'info'];
+
+const BADGE_URL = /shields\.io|badgen\.net|badge\.fury\.io|\/badges?\/|badge\.svg|\.svg\?branch=|codecov\.io\/.*\/graph|travis-ci\.(org|com)\/.*\.svg/i;
+const DEMO_URL = /\.(gif|png|jpe?g|webp|svg|mp4|webm|mov)(\?|#|$)|user-attachments\/assets|user-images\.githubusercontent/i;
+const INSTALL_COMMAND = /\b(npm (i|install|ci)|pnpm (add|install|i)|yarn (add|install)|bun (add|install)|pip3? install|pipx install|uv (add|pip install|tool install)|poetry (add|install)|cargo (install|add)|go (install|get)|brew install|gem install|bundle install|composer (require|install)|docker (pull|run)|git clone|npx |curl .*\| *(sh|bash))/i;
+const USAGE_HEADING = /usage|example|quick ?start|getting started|how to use|run|cli|api/i;
+
+interface Image {
+  url: string;
+  line: number;
+}
+
+interface Link {
+  target: string;
+  line: number;
+}
+
+interface CodeBlock {
+  content: string;
+  line: number;
+  /** Heading the block sits under, '' before any heading */
+  section: string;
+}
+
+/**
+ * Fetch README.md and the tree, then lint with image probes.
+ * Never throws - null when the repo can't be read.
+ */
+export async function fetchReadmeHealth(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  fetchImpl: FetchLike = fetch
+): Promise<ReadmeHealth | null> {
+  try {
+    const [readme, files] = await Promise.all([
+      github.getFileContent(owner, repo, 'README.md'),
+      github.getRepoTree(owner, repo, MAX_TREE_FILES),
+    ]);
+    return await lintReadmeWithImages(readme, { files, fetch: fetchImpl });
+  } catch (err) {
+    logErr('readme-lint', err, { owner, repo });
+    return null;
+  }
+}
+
+/**
+ * lintReadme plus a liveness probe of the first few remote images
+ */
+export async function lintReadmeWithImages(
+  readme: string | null,
+  options: { files?: string[]; fetch?: FetchLike } = {}
+): Promise<ReadmeHealth> {
+  const health = lintReadme(readme, options);
+  if (!readme) return health;
+
+  const fetchImpl = options.fetch ?? fetch;
+  const remote = parseReadme(readme).images.filter(img => /^https?:\/\//.test(img.url)).slice(0, MAX_IMAGE_PROBES);
+  const probes = await Promise.all(remote.map(img => probeUrl(img.url, fetchImpl)));
+
+  const dead = remote.flatMap((img, i): ReadmeFinding[] => probes[i].ok ? [] : [{
+    rule: 'dead_image',
+    severity: 'warning',
+    line: img.line,
+    message: `Image doesn't load (${probes[i].status ?? probes[i].error ?? 'no response'}): ${shorten(img.url)}`,
+  }]);
+  return withFindings(health, [...health.findings, ...dead]);
+}
+
+/**
+ * Pure lint - everything except the network checks
+ * @param options.files Repo tree, to check relative links; skipped when absent or capped
+ */
+export function lintReadme(readme: string | null, options: { files?: string[] } = {}): ReadmeHealth {
+  const checkedAt = new Date().toISOString();
+  if (!readme || !readme.trim()) {
+    return {
+      score: 0,
+      findings: [{ rule: 'missing', severity: 'error', line: null, message: 'No README.md' }],
+      words: 0,
+      has_demo_image: false,
+      has_install: false,
+      has_usage: false,
+      checked_at: checkedAt,
+    };
+  }
+
+  const doc = parseReadme(readme);
+  const findings: ReadmeFinding[] = [];
+  const add = (rule: ReadmeRule, severity: ReadmeSeverity, line: number | null, message: string) =>
+    findings.push({ rule, severity, line, message });
+
+  // Headings
+  const h1s = doc.headings.filter(h => h.level === 1);
+  if (h1s.length === 0) add('no_title', 'warning', null, 'No top-level title (# Name)');
+  if (h1s.length > 1) add('multiple_h1', 'info', h1s[1].line, `${h1s.length} top-level headings - use one title`);
+  doc.headings.forEach((h, i) => {
+    const prev = doc.headings[i - 1];
+    if (prev && h.level > prev.level + 1) {
+      add('heading_skip', 'info', h.line, `Heading jumps from h${prev.level} to h${h.level}: "${shorten(h.text, 40)}"`);
+    }
+  });
+
+  // Images
+  const badges = doc.images.filter(img => BADGE_URL.test(img.url));
+  const hasDemoImage = doc.images.some(img => !BADGE_URL.test(img.url) && DEMO_URL.test(img.url));
+  if (!hasDemoImage) add('no_demo_image', 'warning', null, 'No screenshot, GIF or video of it working');
+  if (badges.length > MAX_BADGES) add('badge_overload', 'info', badges[0].line, `${badges.length} badges - keep the few that matter`);
+
+  // Code blocks
+  const hasInstall = doc.blocks.some(b => INSTALL_COMMAND.test(b.content));
+  const hasUsage = doc.blocks.some(b => USAGE_HEADING.test(b.section) || !INSTALL_COMMAND.test(b.content));
+  if (!hasInstall) add('no_install', 'warning', null, 'No install code block');
+  if (!hasUsage) add('no_usage', 'warning', null, 'No usage example');
+
+  // Relative links and images
+  if (options.files && options.files.length < MAX_TREE_FILES) {
+    const files = options.files;
+    for (const link of [...doc.links, ...doc.images.map(img => ({ target: img.url, line: img.line }))]) {
+      const path = resolveRelative(link.target);
+      if (path !== null && !pathExists(path, files)) {
+        add('broken_link', 'error', link.line, `Broken link: ${shorten(link.target)}`);
+      }
+    }
+  }
+
+  // Length
+  if (doc.words < MIN_WORDS) add('too_short', 'warning', null, `Only ${doc.words} words - say what it does and how to run it`);
+  if (doc.words > MAX_WORDS) add('too_long', 'info', null, `${doc.words} words - move reference material to docs/`);
+
+  return withFindings(
+    { score: 0, findings: [], words: doc.words, has_demo_image: hasDemoImage, has_install: hasInstall, has_usage: hasUsage, checked_at: checkedAt },
+    findings
+  );
+}
+
+/**
+ * Findings worth acting on (errors, then warnings)
+ */
+export function readmeIssues(health: ReadmeHealth): ReadmeFinding[] {
+  return health.findings.filter(f => f.severity !== 'info');
+}
+
+/** One finding as a prompt/detail line: "L12 Broken link: docs/setup.md" */
+export function formatFinding(finding: ReadmeFinding): string {
+  return `${finding.line !== null ? `L${finding.line} ` : ''}${finding.message}`;
+}
+
+function withFindings(health: ReadmeHealth, findings: ReadmeFinding[]): ReadmeHealth {
+  const sorted = [...findings].sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || (a.line ?? 0) - (b.line ?? 0)
+  );
+  const score = Math.max(0, 100 - sorted.reduce((sum, f) => sum + PENALTY[f.severity], 0));
+  return { ...health, findings: sorted, score };
+}
+
+// ============ PARSING ============
+
+function parseReadme(readme: string) {
+  const headings: Array<{ level: number; text: string; line: number }> = [];
+  const images: Image[] = [];
+  const links: Link[] = [];
+  const blocks: CodeBlock[] = [];
+  const prose: string[] = [];
+
+  let fence: { marker: string; line: number; content: string[] } | null = null;
+  let section = '';
+
+  readme.split('\n').forEach((raw, i) => {
+    const line = i + 1;
+    const fenceMatch = raw.match(/^\s*(```|~~~)/);
+
+    if (fence) {
+      if (fenceMatch && fenceMatch[1] === fence.marker) {
+        blocks.push({ content: fence.content.join('\n'), line: fence.line, section });
+        fence = null;
+      } else {
+        fence.content.push(raw);
+      }
+      return;
+    }
+    if (fenceMatch) {
+      fence = { marker: fenceMatch[1], line, content: [] };
+      return;
+    }
+
+    const heading = raw.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/) ?? raw.match(/<h([1-6])[^>]*>(.*?)<\/h\1>/i);
+    if (heading) {
+      const level = heading[1].startsWith('#') ? heading[1].length : Number(heading[1]);
+      const text = heading[2].replace(/<[^>]+>/g, '').trim();
+      headings.push({ level, text, line });
+      section = text;
+    }
+
+    for (const match of raw.matchAll(/!\[[^\]]*\]\(\s*<?([^)\s>]+)>?[^)]*\)/g)) images.push({ url: match[1], line });
+    for (const match of raw.matchAll(/<(?:img|source|video)\b[^>]*\bsrc=["']([^"']+)["']/gi)) images.push({ url: match[1], line });
+    for (const match of raw.matchAll(/(?<!!)\[[^\]]*\]\(\s*<?([^)\s>]+)>?[^)]*\)/g)) links.push({ target: match[1], line });
+    for (const match of raw.matchAll(/<a\b[^>]*\bhref=["']([^"']+)["']/gi)) links.push({ target: match[1], line });
+
+    prose.push(raw.replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/<[^>]+>/g, ' '));
+  });
+
+  // Unclosed fence - count what's there
+  const open = fence as { marker: string; line: number; content: string[] } | null;
+  if (open) blocks.push({ content: open.content.join('\n'), line: open.line, section });
+
+  const words = prose.join(' ').split(/\s+/).filter(w => /\w/.test(w)).length;
+  return { headings, images, links, blocks, words };
+}
+
+/**
+ * Repo path a relative link points at; null for URLs, anchors and mailto.
+ * README.md sits at the root, so "./docs/a.md" and "/docs/a.md" both mean "docs/a.md".
+ */
+function resolveRelative(target: string): string | null {
+  if (/^([a-z][a-z0-9+.-]*:|#|\/\/)/i.test(target)) return null;
+  const path = target.split(/[?#]/)[0];
+  if (!path) return null;
+
+  const parts: string[] = [];
+  for (const segment of safeDecode(path).split('/')) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') parts.pop();
+    else parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+/** Literal "%" in a file name ("docs/100%.md") isn't valid percent-encoding - keep the raw path */
+function safeDecode(path: string): string {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+function pathExists(path: string, files: string[]): boolean {
+  if (path === '') return true;
+  return files.some(f => f === path || f.startsWith(`${path}/`));
+}
+
+function shorten(text: string, max = 60): string {
+  return text.length > max ? text.slice(0, max - 3) + '...' : text;
+}
@@ -0,0 +1,242 @@
+/**
+ * HTTP Cassettes
+ *
+ * Record/replay for the skill test suites. Skills reach GitHub, Claude and
+ * Gemini through module singletons, all of which end in global fetch, so a
+ * cassette swaps globalThis.fetch:
+ *
+ * - record: calls go to the real APIs; each request/response pair is kept
+ *   and written to scripts/cassettes/<name>.json on eject()
+ * - replay: calls are served from the file; nothing leaves the process and
+ *   an unrecorded request throws CassetteMissError
+ *
+ * API keys and tokens are stripped before anything is written. Responses
+ * contain whatever the APIs returned (repo contents included) - record
+ * against public repos.
+ *
+ * Usage:
+ *   const cassette = await Cassette.open('repo', 'replay');
+ *   cassette.install();
+ *   try { await repoSkill.run(input, ctx); } finally { await cassette.eject(); }
+ */
+
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteEntry {
+  request: {
+    method: string;
+    url: string;
+    body: string | null;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+    encoding: 'utf8' | 'base64';
+  };
+}
+
+export interface CassetteFile {
+  name: string;
+  recorded_at: string;
+  /** Inputs the suite recorded with (repo name, image...), reused on replay */
+  meta: Record<string, string>;
+  entries: CassetteEntry[];
+}
+
+export class CassetteNotFoundError extends Error {
+  constructor(public readonly path: string) {
+    super(`No cassette at ${path} - record it with --record`);
+    this.name = 'CassetteNotFoundError';
+  }
+}
+
+export class CassetteMissError extends Error {
+  constructor(public readonly method: string, public readonly url: string) {
+    super(`No recorded response for ${method} ${url} - re-record the cassette`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+export const CASSETTE_DIR = join(process.cwd(), 'scripts', 'cassettes');
+
+/** Query params and body fields that hold credentials */
+const SECRET_PARAMS = ['key', 'access_token', 'client_secret'];
+const SECRET_BODY_FIELDS = /("(?:token|access_token|refresh_token|client_secret)"\s*:\s*)"[^"]*"/g;
+
+/** Response headers worth keeping (content type, pagination, rate limits) */
+const KEPT_HEADERS = /^(content-type|link|etag|retry-after|x-ratelimit-.*)$/i;
+
+export class Cassette {
+  /** Replay: entries already served, so repeated calls get later recordings */
+  private readonly used = new Set<number>();
+  private originalFetch: typeof fetch | null = null;
+
+  private constructor(
+    readonly mode: CassetteMode,
+    readonly path: string,
+    private readonly file: CassetteFile,
+    private readonly realFetch: typeof fetch
+  ) {}
+
+  /**
+   * @param realFetch Where record mode sends requests (default: global fetch)
+   * @throws CassetteNotFoundError in replay mode when nothing was recorded
+   */
+  static async open(
+    name: string,
+    mode: CassetteMode,
+    options: { dir?: string; realFetch?: typeof fetch } = {}
+  ): Promise<Cassette> {
+    const path = join(options.dir ?? CASSETTE_DIR, `${name}.json`);
+    const realFetch = options.realFetch ?? globalThis.fetch;
+
+    if (mode === 'record') {
+      return new Cassette(mode, path, { name, recorded_at: new Date().toISOString(), meta: {}, entries: [] }, realFetch);
+    }
+
+    if (!existsSync(path)) {
+      throw new CassetteNotFoundError(path);
+    }
+    const file = JSON.parse(await readFile(path, 'utf-8')) as CassetteFile;
+    return new Cassette(mode, path, file, realFetch);
+  }
+
+  /**
+   * Replay cassette with nothing recorded - every request misses
+   */
+  static empty(name: string): Cassette {
+    const file: CassetteFile = { name, recorded_at: new Date().toISOString(), meta: {}, entries: [] };
+    return new Cassette('replay', join(CASSETTE_DIR, `${name}.json`), file, globalThis.fetch);
+  }
+
+  get meta(): Record<string, string> {
+    return this.file.meta;
+  }
+
+  get entries(): readonly CassetteEntry[] {
+    return this.file.entries;
+  }
+
+  /** Replay: recorded requests the run never made (the skill changed what it fetches) */
+  get unused(): CassetteEntry[] {
+    return this.file.entries.filter((_, i) => !this.used.has(i));
+  }
+
+  /**
+   * Route global fetch through this cassette
+   */
+  install(): void {
+    if (this.originalFetch) return;
+    this.originalFetch = globalThis.fetch;
+    globalThis.fetch = this.fetch;
+  }
+
+  /**
+   * Restore global fetch; in record mode, write the cassette
+   */
+  async eject(): Promise<void> {
+    if (this.originalFetch) {
+      globalThis.fetch = this.originalFetch;
+      this.originalFetch = null;
+    }
+    if (this.mode === 'record') {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(this.path, JSON.stringify(this.file, null, 2) + '\n');
+    }
+  }
+
+  readonly fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const method = request.method;
+    const url = redactUrl(request.url);
+    const body = method === 'GET' || method === 'HEAD' ? null : redactBody(await request.clone().text());
+
+    if (this.mode === 'replay') {
+      const index = this.match(method, url, body);
+      if (index === -1) {
+        throw new CassetteMissError(method, url);
+      }
+      this.used.add(index);
+      return toResponse(this.file.entries[index].response);
+    }
+
+    const response = await this.realFetch(request);
+    const bytes = Buffer.from(await response.clone().arrayBuffer());
+    const contentType = response.headers.get('content-type') ?? '';
+    const isText = /json|text|xml|javascript/.test(contentType) || bytes.length === 0;
+
+    this.file.entries.push({
+      request: { method, url, body },
+      response: {
+        status: response.status,
+        headers: Object.fromEntries([...response.headers].filter(([name]) => KEPT_HEADERS.test(name))),
+        body: isText ? redactBody(bytes.toString('utf-8')) : bytes.toString('base64'),
+        encoding: isText ? 'utf8' : 'base64',
+      },
+    });
+    return response;
+  };
+
+  /**
+   * First unused entry matching, most specific first: method + URL + body,
+   * then method + URL (prompts embed dates), then method + path (commit
+   * windows put dates in the query). Ties go to recording order.
+   */
+  private match(method: string, url: string, body: string | null): number {
+    const path = stripQuery(url);
+    const tiers: Array<(entry: CassetteEntry) => boolean> = [
+      entry => entry.request.url === url && entry.request.body === body,
+      entry => entry.request.url === url,
+      entry => stripQuery(entry.request.url) === path,
+    ];
+
+    for (const tier of tiers) {
+      const index = this.file.entries.findIndex((entry, i) =>
+        !this.used.has(i) && entry.request.method === method && tier(entry)
+      );
+      if (index !== -1) return index;
+    }
+    return -1;
+  }
+}
+
+/**
+ * Mode from argv/env: `--record` or CASSETTE_MODE=record records, anything
+ * else replays
+ */
+export function cassetteModeFromEnv(argv: string[] = process.argv): CassetteMode {
+  return argv.includes('--record') || process.env.CASSETTE_MODE === 'record' ? 'record' : 'replay';
+}
+
+// ============ HELPERS ============
+
+function redactUrl(raw: string): string {
+  const url = new URL(raw);
+  for (const param of SECRET_PARAMS) {
+    url.searchParams.delete(param);
+  }
+  return url.toString();
+}
+
+function redactBody(body: string): string {
+  return body.replace(SECRET_BODY_FIELDS, '$1"[redacted]"');
+}
+
+function stripQuery(url: string): string {
+  const index = url.indexOf('?');
+  return index === -1 ? url : url.slice(0, index);
+}
+
+function toResponse(recorded: CassetteEntry['response']): Response {
+  const body = recorded.encoding === 'base64'
+    ? Buffer.from(recorded.body, 'base64')
+    : recorded.body;
+  // Null-body statuses reject any body, even an empty one
+  const nullBody = recorded.status === 204 || recorded.status === 304;
+  return new Response(nullBody ? null : body, { status: recorded.status, headers: recorded.headers });
+}
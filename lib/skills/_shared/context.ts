@@ -12,18 +12,23 @@
  *   // In CLI test:
  *   const ctx = createTestContext();
  *   await someSkill.run(input, ctx);
+ *
+ *   // Against recorded APIs (see cassette.ts):
+ *   const ctx = createTestContext({ cassette });
  */
 
 import type { Context } from 'grammy';
-import { kv } from '@vercel/kv';
-import type Anthropic from '@anthropic-ai/sdk';
+import Anthropic from '@anthropic-ai/sdk';
 import type { GoogleGenAI } from '@google/genai';
 import type { SkillContext, TelegramAdapter, SessionManager, GoogleClient } from './types.js';
 import type { GitHubClient } from '../../core/github.js';
 import { GrammyTelegramAdapter, MockTelegramAdapter } from './telegram-adapter.js';
 import { KVSessionManager, MockSessionManager } from './sessions.js';
-import { getAnthropicClient, getGoogleClient } from '../../core/config.js';
-import { GitHubClient as GHClient } from '../../core/github.js';
+import { getAnthropicClient, getGoogleClient, setAnthropicClient } from '../../core/config.js';
+import { MemoryStateStore, setStateStore } from '../../core/store/index.js';
+import { getUserStore } from '../../core/users.js';
+import { getGitHubClient } from '../../core/github.js';
+import type { Cassette } from './cassette.js';
 
 // ============ PRODUCTION CONTEXT ============
 
@@ -38,16 +43,13 @@ export function createSkillContext(
   let _github: GitHubClient | null = null;
   let _anthropic: Anthropic | null = null;
   let _gemini: GoogleGenAI | null = null;
+  const store = getUserStore();
 
   const context: SkillContext = {
     // Lazy GitHub client
     get github(): GitHubClient {
       if (!_github) {
-        const token = process.env.GITHUB_TOKEN;
-        if (!token) {
-          throw new Error('GITHUB_TOKEN not configured');
-        }
-        _github = new GHClient(token);
+        _github = getGitHubClient();
       }
       return _github;
     },
@@ -68,8 +70,8 @@ export function createSkillContext(
       return _gemini as unknown as GoogleClient;
     },
 
-    // KV store
-    kv,
+    // Current user's state store (backend picked by STATE_STORE)
+    kv: store,
 
     // Telegram adapter
     telegram: telegramCtx
@@ -77,7 +79,7 @@ export function createSkillContext(
       : new MockTelegramAdapter(),
 
     // Session manager
-    sessions: new KVSessionManager(kv),
+    sessions: new KVSessionManager(store),
 
     // Override with any provided values
     ...overrides,
@@ -101,6 +103,13 @@ export interface TestContextOptions {
     anthropic?: Partial<Anthropic>;
     gemini?: Partial<GoogleClient>;
   };
+
+  /**
+   * Run against real clients with fetch going through this (installed)
+   * cassette. Skills use the module-level clients and state, so the
+   * context's store also becomes the global store.
+   */
+  cassette?: Cassette;
 }
 
 /**
@@ -111,8 +120,18 @@ export function createTestContext(options?: TestContextOptions): SkillContext {
   const mockTelegram = new MockTelegramAdapter(options?.telegram);
   const mockSessions = new MockSessionManager();
 
-  // Create mock KV that uses in-memory storage
-  const mockKV = createMockKV();
+  // In-memory store, isolated per test context
+  const mockKV = new MemoryStateStore();
+
+  if (options?.cassette) {
+    prepareCassetteEnvironment(options.cassette);
+    setStateStore(mockKV);
+    return createSkillContext(undefined, {
+      kv: mockKV,
+      telegram: mockTelegram,
+      sessions: mockSessions,
+    });
+  }
 
   return {
     github: createMockGitHub(options?.mocks?.github),
@@ -124,39 +143,34 @@ export function createTestContext(options?: TestContextOptions): SkillContext {
   };
 }
 
-// ============ MOCK FACTORIES ============
-
-function createMockKV(): SkillContext['kv'] {
-  const store = new Map<string, { value: unknown; expiry?: number }>();
+/**
+ * Cassettes hold production routing: local-model and base-URL overrides are dropped, and
+ * on replay placeholder keys stand in so providers count as configured.
+ * The Anthropic SDK brings its own fetch, so its client gets the cassette's.
+ */
+function prepareCassetteEnvironment(cassette: Cassette): void {
+  for (const key of ['LLM_LOCAL_TASKS', 'OPENAI_BASE_URL', 'OPENAI_API_KEY', 'ANTHROPIC_BASE_URL']) {
+    delete process.env[key];
+  }
+  if (cassette.mode === 'replay') {
+    for (const key of ['GITHUB_TOKEN', 'ANTHROPIC_API_KEY', 'GOOGLE_AI_KEY']) {
+      process.env[key] ||= 'cassette-replay';
+    }
+  }
 
-  return {
-    get: async <T>(key: string): Promise<T | null> => {
-      const entry = store.get(key);
-      if (!entry) return null;
-      if (entry.expiry && Date.now() > entry.expiry) {
-        store.delete(key);
-        return null;
-      }
-      return entry.value as T;
-    },
-    set: async (key: string, value: unknown, options?: { ex?: number }) => {
-      const expiry = options?.ex ? Date.now() + options.ex * 1000 : undefined;
-      store.set(key, { value, expiry });
-      return 'OK';
-    },
-    del: async (key: string) => {
-      store.delete(key);
-      return 1;
-    },
-    // Add other methods as needed
-  } as SkillContext['kv'];
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  setAnthropicClient(apiKey ? new Anthropic({ apiKey, fetch: cassette.fetch }) : null);
 }
 
+// ============ MOCK FACTORIES ============
+
 function createMockGitHub(overrides?: Partial<GitHubClient>): GitHubClient {
   return {
     getRepoInfo: async () => null,
     getFileContent: async () => null,
     getRepoTree: async () => [],
+    getRepoCommits: async () => [],
+    getCommitFiles: async () => [],
     getUserRepos: async () => [],
     getRecentRepos: async () => [],
     getCommitSignals: async () => ({
@@ -165,6 +179,7 @@ function createMockGitHub(overrides?: Partial<GitHubClient>): GitHubClient {
       recent_authors: [],
     }),
     updateFile: async () => {},
+    commitFiles: async () => ({ sha: 'mock-sha', branch: 'main' }),
     ...overrides,
   } as GitHubClient;
 }
@@ -31,6 +31,20 @@ export {
   getMockSessions,
 } from './context.js';
 
+// Cassettes (record/replay)
+export {
+  Cassette,
+  CassetteMissError,
+  CassetteNotFoundError,
+  CASSETTE_DIR,
+  cassetteModeFromEnv,
+} from './cassette.js';
+export type { CassetteMode, CassetteEntry, CassetteFile } from './cassette.js';
+
+// Suites
+export { runSuite, recordTestRepo, recordedRepo } from './suite.js';
+export type { SkillSuite, SuiteCase, SuiteContext, SuiteResult } from './suite.js';
+
 // Telegram Adapter
 export {
   GrammyTelegramAdapter,
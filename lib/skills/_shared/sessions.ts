@@ -4,22 +4,23 @@
  * Unified session management for all skills.
  * Replaces: in-memory Maps, direct KV calls, inconsistent key formats.
  *
- * All sessions are stored in Vercel KV with consistent key patterns.
+ * All sessions are stored in the configured StateStore with consistent key patterns.
  */
 
-import { kv } from '@vercel/kv';
+import type { StateStore } from '../../core/store/index.js';
+import { getUserStore } from '../../core/users.js';
 import type { SessionManager, SessionType, StoredSession } from './types.js';
 
 // ============ SESSION MANAGER IMPLEMENTATION ============
 
 /**
- * KV-backed session manager
+ * Store-backed session manager
  * Provides typed CRUD operations with automatic versioning and TTL
  */
 export class KVSessionManager implements SessionManager {
   private readonly keyPrefix = 'skill:session';
 
-  constructor(private store: typeof kv = kv) {}
+  constructor(private store: StateStore = getUserStore()) {}
 
   /**
    * Create new session with TTL
@@ -182,15 +183,10 @@ export const SESSION_TTLS = {
 export async function acquireSkillLock(
   key: string,
   ttlSeconds = 60,
-  store: typeof kv = kv
+  store: StateStore = getUserStore()
 ): Promise<boolean> {
   const lockKey = `skill:lock:${key}`;
-  const existing = await store.get(lockKey);
-  if (existing) {
-    return false;
-  }
-  await store.set(lockKey, true, { ex: ttlSeconds });
-  return true;
+  return store.setnx(lockKey, true, ttlSeconds);
 }
 
 /**
@@ -198,7 +194,7 @@ export async function acquireSkillLock(
  */
 export async function releaseSkillLock(
   key: string,
-  store: typeof kv = kv
+  store: StateStore = getUserStore()
 ): Promise<void> {
   const lockKey = `skill:lock:${key}`;
   await store.del(lockKey);
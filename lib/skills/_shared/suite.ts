@@ -0,0 +1,142 @@
+/**
+ * Skill Test Suites
+ *
+ * Minimal runner for the assertion suites in scripts/skills/. Each suite
+ * has one cassette; every case gets a fresh test context (own store, own
+ * mock Telegram) wired to it. Cases marked offline must not touch the
+ * network and still run when the cassette hasn't been recorded yet; the
+ * others are skipped, or fail when the cassette is required (CI).
+ */
+
+import { setAnthropicClient } from '../../core/config.js';
+import { Cassette, CassetteNotFoundError, type CassetteMode } from './cassette.js';
+import { createTestContext, getMockTelegram } from './context.js';
+import type { MockTelegramAdapter } from './telegram-adapter.js';
+import type { SkillContext } from './types.js';
+
+export interface SuiteContext {
+  ctx: SkillContext;
+  telegram: MockTelegramAdapter;
+  /** Recorded inputs (see SkillSuite.record) */
+  meta: Record<string, string>;
+  mode: CassetteMode;
+}
+
+export interface SuiteCase {
+  name: string;
+  /** Makes no API calls - runs even without a cassette */
+  offline?: boolean;
+  run(t: SuiteContext): Promise<void>;
+}
+
+export interface SkillSuite {
+  /** Skill name, also the cassette name */
+  name: string;
+  /**
+   * Record mode: inputs to record with (read from env), stored in the
+   * cassette so replay uses the same ones. Throw when something is missing.
+   */
+  record?: () => Record<string, string> | Promise<Record<string, string>>;
+  cases: SuiteCase[];
+}
+
+export interface SuiteResult {
+  name: string;
+  passed: string[];
+  failed: Array<{ name: string; error: string }>;
+  skipped: string[];
+  /** Replay: recorded requests nobody made */
+  unused: number;
+  /** Replay: the cassette was not captured from the real APIs (meta.source) */
+  synthetic: boolean;
+}
+
+/**
+ * Run a suite in record or replay mode
+ * @param options.requireCassette Fail, rather than skip, cases that need a
+ *   cassette when none was recorded
+ */
+export async function runSuite(
+  suite: SkillSuite,
+  mode: CassetteMode,
+  options: { dir?: string; realFetch?: typeof fetch; requireCassette?: boolean } = {}
+): Promise<SuiteResult> {
+  const result: SuiteResult = { name: suite.name, passed: [], failed: [], skipped: [], unused: 0, synthetic: false };
+
+  let cassette: Cassette;
+  let recorded = true;
+  try {
+    cassette = await Cassette.open(suite.name, mode, options);
+  } catch (err) {
+    if (!(err instanceof CassetteNotFoundError)) throw err;
+    // Nothing recorded: offline cases only, behind an empty cassette so a
+    // stray API call fails instead of going out
+    cassette = Cassette.empty(suite.name);
+    recorded = false;
+  }
+
+  if (mode === 'record' && suite.record) {
+    try {
+      Object.assign(cassette.meta, await suite.record());
+    } catch (err) {
+      result.failed.push({ name: 'record setup', error: errorMessage(err) });
+      return result;
+    }
+  }
+
+  cassette.install();
+  try {
+    for (const testCase of suite.cases) {
+      if (!recorded && !testCase.offline) {
+        if (options.requireCassette) {
+          result.failed.push({ name: testCase.name, error: `No cassette at ${cassette.path}` });
+        } else {
+          result.skipped.push(testCase.name);
+        }
+        continue;
+      }
+
+      const ctx = createTestContext({ cassette });
+      try {
+        await testCase.run({ ctx, telegram: getMockTelegram(ctx)!, meta: cassette.meta, mode });
+        result.passed.push(testCase.name);
+      } catch (err) {
+        result.failed.push({ name: testCase.name, error: errorMessage(err) });
+      }
+    }
+  } finally {
+    await cassette.eject();
+    // Contexts bound the Anthropic client to this cassette
+    setAnthropicClient(null);
+  }
+
+  result.unused = mode === 'replay' && recorded ? cassette.unused.length : 0;
+  result.synthetic = mode === 'replay' && recorded && (cassette.meta.source ?? '').startsWith('synthetic');
+  return result;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ============ RECORDING INPUTS ============
+
+/**
+ * SkillSuite.record for suites that run against one repo: TEST_REPO
+ * (owner/name) when recording, stored in the cassette as meta.repo
+ */
+export function recordTestRepo(): Record<string, string> {
+  const repo = process.env.TEST_REPO;
+  if (!repo?.includes('/')) {
+    throw new Error('Set TEST_REPO=owner/name (a public repo) to record');
+  }
+  return { repo };
+}
+
+/**
+ * The repo a cassette was recorded against
+ */
+export function recordedRepo(meta: Record<string, string>): { owner: string; name: string } {
+  const [owner, name] = meta.repo.split('/');
+  return { owner, name };
+}
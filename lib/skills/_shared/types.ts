@@ -6,7 +6,7 @@
  */
 
 import type { Context } from 'grammy';
-import type { kv } from '@vercel/kv';
+import type { StateStore } from '../../core/store/index.js';
 import type Anthropic from '@anthropic-ai/sdk';
 import type { GitHubClient } from '../../core/github.js';
 
@@ -62,8 +62,8 @@ export interface SkillContext {
   /** Google Gemini client */
   gemini: GoogleClient;
 
-  /** Vercel KV store */
-  kv: typeof kv;
+  /** State store (Vercel KV, memory or SQLite - see lib/core/store) */
+  kv: StateStore;
 
   /** Telegram messaging adapter (abstracted for testability) */
   telegram: TelegramAdapter;
@@ -9,8 +9,9 @@
 
 import type { Skill, SkillContext, SkillResult } from '../_shared/types.js';
 import type { TrackedRepo, CoreAnalysis } from '../../core/types.js';
-import { GitHubClient } from '../../core/github.js';
+import { getGitHubClient } from '../../core/github.js';
 import { stateManager } from '../../core/state.js';
+import { lintReadmeWithImages } from '../../readme-lint.js';
 
 // IMPORT from existing modules - DO NOT duplicate
 import {
@@ -79,13 +80,14 @@ export const readmeSkill: Skill<ReadmeSkillInput, ReadmeSkillOutput> = {
       }
 
       // Fetch context from GitHub
-      const github = new GitHubClient(process.env.GITHUB_TOKEN!);
+      const github = getGitHubClient();
 
       const [repoInfo, existingReadme, packageJson, fileTree] = await Promise.all([
         github.getRepoInfo(owner, name),
         github.getFileContent(owner, name, 'README.md'),
         github.getFileContent(owner, name, 'package.json'),
-        github.getRepoTree(owner, name, 50),
+        // Full tree so the linter can check relative links
+        github.getRepoTree(owner, name, 2000),
       ]);
 
       if (!repoInfo) {
@@ -95,15 +97,18 @@ export const readmeSkill: Skill<ReadmeSkillInput, ReadmeSkillOutput> = {
         };
       }
 
+      const health = await lintReadmeWithImages(existingReadme, { files: fileTree });
+
       // Step 2: Generate README
       await ctx.onProgress?.('Generating README...');
 
       const readmeContext: ReadmeContext = {
-        repo: { name, description: repoInfo.description },
+        repo: { owner, name, description: repoInfo.description },
         analysis: tracked.analysis,
         existingReadme,
         packageJson,
         fileTree,
+        health,
       };
 
       const content = await generateReadme(readmeContext);
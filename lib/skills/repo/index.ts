@@ -9,6 +9,7 @@
 
 import type { Skill, SkillContext, SkillResult } from '../_shared/types.js';
 import type { CoreAnalysis, TrackedRepo } from '../../core/types.js';
+import type { RepoSnapshot } from '../../core/github.js';
 
 // IMPORT from existing modules - DO NOT duplicate
 import { RepoAnalyzer, getRepoAnalyzer } from '../../tools/repo/analyzer.js';
@@ -27,6 +28,8 @@ export interface RepoSkillInput {
   name: string;
   /** Skip cache and force re-analysis */
   forceRefresh?: boolean;
+  /** Prefetched repo data (scan bulk-loads these) */
+  snapshot?: RepoSnapshot;
 }
 
 export interface RepoSkillOutput {
@@ -59,7 +62,7 @@ export const repoSkill: Skill<RepoSkillInput, RepoSkillOutput> = {
     input: RepoSkillInput,
     ctx: SkillContext
   ): Promise<SkillResult<RepoSkillOutput>> {
-    const { owner, name, forceRefresh = false } = input;
+    const { owner, name, forceRefresh = false, snapshot } = input;
 
     try {
       // Check cache first (unless force refresh)
@@ -86,7 +89,7 @@ export const repoSkill: Skill<RepoSkillInput, RepoSkillOutput> = {
       const analyzer = getRepoAnalyzer();
 
       await ctx.onProgress?.('Running analysis...', 'Claude');
-      const analysis = await analyzer.analyzeRepo(owner, name);
+      const analysis = await analyzer.analyzeRepo(owner, name, snapshot);
 
       // Step 2: Save to state
       await ctx.onProgress?.('Formatting results...');
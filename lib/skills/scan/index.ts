@@ -4,12 +4,13 @@
  * WRAPPER around lib/tools/scan/ - does NOT duplicate logic.
  * Provides testable skill interface for batch repo scanning.
  *
- * Flow: Fetch recent repos → Analyze each (via repoSkill) → Group by verdict
+ * Flow: Fetch recent repos → Bulk-load stale ones (GraphQL) → Analyze each
+ * (via repoSkill) → Group by verdict
  */
 
 import type { Skill, SkillContext, SkillResult } from '../_shared/types.js';
 import type { TrackedRepo, CoreAnalysis } from '../../core/types.js';
-import { GitHubClient } from '../../core/github.js';
+import { getGitHubClient } from '../../core/github.js';
 import { stateManager } from '../../core/state.js';
 
 // IMPORT from existing modules - DO NOT duplicate
@@ -21,6 +22,7 @@ import {
   type ScanVerdictCounts,
   type GroupedRepos,
 } from '../../tools/scan/format.js';
+import { needsAnalysis, prefetchSnapshots } from '../../tools/scan/snapshots.js';
 
 // Re-export types for convenience
 export type { ScanVerdictCounts, GroupedRepos } from '../../tools/scan/format.js';
@@ -87,7 +89,7 @@ export const scanSkill: Skill<ScanSkillInput, ScanSkillOutput> = {
       // Step 1: Fetch recent repos
       await ctx.onProgress?.('Fetching repos...');
 
-      const github = new GitHubClient(process.env.GITHUB_TOKEN!);
+      const github = getGitHubClient();
       const repos = await github.getRecentRepos(days);
 
       if (repos.length === 0) {
@@ -124,6 +126,8 @@ export const scanSkill: Skill<ScanSkillInput, ScanSkillOutput> = {
         else if (repo.analysis?.verdict === 'dead') verdicts.dead++;
       };
 
+      const snapshots = await prefetchSnapshots(github, reposToScan);
+
       let hitTimeout = false;
 
       // Process in batches of 5
@@ -143,21 +147,8 @@ export const scanSkill: Skill<ScanSkillInput, ScanSkillOutput> = {
             // Check if already tracked
             let tracked = await stateManager.getTrackedRepo(owner, name);
 
-            // Skip shipped/dead
-            if (tracked?.state === 'shipped' || tracked?.state === 'dead') {
-              cached++;
-              countVerdict(tracked);
-              analyzed.push(tracked);
-              onRepoAnalyzed?.(tracked, analyzed.length, reposToScan.length);
-              return;
-            }
-
-            // Skip if no new commits
-            const hasAnalysis = tracked?.analysis !== null;
-            const hasNewCommits = new Date(repo.pushed_at).getTime() >
-              (tracked?.analyzed_at ? new Date(tracked.analyzed_at).getTime() : 0);
-
-            if (hasAnalysis && !hasNewCommits && tracked) {
+            // Skip shipped/dead and repos with no new commits
+            if (tracked && !needsAnalysis(repo, tracked)) {
               cached++;
               countVerdict(tracked);
               analyzed.push(tracked);
@@ -169,7 +160,8 @@ export const scanSkill: Skill<ScanSkillInput, ScanSkillOutput> = {
             const result = await repoSkill.run({
               owner,
               name,
-              forceRefresh: hasNewCommits,
+              forceRefresh: true,
+              snapshot: snapshots.get(repo.full_name),
             }, ctx);
 
             if (result.success && result.data) {
@@ -1,5 +1,8 @@
+import { z } from 'zod';
 import { info, error as logErr } from '../../core/logger.js';
 import { getGoogleClient, MODELS } from '../../core/config.js';
+import { getLLMClient, LLMOutputError } from '../../llm/index.js';
+import { definePrompt, promptRequest } from '../../prompts/registry.js';
 
 // ============================================
 // TYPES
@@ -177,6 +180,64 @@ HARD RULES (DO NOT BREAK):
 5. If regime is Ranging, rangeBox is REQUIRED.
 6. If regime is Trending, pivots are REQUIRED.`;
 
+/** The reply shape CHART_ANALYSIS_PROMPT asks for */
+const ChartReplySchema = z.object({
+  story: z.string(),
+  currentContext: z.string(),
+  keyZones: z.array(z.object({
+    price: z.number(),
+    label: z.string(),
+    significance: z.string(),
+    type: z.enum(['support', 'resistance']),
+    strength: z.enum(['weak', 'moderate', 'strong']),
+  })),
+  scenarios: z.array(z.object({ condition: z.string(), implication: z.string() })),
+  invalidation: z.string(),
+  regime: z.object({
+    type: z.enum(['trending_up', 'trending_down', 'ranging', 'breakout', 'breakdown']),
+    confidence: z.number(),
+  }),
+  rangeBox: z.object({ high: z.number(), low: z.number(), confidence: z.number() }).nullable(),
+  pivots: z.object({
+    points: z.array(z.object({ price: z.number(), label: z.enum(['HH', 'HL', 'LH', 'LL']) })),
+    confidence: z.number(),
+  }).nullable(),
+  fakeouts: z.array(z.object({ level: z.number(), direction: z.enum(['above', 'below']), confidence: z.number() })).nullable(),
+  currentPrice: z.number(),
+  symbol: z.string().nullable(),
+  timeframe: z.string().nullable(),
+});
+
+/** The user message; the chart image is sent ahead of it */
+export const chartAnalysisPrompt = definePrompt<{ question: string }, z.infer<typeof ChartReplySchema>>({
+  id: 'chartAnalysis',
+  version: 1,
+  description: 'Story, key zones, regime and scenarios read from a chart image',
+  task: 'chart_analysis',
+  output: 'json',
+  schema: ChartReplySchema,
+  maxTokens: 4000,
+  render: ({ question }) => CHART_ANALYSIS_PROMPT.replace('{USER_QUESTION}', question),
+});
+
+/**
+ * The prompt's HARD RULES that a schema can't express - sent back to the
+ * model for a corrected reply
+ */
+function hardRuleViolations(reply: z.infer<typeof ChartReplySchema>): string[] {
+  const errors: string[] = [];
+  if (reply.keyZones.length < 2) {
+    errors.push(`keyZones: at least 2 zones are required, got ${reply.keyZones.length}`);
+  }
+  if (reply.regime.type === 'ranging' && !reply.rangeBox) {
+    errors.push('rangeBox: required when regime is ranging');
+  }
+  if (reply.regime.type.startsWith('trending') && !reply.pivots?.points.length) {
+    errors.push('pivots: required when regime is trending');
+  }
+  return errors;
+}
+
 // ============================================
 // MAIN ANALYSIS FUNCTION
 // ============================================
@@ -187,139 +248,83 @@ export async function analyzeChart(
 ): Promise<ChartAnalysis> {
   info('chart', 'Analysis started', { imageSize: `${(imageBase64.length / 1024).toFixed(1)}KB` });
 
-  let client;
-  try {
-    client = getGoogleClient();
-  } catch (err) {
-    return createEmptyAnalysis(err instanceof Error ? err.message : 'API key not configured');
-  }
-
   const question = userQuestion || 'What\'s the story on this chart? What are the key levels and what should I watch for?';
 
   try {
     const startTime = Date.now();
-    const response = await client.models.generateContent({
-      model: MODELS.google.flash,
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            {
-              inlineData: {
-                mimeType: 'image/png',
-                data: imageBase64,
-              },
-            },
-            { text: CHART_ANALYSIS_PROMPT.replace('{USER_QUESTION}', question) },
-          ],
-        },
-      ],
+    const completion = await getLLMClient().completeJson(
+      chartAnalysisPrompt.schema,
+      promptRequest(chartAnalysisPrompt, { question }, [{ type: 'image', mimeType: 'image/png', data: imageBase64 }]),
+      { validate: hardRuleViolations }
+    );
+
+    info('chart', 'API response', { duration: `${Date.now() - startTime}ms`, provider: completion.provider, repairs: completion.repairs });
+    const parsed = completion.data;
+
+    const { currentPrice } = parsed;
+
+    // Validate and filter key zones
+    const keyZones: KeyZone[] = parsed.keyZones.slice(0, 4).filter(z => {
+      if (z.price <= 0) return false;
+      if (currentPrice > 0 && z.price > currentPrice * 10) return false;
+      return true;
     });
 
-    info('chart', 'API response', { duration: `${Date.now() - startTime}ms` });
-
-    const parts = response.candidates?.[0]?.content?.parts || [];
-    let text = '';
-    for (const part of parts) {
-      if (part.text) text += part.text;
-    }
-
-    try {
-      const cleaned = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      const parsed = JSON.parse(cleaned);
-
-      const currentPrice = parsed.currentPrice || 0;
-
-      // Validate and filter key zones
-      let keyZones: KeyZone[] = (parsed.keyZones || []).slice(0, 4);
-      keyZones = keyZones.filter(z => {
-        if (z.price <= 0) return false;
-        if (currentPrice > 0 && z.price > currentPrice * 10) return false;
-        return true;
+    // Always two scenarios
+    const scenarios: Scenario[] = parsed.scenarios.slice(0, 2);
+    while (scenarios.length < 2) {
+      scenarios.push({
+        condition: 'Unable to determine',
+        implication: 'Need more price action for clarity',
       });
+    }
 
-      // Parse scenarios
-      let scenarios: Scenario[] = (parsed.scenarios || []).slice(0, 2);
-      scenarios = scenarios.map(s => ({
-        condition: s.condition || 'If price action changes...',
-        implication: s.implication || '...the thesis would need to be re-evaluated',
-      }));
-      while (scenarios.length < 2) {
-        scenarios.push({
-          condition: 'Unable to determine',
-          implication: 'Need more price action for clarity',
-        });
-      }
-
-      // Parse regime
-      const rawRegime = parsed.regime || { type: 'ranging', confidence: 0.5 };
-      const regime: Regime = {
-        type: rawRegime.type || 'ranging',
-        confidence: Math.min(1, Math.max(0, rawRegime.confidence || 0.5)),
-      };
-
-      // Parse optional patterns
-      let rangeBox: RangeBox | undefined;
-      if (parsed.rangeBox && parsed.rangeBox.confidence >= 0.6) {
-        rangeBox = {
-          high: parsed.rangeBox.high,
-          low: parsed.rangeBox.low,
-          confidence: parsed.rangeBox.confidence,
-        };
-      }
-
-      let pivots: Pivots | undefined;
-      if (parsed.pivots && parsed.pivots.confidence >= 0.6 && parsed.pivots.points?.length > 0) {
-        pivots = {
-          points: parsed.pivots.points.map((p: { price: number; label: string }) => ({
-            price: p.price,
-            label: p.label as 'HH' | 'HL' | 'LH' | 'LL',
-          })),
-          confidence: parsed.pivots.confidence,
-        };
-      }
-
-      let fakeouts: Fakeout[] | undefined;
-      if (parsed.fakeouts && Array.isArray(parsed.fakeouts) && parsed.fakeouts.length > 0) {
-        const validFakeouts = parsed.fakeouts.filter((f: Fakeout) => f.confidence >= 0.6);
-        if (validFakeouts.length > 0) {
-          fakeouts = validFakeouts.map((f: Fakeout) => ({
-            level: f.level,
-            direction: f.direction as 'above' | 'below',
-            confidence: f.confidence,
-          }));
-        }
-      }
-
-      const analysis: ChartAnalysis = {
-        story: parsed.story || 'Unable to read chart story',
-        currentContext: parsed.currentContext || 'Current position unclear',
-        keyZones,
-        scenarios,
-        invalidation: parsed.invalidation || 'Invalidation level not identified',
-        regime,
-        rangeBox,
-        pivots,
-        fakeouts,
-        currentPrice,
-        symbol: parsed.symbol || undefined,
-        timeframe: parsed.timeframe || undefined,
-        analyzedAt: new Date().toISOString(),
-        success: true,
-      };
-
-      info('chart', 'Analysis complete', {
-        symbol: analysis.symbol,
-        regime: analysis.regime.type,
-        zones: analysis.keyZones.length,
-      });
+    const regime: Regime = {
+      type: parsed.regime.type,
+      confidence: Math.min(1, Math.max(0, parsed.regime.confidence)),
+    };
+
+    // Optional patterns, kept only when the model is confident
+    const rangeBox: RangeBox | undefined = parsed.rangeBox && parsed.rangeBox.confidence >= 0.6
+      ? parsed.rangeBox
+      : undefined;
+
+    const pivots: Pivots | undefined = parsed.pivots && parsed.pivots.confidence >= 0.6 && parsed.pivots.points.length > 0
+      ? parsed.pivots
+      : undefined;
+
+    const confidentFakeouts: Fakeout[] | undefined = parsed.fakeouts?.filter(f => f.confidence >= 0.6);
+    const fakeouts = confidentFakeouts?.length ? confidentFakeouts : undefined;
+
+    const analysis: ChartAnalysis = {
+      story: parsed.story,
+      currentContext: parsed.currentContext,
+      keyZones,
+      scenarios,
+      invalidation: parsed.invalidation,
+      regime,
+      rangeBox,
+      pivots,
+      fakeouts,
+      currentPrice,
+      symbol: parsed.symbol ?? undefined,
+      timeframe: parsed.timeframe ?? undefined,
+      analyzedAt: new Date().toISOString(),
+      success: true,
+    };
+
+    info('chart', 'Analysis complete', {
+      symbol: analysis.symbol,
+      regime: analysis.regime.type,
+      zones: analysis.keyZones.length,
+    });
 
-      return analysis;
-    } catch (parseError) {
-      logErr('chart', 'JSON parse failed', { error: parseError });
+    return analysis;
+  } catch (error) {
+    if (error instanceof LLMOutputError) {
+      logErr('chart', 'Invalid AI response', { error: error.message });
       return createEmptyAnalysis('Failed to parse AI response');
     }
-  } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to analyze chart';
     logErr('chart', 'API error', { error: errorMessage });
     return createEmptyAnalysis(errorMessage);
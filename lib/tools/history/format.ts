@@ -0,0 +1,101 @@
+/**
+ * History Formatting for Telegram
+ */
+
+import type { AnalysisRecord, ReadmeClaim } from '../../core/types.js';
+import { verdictEmoji, verdictLabel, prideEmoji } from '../repo/format.js';
+
+/**
+ * Verdict timeline, newest first. Entries are numbered oldest = #1 so the
+ * numbers stay stable as history grows.
+ */
+export function formatTimeline(name: string, history: AnalysisRecord[], limit = 10): string {
+  const lines = [`🕰️ **${name}** — ${history.length} analys${history.length === 1 ? 'is' : 'es'}`, ''];
+
+  const start = Math.max(0, history.length - limit);
+  for (let i = history.length - 1; i >= start; i--) {
+    const { analysis, analyzed_at, commit_sha, prompt_version } = history[i];
+    const sha = commit_sha ? ` · \`${commit_sha.slice(0, 7)}\`` : '';
+    lines.push(
+      `#${i + 1} ${formatDate(analyzed_at)} ${verdictEmoji[analysis.verdict]} ${verdictLabel[analysis.verdict]} ` +
+      `${prideEmoji[analysis.pride_level]}${sha} · _${prompt_version}_`
+    );
+  }
+
+  if (start > 0) lines.push(`_... ${start} older_`);
+  lines.push('', '`/history <repo> <from> <to>` to compare any two');
+  return lines.join('\n');
+}
+
+/**
+ * What changed between two analyses: verdict, keep/cut lists, README claims
+ */
+export function formatHistoryDiff(
+  name: string,
+  from: { index: number; record: AnalysisRecord },
+  to: { index: number; record: AnalysisRecord }
+): string {
+  const before = from.record.analysis;
+  const after = to.record.analysis;
+  const lines = [`🔀 **${name}** #${from.index} → #${to.index}`];
+
+  const meta: string[] = [];
+  if (from.record.prompt_version !== to.record.prompt_version) {
+    meta.push(`prompt ${from.record.prompt_version} → ${to.record.prompt_version}`);
+  }
+  if (from.record.model !== to.record.model) meta.push(`model ${from.record.model} → ${to.record.model}`);
+  if (meta.length > 0) lines.push(`_${meta.join(', ')}_`);
+
+  lines.push(
+    '',
+    before.verdict === after.verdict
+      ? `${verdictEmoji[after.verdict]} ${verdictLabel[after.verdict]} (unchanged)`
+      : `${verdictEmoji[before.verdict]} ${verdictLabel[before.verdict]} → ${verdictEmoji[after.verdict]} **${verdictLabel[after.verdict]}**`
+  );
+  if (before.pride_level !== after.pride_level) {
+    lines.push(`Pride: ${before.pride_level} → ${after.pride_level}`);
+  }
+
+  const sections = [
+    formatListDiff('✅ Keep', before.keep, after.keep),
+    formatListDiff('✂️ Cut', before.cut, after.cut),
+    formatClaimsDiff(before.readme_claims, after.readme_claims),
+  ].filter((s): s is string => s !== null);
+
+  if (sections.length === 0) sections.push('_Keep, cut and README claims unchanged_');
+  return [lines.join('\n'), ...sections].join('\n\n');
+}
+
+function formatListDiff(label: string, before: string[], after: string[]): string | null {
+  const added = after.filter(x => !before.includes(x));
+  const removed = before.filter(x => !after.includes(x));
+  if (added.length === 0 && removed.length === 0) return null;
+
+  return [
+    `**${label}**`,
+    ...added.map(x => `+ \`${x}\``),
+    ...removed.map(x => `− \`${x}\``),
+  ].join('\n');
+}
+
+function formatClaimsDiff(before: ReadmeClaim[], after: ReadmeClaim[]): string | null {
+  const key = (c: ReadmeClaim) => c.claim.trim().toLowerCase();
+  const beforeMap = new Map(before.map(c => [key(c), c]));
+  const afterMap = new Map(after.map(c => [key(c), c]));
+  const lines: string[] = [];
+
+  for (const claim of after) {
+    const prev = beforeMap.get(key(claim));
+    if (!prev) lines.push(`+ "${claim.claim}" (${claim.support})`);
+    else if (prev.support !== claim.support) lines.push(`~ "${claim.claim}" ${prev.support} → ${claim.support}`);
+  }
+  for (const claim of before) {
+    if (!afterMap.has(key(claim))) lines.push(`− "${claim.claim}"`);
+  }
+
+  return lines.length > 0 ? ['**📄 README claims**', ...lines].join('\n') : null;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+}
@@ -0,0 +1,111 @@
+/**
+ * History Tool Handler
+ * /history timeline and analysis-to-analysis diffs
+ */
+
+import { createHash } from 'node:crypto';
+import type { Context } from 'grammy';
+import { InlineKeyboard } from 'grammy';
+import { info } from '../../core/logger.js';
+import { stateManager } from '../../core/state.js';
+import type { AnalysisRecord } from '../../core/types.js';
+import { normalizeRepoInput } from '../../utils/github-url.js';
+import { formatTimeline, formatHistoryDiff } from './format.js';
+
+/**
+ * Handle /history <repo> [from to]
+ */
+export async function handleHistoryCommand(ctx: Context, input: string): Promise<void> {
+  const [repoInput, fromArg, toArg] = input.split(/\s+/).filter(Boolean);
+  if (!repoInput) {
+    await ctx.reply('Usage: `/history <repo>` or `/history <repo> <from> <to>`', { parse_mode: 'Markdown' });
+    return;
+  }
+
+  const repo = await resolveRepo(normalizeRepoInput(repoInput));
+  if (!repo) {
+    await ctx.reply(`❌ "${repoInput}" isn't tracked. Run \`/repo ${repoInput}\` first.`, { parse_mode: 'Markdown' });
+    return;
+  }
+
+  const history = await stateManager.getAnalysisHistory(repo.owner, repo.name);
+  if (history.length === 0) {
+    await ctx.reply(`No analysis history for **${repo.name}** yet — it starts with the next analysis.`, {
+      parse_mode: 'Markdown',
+    });
+    return;
+  }
+
+  if (fromArg && toArg) {
+    await replyWithDiff(ctx, repo.name, history, Number(fromArg), Number(toArg));
+    return;
+  }
+
+  await ctx.reply(formatTimeline(repo.name, history), {
+    parse_mode: 'Markdown',
+    reply_markup: history.length > 1 ? diffKeyboard(repo.owner, repo.name, history.length) : undefined,
+  });
+  info('history', 'Timeline', { repo: repo.name, entries: history.length });
+}
+
+/**
+ * Diff button: hist:ref:from:to (ref from repoRef())
+ */
+export async function handleHistoryDiff(ctx: Context, data: string): Promise<void> {
+  const [ref, from, to] = data.split(':');
+  const repos = await stateManager.getAllTrackedRepos();
+  const repo = repos.find(r => repoRef(r.owner, r.name) === ref);
+  if (!repo) {
+    await ctx.answerCallbackQuery({ text: 'Repo no longer tracked' });
+    return;
+  }
+  await ctx.answerCallbackQuery();
+
+  const history = await stateManager.getAnalysisHistory(repo.owner, repo.name);
+  await replyWithDiff(ctx, repo.name, history, Number(from), Number(to));
+}
+
+async function replyWithDiff(
+  ctx: Context,
+  name: string,
+  history: AnalysisRecord[],
+  from: number,
+  to: number
+): Promise<void> {
+  const valid = (n: number) => Number.isInteger(n) && n >= 1 && n <= history.length;
+  if (!valid(from) || !valid(to) || from === to) {
+    await ctx.reply(`❌ Pick two different analyses between #1 and #${history.length}.`);
+    return;
+  }
+
+  await ctx.reply(
+    formatHistoryDiff(name, { index: from, record: history[from - 1] }, { index: to, record: history[to - 1] }),
+    { parse_mode: 'Markdown' }
+  );
+  info('history', 'Diff', { repo: name, from, to });
+}
+
+/** Buttons comparing each of the last three analyses with the one before it */
+function diffKeyboard(owner: string, name: string, count: number): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  for (let to = count; to > Math.max(1, count - 3); to--) {
+    keyboard.text(`🔀 #${to - 1} → #${to}`, `hist:${repoRef(owner, name)}:${to - 1}:${to}`);
+  }
+  return keyboard;
+}
+
+/**
+ * Fixed-length stand-in for owner/name - the full name can push callback
+ * data past Telegram's 64-byte limit
+ */
+function repoRef(owner: string, name: string): string {
+  return createHash('sha256').update(`${owner}/${name}`.toLowerCase()).digest('base64url').slice(0, 12);
+}
+
+async function resolveRepo(input: string) {
+  if (input.includes('/')) {
+    const [owner, name] = input.split('/');
+    return stateManager.getTrackedRepo(owner, name);
+  }
+  return stateManager.getTrackedRepoByName(input);
+}
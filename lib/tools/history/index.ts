@@ -0,0 +1,30 @@
+/**
+ * History Tool
+ * Verdict timeline per repo and diffs between past analyses
+ */
+
+import type { Tool } from '../types.js';
+import { handleHistoryCommand, handleHistoryDiff } from './handler.js';
+
+export const historyTool: Tool = {
+  name: 'history',
+  version: '1.0.0',
+  description: 'Analysis history and verdict timeline',
+
+  commands: [
+    {
+      name: 'history',
+      description: 'Show how a repo\'s verdict changed over time',
+      handler: handleHistoryCommand,
+    },
+  ],
+
+  callbackHandlers: [
+    {
+      pattern: 'hist:',
+      handler: async (ctx, data) => {
+        await handleHistoryDiff(ctx, data.replace('hist:', ''));
+      },
+    },
+  ],
+};
@@ -20,6 +20,10 @@ export { scanTool } from './scan/index.js';
 export { previewTool } from './preview/index.js';
 export { readmeTool } from './readme/index.js';
 export { nextTool } from './next/index.js';
+export { usersTool } from './users/index.js';
+export { publishTool } from './publish/index.js';
+export { historyTool } from './history/index.js';
+export { usageTool } from './usage/index.js';
 
 // All tools array for easy registration
 import { repoTool } from './repo/index.js';
@@ -27,6 +31,10 @@ import { scanTool } from './scan/index.js';
 import { previewTool } from './preview/index.js';
 import { readmeTool } from './readme/index.js';
 import { nextTool } from './next/index.js';
+import { usersTool } from './users/index.js';
+import { publishTool } from './publish/index.js';
+import { historyTool } from './history/index.js';
+import { usageTool } from './usage/index.js';
 
 export const allTools = [
   repoTool,
@@ -34,5 +42,9 @@ export const allTools = [
   previewTool,
   readmeTool,
   nextTool,
+  usersTool,
+  publishTool,
+  historyTool,
+  usageTool,
 ];
 
@@ -5,7 +5,7 @@
 
 import type { Context } from 'grammy';
 import { info, error as logErr } from '../../core/logger.js';
-import { GitHubClient } from '../../core/github.js';
+import { getGitHubClient } from '../../core/github.js';
 import { nextSkill, type ProjectCandidate } from '../../skills/next/index.js';
 import {
   formatCarouselCard,
@@ -14,16 +14,6 @@ import {
 } from './format.js';
 import { acquireLock, releaseLock } from '../../core/update-guard.js';
 
-// GitHub singleton
-let github: GitHubClient | null = null;
-
-function getGitHub(): GitHubClient {
-  if (!github) {
-    github = new GitHubClient(process.env.GITHUB_TOKEN!);
-  }
-  return github;
-}
-
 // Store carousel sessions
 interface CarouselSession {
   candidates: ProjectCandidate[];
@@ -50,7 +40,7 @@ export async function handleNextCommand(ctx: Context): Promise<void> {
   try {
     // Get candidates via skill
     const result = await nextSkill.run({}, {
-      github: getGitHub(),
+      github: getGitHubClient(),
       anthropic: {} as never,
       gemini: {} as never,
       kv: {} as never,
@@ -4,10 +4,14 @@
  */
 
 import { stateManager } from '../../core/state.js';
-import { GitHubClient } from '../../core/github.js';
-import type { TrackedRepo } from '../../core/types.js';
+import { getGitHubClient } from '../../core/github.js';
+import { fetchCommitHistory } from '../../core/commit-history.js';
+import type { CommitHistory, TrackedRepo } from '../../core/types.js';
 import { info } from '../../core/logger.js';
 
+/** Repos whose commit history is read at once */
+const HISTORY_CONCURRENCY = 5;
+
 export interface ProjectCandidate {
   repo: TrackedRepo;
   score: number;
@@ -29,35 +33,29 @@ export async function getProjectCandidates(): Promise<ProjectCandidate[]> {
     return [];
   }
 
-  const github = new GitHubClient(process.env.GITHUB_TOKEN!);
+  const github = getGitHubClient();
+  const analyzed = repos.filter(repo => repo.analysis);
   const candidates: ProjectCandidate[] = [];
 
-  for (const repo of repos) {
-    // Skip repos without analysis
-    if (!repo.analysis) continue;
-
-    // Get commit signals
-    let daysSinceCommit = 999;
-    try {
-      const signals = await github.getCommitSignals(repo.owner, repo.name);
-      daysSinceCommit = signals.days_since_last;
-    } catch {
-      // Use last_push_at if available
-      if (repo.last_push_at) {
-        daysSinceCommit = Math.floor((Date.now() - new Date(repo.last_push_at).getTime()) / 86400000);
+  // Histories come from the stored commit logs - at most one small
+  // request per repo for commits pushed since (see fetchCommitHistory)
+  for (let i = 0; i < analyzed.length; i += HISTORY_CONCURRENCY) {
+    candidates.push(...await Promise.all(analyzed.slice(i, i + HISTORY_CONCURRENCY).map(async (repo): Promise<ProjectCandidate> => {
+      let daysSinceCommit = 999;
+      let history: CommitHistory | null = null;
+      try {
+        history = await fetchCommitHistory(github, repo.owner, repo.name);
+        daysSinceCommit = history.days_since_last;
+      } catch {
+        // Use last_push_at if available
+        if (repo.last_push_at) {
+          daysSinceCommit = Math.floor((Date.now() - new Date(repo.last_push_at).getTime()) / 86400000);
+        }
       }
-    }
 
-    // Calculate score
-    const { score, reason, momentum } = calculateScore(repo, daysSinceCommit);
-
-    candidates.push({
-      repo,
-      score,
-      reason,
-      momentum,
-      daysSinceCommit,
-    });
+      const { score, reason, momentum } = calculateScore(repo, daysSinceCommit, history);
+      return { repo, score, reason, momentum, daysSinceCommit };
+    })));
   }
 
   // Sort by score (highest first)
@@ -67,7 +65,7 @@ export async function getProjectCandidates(): Promise<ProjectCandidate[]> {
   return candidates;
 }
 
-function calculateScore(repo: TrackedRepo, daysSinceCommit: number): {
+function calculateScore(repo: TrackedRepo, daysSinceCommit: number, history: CommitHistory | null): {
   score: number;
   reason: string;
   momentum: 'high' | 'medium' | 'low';
@@ -96,6 +94,22 @@ function calculateScore(repo: TrackedRepo, daysSinceCommit: number): {
     momentum = 'medium';
   }
 
+  // Consistency bonus (max 20 points) - steady work beats one recent commit
+  if (history) {
+    if (history.active_days >= 20) {
+      score += 15;
+      reasons.push(`${history.active_days} active days in ${history.window_days}d`);
+    } else if (history.active_days >= 8) {
+      score += 8;
+    }
+
+    if (history.current_streak >= 3) {
+      score += 5;
+      reasons.unshift(`${history.current_streak}-day streak`);
+      momentum = 'high';
+    }
+  }
+
   // Verdict bonus (max 30 points)
   if (a.verdict === 'ship') {
     score += 30;
@@ -15,7 +15,7 @@
 
 import type { Context } from 'grammy';
 import { InputFile, InlineKeyboard } from 'grammy';
-import { kv } from '@vercel/kv';
+import { getUserStore } from '../../core/users.js';
 import { getSession, updateSession } from './sessions.js';
 import { previewSkill } from '../../skills/preview/index.js';
 import { stateManager } from '../../core/state.js';
@@ -80,7 +80,7 @@ export async function handleRejectButton(ctx: Context, sessionId: string): Promi
 
   // Store minimal state with short TTL
   // Key is the prompt message ID - when user replies, we look this up
-  await kv.set(
+  await getUserStore().set(
     `${FEEDBACK_PREFIX}${promptMsg.message_id}`,
     { sessionId, promptMessageId: promptMsg.message_id } as PendingFeedback,
     { ex: FEEDBACK_TTL }
@@ -107,7 +107,7 @@ export async function handleFeedbackReply(ctx: Context): Promise<boolean> {
   if (!replyToId) return false;
 
   // Check if this is a reply to a feedback prompt (short-lived key)
-  const pending = await kv.get<PendingFeedback>(`${FEEDBACK_PREFIX}${replyToId}`);
+  const pending = await getUserStore().get<PendingFeedback>(`${FEEDBACK_PREFIX}${replyToId}`);
   if (!pending) return false;
 
   const feedbackText = ctx.message!.text;
@@ -119,7 +119,7 @@ export async function handleFeedbackReply(ctx: Context): Promise<boolean> {
   });
 
   // Clean up the pending feedback key immediately
-  await kv.del(`${FEEDBACK_PREFIX}${replyToId}`);
+  await getUserStore().del(`${FEEDBACK_PREFIX}${replyToId}`);
 
   // Get session
   const session = await getSession(pending.sessionId);
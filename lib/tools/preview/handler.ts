@@ -11,7 +11,7 @@
  * 
  * This handler is intentionally thin - it delegates to focused modules:
  * - progress.ts: Breadcrumb progress display
- * - sessions.ts: Session state management (Vercel KV)
+ * - sessions.ts: Session state management (state store)
  * - generator.ts: Image generation (Gemini + fallback)
  * - upload.ts: GitHub upload + README update
  * - feedback.ts: Reject flow and regeneration
@@ -32,7 +32,7 @@ import type { Context } from 'grammy';
 import { InputFile, InlineKeyboard } from 'grammy';
 import { info, error as logErr } from '../../core/logger.js';
 import { stateManager } from '../../core/state.js';
-import { GitHubClient } from '../../core/github.js';
+import { getGitHubClient } from '../../core/github.js';
 import type { TrackedRepo, CoreAnalysis, RepoState } from '../../core/types.js';
 import { getRepoAnalyzer } from '../repo/analyzer.js';
 import { acquireLock, releaseLock } from '../../core/update-guard.js';
@@ -45,24 +45,10 @@ import {
 } from './progress.js';
 import { createSession, getSession, deleteSession } from './sessions.js';
 import { previewSkill } from '../../skills/preview/index.js';
-import { uploadToGitHub, getSettingsUrl } from './upload.js';
+import { uploadToGitHub, getSettingsUrl, type UploadResult } from './upload.js';
+import { pullRequestKeyboard } from '../publish/publisher.js';
 import { handleRejectButton, sendPreviewImage } from './feedback.js';
 
-// ============ GitHub Client Singleton ============
-
-let github: GitHubClient | null = null;
-
-function getGitHub(): GitHubClient {
-  if (!github) {
-    const token = process.env.GITHUB_TOKEN;
-    if (!token) {
-      throw new Error('GITHUB_TOKEN not configured');
-    }
-    github = new GitHubClient(token);
-  }
-  return github;
-}
-
 // ============ Main Command Handler ============
 
 /**
@@ -104,7 +90,7 @@ export async function handlePreviewCommand(ctx: Context, input: string): Promise
 
     // 2. FETCH - Get repo info from GitHub
     await updateProgress(tracker, 'fetching');
-    const repoInfo = await getGitHub().getRepoInfo(owner, name);
+    const repoInfo = await getGitHubClient().getRepoInfo(owner, name);
     if (!repoInfo) {
       throw new Error(`Repo "${owner}/${name}" not found or private`);
     }
@@ -135,7 +121,7 @@ export async function handlePreviewCommand(ctx: Context, input: string): Promise
       },
     }, {
       // Minimal context - skill uses global clients internally
-      github: getGitHub(),
+      github: getGitHubClient(),
       anthropic: {} as never,
       gemini: {} as never,
       kv: {} as never,
@@ -199,16 +185,35 @@ export async function handlePreviewApprove(ctx: Context, sessionId: string): Pro
     // Upload to GitHub
     const result = await uploadToGitHub(owner, name, imageBuffer);
 
+    // Only a failure if nothing landed - otherwise report what did
+    if (!result.imageUploaded && !result.readmeUpdated) {
+      throw new Error(result.error || 'Upload failed');
+    }
+
     // Clean up session
     await deleteSession(sessionId);
 
+    // Pull-request mode: link the PR with merge/close buttons
+    if (result.pullRequest) {
+      let prMsg = `🔀 **${name}** pull request #${result.pullRequest.number} opened\n`;
+      prMsg += uploadedLines(result);
+      await ctx.editMessageCaption({
+        caption: prMsg,
+        parse_mode: 'Markdown',
+        reply_markup: pullRequestKeyboard(result.pullRequest),
+      });
+      info('preview', 'Pull request opened', { owner, name, number: result.pullRequest.number });
+      return;
+    }
+
     // Build success message
-    let successMsg = `✅ **${name}** uploaded!\n\n`;
-    successMsg += `→ \`.github/social-preview.png\``;
-    if (result.readmeUpdated) {
-      successMsg += `\n→ README.md header added`;
+    let successMsg = result.error
+      ? `⚠️ **${name}** partially uploaded\n`
+      : `✅ **${name}** uploaded!\n`;
+    successMsg += uploadedLines(result);
+    if (result.imageUploaded) {
+      successMsg += `\n\n💡 [Set as social preview](${getSettingsUrl(owner, name)})`;
     }
-    successMsg += `\n\n💡 [Set as social preview](${getSettingsUrl(owner, name)})`;
 
     // Update the message caption
     await ctx.editMessageCaption({
@@ -229,6 +234,23 @@ export async function handlePreviewApprove(ctx: Context, sessionId: string): Pro
   }
 }
 
+/**
+ * One line per file that landed, plus the error for the part that didn't
+ */
+function uploadedLines(result: UploadResult): string {
+  let lines = '';
+  if (result.imageUploaded) {
+    lines += `\n→ \`.github/social-preview.png\``;
+  }
+  if (result.readmeUpdated) {
+    lines += `\n→ README.md header added`;
+  }
+  if (result.error) {
+    lines += `\n\n⚠️ ${result.error}`;
+  }
+  return lines;
+}
+
 /**
  * Handle preview rejection - delegate to feedback module
  */
@@ -264,7 +286,7 @@ async function resolveRepo(input: string): Promise<{ owner: string; name: string
   }
 
   // Otherwise, search user's repos by name
-  const repos = await getGitHub().getUserRepos();
+  const repos = await getGitHubClient().getUserRepos();
   const found = repos.find(r => r.name.toLowerCase() === input.toLowerCase());
   
   if (!found) {
@@ -1,7 +1,7 @@
 /**
  * Preview Sessions Module
  * 
- * Manages preview session state using Vercel KV for persistence across
+ * Manages preview session state using the shared state store for persistence across
  * serverless function invocations. Sessions track the approval flow state,
  * accumulated feedback, and generated images.
  * 
@@ -27,13 +27,13 @@
  * ```
  */
 
-import { kv } from '@vercel/kv';
+import { getUserStore } from '../../core/users.js';
 
 /** Session TTL in seconds (10 minutes - enough time to review and approve) */
 const SESSION_TTL = 10 * 60;
 
 /**
- * Preview session state stored in Vercel KV
+ * Preview session state stored in the state store
  */
 export interface PreviewSession {
   /** Unique session identifier */
@@ -67,7 +67,7 @@ export async function createSession(
     id,
     createdAt: new Date().toISOString(),
   };
-  await kv.set(`session:${id}`, session, { ex: SESSION_TTL });
+  await getUserStore().set(`session:${id}`, session, { ex: SESSION_TTL });
   return id;
 }
 
@@ -78,7 +78,7 @@ export async function createSession(
  * @returns Session data or null if expired/not found
  */
 export async function getSession(id: string): Promise<PreviewSession | null> {
-  return kv.get<PreviewSession>(`session:${id}`);
+  return getUserStore().get<PreviewSession>(`session:${id}`);
 }
 
 /**
@@ -94,7 +94,7 @@ export async function updateSession(
 ): Promise<void> {
   const session = await getSession(id);
   if (session) {
-    await kv.set(`session:${id}`, { ...session, ...updates }, { ex: SESSION_TTL });
+    await getUserStore().set(`session:${id}`, { ...session, ...updates }, { ex: SESSION_TTL });
   }
 }
 
@@ -104,5 +104,5 @@ export async function updateSession(
  * @param id - Session ID
  */
 export async function deleteSession(id: string): Promise<void> {
-  await kv.del(`session:${id}`);
+  await getUserStore().del(`session:${id}`);
 }
@@ -5,6 +5,9 @@
  * Uploads the image to .github/social-preview.png and optionally adds
  * a header to the README with the image and one-liner.
  * 
+ * In pull-request mode (/publish pr) both files go to a new branch in one
+ * commit and a PR is opened instead.
+ * 
  * @example
  * ```typescript
  * const result = await uploadToGitHub('satoshi', 'my-repo', imageBuffer);
@@ -12,9 +15,14 @@
  * ```
  */
 
-import { GitHubClient } from '../../core/github.js';
+import { getGitHubClient, PartialCommitError, type GitHubClient, type CommitFile } from '../../core/github.js';
 import { stateManager } from '../../core/state.js';
 import { info, error as logErr } from '../../core/logger.js';
+import type { PublishedPullRequest } from '../../core/types.js';
+import { publishAsPullRequest } from '../publish/publisher.js';
+
+/** Where the cover image lives in the repo */
+export const COVER_IMAGE_PATH = '.github/social-preview.png';
 
 /** Result of the upload operation */
 export interface UploadResult {
@@ -22,6 +30,8 @@ export interface UploadResult {
   imageUploaded: boolean;
   /** Whether the README was updated with the header */
   readmeUpdated: boolean;
+  /** Set in pull-request mode: the PR holding both changes */
+  pullRequest?: PublishedPullRequest;
   /** Error message if something failed */
   error?: string;
 }
@@ -34,6 +44,9 @@ export interface UploadResult {
  * 2. Adds image header to README.md (if not already present)
  * 3. Updates tracked repo with the cover URL
  * 
+ * Steps 1-2 are a single atomic commit. In pull-request mode that commit goes
+ * to a new branch with a PR; the cover URL is recorded when the PR is merged.
+ * 
  * @param owner - GitHub username or organization
  * @param name - Repository name
  * @param imageBuffer - Generated image as Buffer
@@ -55,65 +68,33 @@ export async function uploadToGitHub(
   name: string,
   imageBuffer: Buffer
 ): Promise<UploadResult> {
-  const github = new GitHubClient(process.env.GITHUB_TOKEN!);
+  const github = getGitHubClient();
+
+  if (await stateManager.getPublishMode() === 'pr') {
+    return uploadAsPullRequest(github, owner, name, imageBuffer);
+  }
+
   const result: UploadResult = { imageUploaded: false, readmeUpdated: false };
 
   info('preview.upload', 'Starting upload', { owner, name });
 
-  // 1. Upload image to .github/social-preview.png
+  // 1-2. Image + README header (if not already present), as one commit
   try {
-    await github.updateFile(
-      owner,
-      name,
-      '.github/social-preview.png',
-      imageBuffer.toString('base64'),
-      'Add social preview image'
-    );
+    const files = await buildCoverFiles(github, owner, name, imageBuffer);
+    await github.commitFiles(owner, name, files, 'Add social preview image');
     result.imageUploaded = true;
-    info('preview.upload', 'Image uploaded', { owner, name });
+    result.readmeUpdated = files.length > 1;
+    info('preview.upload', 'Cover committed', { owner, name, files: files.map(f => f.path) });
   } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-    result.error = `Failed to upload image: ${errorMessage}`;
-    logErr('preview.upload', err, { owner, name, step: 'image' });
-    // Image upload is critical - return early
-    return result;
-  }
-
-  // 2. Update README with header (if not already present)
-  try {
-    const readme = await github.getFileContent(owner, name, 'README.md');
-    
-    if (readme && !readme.includes('social-preview.png')) {
-      // Get one-liner from analysis for the header
-      const repo = await stateManager.getTrackedRepo(owner, name);
-      const oneLiner = repo?.analysis?.one_liner || '';
-      const homepage = repo?.homepage || null;
-
-      const header = buildReadmeHeader(name, oneLiner, homepage);
-      const updatedReadme = header + readme;
-
-      await github.updateFile(
-        owner,
-        name,
-        'README.md',
-        Buffer.from(updatedReadme).toString('base64'),
-        'Add cover image to README'
-      );
-      result.readmeUpdated = true;
-      info('preview.upload', 'README updated', { owner, name });
-    } else if (readme?.includes('social-preview.png')) {
-      info('preview.upload', 'README already has header, skipping', { owner, name });
-    } else {
-      info('preview.upload', 'No README found, skipping header', { owner, name });
+    logErr('preview.upload', err, { owner, name, step: 'commit' });
+    if (!(err instanceof PartialCommitError)) {
+      result.error = `Failed to upload image: ${err instanceof Error ? err.message : 'Unknown error'}`;
+      return result;
     }
-  } catch (err) {
-    // README update is non-critical - log but don't fail
-    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-    info('preview.upload', 'README update failed (non-critical)', { 
-      owner, 
-      name, 
-      error: errorMessage,
-    });
+    // Empty repo: the image went in as the first commit, the README header didn't
+    result.imageUploaded = err.committed.includes(COVER_IMAGE_PATH);
+    result.error = `README header not added: ${err.message}`;
+    if (!result.imageUploaded) return result;
   }
 
   // 3. Update tracked repo with cover URL
@@ -132,6 +113,63 @@ export async function uploadToGitHub(
   return result;
 }
 
+/**
+ * Pull-request mode: image + README header in one commit on a new branch
+ */
+async function uploadAsPullRequest(
+  github: GitHubClient,
+  owner: string,
+  name: string,
+  imageBuffer: Buffer
+): Promise<UploadResult> {
+  info('preview.upload', 'Opening pull request', { owner, name });
+
+  try {
+    const files = await buildCoverFiles(github, owner, name, imageBuffer);
+    const pullRequest = await publishAsPullRequest({
+      owner,
+      name,
+      files,
+      message: 'Add social preview image',
+      kind: 'cover',
+    });
+    return { imageUploaded: true, readmeUpdated: files.length > 1, pullRequest };
+  } catch (err) {
+    logErr('preview.upload', err, { owner, name, step: 'pull_request' });
+    return {
+      imageUploaded: false,
+      readmeUpdated: false,
+      error: `Failed to open pull request: ${err instanceof Error ? err.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * The cover image, plus README.md with the header prepended unless the
+ * README is missing or already references the image
+ */
+async function buildCoverFiles(
+  github: GitHubClient,
+  owner: string,
+  name: string,
+  imageBuffer: Buffer
+): Promise<CommitFile[]> {
+  const files: CommitFile[] = [
+    { path: COVER_IMAGE_PATH, content: imageBuffer.toString('base64'), encoding: 'base64' },
+  ];
+
+  const readme = await github.getFileContent(owner, name, 'README.md');
+  if (readme && !readme.includes('social-preview.png')) {
+    // One-liner/homepage from analysis for the header
+    const repo = await stateManager.getTrackedRepo(owner, name);
+    const header = buildReadmeHeader(name, repo?.analysis?.one_liner || '', repo?.homepage || null);
+    files.push({ path: 'README.md', content: header + readme });
+  } else {
+    info('preview.upload', readme ? 'README already has header, skipping' : 'No README found, skipping header', { owner, name });
+  }
+  return files;
+}
+
 /**
  * Builds the README header HTML with centered image and optional description
  * 
@@ -0,0 +1,117 @@
+/**
+ * Publish Tool Handler
+ * /publish mode switch and the Merge/Close buttons on bot-opened PRs
+ */
+
+import type { Context } from 'grammy';
+import { info, error as logErr } from '../../core/logger.js';
+import { getGitHubClient } from '../../core/github.js';
+import { stateManager } from '../../core/state.js';
+import type { PublishedPullRequest } from '../../core/types.js';
+import { COVER_IMAGE_PATH, getImageUrl } from '../preview/upload.js';
+
+/**
+ * Handle /publish [pr|direct]
+ */
+export async function handlePublishCommand(ctx: Context, input: string): Promise<void> {
+  const mode = input.trim().toLowerCase();
+
+  if (mode === 'pr' || mode === 'direct') {
+    await stateManager.setPublishMode(mode);
+    await ctx.reply(
+      mode === 'pr'
+        ? '🔀 README and cover uploads will open a **pull request**.'
+        : '⬆️ README and cover uploads will commit **directly** to the default branch.',
+      { parse_mode: 'Markdown' }
+    );
+    info('publish', 'Mode set', { mode });
+    return;
+  }
+
+  const current = await stateManager.getPublishMode();
+  await ctx.reply(
+    `Publishing: **${current === 'pr' ? 'pull request' : 'direct commit'}**\n\n` +
+    '`/publish pr` — open a PR for each upload\n' +
+    '`/publish direct` — commit to the default branch',
+    { parse_mode: 'Markdown' }
+  );
+}
+
+/**
+ * Merge button: squash-merge, delete the branch, record the cover URL
+ */
+export async function handlePullRequestMerge(ctx: Context, id: string): Promise<void> {
+  const pr = await getPullRequestOrExpire(ctx, id);
+  if (!pr) return;
+
+  await ctx.answerCallbackQuery({ text: 'Merging...' });
+  const github = getGitHubClient();
+
+  try {
+    await github.mergePullRequest(pr.owner, pr.name, pr.number);
+  } catch (err) {
+    logErr('publish', err, { owner: pr.owner, name: pr.name, number: pr.number });
+    await ctx.reply(`❌ Couldn't merge #${pr.number}: ${err instanceof Error ? err.message : 'Unknown error'}\n${pr.url}`);
+    return;
+  }
+
+  await deleteBranchQuietly(pr);
+
+  if (pr.files.includes(COVER_IMAGE_PATH)) {
+    const repo = await stateManager.getTrackedRepo(pr.owner, pr.name);
+    if (repo) {
+      repo.cover_image_url = getImageUrl(pr.owner, pr.name);
+      await stateManager.saveTrackedRepo(repo);
+    }
+  }
+
+  await stateManager.deletePublishedPullRequest(pr.id);
+  await clearButtons(ctx);
+  await ctx.reply(`✅ Merged **${pr.name}** #${pr.number} into \`${pr.base}\``, { parse_mode: 'Markdown' });
+  info('publish', 'Merged', { owner: pr.owner, name: pr.name, number: pr.number });
+}
+
+/**
+ * Close button: close without merging and delete the branch
+ */
+export async function handlePullRequestClose(ctx: Context, id: string): Promise<void> {
+  const pr = await getPullRequestOrExpire(ctx, id);
+  if (!pr) return;
+
+  await ctx.answerCallbackQuery({ text: 'Closing...' });
+
+  try {
+    await getGitHubClient().closePullRequest(pr.owner, pr.name, pr.number);
+  } catch (err) {
+    logErr('publish', err, { owner: pr.owner, name: pr.name, number: pr.number });
+    await ctx.reply(`❌ Couldn't close #${pr.number}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    return;
+  }
+
+  await deleteBranchQuietly(pr);
+  await stateManager.deletePublishedPullRequest(pr.id);
+  await clearButtons(ctx);
+  await ctx.reply(`✖️ Closed **${pr.name}** #${pr.number}`, { parse_mode: 'Markdown' });
+  info('publish', 'Closed', { owner: pr.owner, name: pr.name, number: pr.number });
+}
+
+// Helpers
+async function getPullRequestOrExpire(ctx: Context, id: string): Promise<PublishedPullRequest | null> {
+  const pr = await stateManager.getPublishedPullRequest(id);
+  if (!pr) {
+    await ctx.answerCallbackQuery({ text: 'PR no longer tracked - use GitHub' });
+  }
+  return pr;
+}
+
+async function deleteBranchQuietly(pr: PublishedPullRequest): Promise<void> {
+  try {
+    await getGitHubClient().deleteBranch(pr.owner, pr.name, pr.branch);
+  } catch { /* already deleted (auto-delete on merge) */ }
+}
+
+async function clearButtons(ctx: Context): Promise<void> {
+  try {
+    await ctx.editMessageReplyMarkup({ reply_markup: undefined });
+  } catch { /* message too old */ }
+}
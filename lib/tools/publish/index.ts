@@ -0,0 +1,42 @@
+/**
+ * Publish Tool
+ * Choose how README/cover changes reach GitHub, and act on bot-opened PRs
+ */
+
+import type { Tool } from '../types.js';
+import {
+  handlePublishCommand,
+  handlePullRequestMerge,
+  handlePullRequestClose,
+} from './handler.js';
+
+export const publishTool: Tool = {
+  name: 'publish',
+  version: '1.0.0',
+  description: 'Commit directly or open pull requests',
+
+  commands: [
+    {
+      name: 'publish',
+      description: 'Switch between direct commits and pull requests',
+      handler: handlePublishCommand,
+    },
+  ],
+
+  callbackHandlers: [
+    {
+      pattern: 'pr_merge:',
+      handler: async (ctx, data) => {
+        await handlePullRequestMerge(ctx, data.replace('pr_merge:', ''));
+      },
+    },
+    {
+      pattern: 'pr_close:',
+      handler: async (ctx, data) => {
+        await handlePullRequestClose(ctx, data.replace('pr_close:', ''));
+      },
+    },
+  ],
+};
+
+export { publishAsPullRequest, pullRequestKeyboard } from './publisher.js';
@@ -0,0 +1,86 @@
+/**
+ * Publisher
+ * Opt-in pull-request mode for README and cover uploads (/publish pr).
+ *
+ * Instead of committing to the default branch, changes land on a fresh branch
+ * as one tree commit and a PR is opened with the analysis summary as its body.
+ * Telegram gets the link plus Merge/Close buttons (see handler.ts).
+ */
+
+import { InlineKeyboard } from 'grammy';
+import { getGitHubClient, type CommitFile } from '../../core/github.js';
+import { stateManager } from '../../core/state.js';
+import { info } from '../../core/logger.js';
+import type { PublishedPullRequest, TrackedRepo } from '../../core/types.js';
+
+export interface PullRequestOptions {
+  owner: string;
+  name: string;
+  files: CommitFile[];
+  /** Commit message (also used as the PR title) */
+  message: string;
+  /** Branch name prefix, e.g. "readme" or "cover" */
+  kind: string;
+}
+
+/**
+ * Commit `files` to a new branch and open a PR against the default branch
+ */
+export async function publishAsPullRequest(options: PullRequestOptions): Promise<PublishedPullRequest> {
+  const { owner, name, files, message, kind } = options;
+  const github = getGitHubClient();
+  const branch = `shiporkill/${kind}-${Date.now().toString(36)}`;
+
+  const { base } = await github.createBranchWithFiles(owner, name, { branch, files, message });
+
+  const repo = await stateManager.getTrackedRepo(owner, name);
+  const pr = await github.createPullRequest(owner, name, {
+    title: message,
+    body: buildPullRequestBody(repo, files.map(f => f.path)),
+    head: branch,
+    base,
+  });
+
+  const published: PublishedPullRequest = {
+    id: Math.random().toString(36).substring(2, 10),
+    owner,
+    name,
+    number: pr.number,
+    url: pr.html_url,
+    branch,
+    base,
+    files: files.map(f => f.path),
+    created_at: new Date().toISOString(),
+  };
+  await stateManager.savePublishedPullRequest(published);
+
+  info('publish', 'Pull request opened', { owner, name, number: pr.number, files: published.files });
+  return published;
+}
+
+/**
+ * PR description: what the analysis concluded, then what changed
+ */
+export function buildPullRequestBody(repo: TrackedRepo | null, paths: string[]): string {
+  const lines: string[] = [];
+  const a = repo?.analysis;
+
+  if (a) {
+    lines.push('## Summary', '', a.one_liner, '');
+    lines.push(`**What it does:** ${a.what_it_does}`);
+    if (a.core_value) lines.push(`**Core:** ${a.core_value}`);
+    lines.push(`**Verdict:** \`${a.verdict}\` — ${a.verdict_reason}`, '');
+  }
+
+  lines.push('## Changes', '', ...paths.map(p => `- \`${p}\``), '');
+  lines.push('_Opened from Telegram - merge or close it there or here._');
+  return lines.join('\n');
+}
+
+export function pullRequestKeyboard(pr: PublishedPullRequest): InlineKeyboard {
+  return new InlineKeyboard()
+    .url(`🔗 PR #${pr.number}`, pr.url)
+    .row()
+    .text('✅ Merge', `pr_merge:${pr.id}`)
+    .text('✖️ Close', `pr_close:${pr.id}`);
+}
@@ -3,9 +3,12 @@
  * Generate optimized READMEs using AI
  */
 
-import { getAnthropicClient, MODELS } from '../../core/config.js';
-import type { CoreAnalysis } from '../../core/types.js';
+import { z } from 'zod';
+import type { CoreAnalysis, ReadmeHealth } from '../../core/types.js';
 import { info } from '../../core/logger.js';
+import { formatFinding } from '../../readme-lint.js';
+import { getLLMClient } from '../../llm/index.js';
+import { definePrompt, promptRequest } from '../../prompts/registry.js';
 
 /**
  * Minimal repo info needed for README generation
@@ -14,6 +17,8 @@ import { info } from '../../core/logger.js';
 export interface ReadmeRepoInfo {
   name: string;
   description: string | null;
+  /** Only used to attribute LLM usage to the repo */
+  owner?: string;
 }
 
 export interface ReadmeContext {
@@ -22,6 +27,8 @@ export interface ReadmeContext {
   existingReadme: string | null;
   packageJson: string | null;
   fileTree: string[];
+  /** Lint of the existing README; its findings go into the prompt */
+  health?: ReadmeHealth;
 }
 
 const README_GENERATION_PROMPT = `You are an expert at writing GitHub READMEs that convert visitors into users.
@@ -49,6 +56,9 @@ Why it's valuable: {{why_core}}
 ## Existing README (for reference - IMPORTANT: preserve any demo URLs, Vercel links, or deployment URLs you find)
 {{existing_readme}}
 
+## Problems found in the existing README (line numbers refer to it - fix every one)
+{{readme_findings}}
+
 ## Package.json (for tech stack reference)
 {{package_json}}
 
@@ -85,16 +95,21 @@ After the header section:
 
 Generate the complete README in markdown format.`;
 
-/**
- * Generate an optimized README
- */
-export async function generateReadme(context: ReadmeContext): Promise<string> {
-  info('readme', 'Generating README', { repo: context.repo.name });
-
-  const anthropic = getAnthropicClient();
+export const readmePrompt = definePrompt<ReadmeContext, string>({
+  id: 'readme',
+  version: 1,
+  description: 'README rewrite from the analysis, fixing the lint findings',
+  task: 'readme_generation',
+  output: 'text',
+  schema: z.string().min(1),
+  maxTokens: 2000,
+  temperature: 0.3,
+  render: buildReadmePrompt,
+});
+
+function buildReadmePrompt(context: ReadmeContext): string {
   const a = context.analysis;
-
-  const prompt = README_GENERATION_PROMPT
+  return README_GENERATION_PROMPT
     .replace('{{name}}', context.repo.name)
     .replace('{{description}}', context.repo.description || '')
     .replace('{{one_liner}}', a.one_liner)
@@ -103,21 +118,25 @@ export async function generateReadme(context: ReadmeContext): Promise<string> {
     .replace('{{why_core}}', a.why_core || '')
     .replace('{{file_tree}}', context.fileTree.slice(0, 30).join('\n'))
     .replace('{{existing_readme}}', context.existingReadme?.substring(0, 2000) || '(No existing README)')
+    .replace('{{readme_findings}}', context.health?.findings.length ? context.health.findings.map(f => `- ${formatFinding(f)}`).join('\n') : '(none found)')
     .replace('{{package_json}}', context.packageJson?.substring(0, 1000) || '{}');
+}
+
+/**
+ * Generate an optimized README
+ */
+export async function generateReadme(context: ReadmeContext): Promise<string> {
+  info('readme', 'Generating README', { repo: context.repo.name });
 
-  const response = await anthropic.messages.create({
-    model: MODELS.anthropic.sonnet,
-    max_tokens: 2000,
-    temperature: 0.3,
-    messages: [{ role: 'user', content: prompt }],
-  });
+  const { owner, name } = context.repo;
+  const llm = owner ? getLLMClient().forRepo(`${owner}/${name}`) : getLLMClient();
+  const completion = await llm.complete(promptRequest(readmePrompt, context));
 
-  const text = response.content.find(c => c.type === 'text');
-  if (!text || text.type !== 'text') {
-    throw new Error('No text response from Claude');
+  if (!completion.text) {
+    throw new Error(`No README text from ${completion.provider}`);
   }
 
-  info('readme', 'README generated', { repo: context.repo.name });
-  return text.text;
+  info('readme', 'README generated', { repo: context.repo.name, provider: completion.provider });
+  return completion.text;
 }
 
@@ -7,7 +7,8 @@ import type { Context } from 'grammy';
 import { InlineKeyboard } from 'grammy';
 import { info, error as logErr } from '../../core/logger.js';
 import { stateManager } from '../../core/state.js';
-import { GitHubClient } from '../../core/github.js';
+import { getGitHubClient } from '../../core/github.js';
+import { publishAsPullRequest, pullRequestKeyboard } from '../publish/publisher.js';
 import { readmeSkill } from '../../skills/readme/index.js';
 import { acquireLock, releaseLock } from '../../core/update-guard.js';
 
@@ -45,7 +46,7 @@ export async function handleReadmeCommand(ctx: Context, input: string): Promise<
 
     // Generate README via skill
     const result = await readmeSkill.run({ owner, name }, {
-      github: new GitHubClient(process.env.GITHUB_TOKEN!),
+      github: getGitHubClient(),
       anthropic: {} as never,
       gemini: {} as never,
       kv: {} as never,
@@ -120,15 +121,27 @@ export async function handleReadmePush(ctx: Context, sessionId: string): Promise
   await ctx.answerCallbackQuery({ text: 'Pushing...' });
 
   try {
-    const github = new GitHubClient(process.env.GITHUB_TOKEN!);
-
-    await github.updateFile(
-      owner,
-      name,
-      'README.md',
-      content,
-      'Update README'
-    );
+    // Pull-request mode: open a PR instead of pushing
+    if (await stateManager.getPublishMode() === 'pr') {
+      const pr = await publishAsPullRequest({
+        owner,
+        name,
+        files: [{ path: 'README.md', content }],
+        message: 'Update README',
+        kind: 'readme',
+      });
+      pendingReadmes.delete(sessionId);
+      await ctx.editMessageText(
+        `🔀 **${name}** README pull request #${pr.number} opened`,
+        { parse_mode: 'Markdown', reply_markup: pullRequestKeyboard(pr) }
+      );
+      info('readme', 'Pull request opened', { owner, name, number: pr.number });
+      return;
+    }
+
+    const github = getGitHubClient();
+
+    await github.commitFiles(owner, name, [{ path: 'README.md', content }], 'Update README');
 
     pendingReadmes.delete(sessionId);
 
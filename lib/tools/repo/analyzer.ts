@@ -3,97 +3,293 @@
  * AI analysis of GitHub repositories
  */
 
-import { getAnthropicClient, AI_MODEL } from '../../core/config.js';
-import { GitHubClient } from '../../core/github.js';
-import { CoreAnalysis, CoreAnalysisSchema, validateAnalysis, TrackedRepo } from '../../core/types.js';
+import { GitHubClient, getGitHubClient, type GitHubCommit, type GitHubToken, type RepoSnapshot } from '../../core/github.js';
+import { CoreAnalysis, validateAnalysis, TrackedRepo, type Grounding, type CIStatus, type PackageAnalysis, type WorkspacePackage, type WorkspaceRollup } from '../../core/types.js';
 import { info, error as logErr } from '../../core/logger.js';
-import { buildAnalysisPrompt, buildRetryPrompt, buildTweetPrompt } from './prompts.js';
+import { getGitHubCredentials } from '../../core/users.js';
+import { fetchTechStack } from '../../core/tech-stack.js';
+import { fetchWorkspaces, rollupPackages, MAX_PACKAGES } from '../../core/workspaces.js';
+import { stateManager } from '../../core/state.js';
+import { getLLMClient, type CompletionRequest, type LLMClient } from '../../llm/index.js';
+import { promptRequest } from '../../prompts/registry.js';
+import { repoAnalysisPrompt, tweetPrompt, ANALYSIS_PROMPT_VERSION, type AnalysisPromptInput } from './prompts.js';
+import { sampleCode, type CodeSample } from './sampler.js';
+import { verifyAnalysis, buildGroundingFeedback, REPROMPT_THRESHOLD } from './verifier.js';
+
+/** What an analysis is built from - fetched over REST or taken from a snapshot */
+interface RepoData {
+  description: string | null;
+  readme: string | null;
+  packageJson: string | null;
+  files: string[];
+  commits: GitHubCommit[];
+}
 
 export class RepoAnalyzer {
   private github: GitHubClient;
+  private llm: LLMClient;
 
-  constructor(githubToken: string) {
-    this.github = new GitHubClient(githubToken);
+  constructor(github: GitHubClient | GitHubToken, llm: LLMClient = getLLMClient()) {
+    this.github = github instanceof GitHubClient ? github : new GitHubClient(github);
+    this.llm = llm;
   }
 
-  async analyzeRepo(owner: string, repo: string): Promise<CoreAnalysis> {
-    info('analyzer', 'Starting analysis', { owner, repo });
+  /**
+   * @param snapshot Prefetched repo data (scans bulk-load via getRepoSnapshots);
+   *   fetched over REST when omitted
+   * @param options.ci CI status of the default branch, shown to the model when known
+   * @param options.sampleCode Fetch source files for the prompt (up to ~20 REST
+   *   calls). Defaults to true only without a snapshot - bulk scans get paths.
+   * @param options.files Full repo tree, when already fetched
+   */
+  async analyzeRepo(
+    owner: string,
+    repo: string,
+    snapshot?: RepoSnapshot,
+    options: { ci?: CIStatus; sampleCode?: boolean; files?: string[] } = {}
+  ): Promise<CoreAnalysis> {
+    info('analyzer', 'Starting analysis', { owner, repo, prefetched: !!snapshot });
 
-    const anthropic = getAnthropicClient();
+    const data = snapshot
+      ? {
+          description: snapshot.description,
+          readme: snapshot.readme,
+          packageJson: snapshot.package_json,
+          files: snapshot.files,
+          commits: snapshot.commits,
+        }
+      : await this.fetchRepoData(owner, repo, options.files);
+    return this.analyze(owner, repo, data, {
+      treeDepth: snapshot ? 3 : undefined,
+      ci: options.ci,
+      sampleCode: options.sampleCode ?? !snapshot,
+    });
+  }
 
-    // Fetch all repo data in parallel
-    const [repoInfo, readme, packageJson, fileTree, commitSignals] = await Promise.all([
-      this.github.getRepoInfo(owner, repo),
-      this.github.getFileContent(owner, repo, 'README.md'),
-      this.github.getFileContent(owner, repo, 'package.json'),
-      this.github.getRepoTree(owner, repo, 100),
-      this.github.getCommitSignals(owner, repo),
+  /**
+   * Analyze one workspace package of a monorepo as its own product
+   * @param files Full repo tree, when already fetched
+   */
+  async analyzePackage(owner: string, repo: string, path: string, files?: string[]): Promise<CoreAnalysis> {
+    info('analyzer', 'Starting package analysis', { owner, repo, path });
+
+    const data = await this.fetchPackageData(owner, repo, path, files);
+    return this.analyze(owner, repo, data, { packagePath: path });
+  }
+
+  /**
+   * Detect workspace packages and analyze each (up to MAX_PACKAGES).
+   * Returns null for single-package repos. Failed packages are logged and left out.
+   * @param options.files Full repo tree, when already fetched
+   * @param options.deadline Epoch ms after which no new package is started;
+   *   the rest count as skipped and can be analyzed one at a time later
+   */
+  async analyzeWorkspace(
+    owner: string,
+    repo: string,
+    options: { files?: string[]; deadline?: number } = {}
+  ): Promise<{ packages: PackageAnalysis[]; rollup: WorkspaceRollup } | null> {
+    const { files, packages: workspaces } = await this.getWorkspace(owner, repo, options.files);
+    if (workspaces.length === 0) return null;
+
+    const selected = workspaces.slice(0, MAX_PACKAGES);
+    info('analyzer', 'Analyzing workspace', { owner, repo, found: workspaces.length, analyzing: selected.length });
+
+    // Two at a time - each package is a full analysis
+    const packages: PackageAnalysis[] = [];
+    let started = 0;
+    for (let i = 0; i < selected.length; i += 2) {
+      if (options.deadline && Date.now() >= options.deadline) {
+        info('analyzer', 'Workspace out of time', { owner, repo, analyzed: started, left: selected.length - started });
+        break;
+      }
+      started += selected.slice(i, i + 2).length;
+      const batch = await Promise.all(selected.slice(i, i + 2).map(async (pkg): Promise<PackageAnalysis | null> => {
+        try {
+          const analysis = await this.analyzePackage(owner, repo, pkg.path, files);
+          return { ...pkg, analysis, analyzed_at: new Date().toISOString() };
+        } catch (err) {
+          logErr('analyzer', err, { owner, repo, package: pkg.path });
+          return null;
+        }
+      }));
+      packages.push(...batch.filter((p): p is PackageAnalysis => p !== null));
+    }
+
+    return { packages, rollup: rollupPackages(packages, workspaces.length - started) };
+  }
+
+  /**
+   * Workspace packages declared by the repo (empty for single-package repos), with the tree they came from
+   * @param files Full repo tree, when already fetched
+   */
+  async getWorkspace(owner: string, repo: string, files?: string[]): Promise<{ files: string[]; packages: WorkspacePackage[] }> {
+    const tree = files ?? await this.github.getRepoTree(owner, repo, 2000);
+    return { files: tree, packages: await fetchWorkspaces(this.github, owner, repo, tree) };
+  }
+
+  /**
+   * Fetch a repo and build the analysis prompt input without calling the
+   * model - prompt evals run every version on the same input
+   */
+  async prepareAnalysis(owner: string, repo: string): Promise<{ input: AnalysisPromptInput; files: string[] }> {
+    const data = await this.fetchRepoData(owner, repo);
+    const { input } = await this.buildPromptInput(owner, repo, data);
+    return { input, files: data.files };
+  }
+
+  private async buildPromptInput(
+    owner: string,
+    repo: string,
+    data: RepoData,
+    options: { packagePath?: string; ci?: CIStatus; sampleCode?: boolean } = {}
+  ): Promise<{ input: AnalysisPromptInput; codeSamples: CodeSample[] }> {
+    const { description, readme, packageJson, files, commits } = data;
+    const { packagePath } = options;
+    const fileTree = files.slice(0, 100);
+    const commitSignals = this.github.commitSignalsFrom(commits);
+    const [codeSamples, { stack: techStack, manifests }] = await Promise.all([
+      options.sampleCode === false
+        ? Promise.resolve([])
+        : sampleCode(this.github, owner, repo, files, commits, packageJson, { root: packagePath }),
+      fetchTechStack(this.github, owner, repo, files, { 'package.json': packageJson }, packagePath),
     ]);
 
-    const prompt = buildAnalysisPrompt({
+    const input: AnalysisPromptInput = {
       owner, repo,
-      description: repoInfo?.description || null,
+      description: description || null,
       readme: readme || '(No README)',
-      packageJson: packageJson || '{}',
+      manifests,
+      techStack,
       fileTree: fileTree.slice(0, 50).join('\n') + (fileTree.length > 50 ? `\n... and ${fileTree.length - 50} more` : ''),
       commitSignals,
-    });
+      codeSamples,
+      packagePath,
+      ciStatus: options.ci,
+    };
+    return { input, codeSamples };
+  }
 
-    info('analyzer', 'Calling Claude', { owner, repo, model: AI_MODEL });
+  private async analyze(
+    owner: string,
+    repo: string,
+    data: RepoData,
+    options: { treeDepth?: number; packagePath?: string; ci?: CIStatus; sampleCode?: boolean } = {}
+  ): Promise<CoreAnalysis> {
+    const { files, commits } = data;
+    const { packagePath } = options;
+    const { input, codeSamples } = await this.buildPromptInput(owner, repo, data, options);
+    const request = promptRequest(repoAnalysisPrompt, input);
 
-    const response = await anthropic.messages.create({
-      model: AI_MODEL,
-      max_tokens: 2000,
-      temperature: 0,
-      messages: [{ role: 'user', content: prompt }],
-    });
+    const llm = this.llm.forRepo(`${owner}/${repo}`);
+    info('analyzer', 'Calling model', { owner, repo, packagePath, samples: codeSamples.length });
 
-    const text = response.content.find(c => c.type === 'text');
-    if (!text || text.type !== 'text') {
-      throw new Error('No text response from Claude');
+    // Schema and validateAnalysis errors go back to the model (bounded repair)
+    const completion = await llm.completeJson(repoAnalysisPrompt.schema, request, {
+      validate: reply => validateAnalysis(reply, files).errors,
+    });
+    const { text: rawResponse, model } = completion;
+    let analysis: CoreAnalysis = completion.data;
+    if (completion.repairs > 0) {
+      info('analyzer', 'Reply repaired', { owner, repo, repairs: completion.repairs, open: completion.issues.length });
     }
 
-    let analysis: CoreAnalysis;
-    try {
-      let json = text.text.trim();
-      if (json.startsWith('```')) {
-        json = json.replace(/```json?\n?/g, '').replace(/```$/g, '').trim();
+    // Ground evidence in the real tree and fetched sources
+    const verifyOptions = { files, samples: codeSamples, treeDepth: options.treeDepth };
+    let verification = verifyAnalysis(analysis, verifyOptions);
+    if (verification.invalidRatio > REPROMPT_THRESHOLD && verification.grounding.checked >= 3) {
+      info('analyzer', 'Re-prompting for ungrounded evidence', { owner, repo, grounding: verification.grounding.score });
+      try {
+        const corrected = await this.repromptWithGrounding(llm, request, rawResponse, verification.grounding, codeSamples);
+        const retried = verifyAnalysis(corrected, verifyOptions);
+        if (retried.invalidRatio <= verification.invalidRatio) verification = retried;
+      } catch (err) {
+        logErr('analyzer', err, { owner, repo, step: 'reprompt' });
       }
-      analysis = CoreAnalysisSchema.parse(JSON.parse(json));
-    } catch (err) {
-      info('analyzer', 'Retrying due to parse error', { owner, repo });
-      analysis = await this.retryAnalysis(text.text);
+      verification.grounding.reprompted = true;
     }
+    analysis = verification.analysis;
 
-    const validation = validateAnalysis(analysis, fileTree);
+    const validation = validateAnalysis(analysis, files);
     if (!validation.valid) {
       info('analyzer', 'Validation warnings', { owner, repo, errors: validation.errors });
     }
 
-    info('analyzer', 'Analysis complete', { owner, repo, verdict: analysis.verdict });
+    info('analyzer', 'Analysis complete', { owner, repo, packagePath, verdict: analysis.verdict, grounding: verification.grounding.score });
+    // Packages keep their own timeline under "repo#path"
+    await this.recordHistory(owner, packagePath ? `${repo}#${packagePath}` : repo, analysis, model, commits[0]?.sha ?? null);
     return analysis;
   }
 
-  private async retryAnalysis(previousResponse: string): Promise<CoreAnalysis> {
-    const anthropic = getAnthropicClient();
+  /**
+   * Append to the repo's analysis history. Never throws - history is a
+   * nice-to-have and must not fail the analysis.
+   */
+  private async recordHistory(owner: string, repo: string, analysis: CoreAnalysis, model: string, commitSha: string | null) {
+    try {
+      await stateManager.appendAnalysisHistory(owner, repo, {
+        analysis,
+        analyzed_at: new Date().toISOString(),
+        prompt_version: ANALYSIS_PROMPT_VERSION,
+        model,
+        commit_sha: commitSha,
+      });
+    } catch (err) {
+      logErr('analyzer', err, { owner, repo, step: 'history' });
+    }
+  }
 
-    const response = await anthropic.messages.create({
-      model: AI_MODEL,
-      max_tokens: 2000,
-      temperature: 0,
-      messages: [{ role: 'user', content: buildRetryPrompt(previousResponse) }],
-    });
+  private async fetchRepoData(owner: string, repo: string, files?: string[]): Promise<RepoData> {
+    // Fetch all repo data in parallel
+    const [repoInfo, readme, packageJson, tree, commits] = await Promise.all([
+      this.github.getRepoInfo(owner, repo),
+      this.github.getFileContent(owner, repo, 'README.md'),
+      this.github.getFileContent(owner, repo, 'package.json'),
+      // Full tree so the sampler can rank beyond the first 100 paths
+      files ? Promise.resolve(files) : this.github.getRepoTree(owner, repo, 2000),
+      this.github.getRepoCommits(owner, repo, { limit: 30 }).catch((): GitHubCommit[] => []),
+    ]);
+    return { description: repoInfo?.description ?? null, readme, packageJson, files: tree, commits };
+  }
 
-    const text = response.content.find(c => c.type === 'text');
-    if (!text || text.type !== 'text') {
-      throw new Error('No text response from Claude on retry');
-    }
+  /**
+   * Package-scoped data: the package's README/package.json and only its files
+   */
+  private async fetchPackageData(owner: string, repo: string, path: string, files?: string[]): Promise<RepoData> {
+    const [repoInfo, readme, packageJson, tree, commits] = await Promise.all([
+      this.github.getRepoInfo(owner, repo),
+      this.github.getFileContent(owner, repo, `${path}/README.md`),
+      this.github.getFileContent(owner, repo, `${path}/package.json`),
+      files ? Promise.resolve(files) : this.github.getRepoTree(owner, repo, 2000),
+      this.github.getRepoCommits(owner, repo, { limit: 30 }).catch((): GitHubCommit[] => []),
+    ]);
 
-    let json = text.text.trim();
-    if (json.startsWith('```')) {
-      json = json.replace(/```json?\n?/g, '').replace(/```$/g, '').trim();
+    const scoped = tree.filter(f => f.startsWith(`${path}/`));
+    if (scoped.length === 0) {
+      throw new Error(`No files under "${path}" in ${owner}/${repo}`);
     }
-    return CoreAnalysisSchema.parse(JSON.parse(json));
+    return { description: repoInfo?.description ?? null, readme, packageJson, files: scoped, commits };
+  }
+
+  /**
+   * Second turn listing the paths/symbols that didn't verify
+   */
+  private async repromptWithGrounding(
+    llm: LLMClient,
+    request: CompletionRequest,
+    previousResponse: string,
+    grounding: Grounding,
+    samples: CodeSample[]
+  ): Promise<CoreAnalysis> {
+    const { data } = await llm.completeJson(repoAnalysisPrompt.schema, {
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: previousResponse },
+        { role: 'user', content: buildGroundingFeedback(grounding, samples) },
+      ],
+    });
+    return data;
   }
 
   /**
@@ -103,45 +299,33 @@ export class RepoAnalyzer {
     const analysis = repo.analysis;
     if (!analysis) throw new Error('No analysis available');
 
-    const anthropic = getAnthropicClient();
-
-    const response = await anthropic.messages.create({
-      model: AI_MODEL,
-      max_tokens: 100,
-      temperature: 0.8,
-      messages: [{
-        role: 'user',
-        content: buildTweetPrompt({
-          name: repo.name,
-          oneLiner: analysis.one_liner,
-          coreValue: analysis.core_value || analysis.what_it_does,
-          existingTweet: analysis.tweet_draft || undefined,
-          tone,
-        }),
-      }],
-    });
+    const completion = await this.llm.forRepo(`${repo.owner}/${repo.name}`).complete(promptRequest(tweetPrompt, {
+      name: repo.name,
+      oneLiner: analysis.one_liner,
+      coreValue: analysis.core_value || analysis.what_it_does,
+      existingTweet: analysis.tweet_draft || undefined,
+      tone,
+    }));
 
-    const text = response.content.find(c => c.type === 'text');
-    if (!text || text.type !== 'text') {
+    const tweet = completion.text.trim();
+    if (!tweet) {
       return analysis.tweet_draft || analysis.one_liner;
     }
 
-    const tweet = text.text.trim();
     return tweet.length > 280 ? tweet.substring(0, 277) + '...' : tweet;
   }
 }
 
-// Singleton helper
-let analyzerInstance: RepoAnalyzer | null = null;
+// Per-credential instances (each user analyzes with their own GitHub access)
+const analyzers = new Map<string, RepoAnalyzer>();
 
 export function getRepoAnalyzer(): RepoAnalyzer {
-  if (!analyzerInstance) {
-    const githubToken = process.env.GITHUB_TOKEN;
-    if (!githubToken) {
-      throw new Error('GITHUB_TOKEN not configured');
-    }
-    analyzerInstance = new RepoAnalyzer(githubToken);
+  const { key } = getGitHubCredentials();
+  let analyzer = analyzers.get(key);
+  if (!analyzer) {
+    analyzer = new RepoAnalyzer(getGitHubClient());
+    analyzers.set(key, analyzer);
   }
-  return analyzerInstance;
+  return analyzer;
 }
 
@@ -2,23 +2,25 @@
  * Repo Formatting for Telegram
  */
 
-import type { TrackedRepo, CoreAnalysis } from '../../core/types.js';
+import type { TrackedRepo, CoreAnalysis, CheckReport, CommitHistory, Grounding, PackageAnalysis, ReadmeHealth, WorkspaceRollup } from '../../core/types.js';
+import { formatCIStatus } from '../../ci-status.js';
+import { formatFinding } from '../../readme-lint.js';
 
-const verdictEmoji: Record<string, string> = {
+export const verdictEmoji: Record<string, string> = {
   ship: '🟢',
   cut_to_core: '🟡',
   no_core: '🔴',
   dead: '☠️',
 };
 
-const verdictLabel: Record<string, string> = {
+export const verdictLabel: Record<string, string> = {
   ship: 'SHIP',
   cut_to_core: 'CUT TO CORE',
   no_core: 'NO CORE',
   dead: 'DEAD',
 };
 
-const prideEmoji: Record<string, string> = {
+export const prideEmoji: Record<string, string> = {
   proud: '🟢',
   comfortable: '🟡',
   neutral: '😐',
@@ -40,6 +42,7 @@ export function formatCard(repo: TrackedRepo): string {
   let msg = `━━━ ${repo.name} ━━━\n`;
   msg += `${emoji} **${label}**\n\n`;
   msg += `${codeLine}\n`;
+  if (repo.rollup) msg += `${formatRollup(repo.rollup)}\n`;
   
   // Mismatch flag
   if (a.mismatch_evidence?.length) {
@@ -76,6 +79,12 @@ export function formatDetails(repo: TrackedRepo): string {
   if (!a) return `━━━ ${repo.name} ━━━\n❌ No analysis`;
 
   let msg = `📋 **${repo.name}** — Details\n\n`;
+  if (a.grounding) msg += `${formatGrounding(a.grounding)}\n\n`;
+  if (repo.ci_status) msg += `CI: ${formatCIStatus(repo.ci_status)}\n\n`;
+  if (repo.commit_history) msg += `${formatCommitHistory(repo.commit_history)}\n`;
+  if (repo.readme_health) msg += `${formatReadmeHealth(repo.readme_health)}\n`;
+  if (repo.checks) msg += `${formatChecks(repo.checks)}\n`;
+  if (repo.packages?.length) msg += `${formatPackages(repo)}\n`;
 
   // Core evidence
   if (a.has_core && a.core_value) {
@@ -135,6 +144,117 @@ export function formatDetails(repo: TrackedRepo): string {
   return msg;
 }
 
+/**
+ * Grounding score line: how much of the evidence checked out against the repo
+ */
+export function formatGrounding(grounding: Grounding): string {
+  const icon = grounding.score >= 80 ? '🟢' : grounding.score >= 50 ? '🟡' : '🔴';
+  const stripped = grounding.missing_paths.length + grounding.missing_symbols.length;
+  let line = `${icon} Grounding ${grounding.score}% (${grounding.checked} checked`;
+  if (stripped > 0) line += `, ${stripped} stripped`;
+  line += ')';
+  if (grounding.reprompted) line += ' · re-prompted';
+  return line;
+}
+
+const findingIcon = { error: '✗', warning: '~', info: '·' } as const;
+
+/**
+ * README lint score and its worst findings for the details view
+ */
+export function formatReadmeHealth(health: ReadmeHealth): string {
+  const icon = health.score >= 80 ? '🟢' : health.score >= 50 ? '🟡' : '🔴';
+  let msg = `**README HEALTH:** ${icon} ${health.score}/100\n`;
+  health.findings.slice(0, 4).forEach(f => {
+    msg += `${findingIcon[f.severity]} ${formatFinding(f)}\n`;
+  });
+  if (health.findings.length > 4) msg += `_+${health.findings.length - 4} more_\n`;
+  return msg;
+}
+
+const checkIcon = { pass: '✓', warn: '~', fail: '✗' } as const;
+
+/**
+ * Repo check results for the details view - problems first, passes summarized
+ */
+export function formatChecks(report: CheckReport): string {
+  const problems = report.results.filter(r => r.status !== 'pass')
+    .sort((a, b) => (a.status === 'fail' ? 0 : 1) - (b.status === 'fail' ? 0 : 1));
+  const passed = report.results.filter(r => r.status === 'pass');
+
+  let msg = `**CHECKS** @ \`${report.sha.slice(0, 7)}\`\n`;
+  problems.forEach(r => {
+    msg += `${checkIcon[r.status]} ${r.label}: ${r.message}\n`;
+  });
+  if (passed.length) msg += `${checkIcon.pass} ${passed.map(r => r.label).join(', ')}\n`;
+  return msg;
+}
+
+const SPARK = '▁▂▃▄▅▆▇█';
+
+/**
+ * Commit activity for the details view: weekly sparkline, streaks, busiest dirs
+ */
+export function formatCommitHistory(history: CommitHistory): string {
+  const max = Math.max(...history.weekly, 1);
+  const spark = history.weekly.map(n => n === 0 ? ' ' : SPARK[Math.min(SPARK.length - 1, Math.floor((n / max) * SPARK.length))]).join('');
+  const total = `${history.total_commits}${history.truncated ? '+' : ''}`;
+
+  let msg = `**HISTORY (${history.window_days}d):** ${total} commits on ${history.active_days} days
+`;
+  if (history.total_commits > 0) msg += `\`${spark}\`
+`;
+  msg += history.current_streak > 0
+    ? `🔥 ${history.current_streak}-day streak (best ${history.longest_streak})
+`
+    : `Last commit ${history.days_since_last}d ago (best streak ${history.longest_streak})
+`;
+  if (history.churn.length) {
+    msg += `Hot: ${history.churn.slice(0, 3).map(c => `\`${c.dir}\` ${c.commits}/${history.churn_sampled}`).join(' · ')}
+`;
+  }
+  return msg;
+}
+
+/**
+ * Monorepo rollup line for the card: package verdict counts
+ */
+export function formatRollup(rollup: WorkspaceRollup): string {
+  const verdicts = ['ship', 'cut_to_core', 'no_core', 'dead'] as const;
+  const total = verdicts.reduce((sum, v) => sum + (rollup.counts[v] || 0), 0);
+  const counts = verdicts.filter(v => rollup.counts[v]).map(v => `${verdictEmoji[v]} ${rollup.counts[v]}`).join(' · ');
+  let line = `📦 ${total} package${total === 1 ? '' : 's'}: ${counts || 'none analyzed'}`;
+  if (rollup.skipped > 0) line += ` (+${rollup.skipped} not analyzed - /repo <repo>#<path>)`;
+  return line;
+}
+
+/**
+ * Per-package verdicts for the details view
+ */
+export function formatPackages(repo: TrackedRepo): string {
+  let msg = `**PACKAGES:**\n`;
+  for (const pkg of repo.packages || []) {
+    const a = pkg.analysis;
+    msg += `${verdictEmoji[a.verdict] || '⚪'} \`${pkg.path}\` — ${a.code_one_liner || a.one_liner}\n`;
+  }
+  msg += `→ /repo ${repo.owner}/${repo.name}#<path> for one package\n`;
+  return msg;
+}
+
+/**
+ * A package shown through the regular card/details formatters
+ */
+export function packageView(repo: TrackedRepo, pkg: PackageAnalysis): TrackedRepo {
+  return {
+    ...repo,
+    name: `${repo.name}#${pkg.path}`,
+    analysis: pkg.analysis,
+    analyzed_at: pkg.analyzed_at,
+    packages: undefined,
+    rollup: undefined,
+  };
+}
+
 /**
  * Format progress phases for analysis
  */
@@ -6,7 +6,7 @@ import type { Context } from 'grammy';
 import { InlineKeyboard } from 'grammy';
 import { info, error as logErr } from '../../core/logger.js';
 import { stateManager } from '../../core/state.js';
-import { GitHubClient } from '../../core/github.js';
+import { getGitHubClient } from '../../core/github.js';
 import type { TrackedRepo } from '../../core/types.js';
 import { repoSkill } from '../../skills/repo/index.js';
 import { formatCard, formatDetails, formatProgressMessage } from './format.js';
@@ -25,16 +25,6 @@ interface ProgressState {
 
 const MIN_EDIT_INTERVAL = 5000;
 
-// GitHub client singleton
-let github: GitHubClient | null = null;
-
-function getGitHub(): GitHubClient {
-  if (!github) {
-    github = new GitHubClient(process.env.GITHUB_TOKEN!);
-  }
-  return github;
-}
-
 async function updateProgress(
   ctx: Context,
   state: ProgressState,
@@ -105,7 +95,7 @@ export async function handleRepoCommand(ctx: Context, input: string): Promise<vo
     await updateProgress(ctx, state, 'fetching');
 
     // Fetch info to validate repo exists
-    const repoInfo = await getGitHub().getRepoInfo(owner, name);
+    const repoInfo = await getGitHubClient().getRepoInfo(owner, name);
     if (!repoInfo) {
       await ctx.api.editMessageText(state.chatId, state.messageId, `❌ "${owner}/${name}" not found or private.`);
       return;
@@ -120,7 +110,7 @@ export async function handleRepoCommand(ctx: Context, input: string): Promise<vo
       forceRefresh: true, // Always fresh analysis for command
     }, {
       // Minimal context - skill uses global clients internally
-      github: getGitHub(),
+      github: getGitHubClient(),
       anthropic: {} as never,
       gemini: {} as never,
       kv: {} as never,
@@ -217,7 +207,7 @@ async function resolveRepo(input: string): Promise<{ owner: string; name: string
     return { owner, name };
   }
 
-  const repos = await getGitHub().getUserRepos();
+  const repos = await getGitHubClient().getUserRepos();
   const found = repos.find(r => r.name.toLowerCase() === input.toLowerCase());
   if (!found) {
     throw new Error(`"${input}" not found. Use owner/name for external repos.`);
@@ -0,0 +1,317 @@
+/**
+ * Code Sampler
+ *
+ * Picks the source files most likely to hold a repo's core and fetches them
+ * within a character budget, so the analysis prompt sees real code (and real
+ * exported symbols) instead of just paths.
+ *
+ * Ranking:
+ *   1. Entrypoint heuristics - package.json main/bin/exports, index/main/app/cli names, shallow paths
+ *   2. Recent churn - files touched by the latest commits
+ *   3. Import graph centrality - how many sampled files import a file (local imports only)
+ */
+
+import type { GitHubClient, GitHubCommit } from '../../core/github.js';
+import { info, error as logErr } from '../../core/logger.js';
+
+export interface CodeSample {
+  path: string;
+  content: string;
+  /** Exported / public top-level names found in the content */
+  symbols: string[];
+  truncated: boolean;
+}
+
+export interface SampleOptions {
+  /** Total characters of code to include (~4 chars per token) */
+  budgetChars?: number;
+  /** Cap per file, so one huge file can't eat the budget */
+  maxFileChars?: number;
+  /** Files fetched in the first pass */
+  candidates?: number;
+  /** Directory package.json lives in (monorepo packages); its entrypoints are relative to it */
+  root?: string;
+}
+
+const DEFAULTS: Required<SampleOptions> = {
+  budgetChars: 24000,
+  maxFileChars: 6000,
+  candidates: 12,
+  root: '',
+};
+
+const SOURCE_EXTENSIONS = new Set([
+  'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'vue', 'svelte',
+  'py', 'rs', 'go', 'rb', 'php', 'java', 'kt', 'swift', 'cs', 'ex', 'exs', 'scala',
+  'c', 'cc', 'cpp', 'h', 'hpp',
+]);
+
+const ENTRY_NAMES = new Set(['index', 'main', 'app', 'cli', 'server', 'lib', 'mod', '__main__', 'core']);
+
+const IGNORED = [
+  /(^|\/)(node_modules|dist|build|out|vendor|coverage|target|\.next|__pycache__|examples?|fixtures?|migrations)\//,
+  /(^|\/)(tests?|__tests__|spec|__mocks__)\//,
+  /\.(test|spec)\.\w+$/,
+  /_test\.go$/,
+  /\.d\.ts$/,
+  /\.min\.js$/,
+  /(^|\/)[^/]+\.config\.[cm]?[jt]s$/,
+];
+
+/**
+ * Sample the repo's most central source files.
+ * Never throws - an empty list just means the prompt falls back to paths.
+ */
+export async function sampleCode(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  files: string[],
+  commits: GitHubCommit[],
+  packageJson: string | null,
+  options: SampleOptions = {}
+): Promise<CodeSample[]> {
+  const opts = { ...DEFAULTS, ...options };
+
+  try {
+    const sources = files.filter(isSourceFile);
+    if (sources.length === 0) return [];
+
+    const churn = await getChurn(github, owner, repo, commits);
+    const entrypoints = getManifestEntrypoints(packageJson, opts.root);
+    const scores = new Map(sources.map(path => [path, scorePath(path, entrypoints, churn)]));
+
+    // First pass: fetch the best-looking candidates
+    const ranked = [...sources].sort((a, b) => scores.get(b)! - scores.get(a)!);
+    const contents = new Map<string, string>();
+    await fetchInto(github, owner, repo, ranked.slice(0, opts.candidates), contents);
+
+    // Centrality: files imported by what we fetched. Pull in popular ones we missed.
+    const sourceSet = new Set(sources);
+    const inDegree = new Map<string, number>();
+    for (const [path, content] of contents) {
+      for (const target of resolveImports(path, content, sourceSet)) {
+        inDegree.set(target, (inDegree.get(target) || 0) + 1);
+      }
+    }
+    const missed = [...inDegree]
+      .filter(([path, count]) => count >= 2 && !contents.has(path))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 4)
+      .map(([path]) => path);
+    await fetchInto(github, owner, repo, missed, contents);
+
+    const final = [...contents.keys()]
+      .map(path => ({ path, score: scores.get(path)! + 2 * (inDegree.get(path) || 0) }))
+      .sort((a, b) => b.score - a.score);
+
+    // Fill the budget in rank order
+    const samples: CodeSample[] = [];
+    let remaining = opts.budgetChars;
+    for (const { path } of final) {
+      if (remaining < 500) break;
+      const content = contents.get(path)!;
+      const limit = Math.min(opts.maxFileChars, remaining);
+      const truncated = content.length > limit;
+      const body = truncated ? content.slice(0, limit) : content;
+      samples.push({ path, content: body, symbols: extractSymbols(path, content), truncated });
+      remaining -= body.length;
+    }
+
+    info('sampler', 'Sampled', {
+      owner, repo,
+      sources: sources.length,
+      fetched: contents.size,
+      sampled: samples.length,
+      chars: opts.budgetChars - remaining,
+    });
+    return samples;
+  } catch (err) {
+    logErr('sampler', err, { owner, repo });
+    return [];
+  }
+}
+
+// ============ RANKING ============
+
+export function isSourceFile(path: string): boolean {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  return SOURCE_EXTENSIONS.has(ext) && !IGNORED.some(re => re.test(path));
+}
+
+function scorePath(path: string, entrypoints: Set<string>, churn: Map<string, number>): number {
+  const parts = path.split('/');
+  const base = parts[parts.length - 1].replace(/\.\w+$/, '').toLowerCase();
+  const depth = parts.length - 1;
+
+  let score = 0;
+  if (entrypoints.has(path)) score += 5;
+  if (ENTRY_NAMES.has(base)) score += 3;
+  if (/^(src|lib|app|cmd|pkg|internal|crates)\//.test(path)) score += 1;
+  score += 1.5 * (churn.get(path) || 0);
+  score -= 0.5 * Math.max(0, depth - 2);
+  return score;
+}
+
+/** main/module/bin/exports targets from package.json, normalized to repo paths */
+function getManifestEntrypoints(packageJson: string | null, root: string): Set<string> {
+  const result = new Set<string>();
+  if (!packageJson) return result;
+
+  try {
+    const pkg = JSON.parse(packageJson);
+    const targets: unknown[] = [pkg.main, pkg.module, pkg.source];
+    if (typeof pkg.bin === 'string') targets.push(pkg.bin);
+    else if (pkg.bin && typeof pkg.bin === 'object') targets.push(...Object.values(pkg.bin));
+    targets.push(...exportTargets(pkg.exports));
+
+    for (const target of targets) {
+      if (typeof target !== 'string') continue;
+      const path = target.replace(/^\.\//, '');
+      const prefix = root ? `${root}/` : '';
+      result.add(prefix + path);
+      // Built output usually mirrors a TS source (dist/index.js <- src/index.ts)
+      result.add(prefix + path.replace(/^(dist|build|lib|out)\//, 'src/').replace(/\.[cm]?js$/, '.ts'));
+    }
+  } catch { /* malformed package.json */ }
+
+  return result;
+}
+
+/**
+ * File targets of an `exports` field: a string, a subpath map
+ * ({ ".": "./dist/index.js", "./cli": ... }) or conditions
+ * ({ import, require, types, ... }), nested to any depth
+ */
+function exportTargets(exports: unknown): string[] {
+  if (typeof exports === 'string') return exports.endsWith('.d.ts') || exports.endsWith('.json') ? [] : [exports];
+  if (Array.isArray(exports)) return exports.flatMap(exportTargets);
+  if (exports && typeof exports === 'object') return Object.values(exports).flatMap(exportTargets);
+  return [];
+}
+
+/** Times each file was touched in the recent commits */
+async function getChurn(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  commits: GitHubCommit[]
+): Promise<Map<string, number>> {
+  const churn = new Map<string, number>();
+  const touched = await Promise.all(commits.slice(0, 5).map(c => github.getCommitFiles(owner, repo, c.sha)));
+  for (const path of touched.flat()) {
+    churn.set(path, (churn.get(path) || 0) + 1);
+  }
+  return churn;
+}
+
+async function fetchInto(
+  github: GitHubClient,
+  owner: string,
+  repo: string,
+  paths: string[],
+  into: Map<string, string>
+): Promise<void> {
+  const results = await Promise.all(paths.map(path => github.getFileContent(owner, repo, path)));
+  paths.forEach((path, i) => {
+    const content = results[i];
+    if (content) into.set(path, content);
+  });
+}
+
+// ============ IMPORTS ============
+
+/**
+ * Local files a source imports (relative JS/TS, Python packages, Rust `mod`)
+ */
+export function resolveImports(path: string, content: string, sources: Set<string>): string[] {
+  const dir = path.split('/').slice(0, -1).join('/');
+  const found = new Set<string>();
+  const add = (candidates: string[]) => {
+    const hit = candidates.find(c => sources.has(c) && c !== path);
+    if (hit) found.add(hit);
+  };
+
+  if (/\.(tsx?|jsx?|mjs|cjs|vue|svelte)$/.test(path)) {
+    const re = /(?:from\s+|import\s+|require\(\s*|import\(\s*)['"](\.{1,2}\/[^'"]+)['"]/g;
+    for (const match of content.matchAll(re)) {
+      const target = joinPath(dir, match[1]);
+      const stem = target.replace(/\.[cm]?js$/, '');
+      add([
+        target,
+        ...['ts', 'tsx', 'js', 'jsx', 'mjs', 'vue', 'svelte'].map(ext => `${stem}.${ext}`),
+        ...['ts', 'tsx', 'js'].map(ext => `${stem}/index.${ext}`),
+      ]);
+    }
+  } else if (path.endsWith('.py')) {
+    for (const match of content.matchAll(/^\s*(?:from|import)\s+(\.*)([\w.]*)/gm)) {
+      const [, dots, module] = match;
+      // "." is this package, each extra dot one level up
+      const parts = dir ? dir.split('/') : [];
+      const base = dots ? parts.slice(0, Math.max(0, parts.length - (dots.length - 1))).join('/') : '';
+      const rel = module.replace(/\./g, '/');
+      const target = [base, rel].filter(Boolean).join('/');
+      if (!target) continue;
+      add([`${target}.py`, `${target}/__init__.py`, `src/${target}.py`, `src/${target}/__init__.py`]);
+    }
+  } else if (path.endsWith('.rs')) {
+    const modDir = /(^|\/)(main|lib|mod)\.rs$/.test(path) ? dir : path.replace(/\.rs$/, '');
+    for (const match of content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm)) {
+      const target = joinPath(modDir, match[1]);
+      add([`${target}.rs`, `${target}/mod.rs`]);
+    }
+  }
+
+  return [...found];
+}
+
+function joinPath(dir: string, relative: string): string {
+  const parts = dir ? dir.split('/') : [];
+  for (const segment of relative.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.' && segment !== '') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+// ============ SYMBOLS ============
+
+/**
+ * Exported / public top-level names, by language
+ */
+export function extractSymbols(path: string, content: string): string[] {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  const symbols = new Set<string>();
+  const collect = (re: RegExp, group = 1) => {
+    for (const match of content.matchAll(re)) {
+      if (match[group]) symbols.add(match[group]);
+    }
+  };
+
+  if (['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'vue', 'svelte'].includes(ext)) {
+    collect(/^export\s+(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z_$][\w$]*)/gm);
+    for (const match of content.matchAll(/^export\s*\{([^}]+)\}/gm)) {
+      for (const name of match[1].split(',')) {
+        const exported = name.trim().split(/\s+as\s+/).pop()?.trim();
+        if (exported && exported !== 'default' && !exported.startsWith('type ')) symbols.add(exported);
+      }
+    }
+    collect(/^(?:module\.)?exports\.(\w+)\s*=/gm);
+  } else if (ext === 'py') {
+    collect(/^(?:async\s+)?def\s+([A-Za-z]\w*)/gm);
+    collect(/^class\s+([A-Za-z]\w*)/gm);
+  } else if (ext === 'go') {
+    collect(/^func\s+(?:\([^)]*\)\s*)?([A-Z]\w*)/gm);
+    collect(/^type\s+([A-Z]\w*)/gm);
+  } else if (ext === 'rs') {
+    collect(/^\s*pub(?:\([^)]*\))?\s+(?:async\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|type|const|static|mod)\s+(\w+)/gm);
+  } else if (ext === 'rb') {
+    collect(/^\s*(?:class|module)\s+([A-Z]\w*)/gm);
+    collect(/^\s*def\s+(?:self\.)?(\w+[?!]?)/gm);
+  } else {
+    // Java, Kotlin, Swift, C#, PHP, C...: public/top-level declarations
+    collect(/^\s*(?:public\s+|export\s+)?(?:static\s+|final\s+|abstract\s+|open\s+|data\s+)*(?:class|interface|struct|enum|protocol|trait|object|fun|func|function)\s+([A-Za-z_]\w*)/gm);
+  }
+
+  return [...symbols].slice(0, 20);
+}
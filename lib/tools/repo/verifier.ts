@@ -0,0 +1,129 @@
+/**
+ * Evidence Verifier
+ *
+ * Checks an analysis against the real repo: every core_evidence file, keep
+ * and cut path must exist in the tree, and every claimed symbol must appear in
+ * the source we fetched. Invalid entries are stripped (evidence with some bad
+ * symbols is kept but ranked last) and the result carries a grounding score.
+ */
+
+import type { CoreAnalysis, CoreEvidence, Grounding } from '../../core/types.js';
+import type { CodeSample } from './sampler.js';
+
+export interface VerifyOptions {
+  files: string[];
+  samples: CodeSample[];
+  /**
+   * Set when the tree only lists paths this many segments deep (GraphQL
+   * snapshots). Deeper paths that aren't found can't be judged and are skipped.
+   */
+  treeDepth?: number;
+}
+
+export interface Verification {
+  analysis: CoreAnalysis;
+  grounding: Grounding;
+  /** Share of checked items that failed (0-1) */
+  invalidRatio: number;
+}
+
+/** Re-prompt when more than this share of checked evidence is invalid */
+export const REPROMPT_THRESHOLD = 0.3;
+
+export function verifyAnalysis(analysis: CoreAnalysis, options: VerifyOptions): Verification {
+  const files = new Set(options.files);
+  const dirs = new Set(options.files.flatMap(parentDirs));
+  const sources = new Map(options.samples.map(s => [s.path, s]));
+
+  let checked = 0;
+  const missingPaths = new Set<string>();
+  const missingSymbols: string[] = [];
+
+  /** true = exists, false = missing, null = can't tell */
+  const checkPath = (entry: string): boolean | null => {
+    const path = entry.replace(/^\.?\//, '').replace(/\/$/, '');
+    if (!path) return null;
+    const exists = files.has(path) || dirs.has(path);
+    if (!exists && options.treeDepth && path.split('/').length >= options.treeDepth) return null;
+    checked++;
+    if (!exists) missingPaths.add(entry);
+    return exists;
+  };
+
+  const checkSymbol = (file: string, symbol: string): boolean | null => {
+    const sample = sources.get(file.replace(/^\.?\//, ''));
+    if (!sample) return null;
+    // Allow "Class.method" / "fn()" styles by checking each name part
+    const names = symbol.replace(/\(.*\)$/, '').split(/[.#:]+/).filter(Boolean);
+    const found = names.length > 0 && names.every(name => new RegExp(`\\b${escapeRegExp(name)}\\b`).test(sample.content));
+    if (!found && sample.truncated) return null;
+    checked++;
+    if (!found) missingSymbols.push(`${file}:${symbol}`);
+    return found;
+  };
+
+  const evidence: Array<{ entry: CoreEvidence; clean: boolean }> = [];
+  for (const entry of analysis.core_evidence) {
+    if (checkPath(entry.file) === false) continue;
+    const symbols = entry.symbols.filter(symbol => checkSymbol(entry.file, symbol) !== false);
+    evidence.push({ entry: { ...entry, symbols }, clean: symbols.length === entry.symbols.length });
+  }
+
+  const keep = analysis.keep.filter(path => checkPath(path) !== false);
+  const cut = analysis.cut.filter(path => checkPath(path) !== false);
+
+  const invalid = missingPaths.size + missingSymbols.length;
+  const invalidRatio = checked > 0 ? invalid / checked : 0;
+
+  const grounding: Grounding = {
+    score: checked > 0 ? Math.round(100 * (1 - invalidRatio)) : 100,
+    checked,
+    missing_paths: [...missingPaths],
+    missing_symbols: missingSymbols,
+    reprompted: false,
+  };
+
+  return {
+    analysis: {
+      ...analysis,
+      // Down-rank evidence that lost symbols; fully verified entries first
+      core_evidence: [...evidence.filter(e => e.clean), ...evidence.filter(e => !e.clean)].map(e => e.entry),
+      keep,
+      cut,
+      grounding,
+    },
+    grounding,
+    invalidRatio,
+  };
+}
+
+/**
+ * Follow-up message for the re-prompt: what didn't check out, and what did exist
+ */
+export function buildGroundingFeedback(grounding: Grounding, samples: CodeSample[]): string {
+  const lines = ['Some of your evidence does not match the repository. Fix it and return the full JSON again.', ''];
+
+  if (grounding.missing_paths.length > 0) {
+    lines.push('These paths do NOT exist in the file tree:', ...grounding.missing_paths.map(p => `- ${p}`), '');
+  }
+  if (grounding.missing_symbols.length > 0) {
+    lines.push('These symbols do NOT appear in the named files:', ...grounding.missing_symbols.map(s => `- ${s}`), '');
+  }
+
+  const known = samples.filter(s => s.symbols.length > 0);
+  if (known.length > 0) {
+    lines.push('Symbols that do exist:', ...known.map(s => `- ${s.path}: ${s.symbols.join(', ')}`), '');
+  }
+
+  lines.push('Only cite paths from the file tree and symbols from the code samples. Return ONLY valid JSON.');
+  return lines.join('\n');
+}
+
+function parentDirs(path: string): string[] {
+  const parts = path.split('/');
+  return parts.slice(1).map((_, i) => parts.slice(0, i + 1).join('/'));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -6,7 +6,8 @@
 import type { Context } from 'grammy';
 import { info, error as logErr } from '../../core/logger.js';
 import { stateManager } from '../../core/state.js';
-import { GitHubClient } from '../../core/github.js';
+import { getGitHubClient, getCurrentRateLimit } from '../../core/github.js';
+import { formatRateLimit } from '../../bot/format.js';
 import { scanSkill } from '../../skills/scan/index.js';
 import {
   formatScanProgress,
@@ -18,16 +19,6 @@ import {
 } from './format.js';
 import { acquireLock, releaseLock } from '../../core/update-guard.js';
 
-// GitHub singleton
-let github: GitHubClient | null = null;
-
-function getGitHub(): GitHubClient {
-  if (!github) {
-    github = new GitHubClient(process.env.GITHUB_TOKEN!);
-  }
-  return github;
-}
-
 /**
  * Handle /scan command
  */
@@ -71,7 +62,10 @@ export async function handleCancelCommand(ctx: Context): Promise<void> {
  * Handle /status command
  */
 export async function handleStatusCommand(ctx: Context): Promise<void> {
-  const counts = await stateManager.getRepoCounts();
+  const [counts, rateLimit] = await Promise.all([
+    stateManager.getRepoCounts(),
+    getCurrentRateLimit(),
+  ]);
   const msg = `📊 **Status**
 
 🟢 Ready: ${counts.ready}
@@ -80,7 +74,7 @@ export async function handleStatusCommand(ctx: Context): Promise<void> {
 ☠️ Dead: ${counts.dead}
 🚀 Shipped: ${counts.shipped}
 
-Total: ${counts.total}`;
+Total: ${counts.total}${rateLimit ? `\n${formatRateLimit(rateLimit)}` : ''}`;
 
   await ctx.reply(msg, { parse_mode: 'Markdown' });
 }
@@ -136,7 +130,7 @@ async function runScan(ctx: Context, days: number): Promise<void> {
         await updateProgress();
       },
     }, {
-      github: getGitHub(),
+      github: getGitHubClient(),
       anthropic: {} as never,
       gemini: {} as never,
       kv: {} as never,
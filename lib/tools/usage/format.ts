@@ -0,0 +1,61 @@
+/**
+ * Usage Formatting for Telegram
+ */
+
+import type { UsageReport, UsageTotals } from '../../core/types.js';
+
+/**
+ * Month total, then spend by task type and the costliest repos
+ */
+export function formatUsageReport(report: UsageReport, topRepos = 8): string {
+  const tasks = sortByCost(report.by_task);
+  if (tasks.length === 0) {
+    return `💸 No LLM usage recorded for ${report.month}.`;
+  }
+
+  const total = tasks.reduce((sum, [, t]) => ({
+    calls: sum.calls + t.calls,
+    input_tokens: sum.input_tokens + t.input_tokens,
+    output_tokens: sum.output_tokens + t.output_tokens,
+    cost_usd: sum.cost_usd + t.cost_usd,
+    fallbacks: sum.fallbacks + t.fallbacks,
+  }), { calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, fallbacks: 0 });
+
+  const lines = [
+    `💸 **LLM usage — ${report.month}**`,
+    `${formatCost(total.cost_usd)} · ${formatTotals(total)}`,
+    '',
+    '**By task**',
+    ...tasks.map(([task, t]) => `• ${task} — ${formatCost(t.cost_usd)} · ${t.calls} call${t.calls === 1 ? '' : 's'}`),
+  ];
+
+  const repos = sortByCost(report.by_repo);
+  if (repos.length > 0) {
+    lines.push('', '**Top repos**');
+    for (const [repo, t] of repos.slice(0, topRepos)) {
+      lines.push(`• ${repo} — ${formatCost(t.cost_usd)} · ${t.calls} call${t.calls === 1 ? '' : 's'}`);
+    }
+    if (repos.length > topRepos) lines.push(`_... +${repos.length - topRepos} more_`);
+  }
+
+  return lines.join('\n');
+}
+
+function formatTotals(t: UsageTotals): string {
+  const fallbacks = t.fallbacks > 0 ? ` · ${t.fallbacks} fallback${t.fallbacks === 1 ? '' : 's'}` : '';
+  return `${t.calls} calls · ${formatTokens(t.input_tokens)} in / ${formatTokens(t.output_tokens)} out${fallbacks}`;
+}
+
+function formatCost(usd: number): string {
+  return usd < 0.01 && usd > 0 ? '<$0.01' : `$${usd.toFixed(2)}`;
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${Math.round(n / 1_000)}k`;
+  return String(n);
+}
+
+function sortByCost(totals: Record<string, UsageTotals>): Array<[string, UsageTotals]> {
+  return Object.entries(totals).sort(([, a], [, b]) => b.cost_usd - a.cost_usd || b.calls - a.calls);
+}
@@ -0,0 +1,24 @@
+/**
+ * Usage Tool Handler
+ * /usage - LLM tokens and cost for the month
+ */
+
+import type { Context } from 'grammy';
+import { info } from '../../core/logger.js';
+import { getUsageReport, usageMonth } from '../../llm/index.js';
+import { formatUsageReport } from './format.js';
+
+/**
+ * Handle /usage [YYYY-MM]
+ */
+export async function handleUsageCommand(ctx: Context, input: string): Promise<void> {
+  const month = input.trim() || usageMonth();
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    await ctx.reply('Usage: `/usage` or `/usage 2025-01`', { parse_mode: 'Markdown' });
+    return;
+  }
+
+  const report = await getUsageReport(month);
+  await ctx.reply(formatUsageReport(report), { parse_mode: 'Markdown' });
+  info('usage', 'Report', { month, tasks: Object.keys(report.by_task).length });
+}
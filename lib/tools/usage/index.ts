@@ -0,0 +1,21 @@
+/**
+ * Usage Tool
+ * LLM token and cost accounting per task type and per repo
+ */
+
+import type { Tool } from '../types.js';
+import { handleUsageCommand } from './handler.js';
+
+export const usageTool: Tool = {
+  name: 'usage',
+  version: '1.0.0',
+  description: 'LLM usage and cost',
+
+  commands: [
+    {
+      name: 'usage',
+      description: 'Show this month\'s LLM tokens and cost by task and repo',
+      handler: handleUsageCommand,
+    },
+  ],
+};
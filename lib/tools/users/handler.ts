@@ -0,0 +1,185 @@
+/**
+ * Users Tool Handler
+ * Invites, allowlist management and per-user GitHub access
+ */
+
+import type { Context } from 'grammy';
+import { InlineKeyboard } from 'grammy';
+import { info, error as logErr } from '../../core/logger.js';
+import { GitHubClient } from '../../core/github.js';
+import {
+  getCurrentUser,
+  createInvite,
+  listUsers,
+  removeUser,
+  setUserGitHubToken,
+  setUserGitHubConnection,
+  type BotUser,
+} from '../../core/users.js';
+import {
+  isGitHubAppConfigured,
+  createConnectState,
+  getInstallUrl,
+  forgetInstallation,
+} from '../../core/github-app.js';
+import { isSecretsConfigured } from '../../core/secrets.js';
+
+/**
+ * Handle /invite - owner creates a one-time invite link
+ */
+export async function handleInviteCommand(ctx: Context): Promise<void> {
+  const user = requireOwner(ctx);
+  if (!user) return;
+
+  const invite = await createInvite(user.id);
+  const link = `https://t.me/${ctx.me.username}?start=${invite.code}`;
+
+  await ctx.reply(
+    `🎟️ **Invite created** (valid 7 days, single use)\n\n${link}\n\n` +
+    `Or have them send: \`/start ${invite.code}\``,
+    { parse_mode: 'Markdown', link_preview_options: { is_disabled: true } }
+  );
+  info('users', 'Invite created', { by: user.id });
+}
+
+/**
+ * Handle /users - owner lists everyone with access
+ */
+export async function handleUsersCommand(ctx: Context): Promise<void> {
+  if (!requireOwner(ctx)) return;
+
+  const users = await listUsers();
+  const lines = users.map(u => {
+    const label = u.name ? `${u.name} (\`${u.id}\`)` : `\`${u.id}\``;
+    const role = u.role === 'owner' ? ' 👑' : '';
+    return `• ${label}${role} — ${formatConnection(u)}`;
+  });
+
+  await ctx.reply(`👥 **Users (${users.length})**\n\n${lines.join('\n')}\n\n/revoke <id> to remove`, {
+    parse_mode: 'Markdown',
+  });
+}
+
+/**
+ * Handle /revoke <id> - owner removes a member and their data
+ */
+export async function handleRevokeCommand(ctx: Context, input: string): Promise<void> {
+  if (!requireOwner(ctx)) return;
+
+  const id = input.trim();
+  if (!id) {
+    await ctx.reply('Usage: `/revoke <telegram-id>` (see /users)', { parse_mode: 'Markdown' });
+    return;
+  }
+
+  const removed = await removeUser(id);
+  await ctx.reply(removed ? `✅ Removed \`${id}\`` : `❌ No member \`${id}\``, { parse_mode: 'Markdown' });
+  info('users', 'Revoke', { id, removed });
+}
+
+/**
+ * Handle /token <pat> - set (or clear) the caller's GitHub token
+ */
+export async function handleTokenCommand(ctx: Context, input: string): Promise<void> {
+  const user = getCurrentUser();
+  if (!user) return;
+
+  const token = input.trim();
+
+  // Don't leave the token sitting in chat history
+  if (token) {
+    try {
+      await ctx.deleteMessage();
+    } catch { /* may lack permission */ }
+  }
+
+  if (!token) {
+    await ctx.reply(
+      user.github?.type === 'token'
+        ? `🔑 Using a personal token (${user.github.login}). \`/token clear\` to remove it.`
+        : 'Usage: `/token <github-personal-access-token>` (needs `repo` scope)',
+      { parse_mode: 'Markdown' }
+    );
+    return;
+  }
+
+  if (token === 'clear') {
+    await setUserGitHubConnection(user, null);
+    await ctx.reply('🗑️ GitHub token removed.');
+    return;
+  }
+
+  if (!isSecretsConfigured()) {
+    await ctx.reply('❌ Token storage needs `TOKEN_ENCRYPTION_KEY` set on the deployment.', { parse_mode: 'Markdown' });
+    return;
+  }
+
+  try {
+    const { login } = await new GitHubClient(token).getAuthenticatedUser();
+    await setUserGitHubToken(user, token, login);
+    await ctx.reply(`✅ Connected as **${login}**. Try /scan.`, { parse_mode: 'Markdown' });
+    info('users', 'Token set', { user: user.id, login });
+  } catch (err) {
+    logErr('users', err, { user: user.id });
+    await ctx.reply('❌ GitHub rejected that token. Check it has `repo` scope.', { parse_mode: 'Markdown' });
+  }
+}
+
+/**
+ * Handle /connect - link a GitHub account through the GitHub App
+ */
+export async function handleConnectCommand(ctx: Context): Promise<void> {
+  const user = getCurrentUser();
+  if (!user) return;
+
+  if (!isGitHubAppConfigured()) {
+    await ctx.reply('GitHub App isn\'t configured on this deployment. Use `/token <pat>` instead.', {
+      parse_mode: 'Markdown',
+    });
+    return;
+  }
+
+  const state = await createConnectState(user.id);
+  const current = user.github ? `Currently: ${formatConnection(user)}\n\n` : '';
+
+  await ctx.reply(`${current}🔗 Install the app on the account or repos you want me to see:`, {
+    reply_markup: new InlineKeyboard().url('Connect GitHub', getInstallUrl(state)),
+  });
+  info('users', 'Connect link sent', { user: user.id });
+}
+
+/**
+ * Handle /disconnect - forget the caller's GitHub access
+ */
+export async function handleDisconnectCommand(ctx: Context): Promise<void> {
+  const user = getCurrentUser();
+  if (!user) return;
+
+  if (!user.github) {
+    await ctx.reply('Nothing connected.');
+    return;
+  }
+
+  if (user.github.type === 'app') {
+    await forgetInstallation(user.github.installation_id);
+  }
+  await setUserGitHubConnection(user, null);
+  await ctx.reply('🔌 GitHub disconnected. Uninstall the app from GitHub settings to revoke access fully.');
+  info('users', 'Disconnected', { user: user.id });
+}
+
+// Helpers
+function formatConnection(user: BotUser): string {
+  if (user.github?.type === 'app') return `🔗 app (${user.github.login})`;
+  if (user.github?.type === 'token') return `🔑 token (${user.github.login})`;
+  return user.role === 'owner' ? 'env token' : '⚠️ not connected';
+}
+
+function requireOwner(ctx: Context): BotUser | null {
+  const user = getCurrentUser();
+  if (user?.role !== 'owner') {
+    ctx.reply('🔒 Only the bot owner can do that.').catch(() => {});
+    return null;
+  }
+  return user;
+}
@@ -0,0 +1,53 @@
+/**
+ * Users Tool
+ * Multi-user access: invites, allowlist, per-user GitHub access
+ */
+
+import type { Tool } from '../types.js';
+import {
+  handleInviteCommand,
+  handleUsersCommand,
+  handleRevokeCommand,
+  handleTokenCommand,
+  handleConnectCommand,
+  handleDisconnectCommand,
+} from './handler.js';
+
+export const usersTool: Tool = {
+  name: 'users',
+  version: '1.0.0',
+  description: 'Invite teammates and manage access',
+
+  commands: [
+    {
+      name: 'invite',
+      description: 'Create a one-time invite link (owner)',
+      handler: handleInviteCommand,
+    },
+    {
+      name: 'users',
+      description: 'List users with access (owner)',
+      handler: handleUsersCommand,
+    },
+    {
+      name: 'revoke',
+      description: 'Remove a user and their data (owner)',
+      handler: handleRevokeCommand,
+    },
+    {
+      name: 'connect',
+      description: 'Connect GitHub via the GitHub App',
+      handler: handleConnectCommand,
+    },
+    {
+      name: 'disconnect',
+      description: 'Disconnect your GitHub account',
+      handler: handleDisconnectCommand,
+    },
+    {
+      name: 'token',
+      description: 'Set a personal GitHub token',
+      handler: handleTokenCommand,
+    },
+  ],
+};
@@ -13,6 +13,9 @@
  * - git@github.com:owner/repo.git
  * - owner/repo
  * - repo (searches user's repos)
+ *
+ * owner/repo and repo may end in #path to address a monorepo package:
+ * - owner/repo#packages/core
  */
 
 // Regex patterns for GitHub URLs
@@ -88,11 +91,29 @@ export function isGitHubUrl(input: string): boolean {
  * @returns "owner/repo" string, or original input if not a URL
  */
 export function normalizeRepoInput(input: string): string {
-  const parsed = parseGitHubUrl(input);
+  // In URLs "#" is a page anchor (#readme), not a package path
+  const { repo, path } = isGitHubUrl(input) ? { repo: input.trim(), path: null } : parsePackageRef(input);
+  const suffix = path ? `#${path}` : '';
+  const parsed = parseGitHubUrl(repo);
   if (parsed) {
-    return `${parsed.owner}/${parsed.name}`;
+    return `${parsed.owner}/${parsed.name}${suffix}`;
   }
   // Return as-is (could be just a repo name)
-  return input.trim();
+  return repo + suffix;
+}
+
+/**
+ * Split a "#path" package suffix off repo input
+ *
+ * @param input - e.g. "owner/repo#packages/core"
+ * @returns repo part, and the package path (no leading/trailing slashes) or null
+ */
+export function parsePackageRef(input: string): { repo: string; path: string | null } {
+  const trimmed = input.trim();
+  const hash = trimmed.indexOf('#');
+  if (hash === -1) return { repo: trimmed, path: null };
+
+  const path = trimmed.slice(hash + 1).replace(/^\.?\/+/, '').replace(/\/+$/, '');
+  return { repo: trimmed.slice(0, hash).trim(), path: path || null };
 }
 
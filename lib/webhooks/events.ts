@@ -0,0 +1,204 @@
+/**
+ * GitHub Webhook Events
+ *
+ * Compact Telegram notifications for non-push events. Each formatter decides
+ * whether an event is worth a message (e.g. only failed workflow runs, only
+ * merged - not closed - PRs) and returns null otherwise.
+ *
+ * Push events stay in api/github-webhook.ts (they have their own idempotency).
+ */
+
+// ============ PAYLOADS (only the fields we read) ============
+
+interface Repository {
+  full_name: string;
+  name: string;
+  stargazers_count?: number;
+}
+
+interface Sender {
+  login: string;
+}
+
+export interface ReleaseEvent {
+  action: string;
+  release: { tag_name: string; name: string | null; html_url: string; prerelease: boolean; body: string | null };
+  repository: Repository;
+}
+
+export interface WorkflowRunEvent {
+  action: string;
+  workflow_run: {
+    name: string;
+    head_branch: string;
+    conclusion: string | null;
+    html_url: string;
+    run_attempt?: number;
+    head_commit: { message: string } | null;
+  };
+  repository: Repository;
+}
+
+export interface PullRequestEvent {
+  action: string;
+  pull_request: { number: number; title: string; html_url: string; merged: boolean; draft?: boolean; user: Sender };
+  repository: Repository;
+  sender: Sender;
+}
+
+export interface IssuesEvent {
+  action: string;
+  issue: { number: number; title: string; html_url: string; user: Sender };
+  repository: Repository;
+}
+
+export interface StarEvent {
+  action: string;
+  repository: Repository;
+  sender: Sender;
+}
+
+export interface DeploymentStatusEvent {
+  deployment_status: {
+    state: string;
+    environment: string;
+    environment_url?: string | null;
+    target_url?: string | null;
+    description?: string | null;
+  };
+  deployment: { ref: string };
+  repository: Repository;
+}
+
+// ============ NOTIFICATION ============
+
+export interface WebhookNotification {
+  /** owner/name, for recipient lookup */
+  fullName: string;
+  message: string;
+  /** URL button shown above the repo actions */
+  link?: { text: string; url: string };
+}
+
+type EventFormatter = (payload: never) => WebhookNotification | null;
+
+const formatters: Record<string, EventFormatter> = {
+  release: formatRelease,
+  workflow_run: formatWorkflowRun,
+  pull_request: formatPullRequest,
+  issues: formatIssue,
+  star: formatStar,
+  deployment_status: formatDeploymentStatus,
+};
+
+/**
+ * Events handled here (besides push)
+ */
+export function isSupportedEvent(event: string): boolean {
+  return Object.hasOwn(formatters, event);
+}
+
+/**
+ * Build the notification for an event, or null if it isn't worth sending
+ */
+export function formatWebhookEvent(event: string, payload: unknown): WebhookNotification | null {
+  if (!isSupportedEvent(event)) return null;
+  return formatters[event](payload as never);
+}
+
+// ============ FORMATTERS ============
+
+function formatRelease(e: ReleaseEvent): WebhookNotification | null {
+  if (e.action !== 'published') return null;
+  const { release, repository } = e;
+
+  const lines = [`🏷️ **${repository.name}** ${release.prerelease ? 'pre-release' : 'released'} \`${release.tag_name}\``];
+  if (release.name && release.name !== release.tag_name) lines.push(`"${truncate(release.name, 60)}"`);
+  const highlight = firstLine(release.body);
+  if (highlight) lines.push('', `• ${truncate(highlight, 80)}`);
+
+  return { fullName: repository.full_name, message: lines.join('\n'), link: { text: '🔗 Release', url: release.html_url } };
+}
+
+function formatWorkflowRun(e: WorkflowRunEvent): WebhookNotification | null {
+  const run = e.workflow_run;
+  if (e.action !== 'completed' || !['failure', 'timed_out', 'startup_failure'].includes(run.conclusion || '')) return null;
+
+  const lines = [
+    `❌ **${e.repository.name}** ${run.name} ${run.conclusion === 'timed_out' ? 'timed out' : 'failed'} on \`${run.head_branch}\``,
+  ];
+  const commit = firstLine(run.head_commit?.message);
+  if (commit) lines.push(`• "${truncate(commit, 50)}"`);
+  if (run.run_attempt && run.run_attempt > 1) lines.push(`_Attempt ${run.run_attempt}_`);
+
+  return { fullName: e.repository.full_name, message: lines.join('\n'), link: { text: '🔍 Run logs', url: run.html_url } };
+}
+
+function formatPullRequest(e: PullRequestEvent): WebhookNotification | null {
+  const pr = e.pull_request;
+  const merged = e.action === 'closed' && pr.merged;
+  if (e.action !== 'opened' && !merged) return null;
+
+  const head = merged
+    ? `🟣 **${e.repository.name}** PR #${pr.number} merged by @${e.sender.login}`
+    : `🔀 **${e.repository.name}** ${pr.draft ? 'draft ' : ''}PR #${pr.number} opened by @${pr.user.login}`;
+
+  return {
+    fullName: e.repository.full_name,
+    message: `${head}\n"${truncate(pr.title, 70)}"`,
+    link: { text: `🔗 PR #${pr.number}`, url: pr.html_url },
+  };
+}
+
+function formatIssue(e: IssuesEvent): WebhookNotification | null {
+  if (e.action !== 'opened') return null;
+  const { issue } = e;
+
+  return {
+    fullName: e.repository.full_name,
+    message: `🐛 **${e.repository.name}** issue #${issue.number} by @${issue.user.login}\n"${truncate(issue.title, 70)}"`,
+    link: { text: `🔗 Issue #${issue.number}`, url: issue.html_url },
+  };
+}
+
+function formatStar(e: StarEvent): WebhookNotification | null {
+  if (e.action !== 'created') return null;
+  const count = e.repository.stargazers_count;
+
+  return {
+    fullName: e.repository.full_name,
+    message: `⭐ **${e.repository.name}** starred by @${e.sender.login}${count ? ` (${count} total)` : ''}`,
+    link: { text: `👤 ${e.sender.login}`, url: `https://github.com/${e.sender.login}` },
+  };
+}
+
+function formatDeploymentStatus(e: DeploymentStatusEvent): WebhookNotification | null {
+  const status = e.deployment_status;
+  if (!['success', 'failure', 'error'].includes(status.state)) return null;
+
+  const ok = status.state === 'success';
+  const lines = [
+    ok
+      ? `🚀 **${e.repository.name}** deployed to ${status.environment}`
+      : `💥 **${e.repository.name}** deploy to ${status.environment} failed`,
+    `• \`${e.deployment.ref}\`${status.description ? ` — ${truncate(status.description, 60)}` : ''}`,
+  ];
+  const url = (ok && status.environment_url) || status.target_url;
+
+  return {
+    fullName: e.repository.full_name,
+    message: lines.join('\n'),
+    link: url ? { text: ok ? '🌐 Open' : '🔍 Details', url } : undefined,
+  };
+}
+
+// ============ HELPERS ============
+
+function firstLine(text: string | null | undefined): string | null {
+  const line = text?.split('\n').map(l => l.trim()).find(Boolean);
+  return line || null;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 3) + '...' : text;
+}
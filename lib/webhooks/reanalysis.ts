@@ -0,0 +1,230 @@
+/**
+ * Push Re-analysis
+ *
+ * Watched repos are checked against their last analysis on every push: cut
+ * files deleted, keep files removed, README edits, or files a pride blocker
+ * mentions. Material pushes re-run the analysis and report how the verdict,
+ * pride level and blockers moved.
+ */
+
+import type { CoreAnalysis, TrackedRepo } from '../core/types.js';
+import { getGitHubClient } from '../core/github.js';
+import { stateManager } from '../core/state.js';
+import { runAsUser, type BotUser } from '../core/users.js';
+import { info, error as logErr } from '../core/logger.js';
+import { getRepoAnalyzer } from '../tools/repo/analyzer.js';
+import { verdictToState, verdictEmoji, verdictLabel, prideEmoji } from '../tools/repo/format.js';
+
+export interface PushCommit {
+  id: string;
+  message: string;
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+// ============ PUSH IMPACT ============
+
+export interface PushImpact {
+  /** Cut-list entries with files deleted in this push */
+  cutDeleted: string[];
+  /** Keep-list entries with files deleted in this push */
+  keepRemoved: string[];
+  /** Keep-list entries with files edited in this push */
+  keepModified: string[];
+  /** Pride blockers mentioning a changed file */
+  blockersTouched: string[];
+  readmeChanged: boolean;
+}
+
+/**
+ * Compare a push's net file changes with the repo's last analysis
+ */
+export function findPushImpact(analysis: CoreAnalysis, commits: PushCommit[]): PushImpact {
+  // Net status per path - later commits win (added then removed = removed)
+  const status = new Map<string, 'added' | 'removed' | 'modified'>();
+  for (const commit of commits) {
+    for (const file of commit.added) status.set(file, 'added');
+    for (const file of commit.modified) status.set(file, 'modified');
+    for (const file of commit.removed) status.set(file, 'removed');
+  }
+
+  const removed = [...status].filter(([, s]) => s === 'removed').map(([f]) => f);
+  const changed = [...status.keys()];
+
+  return {
+    cutDeleted: analysis.cut.filter(entry => removed.some(f => matchesEntry(f, entry))),
+    keepRemoved: analysis.keep.filter(entry => removed.some(f => matchesEntry(f, entry))),
+    keepModified: analysis.keep.filter(entry =>
+      changed.some(f => status.get(f) !== 'removed' && matchesEntry(f, entry))
+    ),
+    blockersTouched: analysis.pride_blockers.filter(blocker => mentionsAny(blocker, changed)),
+    readmeChanged: changed.some(f => /^readme(\.\w+)?$/i.test(f)),
+  };
+}
+
+/**
+ * Whether a push changes enough to be worth another AI call.
+ * Edits to keep files alone are ordinary work on the core and don't count.
+ */
+export function isMaterial(impact: PushImpact): boolean {
+  return impact.cutDeleted.length > 0
+    || impact.keepRemoved.length > 0
+    || impact.blockersTouched.length > 0
+    || impact.readmeChanged;
+}
+
+/** Entries are file paths or directories (with or without a trailing slash) */
+function matchesEntry(file: string, entry: string): boolean {
+  const path = entry.replace(/^\.?\//, '');
+  return file === path || file.startsWith(path.endsWith('/') ? path : `${path}/`);
+}
+
+function mentionsAny(blocker: string, files: string[]): boolean {
+  const text = blocker.toLowerCase();
+  return files.some(file => {
+    const lower = file.toLowerCase();
+    const base = lower.split('/').pop()!;
+    // Bare basenames without an extension ("index", "src") are too noisy to match
+    return text.includes(lower) || (base.includes('.') && text.includes(base))
+      || (/^readme/.test(base) && text.includes('readme'));
+  });
+}
+
+// ============ ANALYSIS DIFF ============
+
+export interface AnalysisChange {
+  verdict: { before: CoreAnalysis['verdict']; after: CoreAnalysis['verdict'] };
+  pride: { before: CoreAnalysis['pride_level']; after: CoreAnalysis['pride_level'] };
+  blockersResolved: string[];
+  blockersAdded: string[];
+}
+
+export function diffAnalyses(before: CoreAnalysis, after: CoreAnalysis): AnalysisChange {
+  const normalize = (s: string) => s.trim().toLowerCase();
+  const beforeSet = new Set(before.pride_blockers.map(normalize));
+  const afterSet = new Set(after.pride_blockers.map(normalize));
+
+  return {
+    verdict: { before: before.verdict, after: after.verdict },
+    pride: { before: before.pride_level, after: after.pride_level },
+    blockersResolved: before.pride_blockers.filter(b => !afterSet.has(normalize(b))),
+    blockersAdded: after.pride_blockers.filter(b => !beforeSet.has(normalize(b))),
+  };
+}
+
+/**
+ * Re-analysis message: what the push touched, then what moved
+ */
+export function formatReanalysis(repoName: string, impact: PushImpact, change: AnalysisChange): string {
+  const lines = [`🔄 **${repoName}** re-analyzed after push`, ''];
+
+  if (impact.cutDeleted.length > 0) lines.push(`🗑️ Cut: ${listFiles(impact.cutDeleted)}`);
+  if (impact.keepRemoved.length > 0) lines.push(`⚠️ Removed from core: ${listFiles(impact.keepRemoved)}`);
+  if (impact.readmeChanged) lines.push('📄 README changed');
+  lines.push('');
+
+  const { verdict, pride } = change;
+  if (verdict.before !== verdict.after) {
+    lines.push(`${verdictEmoji[verdict.before]} ${verdictLabel[verdict.before]} → ${verdictEmoji[verdict.after]} **${verdictLabel[verdict.after]}**`);
+  } else {
+    lines.push(`${verdictEmoji[verdict.after]} Still **${verdictLabel[verdict.after]}**`);
+  }
+  if (pride.before !== pride.after) {
+    lines.push(`Pride: ${prideEmoji[pride.before]} ${pride.before} → ${prideEmoji[pride.after]} ${pride.after}`);
+  }
+
+  for (const blocker of change.blockersResolved.slice(0, 3)) lines.push(`✅ ${blocker}`);
+  for (const blocker of change.blockersAdded.slice(0, 3)) lines.push(`🆕 ${blocker}`);
+
+  return lines.join('\n');
+}
+
+function listFiles(entries: string[]): string {
+  const shown = entries.slice(0, 3).map(e => `\`${e}\``).join(', ');
+  return entries.length > 3 ? `${shown} +${entries.length - 3} more` : shown;
+}
+
+// ============ RUNNER ============
+
+export interface ReanalysisMessage {
+  user: BotUser;
+  message: string;
+}
+
+/**
+ * Re-analyze a repo for the watchers a push was material to.
+ * The repo is analyzed once (as the first such watcher whose GitHub access
+ * can read it) and each watcher gets the diff against their own last
+ * analysis. Returns the messages to send - empty when nothing needs saying.
+ */
+export async function reanalyzeOnPush(
+  users: BotUser[],
+  owner: string,
+  name: string,
+  commits: PushCommit[]
+): Promise<ReanalysisMessage[]> {
+  const fullName = `${owner}/${name}`;
+
+  const watchers: Array<{ user: BotUser; tracked: TrackedRepo & { analysis: CoreAnalysis }; impact: PushImpact }> = [];
+  for (const user of users) {
+    await runAsUser(user, async () => {
+      if (!await stateManager.isRepoWatched(fullName)) return;
+
+      const tracked = await stateManager.getTrackedRepo(owner, name);
+      if (!tracked?.analysis || tracked.state === 'shipped' || tracked.state === 'dead') return;
+
+      const impact = findPushImpact(tracked.analysis, commits);
+      if (!isMaterial(impact)) {
+        info('webhook.reanalyze', 'Not material', { fullName, user: user.id });
+        return;
+      }
+      watchers.push({ user, tracked: { ...tracked, analysis: tracked.analysis }, impact });
+    });
+  }
+  if (watchers.length === 0) return [];
+
+  info('webhook.reanalyze', 'Re-analyzing', { fullName, watchers: watchers.length });
+  const analysis = await analyzeAsFirstReader(watchers.map(w => w.user), owner, name);
+  if (!analysis) return [];
+
+  const messages: ReanalysisMessage[] = [];
+  for (const { user, tracked, impact } of watchers) {
+    try {
+      // Only the new fields, so CI, checks or README health written during the analysis survive
+      const now = new Date().toISOString();
+      const updated = await runAsUser(user, () => stateManager.updateTrackedRepo(owner, name, {
+        analysis,
+        state: verdictToState(analysis.verdict),
+        analyzed_at: now,
+        last_push_at: now,
+      }));
+      if (!updated) continue;
+      messages.push({ user, message: formatReanalysis(name, impact, diffAnalyses(tracked.analysis, analysis)) });
+    } catch (err) {
+      logErr('webhook.reanalyze', err, { fullName, user: user.id });
+    }
+  }
+  return messages;
+}
+
+/**
+ * Analyze as the first user whose GitHub access can read the repo; a user
+ * whose analysis fails hands over to the next. Null when none could.
+ */
+async function analyzeAsFirstReader(users: BotUser[], owner: string, name: string): Promise<CoreAnalysis | null> {
+  const fullName = `${owner}/${name}`;
+  for (const user of users) {
+    try {
+      const analysis = await runAsUser(user, async () => {
+        if (!await getGitHubClient().getRepoInfo(owner, name)) return null;
+        return getRepoAnalyzer().analyzeRepo(owner, name);
+      });
+      if (analysis) return analysis;
+      info('webhook.reanalyze', 'Repo not readable with this user\'s access', { fullName, user: user.id });
+    } catch (err) {
+      logErr('webhook.reanalyze', err, { fullName, user: user.id });
+    }
+  }
+  return null;
+}
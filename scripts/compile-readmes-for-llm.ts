@@ -13,6 +13,8 @@
  */
 
 import { GitHubClient, GitHubRepo } from '../lib/core/github.js';
+import { fetchTechStack, techStackLabels, emptyTechStack } from '../lib/core/tech-stack.js';
+import type { TechStack } from '../lib/core/types.js';
 import * as fs from 'fs';
 
 // ============ CONFIG ============
@@ -170,7 +172,7 @@ function extractOneLiner(readme: string): string {
 }
 
 /**
- * Extract tech stack hints from README
+ * Extract tech stack hints from README (services manifests don't name, or repos without manifests)
  */
 function extractTechHints(readme: string): string[] {
   const techPatterns: Array<{ pattern: RegExp; tech: string }> = [
@@ -259,7 +261,8 @@ async function main() {
     repo: GitHubRepo;
     readme: string | null;
     oneLiner: string;
-    techStack: string[];
+    techStack: TechStack;
+    techLabels: string[];
   }> = [];
 
   for (let i = 0; i < repos.length; i++) {
@@ -267,15 +270,20 @@ async function main() {
     log(`📖 [${i + 1}/${repos.length}] ${repo.name}`);
     
     const [owner, name] = repo.full_name.split('/');
-    const readme = await github.getFileContent(owner, name, 'README.md');
+    const [readme, files] = await Promise.all([
+      github.getFileContent(owner, name, 'README.md'),
+      github.getRepoTree(owner, name, 2000),
+    ]);
     
     const oneLiner = readme ? extractOneLiner(readme) : (repo.description || '(No description)');
-    const techStack = readme ? extractTechHints(readme) : [];
+    // Manifests first; README mentions only add what manifests can't see
+    const techStack = files.length > 0 ? (await fetchTechStack(github, owner, name, files)).stack : emptyTechStack();
+    const techLabels = [...new Set([...techStackLabels(techStack), ...(readme ? extractTechHints(readme) : [])])];
     
-    projectData.push({ repo, readme, oneLiner, techStack });
+    projectData.push({ repo, readme, oneLiner, techStack, techLabels });
     
     // Add to index
-    const techStackStr = techStack.slice(0, 4).join(', ') || '-';
+    const techStackStr = techLabels.slice(0, 4).join(', ') || '-';
     sections[0] += `\n| **${repo.name}** | ${oneLiner.substring(0, 60)}${oneLiner.length > 60 ? '...' : ''} | ${techStackStr} |`;
   }
 
@@ -286,7 +294,7 @@ async function main() {
   sections.push('');
 
   // Second pass: add compressed READMEs
-  for (const { repo, readme, oneLiner, techStack } of projectData) {
+  for (const { repo, readme, oneLiner, techStack, techLabels } of projectData) {
     const pushedDate = new Date(repo.pushed_at).toISOString().split('T')[0];
     
     sections.push(`### ${repo.name}`);
@@ -298,8 +306,12 @@ async function main() {
     if (repo.homepage) {
       sections.push(`- **Live:** ${repo.homepage}`);
     }
-    if (techStack.length > 0) {
-      sections.push(`- **Tech:** ${techStack.join(', ')}`);
+    if (techLabels.length > 0) {
+      sections.push(`- **Tech:** ${techLabels.join(', ')}`);
+    }
+    if (techStack.manifests.length > 0) {
+      // Machine-readable copy for generate-portfolio.ts
+      sections.push(`<!-- tech-stack ${JSON.stringify(techStack)} -->`);
     }
     if (repo.stargazers_count > 0) {
       sections.push(`- **Stars:** ${repo.stargazers_count}`);
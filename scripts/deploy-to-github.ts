@@ -4,7 +4,7 @@
  * 
  * Usage: npm run deploy-github
  * 
- * What it does:
+ * What it does (one atomic commit per repo):
  * 1. Uploads cover image to .github/social-preview.png
  * 2. Updates README.md with image at top + optimized content
  */
@@ -12,6 +12,7 @@
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import 'dotenv/config';
+import { GitHubClient, type CommitFile } from '../lib/core/github.js';
 
 const SUMMARY_PATH = join(process.cwd(), 'output', 'summary.json');
 const READMES_DIR = join(process.cwd(), 'output', 'readmes');
@@ -31,57 +32,6 @@ function log(msg: string) {
   console.log(`[deploy] ${msg}`);
 }
 
-async function getRepoInfo(owner: string, repo: string, token: string): Promise<{ default_branch: string; sha: string | null }> {
-  // Get default branch
-  const repoRes = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
-    headers: {
-      Authorization: `token ${token}`,
-      Accept: 'application/vnd.github.v3+json',
-    },
-  });
-  
-  if (!repoRes.ok) {
-    throw new Error(`Failed to get repo info: ${repoRes.status}`);
-  }
-  
-  const repoData = await repoRes.json() as { default_branch: string };
-  
-  // Get current README SHA if it exists
-  try {
-    const contentRes = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/README.md`, {
-      headers: {
-        Authorization: `token ${token}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
-    });
-    
-    if (contentRes.ok) {
-      const contentData = await contentRes.json() as { sha: string };
-      return { default_branch: repoData.default_branch, sha: contentData.sha };
-    }
-  } catch {
-    // README doesn't exist
-  }
-  
-  return { default_branch: repoData.default_branch, sha: null };
-}
-
-async function getRepoHomepage(owner: string, repo: string, token: string): Promise<string | null> {
-  try {
-    const res = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
-      headers: {
-        Authorization: `token ${token}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
-    });
-    if (res.ok) {
-      const data = await res.json() as { homepage: string | null };
-      return data.homepage || null;
-    }
-  } catch {}
-  return null;
-}
-
 function injectImageHeader(readme: string, repoName: string, oneLiner: string | null, homepage: string | null): string {
   // Check if header already exists
   if (readme.includes('/.github/social-preview.png')) {
@@ -107,158 +57,48 @@ function injectImageHeader(readme: string, repoName: string, oneLiner: string |
   return header + readme;
 }
 
-async function updateReadme(owner: string, repo: string, readmePath: string, result: SummaryResult, token: string): Promise<boolean> {
-  try {
-    let readmeContent = readFileSync(readmePath, 'utf-8');
-    
-    // Get homepage/demo URL
-    const homepage = await getRepoHomepage(owner, repo, token);
-    
-    // Inject image header at top
-    readmeContent = injectImageHeader(readmeContent, repo, result.one_liner, homepage);
-    
-    const { sha } = await getRepoInfo(owner, repo, token);
-    
-    const body: Record<string, unknown> = {
-      message: 'docs: update README with cover image and optimized content',
-      content: Buffer.from(readmeContent).toString('base64'),
-    };
-    
-    if (sha) {
-      body.sha = sha;
-    }
-    
-    const res = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/README.md`, {
-      method: 'PUT',
-      headers: {
-        Authorization: `token ${token}`,
-        Accept: 'application/vnd.github.v3+json',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
+/**
+ * Cover image + README (with header) for one repo, committed together
+ */
+async function deployRepo(github: GitHubClient, owner: string, result: SummaryResult): Promise<{ readme: boolean; image: boolean }> {
+  const files: CommitFile[] = [];
+  
+  // Cover image FIRST (so README can reference it)
+  if (result.image_path && existsSync(result.image_path)) {
+    files.push({
+      path: '.github/social-preview.png',
+      content: readFileSync(result.image_path).toString('base64'),
+      encoding: 'base64',
     });
-    
-    if (!res.ok) {
-      const error = await res.text();
-      log(`  ❌ README update failed: ${res.status} - ${error}`);
-      return false;
-    }
-    
-    log(`  ✅ README updated (with cover image header)`);
-    return true;
-  } catch (e: unknown) {
-    log(`  ❌ README error: ${(e as Error).message}`);
-    return false;
   }
-}
-
-async function uploadSocialPreview(owner: string, repo: string, imagePath: string, token: string): Promise<boolean> {
+  
+  // README with image header injected
+  if (result.readme_path && existsSync(result.readme_path)) {
+    const homepage = (await github.getRepoInfo(owner, result.name))?.homepage || null;
+    const readme = injectImageHeader(readFileSync(result.readme_path, 'utf-8'), result.name, result.one_liner, homepage);
+    files.push({ path: 'README.md', content: readme });
+  }
+  
+  const deployed = { readme: false, image: false };
+  if (files.length === 0) return deployed;
+  
   try {
-    const imageBuffer = readFileSync(imagePath);
-    const base64Image = imageBuffer.toString('base64');
-    
-    // GitHub's social preview endpoint requires a multipart form upload
-    // We need to use the repository settings API
-    const boundary = '----FormBoundary' + Math.random().toString(36).substring(2);
-    
-    const formData = new FormData();
-    const blob = new Blob([imageBuffer], { type: 'image/png' });
-    formData.append('image', blob, `${repo}-cover.png`);
-    
-    // Note: GitHub's official API doesn't have a direct endpoint for social preview
-    // The social preview is typically set via web UI or GraphQL API
-    // Let's try the GraphQL approach
-    
-    const graphqlQuery = {
-      query: `
-        mutation($repositoryId: ID!, $image: Upload!) {
-          updateRepository(input: {
-            repositoryId: $repositoryId,
-            openGraphImageUrl: $image
-          }) {
-            repository {
-              id
-            }
-          }
-        }
-      `,
-    };
-    
-    // First, get the repository ID
-    const repoIdRes = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
-      headers: {
-        Authorization: `token ${token}`,
-        Accept: 'application/vnd.github.v3+json',
-      },
-    });
-    
-    if (!repoIdRes.ok) {
-      log(`  ⚠️ Could not get repo ID for social preview`);
-      return false;
+    const { sha } = await github.commitFiles(
+      owner,
+      result.name,
+      files,
+      'docs: update README with cover image and optimized content'
+    );
+    deployed.image = files.some(f => f.path === '.github/social-preview.png');
+    deployed.readme = files.some(f => f.path === 'README.md');
+    log(`  ✅ Committed ${files.map(f => f.path).join(' + ')} (${sha.substring(0, 7)})`);
+    if (deployed.image) {
+      log(`  💡 Set as social preview at: https://github.com/${owner}/${result.name}/settings`);
     }
-    
-    // Actually, GitHub doesn't support uploading social preview via API
-    // The best we can do is:
-    // 1. Add the image to the repo (e.g., .github/social-preview.png)
-    // 2. User sets it manually, OR
-    // 3. We use the description update to note the image exists
-    
-    // Let's upload the image to .github/social-preview.png
-    const imageUploadRes = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/.github/social-preview.png`, {
-      method: 'PUT',
-      headers: {
-        Authorization: `token ${token}`,
-        Accept: 'application/vnd.github.v3+json',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        message: 'chore: add social preview image',
-        content: base64Image,
-      }),
-    });
-    
-    if (imageUploadRes.ok) {
-      log(`  ✅ Cover image uploaded to .github/social-preview.png`);
-      log(`  💡 Set as social preview at: https://github.com/${owner}/${repo}/settings`);
-      return true;
-    } else if (imageUploadRes.status === 422) {
-      // File already exists, try to update it
-      const existingFile = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/.github/social-preview.png`, {
-        headers: {
-          Authorization: `token ${token}`,
-          Accept: 'application/vnd.github.v3+json',
-        },
-      });
-      
-      if (existingFile.ok) {
-        const existing = await existingFile.json() as { sha: string };
-        const updateRes = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/.github/social-preview.png`, {
-          method: 'PUT',
-          headers: {
-            Authorization: `token ${token}`,
-            Accept: 'application/vnd.github.v3+json',
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            message: 'chore: update social preview image',
-            content: base64Image,
-            sha: existing.sha,
-          }),
-        });
-        
-        if (updateRes.ok) {
-          log(`  ✅ Cover image updated in .github/social-preview.png`);
-          return true;
-        }
-      }
-    }
-    
-    log(`  ⚠️ Could not upload cover image`);
-    return false;
   } catch (e: unknown) {
-    log(`  ⚠️ Cover image error: ${(e as Error).message}`);
-    return false;
+    log(`  ❌ Commit failed: ${(e as Error).message}`);
   }
+  return deployed;
 }
 
 async function main() {
@@ -274,21 +114,15 @@ async function main() {
   }
   
   // Get GitHub username
-  const userRes = await fetch('https://api.github.com/user', {
-    headers: {
-      Authorization: `token ${token}`,
-      Accept: 'application/vnd.github.v3+json',
-    },
-  });
-  
-  if (!userRes.ok) {
+  const github = new GitHubClient(token);
+  let owner: string;
+  try {
+    owner = (await github.getAuthenticatedUser()).login;
+  } catch {
     console.error('Error: Could not get GitHub user info');
     process.exit(1);
   }
   
-  const user = await userRes.json() as { login: string };
-  const owner = user.login;
-  
   log(`Deploying as ${owner}`);
   
   const summary = JSON.parse(readFileSync(SUMMARY_PATH, 'utf-8'));
@@ -306,19 +140,9 @@ async function main() {
   for (const result of deployable) {
     log(`📦 ${result.name}`);
     
-    // Upload cover image FIRST (so README can reference it)
-    if (result.image_path && existsSync(result.image_path)) {
-      if (await uploadSocialPreview(owner, result.name, result.image_path, token)) {
-        imageSuccess++;
-      }
-    }
-    
-    // Update README (with image header injected)
-    if (result.readme_path && existsSync(result.readme_path)) {
-      if (await updateReadme(owner, result.name, result.readme_path, result, token)) {
-        readmeSuccess++;
-      }
-    }
+    const deployed = await deployRepo(github, owner, result);
+    if (deployed.image) imageSuccess++;
+    if (deployed.readme) readmeSuccess++;
     
     console.log('');
     
@@ -0,0 +1,91 @@
+#!/usr/bin/env npx tsx
+/**
+ * A/B two versions of a prompt over the README corpus
+ *
+ * Usage:
+ *   npx tsx scripts/eval-prompts.ts --list                                # registered prompts
+ *   npx tsx scripts/eval-prompts.ts repoAnalysis@5 repoAnalysis@6         # compare two versions
+ *   npx tsx scripts/eval-prompts.ts repoPotential@1 repoPotential@2 --limit=5
+ *
+ * Options:
+ *   --corpus=path   Corpus markdown (default: readmes-compiled.md)
+ *   --limit=N       First N repos only
+ *   --out=path      Report path (default: output/evals/<id>-v<a>-vs-v<b>.md)
+ *
+ * Real API calls on both versions for every repo (and GitHub reads for
+ * repoAnalysis). Eval spend is not recorded in /usage.
+ */
+
+import 'dotenv/config';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { LLMClient } from '../lib/llm/index.js';
+import {
+  listPrompts, getPrompt, parsePromptRef, promptTag, parseCorpus, formatEvalReport,
+  getEvalAdapter, evaluablePrompts,
+} from '../lib/prompts/index.js';
+
+const args = process.argv.slice(2);
+const refs = args.filter(a => !a.startsWith('--'));
+const option = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+
+async function main() {
+  if (args.includes('--list')) {
+    for (const prompt of listPrompts()) {
+      const evaluable = evaluablePrompts().includes(prompt.id) ? '' : '  (no eval adapter)';
+      console.log(`${promptTag(prompt).padEnd(24)} ${prompt.task.padEnd(20)} ${prompt.description}${evaluable}`);
+    }
+    return;
+  }
+
+  if (refs.length !== 2) {
+    console.log('Usage: npx tsx scripts/eval-prompts.ts <id@a> <id@b> [--corpus=path] [--limit=N] [--out=path]');
+    console.log('       npx tsx scripts/eval-prompts.ts --list');
+    process.exit(1);
+  }
+
+  const [refA, refB] = refs.map(parsePromptRef);
+  if (refA.id !== refB.id) {
+    console.error(`❌ Both versions must be the same prompt (got ${refA.id} and ${refB.id})`);
+    process.exit(1);
+  }
+  const a = getPrompt(refA.id, refA.version);
+  const b = getPrompt(refB.id, refB.version);
+  const adapter = getEvalAdapter(a.id);
+  if (!adapter) {
+    console.error(`❌ No eval adapter for ${a.id} (have: ${evaluablePrompts().join(', ')})`);
+    process.exit(1);
+  }
+
+  const corpusPath = option('corpus') ?? 'readmes-compiled.md';
+  const limit = option('limit') ? parseInt(option('limit')!, 10) : undefined;
+  const corpus = parseCorpus(readFileSync(corpusPath, 'utf-8')).slice(0, limit);
+  const out = option('out') ?? join('output', 'evals', `${a.id}-v${a.version}-vs-v${b.version}.md`);
+
+  console.log(`=== ${promptTag(a)} vs ${promptTag(b)} over ${corpus.length} repos from ${corpusPath} ===\n`);
+
+  const report = await adapter.run({
+    llm: new LLMClient({ recordUsage: null }),
+    a: a.version,
+    b: b.version,
+    corpus,
+    onCase: (result, index) => {
+      const prefix = `[${index + 1}/${corpus.length}] ${result.repo}`;
+      if (!result.a || !result.b) {
+        console.log(`${prefix}: skipped (${result.skipped})`);
+        return;
+      }
+      const show = (run: typeof result.a) => (run.valid ? `${run.label}${run.validationErrors.length ? '*' : ''}` : '❌');
+      console.log(`${prefix}: ${show(result.a)} | ${show(result.b)}`);
+    },
+  });
+
+  mkdirSync(dirname(out), { recursive: true });
+  writeFileSync(out, formatEvalReport(report));
+  console.log(`\n✅ Report written to ${out}`);
+}
+
+main().catch(err => {
+  console.error('❌', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
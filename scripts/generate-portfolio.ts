@@ -17,6 +17,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { TechStackSchema, type TechStack } from '../lib/core/types.js';
+import { emptyTechStack } from '../lib/core/tech-stack.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -75,7 +77,7 @@ interface Project {
   lastUpdated: string;
   liveUrl: string | null;
   stars: number;
-  techStack: string[];
+  techStack: TechStack;
   hasReadme: boolean;
 }
 
@@ -105,7 +107,7 @@ function parseReadmesCompiled(filePath: string): Project[] {
     let lastUpdated = '';
     let liveUrl: string | null = null;
     let stars = 0;
-    let techStack: string[] = [];
+    let techStack = emptyTechStack();
     let hasReadme = true;
 
     for (const line of lines) {
@@ -121,8 +123,17 @@ function parseReadmesCompiled(filePath: string): Project[] {
       const starsMatch = line.match(/\*\*Stars:\*\*\s*(\d+)/);
       if (starsMatch) stars = parseInt(starsMatch[1], 10);
 
+      // Digests without manifest data only have the flat Tech line
       const techMatch = line.match(/\*\*Tech:\*\*\s*(.+)/);
-      if (techMatch) techStack = techMatch[1].split(',').map(t => t.trim()).filter(Boolean);
+      if (techMatch && techStack.manifests.length === 0) {
+        techStack = { ...emptyTechStack(), frameworks: techMatch[1].split(',').map(t => t.trim()).filter(Boolean) };
+      }
+
+      const stackMatch = line.match(/^<!-- tech-stack (.+) -->$/);
+      if (stackMatch) {
+        const parsed = TechStackSchema.safeParse(JSON.parse(stackMatch[1]));
+        if (parsed.success) techStack = parsed.data;
+      }
 
       if (line.includes('*(No README)*')) hasReadme = false;
     }
@@ -117,7 +117,7 @@ async function main() {
   log('Initializing API clients...');
   const github = new GitHubClient(githubToken);
   const analyzer = getRepoAnalyzer();
-  const readmeGen = new ReadmeGenerator(anthropicKey);
+  const readmeGen = new ReadmeGenerator();
   log('✅ Clients initialized');
 
   // Ensure output directories exist
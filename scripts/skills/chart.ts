@@ -0,0 +1,42 @@
+/**
+ * chartSkill suite
+ * Record: CHART_IMAGE=path/to/chart.png npx tsx scripts/test-skills.ts chart --record
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { chartSkill } from '../../lib/skills/chart/index.js';
+import type { SkillSuite } from '../../lib/skills/_shared/index.js';
+
+export const chartSuite: SkillSuite = {
+  name: 'chart',
+  record() {
+    const path = process.env.CHART_IMAGE;
+    if (!path) {
+      throw new Error('Set CHART_IMAGE=path/to/chart.png to record');
+    }
+    // The image goes in the cassette so replay sends the same request
+    return { image: readFileSync(path).toString('base64') };
+  },
+  cases: [
+    {
+      name: 'finds zones and annotates the chart',
+      async run({ ctx, meta }) {
+        const result = await chartSkill.run({ imageBase64: meta.image }, ctx);
+
+        assert.equal(result.success, true, result.error);
+        const { analysis, annotatedImage, caption } = result.data!;
+        assert.ok(analysis.keyZones.length > 0);
+        for (const zone of analysis.keyZones) {
+          assert.ok(['support', 'resistance'].includes(zone.type), `zone type ${zone.type}`);
+          assert.ok(Number.isFinite(zone.price));
+        }
+        assert.ok(analysis.regime.confidence >= 0 && analysis.regime.confidence <= 1);
+        assert.ok(caption.length > 0);
+        if (annotatedImage) {
+          assert.ok(Buffer.from(annotatedImage, 'base64').length > 0);
+        }
+      },
+    },
+  ],
+};
@@ -0,0 +1,93 @@
+/**
+ * nextSkill suite
+ * Record: TEST_REPO=owner/name npx tsx scripts/test-skills.ts next --record
+ */
+
+import assert from 'node:assert/strict';
+import { stateManager } from '../../lib/core/state.js';
+import { nextSkill } from '../../lib/skills/next/index.js';
+import type { RepoState, TrackedRepo } from '../../lib/core/types.js';
+import { recordTestRepo, recordedRepo, type SkillSuite } from '../../lib/skills/_shared/index.js';
+
+/** A tracked repo in the given state; analyzed unless it's 'unanalyzed' */
+function tracked(owner: string, name: string, state: RepoState): TrackedRepo {
+  return {
+    id: `${owner}/${name}`,
+    name,
+    owner,
+    state,
+    analysis: state === 'unanalyzed' ? null : {
+      one_liner: 'Turns a folder of markdown notes into a static site',
+      code_one_liner: '',
+      what_it_does: 'Reads markdown files, renders them with a template and writes HTML.',
+      has_core: true,
+      core_value: 'One command from notes to a deployable site',
+      why_core: 'The render pipeline is complete',
+      core_evidence: [],
+      readme_claims: [],
+      mismatch_evidence: [],
+      keep: ['src/render.ts'],
+      cut: [],
+      verdict: 'ship',
+      verdict_reason: 'Core works end to end',
+      demo_command: null,
+      demo_artifact: null,
+      shareable_angle: null,
+      pride_level: 'comfortable',
+      pride_blockers: [],
+      tweet_draft: null,
+    },
+    analyzed_at: state === 'unanalyzed' ? null : '2025-01-01T00:00:00.000Z',
+    pending_action: null,
+    pending_since: null,
+    last_message_id: null,
+    last_push_at: null,
+    killed_at: null,
+    shipped_at: null,
+    cover_image_url: null,
+    homepage: null,
+  };
+}
+
+export const nextSuite: SkillSuite = {
+  name: 'next',
+  record: recordTestRepo,
+  cases: [
+    {
+      name: 'reports no projects when nothing is active',
+      offline: true,
+      async run({ ctx }) {
+        await stateManager.saveTrackedRepo(tracked('fixture', 'old-idea', 'dead'));
+
+        const result = await nextSkill.run({}, ctx);
+
+        assert.equal(result.success, true, result.error);
+        assert.equal(result.data!.totalActive, 0);
+        assert.deepEqual(result.data!.candidates, []);
+        assert.ok(result.data!.noProjectsMessage);
+      },
+    },
+    {
+      name: 'ranks active analyzed repos by score',
+      async run({ ctx, meta }) {
+        const { owner, name } = recordedRepo(meta);
+        await stateManager.saveTrackedRepo(tracked(owner, name, 'ready'));
+        await stateManager.saveTrackedRepo(tracked(owner, `${name}-unanalyzed`, 'unanalyzed'));
+        await stateManager.saveTrackedRepo(tracked(owner, `${name}-dead`, 'dead'));
+
+        const result = await nextSkill.run({}, ctx);
+
+        assert.equal(result.success, true, result.error);
+        const { candidates, firstCardMessage } = result.data!;
+        assert.deepEqual(candidates.map(c => c.repo.id), [`${owner}/${name}`]);
+        assert.ok(['high', 'medium', 'low'].includes(candidates[0].momentum));
+        assert.ok(candidates[0].daysSinceCommit >= 0);
+        assert.ok(candidates[0].reason.length > 0);
+        assert.ok(firstCardMessage?.includes(name));
+        for (let i = 1; i < candidates.length; i++) {
+          assert.ok(candidates[i - 1].score >= candidates[i].score, 'sorted by score');
+        }
+      },
+    },
+  ],
+};
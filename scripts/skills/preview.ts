@@ -0,0 +1,48 @@
+/**
+ * previewSkill suite (generation only - uploadSkill writes to the repo)
+ * Record: npx tsx scripts/test-skills.ts preview --record
+ */
+
+import assert from 'node:assert/strict';
+import { previewSkill } from '../../lib/skills/preview/index.js';
+import type { SkillSuite } from '../../lib/skills/_shared/index.js';
+
+const PNG_MAGIC = '89504e47';
+const JPEG_MAGIC = 'ffd8ff';
+
+export const previewSuite: SkillSuite = {
+  name: 'preview',
+  cases: [
+    {
+      name: 'requires an analysis or repo info',
+      offline: true,
+      async run({ ctx }) {
+        const result = await previewSkill.run({ owner: 'fixture', name: 'notes-site' }, ctx);
+
+        assert.equal(result.success, false);
+        assert.match(result.error!, /required/);
+      },
+    },
+    {
+      name: 'generates a cover from repo metadata',
+      async run({ ctx }) {
+        const result = await previewSkill.run({
+          owner: 'fixture',
+          name: 'notes-site',
+          repoInfo: {
+            name: 'notes-site',
+            description: 'Turns a folder of markdown notes into a static site',
+            language: 'TypeScript',
+          },
+        }, ctx);
+
+        assert.equal(result.success, true, result.error);
+        const { imageBuffer, imageBase64 } = result.data!;
+        assert.ok(imageBuffer.length > 1000, 'image has content');
+        const magic = imageBuffer.subarray(0, 4).toString('hex');
+        assert.ok(magic.startsWith(PNG_MAGIC) || magic.startsWith(JPEG_MAGIC), `PNG or JPEG, got ${magic}`);
+        assert.equal(Buffer.from(imageBase64, 'base64').length, imageBuffer.length);
+      },
+    },
+  ],
+};
@@ -0,0 +1,86 @@
+/**
+ * readmeSkill suite
+ * Record: TEST_REPO=owner/name npx tsx scripts/test-skills.ts readme --record
+ */
+
+import assert from 'node:assert/strict';
+import { stateManager } from '../../lib/core/state.js';
+import { readmeSkill } from '../../lib/skills/readme/index.js';
+import type { CoreAnalysis, TrackedRepo } from '../../lib/core/types.js';
+import { recordTestRepo, recordedRepo, type SkillSuite } from '../../lib/skills/_shared/index.js';
+
+/** What the README is written from; the recorded prompt embeds it, so edits mean re-recording */
+const ANALYSIS: CoreAnalysis = {
+  one_liner: 'Turns a folder of markdown notes into a static site',
+  code_one_liner: 'Markdown to HTML static site generator',
+  what_it_does: 'Reads markdown files, renders them with a template and writes HTML.',
+  has_core: true,
+  core_value: 'One command from notes to a deployable site',
+  why_core: 'The render pipeline is complete and tested',
+  core_evidence: [],
+  readme_claims: [],
+  mismatch_evidence: [],
+  keep: ['src/render.ts'],
+  cut: [],
+  verdict: 'ship',
+  verdict_reason: 'Core works end to end',
+  demo_command: 'npx notes-site build',
+  demo_artifact: 'cli_output',
+  shareable_angle: null,
+  pride_level: 'comfortable',
+  pride_blockers: [],
+  tweet_draft: null,
+};
+
+function analyzedRepo(owner: string, name: string): TrackedRepo {
+  return {
+    id: `${owner}/${name}`,
+    name,
+    owner,
+    state: 'ready',
+    analysis: ANALYSIS,
+    analyzed_at: '2025-01-01T00:00:00.000Z',
+    pending_action: null,
+    pending_since: null,
+    last_message_id: null,
+    last_push_at: null,
+    killed_at: null,
+    shipped_at: null,
+    cover_image_url: null,
+    homepage: null,
+  };
+}
+
+export const readmeSuite: SkillSuite = {
+  name: 'readme',
+  record: recordTestRepo,
+  cases: [
+    {
+      name: 'refuses a repo that has not been analyzed',
+      offline: true,
+      async run({ ctx }) {
+        const result = await readmeSkill.run({ owner: 'fixture', name: 'never-scanned' }, ctx);
+
+        assert.equal(result.success, false);
+        assert.match(result.error!, /not analyzed/);
+      },
+    },
+    {
+      name: 'generates a README from the stored analysis',
+      async run({ ctx, meta }) {
+        const { owner, name } = recordedRepo(meta);
+        await stateManager.saveTrackedRepo(analyzedRepo(owner, name));
+
+        const result = await readmeSkill.run({ owner, name }, ctx);
+
+        assert.equal(result.success, true, result.error);
+        const { content, preview } = result.data!;
+        assert.equal(result.data!.owner, owner);
+        assert.equal(result.data!.name, name);
+        assert.match(content, /^#{1,2} /m, 'has a markdown heading');
+        assert.doesNotMatch(content, /^```(markdown|md)?\n/, 'not wrapped in a code fence');
+        assert.ok(content.startsWith(preview.replace(/\n\n\.\.\._truncated_$/, '')));
+      },
+    },
+  ],
+};
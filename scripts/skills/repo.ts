@@ -0,0 +1,93 @@
+/**
+ * repoSkill suite
+ * Record: TEST_REPO=owner/name npx tsx scripts/test-skills.ts repo --record
+ */
+
+import assert from 'node:assert/strict';
+import { CoreAnalysisSchema } from '../../lib/core/types.js';
+import { stateManager } from '../../lib/core/state.js';
+import { repoSkill, verdictToState } from '../../lib/skills/repo/index.js';
+import type { TrackedRepo } from '../../lib/core/types.js';
+import { recordTestRepo, recordedRepo, type SkillSuite } from '../../lib/skills/_shared/index.js';
+
+/** Already analyzed - the skill should serve it from state */
+const STORED: TrackedRepo = {
+  id: 'fixture/notes-site',
+  name: 'notes-site',
+  owner: 'fixture',
+  state: 'ready',
+  analysis: {
+    one_liner: 'Turns a folder of markdown notes into a static site',
+    code_one_liner: 'Markdown to HTML static site generator',
+    what_it_does: 'Reads markdown files, renders them with a template and writes HTML.',
+    has_core: true,
+    core_value: 'One command from notes to a deployable site',
+    why_core: 'The render pipeline is complete and tested',
+    core_evidence: [],
+    readme_claims: [],
+    mismatch_evidence: [],
+    keep: ['src/render.ts'],
+    cut: [],
+    verdict: 'ship',
+    verdict_reason: 'Core works end to end',
+    demo_command: 'npx notes-site build',
+    demo_artifact: 'cli_output',
+    shareable_angle: null,
+    pride_level: 'comfortable',
+    pride_blockers: [],
+    tweet_draft: null,
+  },
+  analyzed_at: '2025-01-01T00:00:00.000Z',
+  pending_action: null,
+  pending_since: null,
+  last_message_id: null,
+  last_push_at: null,
+  killed_at: null,
+  shipped_at: null,
+  cover_image_url: null,
+  homepage: null,
+};
+
+export const repoSuite: SkillSuite = {
+  name: 'repo',
+  record: recordTestRepo,
+  cases: [
+    {
+      name: 'returns the stored analysis without calling APIs',
+      offline: true,
+      async run({ ctx }) {
+        await stateManager.saveTrackedRepo(STORED);
+
+        const result = await repoSkill.run({ owner: 'fixture', name: 'notes-site' }, ctx);
+
+        assert.equal(result.success, true, result.error);
+        assert.equal(result.cached, true);
+        assert.deepEqual(result.data!.analysis, STORED.analysis);
+        assert.match(result.data!.cardMessage, /notes-site/);
+      },
+    },
+    {
+      name: 'analyzes a repo and saves it',
+      async run({ ctx, meta }) {
+        const { owner, name } = recordedRepo(meta);
+        const steps: string[] = [];
+        ctx.onProgress = async step => { steps.push(step); };
+
+        const result = await repoSkill.run({ owner, name, forceRefresh: true }, ctx);
+
+        assert.equal(result.success, true, result.error);
+        const { analysis, trackedRepo, cardMessage, detailsMessage, cached } = result.data!;
+        assert.equal(cached, false);
+        assert.equal(CoreAnalysisSchema.safeParse(analysis).success, true, 'analysis matches CoreAnalysisSchema');
+        assert.equal(trackedRepo.id, `${owner}/${name}`);
+        assert.equal(trackedRepo.state, verdictToState(analysis.verdict));
+        assert.ok(cardMessage.length > 0 && detailsMessage.length > 0);
+        assert.deepEqual(steps, repoSkill.progressSteps);
+
+        const saved = await stateManager.getTrackedRepo(owner, name);
+        assert.equal(saved?.analysis?.verdict, analysis.verdict);
+        assert.equal(await repoSkill.isCached!({ owner, name }, ctx), true);
+      },
+    },
+  ],
+};
@@ -0,0 +1,46 @@
+/**
+ * scanSkill suite
+ * Record: npx tsx scripts/test-skills.ts scan --record (scans GITHUB_TOKEN's own repos)
+ */
+
+import assert from 'node:assert/strict';
+import { stateManager } from '../../lib/core/state.js';
+import { scanSkill } from '../../lib/skills/scan/index.js';
+import type { SkillSuite } from '../../lib/skills/_shared/index.js';
+
+/** Keep recordings small: two repos from the last month */
+const SCAN_INPUT = { days: 30, limit: 2, timeout: 300_000 };
+
+export const scanSuite: SkillSuite = {
+  name: 'scan',
+  cases: [
+    {
+      name: 'analyzes recent repos, then serves unchanged ones from state',
+      async run({ ctx }) {
+        const first = await scanSkill.run(SCAN_INPUT, ctx);
+
+        assert.equal(first.success, true, first.error);
+        const data = first.data!;
+        assert.equal(data.hitTimeout, false);
+        assert.ok(data.totalAnalyzed <= SCAN_INPUT.limit);
+        assert.ok(data.totalAnalyzed + data.errors.length <= Math.min(data.totalFound, SCAN_INPUT.limit));
+        assert.ok(data.summaryMessage.length > 0);
+
+        const counted = Object.values(data.verdicts).reduce((sum, n) => sum + n, 0);
+        assert.equal(counted, data.totalAnalyzed);
+
+        const grouped = Object.values(data.groups).flat();
+        for (const repo of grouped) {
+          const saved = await stateManager.getTrackedRepo(repo.owner, repo.name);
+          assert.ok(saved?.analysis, `${repo.id} saved with its analysis`);
+        }
+
+        // Nothing pushed in between: no re-analysis
+        const second = await scanSkill.run(SCAN_INPUT, ctx);
+        assert.equal(second.success, true, second.error);
+        assert.equal(second.data!.cached, data.totalAnalyzed);
+        assert.deepEqual(second.data!.verdicts, data.verdicts);
+      },
+    },
+  ],
+};
@@ -0,0 +1,44 @@
+#!/usr/bin/env npx tsx
+/**
+ * Test deploy state detection locally
+ *
+ * Usage:
+ *   npx tsx scripts/test-deploy.ts owner/repo
+ *   npx tsx scripts/test-deploy.ts owner/repo --homepage=https://example.com
+ *
+ * Offline coverage lives in scripts/unit/deploy.ts.
+ */
+
+import 'dotenv/config';
+import { GitHubClient } from '../lib/core/github.js';
+import { getDeployState, allDeployProviders } from '../lib/deploy/index.js';
+
+const args = process.argv.slice(2);
+const repoArg = args.find(a => a.includes('/') && !a.startsWith('--'));
+const option = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+const homepage = option('homepage') ?? null;
+
+async function main() {
+  if (!repoArg) {
+    console.log('Usage: npx tsx scripts/test-deploy.ts owner/repo [--homepage=url]');
+    process.exit(1);
+  }
+
+  const [owner, name] = repoArg.split('/');
+  const github = new GitHubClient(process.env.GITHUB_TOKEN || '');
+
+  console.log(`=== Deploy state for ${owner}/${name} ===\n`);
+  console.log(`Providers: ${allDeployProviders.filter(p => p.isConfigured()).map(p => p.name).join(', ')}\n`);
+
+  const start = Date.now();
+  const state = await getDeployState(github, { owner, name, homepage });
+  const elapsed = ((Date.now() - start) / 1000).toFixed(1);
+
+  console.log(JSON.stringify(state, null, 2));
+  console.log(`\n✓ Done in ${elapsed}s`);
+}
+
+main().catch(err => {
+  console.error('Error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+#!/usr/bin/env npx tsx
+/**
+ * Test the leak scanner locally
+ *
+ * Usage:
+ *   npx tsx scripts/test-leaks.ts path/to/file-or-dir ...   # scan fixture files (*.diff / *.patch as diffs)
+ *   npx tsx scripts/test-leaks.ts owner/repo                 # scan a GitHub repo's tree
+ *
+ * Detector fixtures run offline in scripts/unit/leak-scanner.ts.
+ */
+
+import 'dotenv/config';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative } from 'path';
+import { GitHubClient } from '../lib/core/github.js';
+import { scanText, scanPatch, sensitiveFile, scanRepoFiles, formatLeakAlert, type LeakFinding } from '../lib/leak-scanner.js';
+
+const args = process.argv.slice(2);
+const targets = args.filter(a => !a.startsWith('--'));
+
+function scanPath(root: string): LeakFinding[] {
+  const files = statSync(root).isDirectory() ? walk(root) : [root];
+  return files.flatMap(file => {
+    const path = statSync(root).isDirectory() ? relative(root, file) : file;
+    const content = readFileSync(file, 'utf-8');
+    if (/\.(diff|patch)$/.test(file)) return scanDiff(content);
+    const byName = sensitiveFile(path);
+    return [...(byName ? [byName] : []), ...scanText(path, content)];
+  });
+}
+
+/** Split a `git diff` into per-file patches */
+function scanDiff(diff: string): LeakFinding[] {
+  return diff.split(/^diff --git /m).slice(1).flatMap(section => {
+    const path = section.match(/^\+\+\+ b\/(.+)$/m)?.[1] ?? section.split(' ')[0].replace(/^a\//, '');
+    return scanPatch(path, section);
+  });
+}
+
+function walk(dir: string): string[] {
+  return readdirSync(dir).flatMap(entry => {
+    const full = join(dir, entry);
+    return statSync(full).isDirectory() ? walk(full) : [full];
+  });
+}
+
+async function main() {
+  if (targets.length === 0) {
+    console.log('Usage: npx tsx scripts/test-leaks.ts <path ...> | owner/repo');
+    process.exit(1);
+  }
+
+  const repoArg = targets.length === 1 && !existsSync(targets[0]) && /^[\w.-]+\/[\w.-]+$/.test(targets[0]) ? targets[0] : null;
+  let findings: LeakFinding[];
+  let label: string;
+
+  if (repoArg) {
+    const [owner, name] = repoArg.split('/');
+    const github = new GitHubClient(process.env.GITHUB_TOKEN || '');
+    console.log(`=== Scanning ${repoArg} ===\n`);
+    findings = await scanRepoFiles(github, owner, name);
+    label = repoArg;
+  } else {
+    findings = targets.flatMap(scanPath);
+    label = targets.join(', ');
+  }
+
+  if (findings.length === 0) {
+    console.log('✓ No leaks found');
+    return;
+  }
+  console.log(formatLeakAlert(label, findings));
+  console.log(`\n${findings.length} finding${findings.length === 1 ? '' : 's'}`);
+}
+
+main().catch(err => {
+  console.error('Error:', err);
+  process.exit(1);
+});
@@ -13,7 +13,7 @@
 import 'dotenv/config';
 import { nextSkill, type NextSkillInput } from '../lib/skills/next/index.js';
 import { createSkillContext } from '../lib/skills/_shared/context.js';
-import { getAnthropicClient } from '../lib/core/config.js';
+import { getLLMClient } from '../lib/llm/index.js';
 import { GitHubClient } from '../lib/core/github.js';
 import { stateManager } from '../lib/core/state.js';
 import { getNextCard } from '../lib/card-generator.js';
@@ -127,7 +127,7 @@ async function testCardGenerator() {
   };
 
   const card = await getNextCard(
-    getAnthropicClient(),
+    getLLMClient(),
     new GitHubClient(process.env.GITHUB_TOKEN!),
     repos,
     onProgress
@@ -0,0 +1,68 @@
+#!/usr/bin/env npx tsx
+/**
+ * Skill test suites, replayed from recorded API cassettes
+ *
+ * Usage:
+ *   npx tsx scripts/test-skills.ts                   # all suites, replay
+ *   npx tsx scripts/test-skills.ts repo readme       # some suites
+ *   TEST_REPO=owner/name npx tsx scripts/test-skills.ts repo --record
+ *
+ * --record calls the real APIs (keys from .env) and rewrites
+ * scripts/cassettes/<suite>.json. Suites without a cassette run their
+ * offline cases only - except under CI, where a missing cassette fails.
+ */
+
+import 'dotenv/config';
+import { cassetteModeFromEnv, runSuite, type SkillSuite } from '../lib/skills/_shared/index.js';
+import { chartSuite } from './skills/chart.js';
+import { nextSuite } from './skills/next.js';
+import { previewSuite } from './skills/preview.js';
+import { readmeSuite } from './skills/readme.js';
+import { repoSuite } from './skills/repo.js';
+import { scanSuite } from './skills/scan.js';
+
+const SUITES: SkillSuite[] = [repoSuite, scanSuite, readmeSuite, previewSuite, nextSuite, chartSuite];
+
+const args = process.argv.slice(2);
+const mode = cassetteModeFromEnv(args);
+const names = args.filter(a => !a.startsWith('--'));
+
+async function main() {
+  const unknown = names.filter(n => !SUITES.some(s => s.name === n));
+  if (unknown.length > 0) {
+    console.error(`Unknown suite: ${unknown.join(', ')} (have: ${SUITES.map(s => s.name).join(', ')})`);
+    process.exit(1);
+  }
+
+  const suites = names.length > 0 ? SUITES.filter(s => names.includes(s.name)) : SUITES;
+  console.log(`=== Skill suites (${mode}) ===\n`);
+
+  let failures = 0;
+  for (const suite of suites) {
+    const result = await runSuite(suite, mode, { requireCassette: !!process.env.CI });
+    failures += result.failed.length;
+
+    console.log(`${suite.name}`);
+    result.passed.forEach(name => console.log(`  ✓ ${name}`));
+    result.failed.forEach(({ name, error }) => console.log(`  ✗ ${name}\n      ${error}`));
+    result.skipped.forEach(name => console.log(`  - ${name} (no cassette)`));
+    if (result.synthetic) {
+      console.log('  ⚠ synthetic cassette - re-record against the real APIs with --record');
+    }
+    if (result.unused > 0) {
+      console.log(`  ⚠ ${result.unused} recorded request${result.unused === 1 ? '' : 's'} not made - consider re-recording`);
+    }
+    console.log('');
+  }
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} failed`);
+    process.exit(1);
+  }
+  console.log('✓ All passed');
+}
+
+main().catch(err => {
+  console.error('Error:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+#!/usr/bin/env npx tsx
+/**
+ * Unit suites - offline, no cassettes
+ *
+ * Usage:
+ *   npx tsx scripts/test-unit.ts              # all suites
+ *   npx tsx scripts/test-unit.ts tech-stack   # some suites
+ */
+
+import { checksSuite } from './unit/checks.js';
+import { commitHistorySuite } from './unit/commit-history.js';
+import { deploySuite } from './unit/deploy.js';
+import { evidenceSuite } from './unit/evidence.js';
+import { leakScannerSuite } from './unit/leak-scanner.js';
+import { llmSuite } from './unit/llm.js';
+import { promptsSuite } from './unit/prompts.js';
+import { readmeLintSuite } from './unit/readme-lint.js';
+import { techStackSuite } from './unit/tech-stack.js';
+import { workspacesSuite } from './unit/workspaces.js';
+import type { UnitSuite } from './unit/suite.js';
+
+const SUITES: UnitSuite[] = [
+  techStackSuite,
+  deploySuite,
+  readmeLintSuite,
+  checksSuite,
+  llmSuite,
+  evidenceSuite,
+  commitHistorySuite,
+  promptsSuite,
+  workspacesSuite,
+  leakScannerSuite,
+];
+
+const names = process.argv.slice(2).filter(a => !a.startsWith('--'));
+
+async function main() {
+  const unknown = names.filter(n => !SUITES.some(s => s.name === n));
+  if (unknown.length > 0) {
+    console.error(`Unknown suite: ${unknown.join(', ')} (have: ${SUITES.map(s => s.name).join(', ')})`);
+    process.exit(1);
+  }
+
+  const suites = names.length > 0 ? SUITES.filter(s => names.includes(s.name)) : SUITES;
+  console.log('=== Unit suites ===\n');
+
+  let failures = 0;
+  for (const suite of suites) {
+    console.log(suite.name);
+    for (const testCase of suite.cases) {
+      try {
+        await testCase.run();
+        console.log(`  ✓ ${testCase.name}`);
+      } catch (err) {
+        failures++;
+        console.log(`  ✗ ${testCase.name}\n      ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    console.log('');
+  }
+
+  if (failures > 0) {
+    console.error(`❌ ${failures} failed`);
+    process.exit(1);
+  }
+  console.log('✓ All passed');
+}
+
+main().catch(err => {
+  console.error('Error:', err.message);
+  process.exit(1);
+});
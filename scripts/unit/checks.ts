@@ -0,0 +1,113 @@
+/**
+ * Repo checks (lib/checks): built-in rules and the runner's per-SHA cache
+ */
+
+import assert from 'node:assert/strict';
+import type { GitHubClient } from '../../lib/core/github.js';
+import {
+  runChecks, runCheck, isShaBound, checkSetKey, getAllChecks,
+  licenseCheck, envFileCheck, testsCheck, largeFilesCheck, homepageCheck,
+  type Check, type CheckData,
+} from '../../lib/checks/index.js';
+import type { UnitSuite } from './suite.js';
+
+function data(overrides: Partial<CheckData> = {}): CheckData {
+  return {
+    owner: 'acme', name: 'tool', sha: 'abc123',
+    tree: [], readme: null, manifests: {}, commits: [],
+    repo: { description: null, homepage: null },
+    ...overrides,
+  };
+}
+
+/** Just what runChecks calls; counts repo-settings reads */
+function fakeGitHub(state: { sha: string; homepage: string | null }) {
+  const calls = { repoInfo: 0, tree: 0 };
+  const github = {
+    getDefaultBranch: async () => 'main',
+    getBranchSha: async () => state.sha,
+    getTreeBlobs: async () => {
+      calls.tree++;
+      return [{ path: 'LICENSE', size: 1000 }, { path: 'src/index.ts', size: 2000 }];
+    },
+    getFileContent: async () => null,
+    getRepoCommits: async () => [],
+    getRepoInfo: async () => {
+      calls.repoInfo++;
+      return { description: null, homepage: state.homepage };
+    },
+  } as unknown as GitHubClient;
+  return { github, calls };
+}
+
+export const checksSuite: UnitSuite = {
+  name: 'checks',
+  cases: [
+    {
+      name: 'license, .env and large files read the tree',
+      async run() {
+        assert.equal((await runCheck(licenseCheck, data({ tree: [{ path: 'LICENSE.md', size: 1 }] }))).status, 'pass');
+        assert.notEqual((await runCheck(licenseCheck, data())).status, 'pass');
+        assert.equal((await runCheck(envFileCheck, data({ tree: [{ path: '.env', size: 10 }] }))).status, 'fail');
+        assert.equal((await runCheck(envFileCheck, data({ tree: [{ path: '.env.example', size: 10 }] }))).status, 'pass');
+        assert.notEqual((await runCheck(largeFilesCheck, data({ tree: [{ path: 'demo.mp4', size: 80 * 1024 * 1024 }] }))).status, 'pass');
+      },
+    },
+    {
+      name: 'tests check finds test files',
+      async run() {
+        assert.equal((await runCheck(testsCheck, data({ tree: [{ path: 'src/a.test.ts', size: 1 }] }))).status, 'pass');
+        assert.notEqual((await runCheck(testsCheck, data({ tree: [{ path: 'src/a.ts', size: 1 }] }))).status, 'pass');
+      },
+    },
+    {
+      name: 'a throwing check becomes a warn result',
+      async run() {
+        const broken: Check = { name: 'broken', label: 'Broken', inputs: ['tree'], run: () => { throw new Error('boom'); } };
+        const result = await runCheck(broken, data());
+        assert.equal(result.status, 'warn');
+        assert.match(result.message, /boom/);
+      },
+    },
+    {
+      name: 'homepage reads settings, so it is not SHA-bound',
+      run() {
+        assert.equal(isShaBound(homepageCheck), false);
+        assert.equal(isShaBound(licenseCheck), true);
+      },
+    },
+    {
+      name: 'check set key changes with names and versions, not order',
+      run() {
+        const a: Check = { name: 'a', label: 'A', inputs: ['tree'], run: () => ({ status: 'pass', message: '' }) };
+        const b: Check = { ...a, name: 'b' };
+        assert.equal(checkSetKey([a, b]), checkSetKey([b, a]));
+        assert.notEqual(checkSetKey([a]), checkSetKey([a, b]));
+        assert.notEqual(checkSetKey([a]), checkSetKey([{ ...a, version: 2 }]));
+      },
+    },
+    {
+      name: 'cached per SHA, but the homepage check sees settings changes',
+      async run() {
+        const repo = { sha: `sha-${Date.now()}`, homepage: null as string | null };
+        const { github, calls } = fakeGitHub(repo);
+
+        const first = await runChecks(github, 'acme', 'cache-test', {});
+        assert.equal(calls.tree, 1);
+        assert.deepEqual(first.results.map(r => r.name), getAllChecks().map(c => c.name));
+        assert.equal(first.results.find(r => r.name === 'homepage')?.status, 'warn');
+
+        repo.homepage = 'https://acme.dev';
+        const second = await runChecks(github, 'acme', 'cache-test');
+        assert.equal(calls.tree, 1, 'tree re-read for a cached SHA');
+        assert.equal(calls.repoInfo, 2);
+        assert.equal(second.results.find(r => r.name === 'homepage')?.status, 'pass');
+        assert.deepEqual(second.results.map(r => r.name), first.results.map(r => r.name));
+
+        repo.sha = `${repo.sha}-next`;
+        await runChecks(github, 'acme', 'cache-test');
+        assert.equal(calls.tree, 2);
+      },
+    },
+  ],
+};
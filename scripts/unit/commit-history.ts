@@ -0,0 +1,87 @@
+/**
+ * Commit history (lib/core/commit-history.ts): weekly counts, streaks, churn
+ */
+
+import assert from 'node:assert/strict';
+import { buildCommitHistory, churnByDirectory } from '../../lib/core/commit-history.js';
+import type { UnitSuite } from './suite.js';
+
+const DAY_MS = 86400000;
+/** Noon UTC, so "n days ago" never straddles midnight */
+const NOW = Date.UTC(2026, 5, 15, 12);
+
+function commit(sha: string, daysAgo: number) {
+  return { sha, commit: { author: { date: new Date(NOW - daysAgo * DAY_MS).toISOString() } } };
+}
+
+export const commitHistorySuite: UnitSuite = {
+  name: 'commit-history',
+  cases: [
+    {
+      name: 'counts, weekly buckets and active days cover the window only',
+      run() {
+        const commits = [commit('a', 0), commit('b', 0), commit('c', 1), commit('d', 10), commit('e', 120)];
+        const history = buildCommitHistory(commits, { now: NOW });
+        assert.equal(history.total_commits, 4);
+        assert.equal(history.active_days, 3);
+        assert.equal(history.weekly.length, 13);
+        assert.equal(history.weekly[12], 3, 'this week');
+        assert.equal(history.weekly[11], 1, 'last week');
+        assert.equal(history.days_since_last, 0);
+      },
+    },
+    {
+      name: 'streaks: current run may end yesterday, longest is any run',
+      run() {
+        const commits = [1, 2, 3, 20, 21, 22, 23, 24].map(d => commit(`c${d}`, d));
+        const history = buildCommitHistory(commits, { now: NOW });
+        assert.equal(history.current_streak, 3);
+        assert.equal(history.longest_streak, 5);
+        assert.equal(history.days_since_last, 1);
+      },
+    },
+    {
+      name: 'stale repo: nothing in the window, days since last still known',
+      run() {
+        const history = buildCommitHistory([commit('old', 200)], { now: NOW });
+        assert.equal(history.total_commits, 0);
+        assert.equal(history.current_streak, 0);
+        assert.equal(history.days_since_last, 200);
+        assert.equal(buildCommitHistory([], { now: NOW }).days_since_last, 999);
+      },
+    },
+    {
+      name: 'truncated only when the limit was hit and the oldest is still in the window',
+      run() {
+        const full = [commit('a', 1), commit('b', 2)];
+        assert.equal(buildCommitHistory(full, { now: NOW, limit: 2 }).truncated, true);
+        assert.equal(buildCommitHistory(full, { now: NOW, limit: 3 }).truncated, false);
+        assert.equal(buildCommitHistory([commit('a', 1), commit('b', 100)], { now: NOW, limit: 2 }).truncated, false);
+      },
+    },
+    {
+      name: 'churn groups files two directories deep, one commit per directory per commit',
+      run() {
+        const churn = churnByDirectory([
+          ['lib/core/a.ts', 'lib/core/b.ts', 'README.md'],
+          ['lib/core/deep/c.ts', 'src/index.ts'],
+          ['src/index.ts'],
+        ]);
+        assert.deepEqual(churn, [
+          { dir: 'lib/core', commits: 2, files: 3 },
+          { dir: 'src', commits: 2, files: 2 },
+          { dir: '.', commits: 1, files: 1 },
+        ]);
+      },
+    },
+    {
+      name: 'churn is counted over sampled commits in the window',
+      run() {
+        const files = new Map([['a', ['src/a.ts']], ['old', ['legacy/x.ts']]]);
+        const history = buildCommitHistory([commit('a', 1), commit('b', 2), commit('old', 120)], { now: NOW, files });
+        assert.deepEqual(history.churn, [{ dir: 'src', commits: 1, files: 1 }]);
+        assert.equal(history.churn_sampled, 1);
+      },
+    },
+  ],
+};
@@ -0,0 +1,157 @@
+/**
+ * Analysis evidence: code sampling (lib/tools/repo/sampler.ts) and
+ * grounding against the tree (lib/tools/repo/verifier.ts)
+ */
+
+import assert from 'node:assert/strict';
+import type { GitHubClient } from '../../lib/core/github.js';
+import { CoreAnalysisSchema } from '../../lib/core/types.js';
+import { sampleCode, resolveImports, extractSymbols, isSourceFile, type CodeSample } from '../../lib/tools/repo/sampler.js';
+import { verifyAnalysis, buildGroundingFeedback } from '../../lib/tools/repo/verifier.js';
+import type { UnitSuite } from './suite.js';
+
+/** Serves file contents; no commits, so no churn */
+function fakeGitHub(contents: Record<string, string>): GitHubClient {
+  return {
+    getCommitFiles: async () => [],
+    getFileContent: async (_owner: string, _repo: string, path: string) => contents[path] ?? null,
+  } as unknown as GitHubClient;
+}
+
+const ANALYSIS = CoreAnalysisSchema.parse({
+  one_liner: 'Parses things',
+  what_it_does: 'Parses things',
+  has_core: true,
+  core_value: 'The parser',
+  why_core: 'Everything else wraps it',
+  core_evidence: [
+    { file: 'src/parser.ts', symbols: ['parse', 'Parser.run'], reason: 'core' },
+    { file: 'src/ghost.ts', symbols: ['haunt'], reason: 'invented' },
+    { file: 'src/cli.ts', symbols: ['main', 'missingFn'], reason: 'entry' },
+  ],
+  keep: ['src/', 'src/parser.ts'],
+  cut: ['docs/old', 'legacy/'],
+  verdict: 'cut_to_core',
+  verdict_reason: 'Keep the parser',
+  tweet_draft: null,
+});
+
+const SAMPLES: CodeSample[] = [
+  { path: 'src/parser.ts', content: 'export class Parser { run() {} }\nexport function parse() {}', symbols: ['Parser', 'parse'], truncated: false },
+  { path: 'src/cli.ts', content: 'export function main() {}', symbols: ['main'], truncated: false },
+];
+
+export const evidenceSuite: UnitSuite = {
+  name: 'evidence',
+  cases: [
+    {
+      name: 'source files exclude tests, declarations, configs and vendored dirs',
+      run() {
+        assert.equal(isSourceFile('src/index.ts'), true);
+        assert.equal(isSourceFile('src/index.test.ts'), false);
+        assert.equal(isSourceFile('types/index.d.ts'), false);
+        assert.equal(isSourceFile('vite.config.ts'), false);
+        assert.equal(isSourceFile('node_modules/x/index.js'), false);
+        assert.equal(isSourceFile('README.md'), false);
+      },
+    },
+    {
+      name: 'resolveImports: relative TS with .js suffixes and index files',
+      run() {
+        const sources = new Set(['src/index.ts', 'src/core/parser.ts', 'src/util/index.ts']);
+        const content = `import { parse } from './core/parser.js';\nimport * as util from './util';\nimport x from 'lodash';`;
+        assert.deepEqual(resolveImports('src/index.ts', content, sources).sort(), ['src/core/parser.ts', 'src/util/index.ts']);
+      },
+    },
+    {
+      name: 'resolveImports: Python relative and absolute, Rust mod',
+      run() {
+        const py = new Set(['pkg/app.py', 'pkg/models.py', 'pkg/db/__init__.py', 'src/tool/cli.py']);
+        const imports = resolveImports('pkg/app.py', 'from .models import User\nfrom .db import engine\nimport tool.cli', py);
+        assert.deepEqual(imports.sort(), ['pkg/db/__init__.py', 'pkg/models.py', 'src/tool/cli.py']);
+
+        const rs = new Set(['src/main.rs', 'src/parser.rs', 'src/net/mod.rs']);
+        assert.deepEqual(resolveImports('src/main.rs', 'mod parser;\npub mod net;\nuse std::io;', rs).sort(), ['src/net/mod.rs', 'src/parser.rs']);
+      },
+    },
+    {
+      name: 'extractSymbols: exports by language',
+      run() {
+        assert.deepEqual(
+          extractSymbols('a.ts', 'export async function load() {}\nexport default class App {}\nexport { helper as tool, type Shape }\nconst hidden = 1;'),
+          ['load', 'App', 'tool']
+        );
+        assert.deepEqual(extractSymbols('a.py', 'def run():\n    def inner(): pass\nclass Job:\n    pass'), ['run', 'Job']);
+        assert.deepEqual(extractSymbols('a.go', 'func Serve() {}\nfunc (s *Server) Close() {}\nfunc helper() {}\ntype Server struct{}'), ['Serve', 'Close', 'Server']);
+        assert.deepEqual(extractSymbols('a.rs', 'pub fn parse() {}\nfn private() {}\npub(crate) struct Token;'), ['parse', 'Token']);
+      },
+    },
+    {
+      name: 'sampleCode ranks package.json exports targets first',
+      async run() {
+        const github = fakeGitHub({
+          'src/deep/nested/entry.ts': 'export function entry() {}',
+          'src/helpers.ts': 'export const help = 1;',
+        });
+        const pkg = JSON.stringify({ exports: { '.': { types: './dist/index.d.ts', import: './src/deep/nested/entry.ts' } } });
+        const samples = await sampleCode(github, 'acme', 'tool', ['src/helpers.ts', 'src/deep/nested/entry.ts'], [], pkg);
+        assert.equal(samples[0].path, 'src/deep/nested/entry.ts');
+        assert.deepEqual(samples[0].symbols, ['entry']);
+      },
+    },
+    {
+      name: 'sampleCode truncates to the per-file cap and stops at the budget',
+      async run() {
+        const big = `export function big() {}\n${'// filler\n'.repeat(200)}`;
+        const github = fakeGitHub({ 'src/index.ts': big, 'src/other.ts': big });
+        const samples = await sampleCode(github, 'acme', 'tool', ['src/index.ts', 'src/other.ts'], [], null, { maxFileChars: 600, budgetChars: 1000 });
+        assert.equal(samples[0].path, 'src/index.ts');
+        assert.equal(samples[0].content.length, 600);
+        assert.equal(samples[0].truncated, true);
+        assert.equal(samples.length, 1, 'the 400 chars left are under the 500-char floor');
+      },
+    },
+    {
+      name: 'verifyAnalysis strips missing paths and symbols and scores the rest',
+      run() {
+        const files = ['src/parser.ts', 'src/cli.ts', 'docs/old/guide.md', 'README.md'];
+        const { analysis, grounding, invalidRatio } = verifyAnalysis(ANALYSIS, { files, samples: SAMPLES });
+
+        assert.deepEqual(analysis.core_evidence.map(e => e.file), ['src/parser.ts', 'src/cli.ts'], 'clean evidence first');
+        assert.deepEqual(analysis.core_evidence[1].symbols, ['main']);
+        assert.deepEqual(analysis.keep, ['src/', 'src/parser.ts']);
+        assert.deepEqual(analysis.cut, ['docs/old']);
+        assert.deepEqual(grounding.missing_paths.sort(), ['legacy/', 'src/ghost.ts']);
+        assert.deepEqual(grounding.missing_symbols, ['src/cli.ts:missingFn']);
+        // 3 evidence files + 4 symbols (none for the missing file) + 4 keep/cut paths, 3 invalid
+        assert.equal(grounding.checked, 11);
+        assert.equal(invalidRatio, 3 / 11);
+        assert.equal(grounding.score, 73);
+      },
+    },
+    {
+      name: 'verifyAnalysis skips what it cannot judge: deep paths in a shallow tree, truncated samples',
+      run() {
+        const truncated = SAMPLES.map(s => ({ ...s, truncated: true }));
+        const { grounding } = verifyAnalysis(ANALYSIS, {
+          files: ['src/parser.ts', 'src/cli.ts', 'docs/old'],
+          samples: truncated,
+          treeDepth: 2,
+        });
+        // src/ghost.ts is 2 segments deep, so it can't be told apart from a missing entry; legacy/ can
+        assert.deepEqual(grounding.missing_paths, ['legacy/']);
+        assert.deepEqual(grounding.missing_symbols, []);
+      },
+    },
+    {
+      name: 'grounding feedback lists what was missing and what exists',
+      run() {
+        const { grounding } = verifyAnalysis(ANALYSIS, { files: ['src/parser.ts', 'src/cli.ts'], samples: SAMPLES });
+        const feedback = buildGroundingFeedback(grounding, SAMPLES);
+        assert.match(feedback, /- src\/ghost\.ts/);
+        assert.match(feedback, /- src\/cli\.ts:missingFn/);
+        assert.match(feedback, /- src\/parser\.ts: Parser, parse/);
+      },
+    },
+  ],
+};
@@ -0,0 +1,221 @@
+/**
+ * LLMClient (lib/llm/client.ts): retry, provider fallback, cost accounting
+ * and the JSON repair loop, over scripted providers and an instant sleep
+ */
+
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { MODELS, type AIProvider, type TaskConfig } from '../../lib/core/config.js';
+import {
+  LLMClient, LLMProviderError, LLMUnavailableError, LLMOutputError, costOf, createOpenAIProvider,
+  type LLMProvider, type ProviderRequest, type ProviderResponse, type UsageEntry,
+} from '../../lib/llm/index.js';
+import type { UnitSuite } from './suite.js';
+
+type Step = string | LLMProviderError | Error;
+
+/** Replies (or throws) the scripted steps in order; records every request */
+function scripted(name: AIProvider, steps: Step[], configured = true) {
+  const requests: ProviderRequest[] = [];
+  const provider: LLMProvider = {
+    name,
+    isConfigured: () => configured,
+    async complete(request): Promise<ProviderResponse> {
+      requests.push(request);
+      const step = steps.shift();
+      if (step === undefined) throw new Error(`${name}: no scripted reply left`);
+      if (step instanceof Error) throw step;
+      return { text: step, model: request.model, usage: { input_tokens: 1000, output_tokens: 500 } };
+    },
+  };
+  return { provider, requests };
+}
+
+const ROUTE: TaskConfig = {
+  provider: 'anthropic',
+  model: MODELS.anthropic.sonnet,
+  reason: 'test',
+  fallback: { provider: 'google', model: MODELS.google.flash },
+};
+
+function client(providers: Partial<Record<AIProvider, LLMProvider>>) {
+  const sleeps: number[] = [];
+  const usage: UsageEntry[] = [];
+  const llm = new LLMClient({
+    providers,
+    routing: { repo_analysis: ROUTE },
+    recordUsage: async entry => { usage.push(entry); },
+    sleep: async ms => { sleeps.push(ms); },
+  });
+  return { llm, sleeps, usage };
+}
+
+const request = { task: 'repo_analysis' as const, messages: [{ role: 'user' as const, content: 'hi' }], maxTokens: 100 };
+
+export const llmSuite: UnitSuite = {
+  name: 'llm',
+  cases: [
+    {
+      name: 'retryable errors back off and retry on the same provider',
+      async run() {
+        const primary = scripted('anthropic', [new LLMProviderError('anthropic', 529, 'overloaded'), new LLMProviderError('anthropic', 503, 'unavailable'), 'ok']);
+        const { llm, sleeps } = client({ anthropic: primary.provider });
+        const completion = await llm.complete(request);
+        assert.equal(completion.text, 'ok');
+        assert.equal(completion.fallback, false);
+        assert.equal(primary.requests.length, 3);
+        assert.equal(sleeps.length, 2);
+        assert.ok(sleeps[1] > sleeps[0], 'backoff grows');
+      },
+    },
+    {
+      name: 'non-retryable errors go straight to the fallback',
+      async run() {
+        const primary = scripted('anthropic', [new LLMProviderError('anthropic', 400, 'bad request')]);
+        const fallback = scripted('google', ['from google']);
+        const { llm, sleeps, usage } = client({ anthropic: primary.provider, google: fallback.provider });
+        const completion = await llm.complete(request);
+        assert.equal(completion.text, 'from google');
+        assert.equal(completion.provider, 'google');
+        assert.equal(completion.fallback, true);
+        assert.equal(primary.requests.length, 1);
+        assert.equal(sleeps.length, 0);
+        assert.equal(fallback.requests[0].model, MODELS.google.flash);
+        assert.equal(usage[0].fallback, true);
+      },
+    },
+    {
+      name: 'primary exhausts its attempts, then the fallback serves',
+      async run() {
+        const overloaded = () => new LLMProviderError('anthropic', 529, 'overloaded');
+        const primary = scripted('anthropic', [overloaded(), overloaded(), overloaded(), 'too late']);
+        const fallback = scripted('google', ['ok']);
+        const { llm } = client({ anthropic: primary.provider, google: fallback.provider });
+        assert.equal((await llm.complete(request)).provider, 'google');
+        assert.equal(primary.requests.length, 3);
+      },
+    },
+    {
+      name: 'an unconfigured primary is skipped without a call',
+      async run() {
+        const primary = scripted('anthropic', ['unused'], false);
+        const fallback = scripted('google', ['ok']);
+        const { llm } = client({ anthropic: primary.provider, google: fallback.provider });
+        assert.equal((await llm.complete(request)).fallback, true);
+        assert.equal(primary.requests.length, 0);
+      },
+    },
+    {
+      name: 'every provider failing throws LLMUnavailableError with each error',
+      async run() {
+        const primary = scripted('anthropic', [new LLMProviderError('anthropic', 401, 'bad key')]);
+        const fallback = scripted('google', [new LLMProviderError('google', 403, 'forbidden')]);
+        const { llm, usage } = client({ anthropic: primary.provider, google: fallback.provider });
+        await assert.rejects(llm.complete(request), (err: unknown) => {
+          assert.ok(err instanceof LLMUnavailableError);
+          assert.deepEqual(err.errors.map(e => e.status), [401, 403]);
+          return true;
+        });
+        assert.equal(usage.length, 0);
+      },
+    },
+    {
+      name: 'an OpenAI-compatible timeout is not retried',
+      async run() {
+        let calls = 0;
+        const provider = createOpenAIProvider(async () => {
+          calls++;
+          throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+        });
+        const previous = process.env.OPENAI_BASE_URL;
+        process.env.OPENAI_BASE_URL = 'http://127.0.0.1:8080/v1';
+        try {
+          const sleeps: number[] = [];
+          const llm = new LLMClient({
+            providers: { openai: provider },
+            routing: { repo_analysis: { provider: 'openai', model: 'local', reason: 'test' } },
+            recordUsage: null,
+            sleep: async ms => { sleeps.push(ms); },
+          });
+          await assert.rejects(llm.complete(request), (err: unknown) => {
+            assert.ok(err instanceof LLMUnavailableError);
+            assert.equal(err.errors[0].retryable, false);
+            return true;
+          });
+          assert.equal(calls, 1);
+          assert.equal(sleeps.length, 0);
+        } finally {
+          if (previous === undefined) delete process.env.OPENAI_BASE_URL;
+          else process.env.OPENAI_BASE_URL = previous;
+        }
+      },
+    },
+    {
+      name: 'cost is priced per model and recorded against the repo',
+      async run() {
+        const primary = scripted('anthropic', ['ok']);
+        const { llm, usage } = client({ anthropic: primary.provider });
+        const completion = await llm.forRepo('acme/tool').complete(request);
+
+        // Sonnet: $3 / $15 per million tokens
+        assert.equal(completion.cost_usd, (1000 * 3 + 500 * 15) / 1_000_000);
+        assert.deepEqual(usage, [{
+          task: 'repo_analysis',
+          repo: 'acme/tool',
+          model: MODELS.anthropic.sonnet,
+          usage: { input_tokens: 1000, output_tokens: 500 },
+          cost_usd: completion.cost_usd,
+          fallback: false,
+        }]);
+      },
+    },
+    {
+      name: 'costOf matches dated model ids by prefix and prices unknown models at 0',
+      run() {
+        const usage = { input_tokens: 1_000_000, output_tokens: 0 };
+        assert.equal(costOf(`${MODELS.google.flash}-001`, usage), costOf(MODELS.google.flash, usage));
+        assert.equal(costOf('llama-3-local', usage), 0);
+      },
+    },
+    {
+      name: 'completeJson sends schema errors back and sums usage across repairs',
+      async run() {
+        const schema = z.object({ verdict: z.enum(['ship', 'cut']) });
+        const primary = scripted('anthropic', ['not json', '{"verdict":"maybe"}', '{"verdict":"ship"}']);
+        const { llm, usage } = client({ anthropic: primary.provider });
+        const completion = await llm.completeJson(schema, request);
+
+        assert.deepEqual(completion.data, { verdict: 'ship' });
+        assert.equal(completion.repairs, 2);
+        assert.equal(completion.usage.input_tokens, 3000);
+        assert.equal(usage.length, 3);
+        assert.equal(primary.requests[0].output?.name, 'repo_analysis_result');
+        const repair = primary.requests[2].messages.at(-1)?.content;
+        assert.match(String(repair), /verdict/);
+      },
+    },
+    {
+      name: 'completeJson returns domain issues left after the last repair',
+      async run() {
+        const schema = z.object({ keep: z.array(z.string()) });
+        const primary = scripted('anthropic', ['{"keep":[]}', '{"keep":[]}', '{"keep":[]}']);
+        const { llm } = client({ anthropic: primary.provider });
+        const completion = await llm.completeJson(schema, request, {
+          validate: data => data.keep.length === 0 ? ['keep is empty'] : [],
+        });
+        assert.equal(completion.repairs, 2);
+        assert.deepEqual(completion.issues, ['keep is empty']);
+      },
+    },
+    {
+      name: 'completeJson throws LLMOutputError when no reply parses',
+      async run() {
+        const schema = z.object({ ok: z.boolean() });
+        const primary = scripted('anthropic', ['nope', 'nope', 'nope']);
+        const { llm } = client({ anthropic: primary.provider });
+        await assert.rejects(llm.completeJson(schema, request), LLMOutputError);
+        assert.equal(primary.requests.length, 3);
+      },
+    },
+  ],
+};
@@ -0,0 +1,126 @@
+/**
+ * Prompt registry (lib/prompts/registry.ts) and the A/B eval's version
+ * lookup and runner (lib/prompts/eval.ts), over a scripted provider
+ */
+
+import assert from 'node:assert/strict';
+import { MODELS } from '../../lib/core/config.js';
+import { emptyTechStack } from '../../lib/core/tech-stack.js';
+import { LLMClient, type LLMProvider } from '../../lib/llm/index.js';
+import { getPrompt, getEvalAdapter, listPrompts, promptRequest, promptTag, PromptNotFoundError, type CorpusRepo } from '../../lib/prompts/index.js';
+import { chartAnalysisPrompt } from '../../lib/tools/chart/analysis.js';
+import { repoPotentialPrompt, repoPotentialPromptV1 } from '../../lib/ai/repo-potential.js';
+import { repoAnalysisPrompt, repoAnalysisPromptV4, repoAnalysisPromptV5, type AnalysisPromptInput } from '../../lib/tools/repo/prompts.js';
+import type { UnitSuite } from './suite.js';
+
+const CORPUS: CorpusRepo[] = [{ owner: 'acme', name: 'tool', description: 'A tool', tech: ['Next.js'], readme: '# tool' }];
+
+/** Replies with the same potential to every request */
+function potentialLlm(confidence: string) {
+  const provider: LLMProvider = {
+    name: 'anthropic',
+    isConfigured: () => true,
+    async complete(request) {
+      const reply = { potential: 'Ship tools faster', icp: 'indie hackers', promise: 'less glue code', positioning_angle: 'small', confidence };
+      return { text: JSON.stringify(reply), model: request.model, usage: { input_tokens: 10, output_tokens: 10 } };
+    },
+  };
+  return new LLMClient({
+    providers: { anthropic: provider },
+    routing: { card_context: { provider: 'anthropic', model: MODELS.anthropic.sonnet, reason: 'test' } },
+    recordUsage: null,
+  });
+}
+
+const ANALYSIS_INPUT: AnalysisPromptInput = {
+  owner: 'acme',
+  repo: 'tool',
+  description: null,
+  readme: '# tool',
+  manifests: {},
+  techStack: emptyTechStack(),
+  fileTree: 'src/index.ts',
+  commitSignals: { velocity: 'active', coherence: 'focused', days_since_last: 1, recent_messages: [] },
+  ciStatus: { state: 'failing', sha: 'abc1234', failing: [], checked_at: '2026-01-01T00:00:00Z' },
+};
+
+export const promptsSuite: UnitSuite = {
+  name: 'prompts',
+  cases: [
+    {
+      name: 'evaluable prompts keep their previous version registered',
+      run() {
+        const tags = listPrompts().map(promptTag);
+        for (const tag of ['repoAnalysis_v4', 'repoAnalysis_v5', 'repoAnalysis_v6', 'repoPotential_v1', 'repoPotential_v2']) {
+          assert.ok(tags.includes(tag), tag);
+        }
+        assert.equal(getPrompt('repoPotential'), repoPotentialPrompt, 'latest by default');
+        assert.deepEqual(getEvalAdapter('repoAnalysis')?.versions, [4, 5, 6]);
+      },
+    },
+    {
+      name: 'README and chart prompts are registered',
+      run() {
+        const ids = new Set(listPrompts().map(p => p.id));
+        for (const id of ['readme', 'optimizeReadme', 'chartAnalysis']) {
+          assert.ok(ids.has(id), id);
+        }
+      },
+    },
+    {
+      name: 'promptRequest puts images ahead of the rendered text',
+      run() {
+        const image = { type: 'image' as const, mimeType: 'image/png' as const, data: 'iVBOR' };
+        const request = promptRequest(chartAnalysisPrompt, { question: 'Where is support?' }, [image]);
+        const [content] = request.messages.map(m => m.content);
+        assert.ok(Array.isArray(content));
+        assert.deepEqual(content[0], image);
+        assert.match(content[1].type === 'text' ? content[1].text : '', /USER'S QUESTION: Where is support\?/);
+        assert.equal(typeof promptRequest(chartAnalysisPrompt, { question: 'x' }).messages[0].content, 'string');
+      },
+    },
+    {
+      name: 'repoAnalysis v4 renders without the CI line, later versions with it',
+      run() {
+        assert.doesNotMatch(repoAnalysisPromptV4.render(ANALYSIS_INPUT), /- CI:/);
+        assert.match(repoAnalysisPrompt.render(ANALYSIS_INPUT), /- CI:/);
+        assert.equal(repoAnalysisPromptV4.render(ANALYSIS_INPUT), repoAnalysisPrompt.render({ ...ANALYSIS_INPUT, ciStatus: undefined }));
+        assert.equal(repoAnalysisPromptV5.render(ANALYSIS_INPUT), repoAnalysisPrompt.render(ANALYSIS_INPUT));
+      },
+    },
+    {
+      name: 'repoPotential v1 lists tech labels flat, v2 groups them',
+      run() {
+        const input = {
+          repo_name: 'tool',
+          repo_description: '',
+          readme_excerpt: '',
+          tech_stack: { ...emptyTechStack(), languages: ['TypeScript'], frameworks: ['Next.js'], package_managers: ['pnpm'] },
+        };
+        assert.match(repoPotentialPromptV1.render(input), /^Tech Stack: TypeScript, Next\.js$/m);
+        assert.match(repoPotentialPrompt.render(input), /^Tech Stack: TypeScript · Next\.js · pnpm$/m);
+        assert.match(repoPotentialPromptV1.system ?? '', /repoPotential_v1/);
+      },
+    },
+    {
+      name: 'an adapter runs two of its versions side by side',
+      async run() {
+        const report = await getEvalAdapter('repoPotential')!.run({ llm: potentialLlm('high'), a: 1, b: 2, corpus: CORPUS });
+        assert.equal(report.a, 'repoPotential_v1');
+        assert.equal(report.b, 'repoPotential_v2');
+        const [result] = report.cases;
+        assert.equal(result.skipped, null);
+        assert.equal(result.a?.valid, true);
+        assert.equal(result.a?.label, 'high');
+        assert.equal(result.b?.summary, 'Ship tools faster');
+      },
+    },
+    {
+      name: 'an adapter rejects versions it does not have',
+      async run() {
+        const adapter = getEvalAdapter('repoPotential')!;
+        await assert.rejects(adapter.run({ llm: potentialLlm('low'), a: 1, b: 9, corpus: CORPUS }), PromptNotFoundError);
+      },
+    },
+  ],
+};
@@ -0,0 +1,50 @@
+/**
+ * README lint (lib/readme-lint.ts)
+ */
+
+import assert from 'node:assert/strict';
+import { lintReadme, lintReadmeWithImages } from '../../lib/readme-lint.js';
+import type { UnitSuite } from './suite.js';
+
+const rules = (readme: string, files: string[]) => lintReadme(readme, { files }).findings.map(f => f.rule);
+
+export const readmeLintSuite: UnitSuite = {
+  name: 'readme-lint',
+  cases: [
+    {
+      name: 'a literal % in a link target is a path, not a decode error',
+      async run() {
+        const readme = '# T\n\nSee [report](docs/100%.md)\n';
+        assert.ok(!rules(readme, ['docs/100%.md']).includes('broken_link'));
+        assert.ok(rules(readme, ['README.md']).includes('broken_link'));
+
+        // The image pass must not throw either (generateCard awaits it in Promise.all)
+        const health = await lintReadmeWithImages(readme, { files: ['docs/100%.md'] });
+        assert.ok(!health.findings.some(f => f.rule === 'broken_link'));
+      },
+    },
+    {
+      name: 'percent-encoded targets still resolve',
+      run() {
+        assert.ok(!rules('# T\n\n[guide](docs/getting%20started.md)\n', ['docs/getting started.md']).includes('broken_link'));
+      },
+    },
+    {
+      name: 'relative links resolve from the root; URLs and anchors are skipped',
+      run() {
+        const readme = '# T\n\n[a](./docs/a.md) [b](/src) [c](https://example.com/x.md) [d](#usage) [e](docs/missing.md)\n';
+        const broken = lintReadme(readme, { files: ['docs/a.md', 'src/index.ts'] }).findings.filter(f => f.rule === 'broken_link');
+        assert.deepEqual(broken.map(f => f.message), ['Broken link: docs/missing.md']);
+        assert.equal(broken[0].line, 3);
+      },
+    },
+    {
+      name: 'missing README is one error and a zero score',
+      run() {
+        const health = lintReadme(null);
+        assert.equal(health.score, 0);
+        assert.deepEqual(health.findings.map(f => f.rule), ['missing']);
+      },
+    },
+  ],
+};
@@ -0,0 +1,14 @@
+/**
+ * Unit suites: pure functions and injectable classes, no network and no
+ * cassette. Run by scripts/test-unit.ts.
+ */
+
+export interface UnitCase {
+  name: string;
+  run(): void | Promise<void>;
+}
+
+export interface UnitSuite {
+  name: string;
+  cases: UnitCase[];
+}
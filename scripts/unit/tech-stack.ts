@@ -0,0 +1,109 @@
+/**
+ * Manifest parsers (lib/core/tech-stack.ts)
+ */
+
+import assert from 'node:assert/strict';
+import { detectTechStack } from '../../lib/core/tech-stack.js';
+import type { UnitSuite } from './suite.js';
+
+const GO_MOD = `module example.com/tool
+
+go 1.22
+
+require (
+\tgithub.com/spf13/cobra v1.8.0
+\tgolang.org/x/sync v0.6.0 // indirect
+)
+
+require (
+\tgithub.com/charmbracelet/bubbletea v0.25.0
+)
+
+require github.com/gin-gonic/gin v1.9.1
+`;
+
+export const techStackSuite: UnitSuite = {
+  name: 'tech-stack',
+  cases: [
+    {
+      name: 'go.mod: block and single-line requires, no "(" or indirect deps',
+      run() {
+        const stack = detectTechStack({ 'go.mod': GO_MOD });
+        assert.deepEqual(stack.dependencies, [
+          'github.com/spf13/cobra',
+          'github.com/charmbracelet/bubbletea',
+          'github.com/gin-gonic/gin',
+        ]);
+        assert.deepEqual(stack.languages, ['Go']);
+        assert.deepEqual(stack.runtimes, ['Go 1.22']);
+      },
+    },
+    {
+      name: 'go.mod: "require (" alone yields nothing',
+      run() {
+        const stack = detectTechStack({ 'go.mod': 'module m\n\nrequire (\n)\n' });
+        assert.deepEqual(stack.dependencies, []);
+      },
+    },
+    {
+      name: 'package.json: deps, TypeScript from tsconfig, lockfile manager, frameworks',
+      run() {
+        const stack = detectTechStack(
+          { 'package.json': JSON.stringify({ dependencies: { next: '14.0.0', react: '18.0.0' }, devDependencies: { tailwindcss: '3' } }) },
+          ['tsconfig.json', 'pnpm-lock.yaml']
+        );
+        assert.ok(stack.languages.includes('TypeScript'), stack.languages.join());
+        assert.ok(stack.frameworks.includes('Next.js'), stack.frameworks.join());
+        assert.ok(stack.package_managers.includes('pnpm'), stack.package_managers.join());
+        assert.deepEqual(stack.dependencies, ['next', 'react', 'tailwindcss']);
+      },
+    },
+    {
+      name: 'Cargo.toml: inline and [dependencies.x] tables, edition',
+      run() {
+        const stack = detectTechStack({
+          'Cargo.toml': '[package]\nname = "x"\nedition = "2021"\n\n[dependencies]\nserde = "1"\ntokio = { version = "1" }\n\n[dependencies.clap]\nversion = "4"\n',
+        });
+        assert.deepEqual(stack.languages, ['Rust']);
+        assert.deepEqual(stack.runtimes, ['Rust edition 2021']);
+        assert.deepEqual([...stack.dependencies].sort(), ['clap', 'serde', 'tokio']);
+      },
+    },
+    {
+      name: 'requirements.txt: names without versions, comments or options',
+      run() {
+        const stack = detectTechStack({ 'requirements.txt': '# web\nflask==3.0.0\n-r dev.txt\nrequests>=2 # http\n' });
+        assert.deepEqual(stack.dependencies, ['flask', 'requests']);
+        assert.deepEqual(stack.package_managers, ['pip']);
+      },
+    },
+    {
+      name: 'pyproject.toml: PEP 621 items with brackets, requires-python',
+      run() {
+        const stack = detectTechStack({
+          'pyproject.toml': '[project]\nname = "x"\nrequires-python = ">=3.11"\ndependencies = [\n  "fastapi[all]>=0.100",\n  # comment\n  "httpx",\n]\n\n[tool.ruff]\nline-length = 100\n',
+        });
+        assert.deepEqual(stack.dependencies, ['fastapi', 'httpx']);
+        assert.deepEqual(stack.runtimes, ['Python >=3.11']);
+        assert.deepEqual(stack.package_managers, ['pip']);
+        assert.ok(stack.frameworks.includes('FastAPI'));
+      },
+    },
+    {
+      name: 'Dockerfile: the last stage is the runtime image',
+      run() {
+        const stack = detectTechStack({ 'Dockerfile': 'FROM node:20 AS build\nRUN npm ci\nFROM --platform=linux/amd64 nginx:alpine\n' });
+        assert.deepEqual(stack.runtimes, ['nginx:alpine']);
+        assert.deepEqual(stack.frameworks, ['Docker']);
+      },
+    },
+    {
+      name: 'malformed manifest is skipped, not thrown',
+      run() {
+        const stack = detectTechStack({ 'package.json': '{ nope', 'Gemfile': "ruby '3.2.0'\ngem 'rails'\n" });
+        assert.deepEqual(stack.manifests, ['Gemfile']);
+        assert.deepEqual(stack.dependencies, ['rails']);
+      },
+    },
+  ],
+};
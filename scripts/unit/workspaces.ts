@@ -0,0 +1,196 @@
+/**
+ * Workspace detection and rollup (lib/core/workspaces.ts)
+ */
+
+import assert from 'node:assert/strict';
+import { CoreAnalysisSchema, type PackageAnalysis, type Verdict } from '../../lib/core/types.js';
+import { detectWorkspaces, expandGlobs, parseWorkspaceGlobs, rollupPackages, upsertPackage } from '../../lib/core/workspaces.js';
+import type { UnitSuite } from './suite.js';
+
+const PNPM_WORKSPACE = `# workspace
+packages:
+  - 'apps/*'   # deployables
+  - "packages/**"
+
+  - '!**/fixtures/**'
+catalog:
+  react: ^18.0.0
+`;
+
+const CARGO_TOML = `[workspace]
+members = [
+  "crates/*",
+  # the CLI lives outside crates/
+  "cli",
+]
+exclude = ["crates/legacy"]
+
+[workspace.dependencies]
+serde = "1"
+`;
+
+const GO_WORK = `go 1.22
+
+use ./cmd/tool
+
+use (
+\t./pkg/api // public API
+\t.
+\t./internal/store
+)
+`;
+
+function pkg(path: string, verdict: Verdict, hasCore: boolean): PackageAnalysis {
+  return {
+    path,
+    name: path.split('/').pop()!,
+    kind: 'pnpm',
+    analyzed_at: '2026-01-01T00:00:00Z',
+    analysis: CoreAnalysisSchema.parse({
+      one_liner: path,
+      what_it_does: path,
+      has_core: hasCore,
+      core_value: hasCore ? path : null,
+      why_core: null,
+      keep: [],
+      cut: [],
+      verdict,
+      verdict_reason: verdict,
+      tweet_draft: null,
+    }),
+  };
+}
+
+export const workspacesSuite: UnitSuite = {
+  name: 'workspaces',
+  cases: [
+    {
+      name: 'package.json: array and { packages } forms, "!" entries become excludes',
+      run() {
+        assert.deepEqual(
+          parseWorkspaceGlobs({ 'package.json': JSON.stringify({ workspaces: ['packages/*', '!packages/internal'] }) }),
+          [{ kind: 'npm', include: ['packages/*'], exclude: ['packages/internal'] }]
+        );
+        assert.deepEqual(
+          parseWorkspaceGlobs({ 'package.json': JSON.stringify({ workspaces: { packages: ['apps/*'], nohoist: ['**/react'] } }) }),
+          [{ kind: 'npm', include: ['apps/*'], exclude: [] }]
+        );
+        assert.deepEqual(parseWorkspaceGlobs({ 'package.json': '{ "name": "solo" }' }), []);
+        assert.deepEqual(parseWorkspaceGlobs({ 'package.json': '{ not json' }), []);
+      },
+    },
+    {
+      name: 'pnpm-workspace.yaml: quoted items and comments, list ends at the next key',
+      run() {
+        assert.deepEqual(parseWorkspaceGlobs({ 'pnpm-workspace.yaml': PNPM_WORKSPACE }), [
+          { kind: 'pnpm', include: ['apps/*', 'packages/**'], exclude: ['**/fixtures/**'] },
+        ]);
+      },
+    },
+    {
+      name: 'Cargo.toml: [workspace] members and exclude, comments inside the array',
+      run() {
+        assert.deepEqual(parseWorkspaceGlobs({ 'Cargo.toml': CARGO_TOML }), [
+          { kind: 'cargo', include: ['crates/*', 'cli'], exclude: ['crates/legacy'] },
+        ]);
+        assert.deepEqual(parseWorkspaceGlobs({ 'Cargo.toml': '[package]\nname = "solo"\n' }), []);
+      },
+    },
+    {
+      name: 'go.work: single and block "use", comments and "." dropped',
+      run() {
+        assert.deepEqual(parseWorkspaceGlobs({ 'go.work': GO_WORK }), [
+          { kind: 'go', include: ['cmd/tool', 'pkg/api', 'internal/store'], exclude: [] },
+        ]);
+      },
+    },
+    {
+      name: '"*" matches one level; directories need the kind\'s manifest',
+      run() {
+        const files = [
+          'package.json',
+          'packages/a/package.json',
+          'packages/b/README.md',
+          'packages/c/nested/package.json',
+          'crates/core/Cargo.toml',
+        ];
+        assert.deepEqual(expandGlobs({ kind: 'npm', include: ['./packages/*/'], exclude: [] }, files), ['packages/a']);
+        assert.deepEqual(expandGlobs({ kind: 'cargo', include: ['crates/*'], exclude: [] }, files), ['crates/core']);
+        assert.deepEqual(expandGlobs({ kind: 'go', include: ['crates/*'], exclude: [] }, files), []);
+      },
+    },
+    {
+      name: '"**" matches any depth, including the base, and skips node_modules',
+      run() {
+        const files = [
+          'packages/package.json',
+          'packages/ui/package.json',
+          'packages/ui/fixtures/demo/package.json',
+          'packages/tools/lint/package.json',
+          'packages/ui/node_modules/react/package.json',
+          'apps/web/package.json',
+        ];
+        assert.deepEqual(
+          expandGlobs({ kind: 'pnpm', include: ['packages/**'], exclude: [] }, files),
+          ['packages', 'packages/ui', 'packages/ui/fixtures/demo', 'packages/tools/lint']
+        );
+        assert.deepEqual(
+          expandGlobs({ kind: 'pnpm', include: ['packages/**'], exclude: ['**/fixtures/**', 'packages'] }, files),
+          ['packages/ui', 'packages/tools/lint']
+        );
+      },
+    },
+    {
+      name: 'detectWorkspaces merges kinds, first config wins a shared path, sorted',
+      run() {
+        const configs = {
+          'pnpm-workspace.yaml': PNPM_WORKSPACE,
+          'package.json': JSON.stringify({ workspaces: ['apps/*'] }),
+          'go.work': GO_WORK,
+        };
+        const files = [
+          'apps/web/package.json',
+          'packages/ui/package.json',
+          'packages/ui/fixtures/app/package.json',
+          'pkg/api/go.mod',
+          'cmd/tool/go.mod',
+          'internal/store/main.go',
+        ];
+        assert.deepEqual(detectWorkspaces(configs, files), [
+          { path: 'apps/web', name: 'web', kind: 'pnpm' },
+          { path: 'cmd/tool', name: 'tool', kind: 'go' },
+          { path: 'packages/ui', name: 'ui', kind: 'pnpm' },
+          { path: 'pkg/api', name: 'api', kind: 'go' },
+        ]);
+        assert.deepEqual(detectWorkspaces({}, files), []);
+      },
+    },
+    {
+      name: 'rollupPackages: best verdict wins, counts, core packages, skipped',
+      run() {
+        const rollup = rollupPackages([
+          pkg('apps/web', 'cut_to_core', true),
+          pkg('packages/ui', 'ship', true),
+          pkg('packages/old', 'dead', false),
+          pkg('packages/util', 'cut_to_core', false),
+        ], 3);
+        assert.equal(rollup.verdict, 'ship');
+        assert.deepEqual(rollup.counts, { cut_to_core: 2, ship: 1, dead: 1 });
+        assert.deepEqual(rollup.core_packages, ['apps/web', 'packages/ui']);
+        assert.equal(rollup.skipped, 3);
+
+        assert.equal(rollupPackages([pkg('a', 'dead', false), pkg('b', 'no_core', false)]).verdict, 'no_core');
+        assert.deepEqual(rollupPackages([]), { verdict: 'no_core', counts: {}, core_packages: [], skipped: 0 });
+      },
+    },
+    {
+      name: 'upsertPackage replaces by path and keeps path order',
+      run() {
+        const packages = [pkg('apps/web', 'dead', false), pkg('packages/ui', 'ship', true)];
+        const updated = upsertPackage(packages, pkg('apps/web', 'ship', true));
+        assert.deepEqual(updated.map(p => [p.path, p.analysis.verdict]), [['apps/web', 'ship'], ['packages/ui', 'ship']]);
+        assert.deepEqual(upsertPackage(packages, pkg('apps/api', 'dead', false)).map(p => p.path), ['apps/api', 'apps/web', 'packages/ui']);
+      },
+    },
+  ],
+};